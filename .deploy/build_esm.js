@@ -0,0 +1,62 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+// creates the ES module build of 'operators',
+// which is used by 'import' statements
+//
+// the operators share the CommonJS build of 'internal'
+// with 'index', so symbols like 'NOT_FOUND' and the error
+// classes are the same in both builds
+
+const FS = require("fs");
+const Path = require("path");
+const TypeScript = require("typescript");
+
+// workspace & 'esm' folders
+const WORKSPACE = Path.resolve(Path.join(__dirname, "../"));
+const ESM = Path.resolve(Path.join(WORKSPACE, "esm"));
+
+const SOURCE = FS.readFileSync(Path.join(WORKSPACE, "operators.ts")).toString(
+  "utf8",
+);
+
+const OUTPUT = TypeScript.transpileModule(SOURCE, {
+  compilerOptions: {
+    module: TypeScript.ModuleKind.ES2015,
+    target: TypeScript.ScriptTarget.ES2019,
+  },
+  fileName: "operators.ts",
+});
+
+if (!FS.existsSync(ESM)) {
+  FS.mkdirSync(ESM);
+}
+
+FS.writeFileSync(
+  Path.join(ESM, "operators.js"),
+  OUTPUT.outputText.replace(/from "\.\/internal"/g, 'from "../internal.js"'),
+);
+FS.writeFileSync(
+  Path.join(ESM, "package.json"),
+  JSON.stringify({ type: "module", sideEffects: false }, null, 2) + "\n",
+);
@@ -3,7 +3,14 @@
  *
  * Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
  */
+import Internal = require("./internal");
+import Operators = require("./operators");
 declare namespace Enumerable {
+  import BinaryHeap = Internal.BinaryHeap;
+  import EqualityMap = Internal.EqualityMap;
+  import FusedStage = Internal.FusedStage;
+  import OrderLevel = Internal.OrderLevel;
+  import RingBuffer = Internal.RingBuffer;
   /**
    * An async action.
    *
@@ -11,13 +18,13 @@ declare namespace Enumerable {
    *
    * @param {AsyncActionContext<T>} context The underlying context.
    */
-  type AsyncAction<T = any> = (context: AsyncActionContext<T>) => void;
+  export type AsyncAction<T = any> = (context: AsyncActionContext<T>) => void;
   /**
    * A context for an async action.
    *
    * @template T Type of the underlying item.
    */
-  interface AsyncActionContext<T = any> {
+  export interface AsyncActionContext<T = any> {
     /**
      * Cancels the whole operation.
      *
@@ -67,6 +74,60 @@ declare namespace Enumerable {
      */
     value: any;
   }
+  /**
+   * An async forEach action.
+   *
+   * @template T Type of the items.
+   *
+   * @param {T} item The current item.
+   * @param {number} index The zero based index of the current item.
+   *
+   * @return {void|PromiseLike<void>} The (optional) promise.
+   */
+  export type AsyncEachAction<T = any> = (
+    item: T,
+    index: number,
+  ) => void | PromiseLike<void>;
+  /**
+   * A predicate / condition that can also be resolved asynchronously.
+   *
+   * @template T Type of the item to check.
+   *
+   * @param {T} The item to check.
+   *
+   * @return {boolean|PromiseLike<boolean>} Item satisfies the condition or not.
+   */
+  export type AsyncPredicate<T = any> = (
+    item: T,
+  ) => boolean | PromiseLike<boolean>;
+  /**
+   * A selector that can also be resolved asynchronously.
+   *
+   * @template T Type of the source item.
+   * @template U Type of the new item.
+   *
+   * @param {T} item The source item.
+   *
+   * @return {U|PromiseLike<U>} The new item.
+   */
+  export type AsyncSelector<T = any, U = any> = (item: T) => U | PromiseLike<U>;
+  /**
+   * Possible async sequence types.
+   *
+   * @template T Type of the items.
+   */
+  export type AsyncSequence<T = any> =
+    | AsyncIterable<T>
+    | AsyncIterator<T>
+    | Sequence<T>;
+  /**
+   * Strategies, what to do, if a buffer is full.
+   *
+   * 'drop-newest': ignore the new item
+   * 'drop-oldest': remove the oldest item from the buffer
+   * 'error': fail with a RangeError
+   */
+  export type BufferOverflowStrategy = "drop-newest" | "drop-oldest" | "error";
   /**
    * A factory function that can be cancelled.
    *
@@ -77,10 +138,56 @@ declare namespace Enumerable {
    *
    * @return {TResult} The result.
    */
-  type CancelableFactory<TResult = any> = (
+  export type CancelableFactory<TResult = any> = (
     cancel: (flag?: boolean) => void,
     index: number,
   ) => TResult;
+  /**
+   * A collector, which reduces the items of a sequence in one pass,
+   * by using a mutable container.
+   *
+   * @template T Type of the items.
+   * @template A Type of the container.
+   * @template R Type of the result.
+   */
+  export interface Collector<T = any, A = any, R = A> {
+    /**
+     * Adds an item to a container.
+     *
+     * If a value is returned, it is used as new container,
+     * what is useful for immutable ones, like numbers.
+     *
+     * @param {A} container The container.
+     * @param {T} item The item to add.
+     *
+     * @return {A|void} The new container or nothing, to keep the current one.
+     */
+    accumulator: (container: A, item: T) => A | void;
+    /**
+     * Merges two containers, which have been filled independently.
+     *
+     * @param {A} left The first container.
+     * @param {A} right The second container.
+     *
+     * @return {A} The merged container.
+     */
+    combiner?: (left: A, right: A) => A;
+    /**
+     * Converts a container to the final result.
+     * If not defined, the container is the result.
+     *
+     * @param {A} container The container.
+     *
+     * @return {R} The result.
+     */
+    finisher?: (container: A) => R;
+    /**
+     * Creates a new and empty container.
+     *
+     * @return {A} The new container.
+     */
+    supplier: () => A;
+  }
   /**
    * Compares to values.
    *
@@ -92,7 +199,52 @@ declare namespace Enumerable {
    *
    * @return {number} The "sort" value.
    */
-  type Comparer<T = any, U = T> = (x: T, y: U) => number;
+  export type Comparer<T = any, U = T> = (x: T, y: U) => number;
+  /**
+   * Merges the values of two items with the same key.
+   *
+   * @template TValue Type of the values.
+   * @template TKey Type of the key.
+   *
+   * @param {TValue} existingValue The value, which has already been stored for the key.
+   * @param {TValue} newValue The new value.
+   * @param {TKey} key The key.
+   *
+   * @return {TValue} The merged value.
+   */
+  export type DuplicateKeyMerger<TValue = any, TKey = any> = (
+    existingValue: TValue,
+    newValue: TValue,
+    key: TKey,
+  ) => TValue;
+  /**
+   * Options for methods, like 'toMap()' or 'toRecord()', which store values by keys.
+   *
+   * @template TValue Type of the values.
+   * @template TKey Type of the keys.
+   */
+  export interface DuplicateKeyOptions<TValue = any, TKey = any> {
+    /**
+     * Defines what happens if two items have the same key:
+     *
+     * - 'throw': throw a 'DuplicateKeyError' (default)
+     * - 'first': keep the value of the first item
+     * - 'last': keep the value of the last item
+     * - a function, which merges the values
+     */
+    onDuplicate?: DuplicateKeyPolicy<TValue, TKey>;
+  }
+  /**
+   * Possible values for 'DuplicateKeyOptions.onDuplicate'.
+   *
+   * @template TValue Type of the values.
+   * @template TKey Type of the keys.
+   */
+  export type DuplicateKeyPolicy<TValue = any, TKey = any> =
+    | "first"
+    | "last"
+    | "throw"
+    | DuplicateKeyMerger<TValue, TKey>;
   /**
    * A forEach action.
    *
@@ -101,10 +253,14 @@ declare namespace Enumerable {
    * @param {T} item The current item.
    * @param {number} index The zero based index of the current item.
    */
-  type EachAction<T = any> = (item: T, index: number) => void;
+  export type EachAction<T = any> = (item: T, index: number) => void;
   /**
    * Checks if two values are equal.
    *
+   * Such a function provides no hash codes, so hash based operations,
+   * like 'distinct()' or 'HashSet', have to compare all items with each other.
+   * Use an 'IEqualityComparer' for large sequences instead.
+   *
    * @template T Type of the "left" value.
    * @template U Type of the "right" value.
    *
@@ -113,18 +269,64 @@ declare namespace Enumerable {
    *
    * @return {boolean} Are equal or not.
    */
-  type EqualityComparer<T = any, U = T> = (x: T, y: U) => boolean;
+  export type EqualityComparer<T = any, U = T> = (x: T, y: U) => boolean;
+  /**
+   * An object, like a Node.js EventEmitter, that emits events.
+   */
+  export interface EventEmitterLike {
+    /**
+     * Registers a listener for an event.
+     *
+     * @param {string|symbol} eventName The name of the event.
+     * @param {Function} listener The listener.
+     */
+    on(eventName: string | symbol, listener: (...args: any[]) => void): any;
+    /**
+     * Removes a listener of an event.
+     *
+     * @param {string|symbol} eventName The name of the event.
+     * @param {Function} listener The listener.
+     */
+    removeListener(
+      eventName: string | symbol,
+      listener: (...args: any[]) => void,
+    ): any;
+  }
+  /**
+   * Options for 'fromEvent()' function.
+   */
+  export interface FromEventOptions {
+    /**
+     * The maximum number of events, which are buffered
+     * until they are read by the sequence. Default: no limit
+     */
+    bufferSize?: number;
+    /**
+     * The name of the event, that ends the sequence.
+     */
+    endEvent?: string | symbol;
+    /**
+     * The name of the event, that makes the sequence fail. Default: 'error'
+     */
+    errorEvent?: string | symbol;
+    /**
+     * What to do, if the buffer is full. Default: 'error'
+     */
+    overflow?: BufferOverflowStrategy;
+  }
   /**
    * An item message (provider).
    */
-  type ItemMessage<T = any> = string | ((item: T, index?: number) => any);
+  export type ItemMessage<T = any> =
+    | string
+    | ((item: T, index?: number) => any);
   /**
    * Saves joined values.
    *
    * @template TOuter Type of the outer value.
    * @template TInner Type of the inner value.
    */
-  interface JoinedItems<TOuter = any, TInner = any> {
+  export interface JoinedItems<TOuter = any, TInner = any> {
     /**
      * The inner value.
      */
@@ -134,10 +336,51 @@ declare namespace Enumerable {
      */
     outer: TOuter;
   }
+  /**
+   * The implementation of a custom operator, which is registered by
+   * 'registerOperator()'.
+   *
+   * 'this' is the sequence, the operator is invoked on.
+   *
+   * @template T Type of the items.
+   */
+  export type OperatorImplementation<T = any> = (
+    this: IEnumerable<T>,
+    ...args: any[]
+  ) => any;
+  /**
+   * Options for parallel operations, like 'selectParallel()'.
+   */
+  export interface ParallelOptions {
+    /**
+     * The maximum number of items that are handled at the same time. Default: 1
+     */
+    concurrency?: number;
+    /**
+     * Return the results in the order of the source items (true)
+     * or in the order they have been completed (false). Default: (true)
+     */
+    preserveOrder?: boolean;
+  }
+  /**
+   * A selector for parallel operations.
+   *
+   * @template T Type of the source item.
+   * @template U Type of the new item.
+   *
+   * @param {T} item The source item.
+   * @param {number} index The zero based index of the source item.
+   *
+   * @return {U|PromiseLike<U>} The new item.
+   */
+  export type ParallelSelector<T = any, U = any> = (
+    item: T,
+    index: number,
+  ) => U | PromiseLike<U>;
   /**
    * A collection that can be popped.
    */
-  interface PoppableStack<T = any> {
+  export interface PoppableStack<T = any> {
     /**
      * The length of the stack.
      */
@@ -158,7 +401,25 @@ declare namespace Enumerable {
    *
    * @return {boolean} Item satisfies the condition or not.
    */
-  type Predicate<T = any> = (item: T) => boolean;
+  export type Predicate<T = any> = (item: T) => boolean;
+  /**
+   * A reducer, which adds an item to an accumulator value.
+   *
+   * The result can be wrapped by 'reduced()', to signal, that
+   * no more items are required.
+   *
+   * @template TAccumulate Type of the accumulator value.
+   * @template T Type of the items.
+   *
+   * @param {TAccumulate} accumulator The current accumulator value.
+   * @param {T} item The item to add.
+   *
+   * @return {TAccumulate|ReducedValue<TAccumulate>} The new accumulator value.
+   */
+  export type Reducer<TAccumulate = any, T = any> = (
+    accumulator: TAccumulate,
+    item: T,
+  ) => TAccumulate | ReducedValue<TAccumulate>;
   /**
    * A selector.
    *
@@ -169,13 +430,13 @@ declare namespace Enumerable {
    *
    * @return {U} The new item.
    */
-  type Selector<T = any, U = any> = (item: T) => U;
+  export type Selector<T = any, U = any> = (item: T) => U;
   /**
    * Possible sequence types.
    *
    * @template T Type of the items.
    */
-  type Sequence<T = any> =
+  export type Sequence<T = any> =
     | ArrayLike<T>
     | Iterable<T>
     | Iterator<T>
@@ -183,7 +444,7 @@ declare namespace Enumerable {
   /**
    * A collection that can be shifted.
    */
-  interface ShiftableStack<T = any> {
+  export interface ShiftableStack<T = any> {
     /**
      * The length of the stack.
      */
@@ -200,7 +461,7 @@ declare namespace Enumerable {
    *
    * @template T The type of the items.
    */
-  interface Stack<T = any> {
+  export interface Stack<T = any> {
     /**
      * Pushes one or more item to the stack.
      *
@@ -210,143 +471,455 @@ declare namespace Enumerable {
      */
     push(...items: Array<T>): number;
   }
+  /**
+   * A statistics summary, like created by 'Collectors.summarizing()'.
+   */
+  export interface StatisticsSummary {
+    /**
+     * The average value or NaN if there are no values.
+     */
+    average: number;
+    /**
+     * The number of values.
+     */
+    count: number;
+    /**
+     * The maximum value or NaN if there are no values.
+     */
+    max: number;
+    /**
+     * The minimum value or NaN if there are no values.
+     */
+    min: number;
+    /**
+     * The sum of all values.
+     */
+    sum: number;
+  }
+  /**
+   * A transducer, which transforms a reducer of target items
+   * to a reducer of source items.
+   *
+   * @template T Type of the source items.
+   * @template U Type of the target items.
+   *
+   * @param {Reducer<TAccumulate, U>} reducer The reducer of the target items.
+   *
+   * @return {Reducer<TAccumulate, T>} The reducer of the source items.
+   */
+  export type Transducer<T = any, U = T> = <TAccumulate>(
+    reducer: Reducer<TAccumulate, U>,
+  ) => Reducer<TAccumulate, T>;
+  /**
+   * A constructor (class), which can be used with 'instanceof'.
+   *
+   * @template T Type of the instances.
+   */
+  export type TypeConstructor<T = any> = abstract new (...args: any[]) => T;
+  /**
+   * A predicate / condition, which narrows the type of an item.
+   *
+   * @template T Type of the item to check.
+   * @template U The narrowed type.
+   *
+   * @param {T} The item to check.
+   *
+   * @return {boolean} Item is of type U or not.
+   */
+  export type TypeGuard<T = any, U extends T = T> = (item: T) => item is U;
+  /**
+   * Options for 'IEnumerable.windowed()'.
+   */
+  export interface WindowedOptions {
+    /**
+     * Also return the windows at the end of the sequence,
+     * which are smaller than the window size. Default: (false)
+     */
+    partial?: boolean;
+  }
+  /**
+   * Indicates that something is an async enumerable (sequence).
+   */
+  export const IS_ASYNC_ENUMERABLE: unique symbol;
   /**
    * Indicates that something is empty.
    */
-  const IS_EMPTY: unique symbol;
+  export import IS_EMPTY = Internal.IS_EMPTY;
   /**
    * Indicates that something is an enumerable (sequence).
    */
-  const IS_ENUMERABLE: unique symbol;
+  export const IS_ENUMERABLE: unique symbol;
   /**
    * Indicates if something was not found.
    */
-  const NOT_FOUND: unique symbol;
+  export import NOT_FOUND = Internal.NOT_FOUND;
   /**
-   * A sequence.
+   * An async sequence.
    *
    * @template T Type of the items.
    */
-  interface IEnumerable<T = any> extends Iterable<T>, Iterator<T> {
+  export interface IAsyncEnumerable<T = any>
+    extends AsyncIterable<T>,
+      AsyncIterator<T> {
     /**
-     * Handles current items as numbers and returns their absolute values.
+     * Collects the items of that sequence into arrays, which are emitted
+     * periodically. Empty arrays are not emitted.
      *
-     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
-     *                                Default: (false)
+     * @param {number} timeSpan The time span, in milliseconds, of a buffer.
+     * @param {number} [maxSize] The maximum size of a buffer. If reached, the buffer is emitted immediately.
+     * @param {IScheduler} [scheduler] The custom scheduler.
      *
-     * @return {IEnumerable<number>} The new sequence.
+     * @returns {IAsyncEnumerable<T[]>} The new sequence.
      */
-    abs(handleAsInt?: boolean): IEnumerable<number>;
+    bufferTime(
+      timeSpan: number,
+      maxSize?: number,
+      scheduler?: IScheduler,
+    ): IAsyncEnumerable<T[]>;
     /**
-     * Applies an accumulator function over that sequence.
-     * If specified 'seed' is used as the initial accumulator value,
-     * and (if specified) the 'resultSelector' is used to select the result value.
-     *
-     * @template TAccumulate The type of the accumulator value.
-     * @template TResult The result type.
+     * Counts the elements of that sequence.
      *
-     * @param {(acc: TAccumulate, item: T) => TAccumulate} func An accumulator function to be invoked on each element.
-     * @param {TAccumulate} [seed] The initial accumulator value.
-     * @param {(acc: TAccumulate) => TResult} [resultSelector] A function to transform the final accumulator value
-     *                                                         into the result value.
+     * @param {AsyncPredicate<T>} [predicate] The optional predicate to use.
      *
-     * @returns {TResult} The final value.
+     * @returns {Promise<number>} The promise with the number of (matching) items.
      */
-    aggregate<TAccumulate = T, TResult = T>(
-      func: (accumulator: TAccumulate, item: T) => TAccumulate,
-      seed?: TAccumulate,
-      resultSelector?: (accumulator: TAccumulate) => TResult,
-    ): TResult;
+    count(predicate?: AsyncPredicate<T>): Promise<number>;
     /**
-     * Checks if all elements of that sequence
-     * satisfy a condition or not.
-     *
-     * @param {Predicate<T>} predicate The condition.
-     *
-     * @returns {boolean} All elements satisfy the condition or not.
+     * Gets the current iterator result.
      */
-    all(predicate: Predicate<T>): boolean;
+    readonly current: IteratorResult<T>;
     /**
-     * Checks if at least one element of that sequence
-     * satisfies a condition or not.
+     * Emits an item only, if no other item has been emitted
+     * by that sequence for a specific time.
      *
-     * @param {Predicate<T>} predicate The condition.
+     * @param {number} dueTime The time, in milliseconds, to wait for other items.
+     * @param {IScheduler} [scheduler] The custom scheduler.
      *
-     * @returns {boolean} One element satisfies the condition or not.
+     * @returns {IAsyncEnumerable<T>} The new sequence.
      */
-    any(predicate?: Predicate<T>): boolean;
+    debounce(dueTime: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
     /**
-     * Alias for concat()
+     * Delays each item of that sequence.
+     *
+     * @param {number} dueTime The time, in milliseconds, to wait before an item is emitted.
+     * @param {IScheduler} [scheduler] The custom scheduler.
+     *
+     * @returns {IAsyncEnumerable<T>} The new sequence.
      */
-    append<U = T>(...args: Sequence<U>[]): IEnumerable<T | U>;
+    delay(dueTime: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
     /**
-     * Alias for concatArray()
+     * Returns the first element of that sequence.
+     *
+     * @param {AsyncPredicate<T>} [predicate] The optional predicate to use.
+     *
+     * @returns {Promise<T>} The promise with the first element.
+     *
+     * @throws Element not found.
      */
-    appendArray<U = T>(sequences: ArrayLike<Sequence<U>>): IEnumerable<T | U>;
+    first(predicate?: AsyncPredicate<T>): Promise<T>;
     /**
-     * Handles current items as numbers and calculates the arc cosine for each item.
+     * Invokes a (promise returning) function for each element of that sequence,
+     * with a maximum number of invocations at the same time. All occurred errors
+     * will be thrown at the end, wrapped as FunctionError, inside an AggregateError.
      *
-     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
-     *                                Default: (false)
+     * @param {AsyncEachAction<T>} action The action to invoke.
+     * @param {ParallelOptions} [options] Custom options.
      *
-     * @return {IEnumerable<number>} The new sequence.
+     * @returns {Promise<void>} The promise.
      */
-    arcCos(handleAsInt?: boolean): IEnumerable<number>;
+    forEachParallel(
+      action: AsyncEachAction<T>,
+      options?: ParallelOptions,
+    ): Promise<void>;
     /**
-     * Handles current items as numbers and calculates the arc hyperbolic cosine for each item.
+     * Groups the items of that sequence by a key.
      *
-     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
-     *                                Default: (false)
+     * @template TKey Type of the keys.
      *
-     * @return {IEnumerable<number>} The new sequence.
+     * @param {AsyncSelector<T, TKey>} keySelector The key selector.
+     * @param {EqualityComparer<TKey>|IEqualityComparer<TKey>} [keyEqualityComparer] The custom equality comparer for the keys.
+     *
+     * @returns {IAsyncEnumerable<IGrouping<TKey, T>>} The grouped items.
      */
-    arcCosH(handleAsInt?: boolean): IEnumerable<number>;
+    groupBy<TKey>(
+      keySelector: AsyncSelector<T, TKey>,
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+    ): IAsyncEnumerable<IGrouping<TKey, T>>;
     /**
-     * Handles current items as numbers and calculates the arc sine for each item.
+     * Gets the current zero based index.
+     */
+    readonly index: number;
+    /**
+     * Sorts the elements of that sequence in ascending order.
      *
-     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
-     *                                Default: (false)
+     * @param {AsyncSelector<T,U>} selector The key selector.
+     * @param {Comparer<U>} [comparer] The custom key comparer to use.
      *
-     * @return {IEnumerable<number>} The new sequence.
+     * @return {IAsyncEnumerable<T>} The new sequence.
      */
-    arcSin(handleAsInt?: boolean): IEnumerable<number>;
+    orderBy<U>(
+      selector: AsyncSelector<T, U>,
+      comparer?: Comparer<U>,
+    ): IAsyncEnumerable<T>;
     /**
-     * Handles current items as numbers and calculates the arc hyperbolic sine for each item.
+     * Sorts the elements of that sequence in descending order.
      *
-     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
-     *                                Default: (false)
+     * @param {AsyncSelector<T,U>} selector The key selector.
+     * @param {Comparer<U>} [comparer] The custom key comparer to use.
      *
-     * @return {IEnumerable<number>} The new sequence.
+     * @return {IAsyncEnumerable<T>} The new sequence.
      */
-    arcSinH(handleAsInt?: boolean): IEnumerable<number>;
+    orderByDescending<U>(
+      selector: AsyncSelector<T, U>,
+      comparer?: Comparer<U>,
+    ): IAsyncEnumerable<T>;
     /**
-     * Handles current items as numbers and calculates the arc tangent for each item.
+     * Emits the latest item of that sequence periodically,
+     * if there is a new one since the last period.
      *
-     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
-     *                                Default: (false)
+     * @param {number} period The period, in milliseconds.
+     * @param {IScheduler} [scheduler] The custom scheduler.
      *
-     * @return {IEnumerable<number>} The new sequence.
+     * @returns {IAsyncEnumerable<T>} The new sequence.
      */
-    arcTan(handleAsInt?: boolean): IEnumerable<number>;
+    sample(period: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
     /**
-     * Handles current items as numbers and calculates the arc hyperbolic tangent for each item.
+     * Projects the items of that sequence to new values / objects.
      *
-     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
-     *                                Default: (false)
+     * @template U The type of the new items.
      *
-     * @return {IEnumerable<number>} The new sequence.
+     * @param {AsyncSelector<T, U>} selector
+     *
+     * @returns {IAsyncEnumerable<U>} The new sequence.
      */
-    arcTanH(handleAsInt?: boolean): IEnumerable<number>;
+    select<U>(selector: AsyncSelector<T, U>): IAsyncEnumerable<U>;
     /**
-     * Asserts that all elements of that sequence meet a given condition,
-     * otherwise an error is throw at first fail.
+     * Projects the items of that sequence to new sequences
+     * that are flatten to a single sequence.
      *
-     * @param {Predicate<T>} predicate The predicate / condition.
-     * @param {string|((item: T, index: number) => any)} [errMsg] The custom error message to return.
+     * @template U Type of the items of the result sequences.
      *
-     * @chainable
+     * @param {AsyncSelector<T, AsyncSequence<U>>} selector The selector.
      *
-     * @throws One element failed.
+     * @returns {IAsyncEnumerable<U>} The new, flatten sequence.
+     */
+    selectMany<U>(
+      selector: AsyncSelector<T, AsyncSequence<U>>,
+    ): IAsyncEnumerable<U>;
+    /**
+     * Projects the items of that sequence to new values / objects
+     * by using a (promise returning) selector, with a maximum number of invocations
+     * at the same time. All occurred errors will be thrown at the end,
+     * wrapped as FunctionError, inside an AggregateError.
+     *
+     * @template U The type of the new items.
+     *
+     * @param {ParallelSelector<T, U>} selector The selector.
+     * @param {ParallelOptions} [options] Custom options.
+     *
+     * @returns {IAsyncEnumerable<U>} The new sequence.
+     */
+    selectParallel<U>(
+      selector: ParallelSelector<T, U>,
+      options?: ParallelOptions,
+    ): IAsyncEnumerable<U>;
+    /**
+     * Skips a maximum number of items.
+     *
+     * @param {number} [count] The number of items to skip. Default: 1
+     *
+     * @return {IAsyncEnumerable<T>} The new sequence.
+     */
+    skip(count?: number): IAsyncEnumerable<T>;
+    /**
+     * Skips items while a condition satisfies.
+     *
+     * @param {AsyncPredicate<T>} [predicate] The predicate to use.
+     *
+     * @return {IAsyncEnumerable<T>} The new sequence.
+     */
+    skipWhile(predicate: AsyncPredicate<T>): IAsyncEnumerable<T>;
+    /**
+     * Takes a maximum number of items.
+     *
+     * @param {number} [count] The maximum number of items. Default: 1
+     *
+     * @return {IAsyncEnumerable<T>} The new sequence.
+     */
+    take(count?: number): IAsyncEnumerable<T>;
+    /**
+     * Takes items while a condition satisfies.
+     *
+     * @param {AsyncPredicate<T>} [predicate] The predicate to use.
+     *
+     * @return {IAsyncEnumerable<T>} The new sequence.
+     */
+    takeWhile(predicate: AsyncPredicate<T>): IAsyncEnumerable<T>;
+    /**
+     * Emits an item of that sequence and ignores all following items
+     * for a specific time.
+     *
+     * @param {number} duration The time, in milliseconds, to ignore items.
+     * @param {IScheduler} [scheduler] The custom scheduler.
+     *
+     * @returns {IAsyncEnumerable<T>} The new sequence.
+     */
+    throttle(duration: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
+    /**
+     * Fails with a TimeoutError, if that sequence does not provide
+     * its next item within a specific time.
+     *
+     * @param {number} dueTime The maximum time, in milliseconds, to wait for an item.
+     * @param {IScheduler} [scheduler] The custom scheduler.
+     *
+     * @returns {IAsyncEnumerable<T>} The new sequence.
+     */
+    timeout(dueTime: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
+    /**
+     * Creates a new array from the items of that sequence.
+     *
+     * @returns {Promise<Array<T>>} The promise with the sequence as array.
+     */
+    toArray(): Promise<Array<T>>;
+    /**
+     * Filters the items of that sequence.
+     *
+     * @param {AsyncPredicate<T>} predicate The predicate to use.
+     *
+     * @return {IAsyncEnumerable<T>} The filtered sequence.
+     */
+    where(predicate: AsyncPredicate<T>): IAsyncEnumerable<T>;
+  }
+  /**
+   * A sequence.
+   *
+   * @template T Type of the items.
+   */
+  export interface IEnumerable<T = any> extends Iterable<T>, Iterator<T> {
+    /**
+     * Handles current items as numbers and returns their absolute values.
+     *
+     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
+     *                                Default: (false)
+     *
+     * @return {IEnumerable<number>} The new sequence.
+     */
+    abs(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Applies an accumulator function over that sequence.
+     * If specified 'seed' is used as the initial accumulator value,
+     * and (if specified) the 'resultSelector' is used to select the result value.
+     *
+     * @template TAccumulate The type of the accumulator value.
+     * @template TResult The result type.
+     *
+     * @param {Reducer<TAccumulate, T>} func An accumulator function to be invoked on each element.
+     *                                       If it returns a value, wrapped by 'reduced()',
+     *                                       the operation stops without reading further elements.
+     * @param {TAccumulate} [seed] The initial accumulator value.
+     * @param {(acc: TAccumulate) => TResult} [resultSelector] A function to transform the final accumulator value
+     *                                                         into the result value.
+     *
+     * @returns {TResult} The final value.
+     */
+    aggregate<TAccumulate = T, TResult = T>(
+      func: Reducer<TAccumulate, T>,
+      seed?: TAccumulate,
+      resultSelector?: (accumulator: TAccumulate) => TResult,
+    ): TResult;
+    /**
+     * Checks if all elements of that sequence
+     * satisfy a condition or not.
+     *
+     * A type guard does not narrow the type of that sequence,
+     * because its elements have been consumed by the check.
+     *
+     * @param {Predicate<T>} predicate The condition.
+     *
+     * @returns {boolean} All elements satisfy the condition or not.
+     */
+    all(predicate: Predicate<T>): boolean;
+    /**
+     * Checks if at least one element of that sequence
+     * satisfies a condition or not.
+     *
+     * @param {Predicate<T>} predicate The condition.
+     *
+     * @returns {boolean} One element satisfies the condition or not.
+     */
+    any(predicate?: Predicate<T>): boolean;
+    /**
+     * Alias for concat()
+     */
+    append<U = T>(...args: Sequence<U>[]): IEnumerable<T | U>;
+    /**
+     * Alias for concatArray()
+     */
+    appendArray<U = T>(sequences: ArrayLike<Sequence<U>>): IEnumerable<T | U>;
+    /**
+     * Handles current items as numbers and calculates the arc cosine for each item.
+     *
+     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
+     *                                Default: (false)
+     *
+     * @return {IEnumerable<number>} The new sequence.
+     */
+    arcCos(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Handles current items as numbers and calculates the arc hyperbolic cosine for each item.
+     *
+     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
+     *                                Default: (false)
+     *
+     * @return {IEnumerable<number>} The new sequence.
+     */
+    arcCosH(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Handles current items as numbers and calculates the arc sine for each item.
+     *
+     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
+     *                                Default: (false)
+     *
+     * @return {IEnumerable<number>} The new sequence.
+     */
+    arcSin(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Handles current items as numbers and calculates the arc hyperbolic sine for each item.
+     *
+     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
+     *                                Default: (false)
+     *
+     * @return {IEnumerable<number>} The new sequence.
+     */
+    arcSinH(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Handles current items as numbers and calculates the arc tangent for each item.
+     *
+     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
+     *                                Default: (false)
+     *
+     * @return {IEnumerable<number>} The new sequence.
+     */
+    arcTan(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Handles current items as numbers and calculates the arc hyperbolic tangent for each item.
+     *
+     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
+     *                                Default: (false)
+     *
+     * @return {IEnumerable<number>} The new sequence.
+     */
+    arcTanH(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Asserts that all elements of that sequence meet a given condition,
+     * otherwise an error is throw at first fail.
+     *
+     * @param {Predicate<T>} predicate The predicate / condition.
+     * @param {string|((item: T, index: number) => any)} [errMsg] The custom error message to return.
+     *
+     * @chainable
+     *
+     * @throws One element failed.
      */
     assert(predicate: Predicate<T>, errMsg?: ItemMessage<T>): this;
     /**
@@ -367,10 +940,17 @@ declare namespace Enumerable {
      * @param AsyncAction<T> action The action to invoke.
      * @param AsyncCallback [callback] The callback.
      * @param {any} [previousValue] The value for the 'previousValue' of the first action.
+     * @param {AbortSignal} [signal] The optional signal, that can abort the whole operation.
      *
      * @returns {Promise<any>} The promise.
+     *
+     * @throws {AbortError} The operation has been aborted.
      */
-    async(action: AsyncAction<T>, previousValue?: any): Promise<any>;
+    async(
+      action: AsyncAction<T>,
+      previousValue?: any,
+      signal?: AbortSignal,
+    ): Promise<any>;
     /**
      * Calculates the average of the items of that sequence.
      *
@@ -379,6 +959,26 @@ declare namespace Enumerable {
      * @returns {number|symbol} The average or IS_EMPTY if sequence is empty.
      */
     average(selector?: Selector<T, number>): number | symbol;
+    /**
+     * Returns the items with the lowest keys, in ascending order,
+     * without sorting the whole sequence.
+     *
+     * Items with equal keys keep their order.
+     *
+     * @template U Type of the keys.
+     *
+     * @param {number} [count] The maximum number of items to return.
+     *                         Default: all items, which is also used for an infinite value.
+     * @param {Selector<T,U>} [selector] The key selector.
+     * @param {Comparer<U>} [comparer] The custom key comparer to use.
+     *
+     * @return {IEnumerable<T>} The new sequence.
+     */
+    bottomBy<U = T>(
+      count?: number,
+      selector?: Selector<T, U>,
+      comparer?: Comparer<U>,
+    ): IEnumerable<T>;
     /**
      * Gets if that sequence can be resetted or not.
      */
@@ -426,6 +1026,17 @@ declare namespace Enumerable {
       count?: number,
       itemSelector?: Selector<T, U>,
     ): IEnumerable<IEnumerable<U>>;
+    /**
+     * Reduces the items of that sequence in one pass by using a collector.
+     *
+     * @template A Type of the container of the collector.
+     * @template R Type of the result.
+     *
+     * @param {Collector<T, A, R>} collector The collector.
+     *
+     * @return {R} The result of the collector.
+     */
+    collect<A, R = A>(collector: Collector<T, A, R>): R;
     /**
      * Concats the items of that sequences with other ones
      * to a new sequence.
@@ -518,24 +1129,26 @@ declare namespace Enumerable {
     /**
      * Removes duplicate entries from that sequence.
      *
-     * @param {EqualityComparer<T>} [comparer] The custom equality comparer to use.
-     *                                         (true) indicates to do a === check.
+     * @param {EqualityComparer<T>|IEqualityComparer<T>} [comparer] The custom equality comparer to use.
+     *                                                              (true) indicates to do a === check.
      *
      * @returns {IEnumerable<T>} The new sequence.
      */
-    distinct(comparer?: EqualityComparer<T> | true): IEnumerable<T>;
+    distinct(
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+    ): IEnumerable<T>;
     /**
      * Removes duplicate entries from that sequence by using a selector.
      *
      * @param {Selector<T,U>} selector The selector to use.
-     * @param {EqualityComparer<T>} [comparer] The custom equality comparer to use.
-     *                                         (true) indicates to do a === check.
+     * @param {EqualityComparer<U>|IEqualityComparer<U>} [comparer] The custom equality comparer to use.
+     *                                                              (true) indicates to do a === check.
      *
      * @returns {IEnumerable<T>} The new sequence.
      */
     distinctBy<U>(
       selector: Selector<T, U>,
-      comparer?: EqualityComparer<U> | true,
+      comparer?: EqualityComparer<U> | IEqualityComparer<U> | true,
     ): IEnumerable<T>;
     /**
      * Alias for forEach()
@@ -572,13 +1185,13 @@ declare namespace Enumerable {
      * Returns the items of that sequence except a list of specific ones.
      *
      * @param {Sequence<T>} second The second sequence.
-     * @param {EqualityComparer<T>|true} [equalityComparer] The custom equality comparer to use.
+     * @param {EqualityComparer<T>|IEqualityComparer<T>|true} [equalityComparer] The custom equality comparer to use.
      *
      * @return {IEnumerable<T>} The new sequence.
      */
     except(
       second: Sequence<T>,
-      comparer?: EqualityComparer<T> | true,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
     ): IEnumerable<T>;
     /**
      * Handles current items as numbers and calculates e (the base of natural logarithms) raised to each value.
@@ -589,6 +1202,18 @@ declare namespace Enumerable {
      * @return {IEnumerable<number>} The new sequence.
      */
     exp(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Returns the first element of that sequence, which is of a specific type.
+     *
+     * @template U The narrowed type.
+     *
+     * @param {TypeGuard<T, U>} predicate The type guard.
+     *
+     * @returns {U} The first element.
+     *
+     * @throws Element not found.
+     */
+    first<U extends T>(predicate: TypeGuard<T, U>): U;
     /**
      * Returns the first element of that sequence.
      *
@@ -645,29 +1270,48 @@ declare namespace Enumerable {
      * @chainable
      */
     forEach(func: EachAction<T>): this;
+    /**
+     * Invokes a (promise returning) function for each element of that sequence,
+     * with a maximum number of invocations at the same time. All occurred errors
+     * will be thrown at the end, wrapped as FunctionError, inside an AggregateError.
+     *
+     * @param {AsyncEachAction<T>} action The action to invoke.
+     * @param {ParallelOptions} [options] Custom options.
+     *
+     * @returns {Promise<void>} The promise.
+     */
+    forEachParallel(
+      action: AsyncEachAction<T>,
+      options?: ParallelOptions,
+    ): Promise<void>;
     /**
      * Groups the items of that sequence by a key.
      *
      * @template TKey Type of the keys.
      *
      * @param {Selector<T, TKey>} keySelector The key selector.
-     * @param {EqualityComparer<TKey>} [keyEqualityComparer] The custom equality comparer for the keys.
+     * @param {EqualityComparer<TKey>|IEqualityComparer<TKey>} [keyEqualityComparer] The custom equality comparer for the keys.
      *
      * @returns {IEnumerable<IGrouping<TKey, T>>} The grouped items.
      */
     groupBy<TKey>(
       keySelector: Selector<T, TKey>,
-      keyEqualityComparer?: EqualityComparer<TKey>,
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
     ): IEnumerable<IGrouping<TKey, T>>;
     /**
      * Correlates the elements of that sequence and another based on matching keys and groups them.
      *
+     * If both sequences are IOrderedEnumerable<T>s, which are sorted with the key selectors
+     * and the same comparer, and no custom equality comparer is used, they are merged.
+     * Otherwise a hash table is used. An EqualityComparer<TOuterKey, TInnerKey> function
+     * does not provide hash codes, so all keys are compared with each other in that case.
+     *
      * @param {Sequence<TInner>} inner The other sequence.
      * @param {Selector<T, TOuterKey>} [outerKeySelector] The key selector for the items of that sequence.
      * @param {Selector<TInner, TInnerKey} [innerKeySelector] The key selector for the items of the other sequence.
      * @param {((outer: T, inner: IEnumerable<TInner>) => TResult)} [resultSelector] The function that provides the result value for two matching elements.
-     * @param {EqualityComparer<TOuterKey, TInnerKey>|true} [keyEqualityComparer] The custom equality comparer for the keys to use.
-     *                                                                            (true) indicates to do a === check.
+     * @param {EqualityComparer<TOuterKey, TInnerKey>|IEqualityComparer<TOuterKey|TInnerKey>|true} [keyEqualityComparer] The custom equality comparer for the keys to use.
+     *                                                                                                             (true) indicates to do a === check.
      *
      * @return {IEnumerable<TResult>} The new sequence.
      */
@@ -681,7 +1325,10 @@ declare namespace Enumerable {
       outerKeySelector?: Selector<T, TOuterKey>,
       innerKeySelector?: Selector<TInner, TInnerKey>,
       resultSelector?: (outer: T, inner: IEnumerable<TInner>) => TResult,
-      keyEqualityComparer?: EqualityComparer<TOuterKey, TInnerKey> | true,
+      keyEqualityComparer?:
+        | EqualityComparer<TOuterKey, TInnerKey>
+        | IEqualityComparer<TOuterKey | TInnerKey>
+        | true,
     ): IEnumerable<TResult>;
     /**
      * Gets the current zero based index.
@@ -719,13 +1366,13 @@ declare namespace Enumerable {
      * Returns the intersection between this and a second sequence.
      *
      * @param {Sequence<T>} second The second sequence.
-     * @param {EqualityComparer<T>|true} [equalityComparer] The custom equality comparer to use.
+     * @param {EqualityComparer<T>|IEqualityComparer<T>|true} [equalityComparer] The custom equality comparer to use.
      *
      * @return {IEnumerable<T>} The new sequence.
      */
     intersect(
       second: Sequence<T>,
-      comparer?: EqualityComparer<T> | true,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
     ): IEnumerable<T>;
     /**
      * Checks if that sequence is empty or not
@@ -737,12 +1384,17 @@ declare namespace Enumerable {
     /**
      * Correlates the elements of that sequence and another based on matching keys.
      *
+     * If both sequences are IOrderedEnumerable<T>s, which are sorted with the key selectors
+     * and the same comparer, and no custom equality comparer is used, they are merged.
+     * Otherwise a hash table is used. An EqualityComparer<TOuterKey, TInnerKey> function
+     * does not provide hash codes, so all keys are compared with each other in that case.
+     *
      * @param {Sequence<TInner>} inner The other sequence.
      * @param {Selector<T, TOuterKey>} [outerKeySelector] The key selector for the items of that sequence.
      * @param {Selector<TInner, TInnerKey} [innerKeySelector] The key selector for the items of the other sequence.
      * @param {((outer: T, inner: IEnumerable<TInner>) => TResult)} [resultSelector] The function that provides the result value for two matching elements.
-     * @param {EqualityComparer<TOuterKey, TInnerKey>|true} [keyEqualityComparer] The custom equality comparer for the keys to use.
-     *                                                                            (true) indicates to do a === check.
+     * @param {EqualityComparer<TOuterKey, TInnerKey>|IEqualityComparer<TOuterKey|TInnerKey>|true} [keyEqualityComparer] The custom equality comparer for the keys to use.
+     *                                                                                                             (true) indicates to do a === check.
      *
      * @return {IEnumerable<TResult>} The new sequence.
      */
@@ -756,7 +1408,10 @@ declare namespace Enumerable {
       outerKeySelector?: Selector<T, TOuterKey>,
       innerKeySelector?: Selector<TInner, TInnerKey>,
       resultSelector?: (outer: T, inner: TInner) => TResult,
-      keyEqualityComparer?: EqualityComparer<TOuterKey, TInnerKey> | true,
+      keyEqualityComparer?:
+        | EqualityComparer<TOuterKey, TInnerKey>
+        | IEqualityComparer<TOuterKey | TInnerKey>
+        | true,
     ): IEnumerable<TResult>;
     /**
      * Joins the items of that sequence to one string.
@@ -838,6 +1493,14 @@ declare namespace Enumerable {
       valueSelector?: Selector<T, U>,
       comparer?: Comparer<U>,
     ): T | symbol;
+    /**
+     * Returns a re-iterable version of that sequence, which reads the items
+     * of that sequence lazily and caches them, so all following
+     * iterations replay the cached items, before they continue reading.
+     *
+     * @returns {IEnumerable<T>} The new sequence.
+     */
+    memoize(): IEnumerable<T>;
     /**
      * Returns the minimum item of that sequence.
      *
@@ -877,11 +1540,22 @@ declare namespace Enumerable {
      *
      * @template U The type of the target sequence.
      *
-     * @param {string} type The type.
+     * @param {string} type The type, like 'string' or 'number', that is compared
+     *                      with the result of 'typeof'.
      *
      * @returns {IEnumerable<U>} The filtered sequence.
      */
     ofType<U = any>(type: string): IEnumerable<U>;
+    /**
+     * Filters items, which are instances of a specific class.
+     *
+     * @template U The type of the target sequence.
+     *
+     * @param {TypeConstructor<U>} type The constructor, which is used with 'instanceof'.
+     *
+     * @returns {IEnumerable<U>} The filtered sequence.
+     */
+    ofType<U>(type: TypeConstructor<U>): IEnumerable<U>;
     /**
      * Sorts the elements of that sequence in ascending order by using the values itself as keys.
      *
@@ -922,6 +1596,12 @@ declare namespace Enumerable {
      * @return {IOrderedEnumerable<T>} The new sequence.
      */
     orderDescending(comparer?: Comparer<T>): IOrderedEnumerable<T>;
+    /**
+     * Returns each element of that sequence together with its predecessor.
+     *
+     * @return {IEnumerable<[T, T]>} The sequence of [previous, current] tuples.
+     */
+    pairwise(): IEnumerable<[T, T]>;
     /**
      * Executes the given action on each element in the source sequence
      * and yields it.
@@ -1032,6 +1712,23 @@ declare namespace Enumerable {
      * @returns {IEnumerable<U>} The new, flatten sequence.
      */
     selectMany<U>(selector: Selector<T, Sequence<U>>): IEnumerable<U>;
+    /**
+     * Projects the items of that sequence to new values / objects
+     * by using a (promise returning) selector, with a maximum number of invocations
+     * at the same time. All occurred errors will be thrown at the end,
+     * wrapped as FunctionError, inside an AggregateError.
+     *
+     * @template U The type of the new items.
+     *
+     * @param {ParallelSelector<T, U>} selector The selector.
+     * @param {ParallelOptions} [options] Custom options.
+     *
+     * @returns {IAsyncEnumerable<U>} The new sequence.
+     */
+    selectParallel<U>(
+      selector: ParallelSelector<T, U>,
+      options?: ParallelOptions,
+    ): IAsyncEnumerable<U>;
     /**
      * Checks if that sequence is equal to another.
      *
@@ -1059,6 +1756,18 @@ declare namespace Enumerable {
      * @return {IEnumerable<number>} The new sequence.
      */
     sin(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Returns the one and only element of that sequence, which is of a specific type.
+     *
+     * @template U The narrowed type.
+     *
+     * @param {TypeGuard<T, U>} predicate The type guard.
+     *
+     * @returns {U} The single element.
+     *
+     * @throws Element not found or sequence contains for than one (matching) element.
+     */
+    single<U extends T>(predicate: TypeGuard<T, U>): U;
     /**
      * Returns the one and only element of that sequence.
      *
@@ -1166,6 +1875,16 @@ declare namespace Enumerable {
      * @return {IEnumerable<number>} The new sequence.
      */
     tanH(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Splits that sequence into independent sequences, which can be iterated
+     * at different speeds. Only the items between the fastest and
+     * the slowest sequence are buffered.
+     *
+     * @param {number} [count] The number of sequences. Default: 2
+     *
+     * @returns {IEnumerable<T>[]} The new sequences.
+     */
+    tee(count?: number): IEnumerable<T>[];
     /**
      * Creates a new array from the items of that sequence.
      *
@@ -1173,20 +1892,47 @@ declare namespace Enumerable {
      */
     toArray(): Array<T>;
     /**
-     * Converts that sequence to a lookup object.
+     * Returns an async version of that sequence.
+     *
+     * @returns {IAsyncEnumerable<T>} The async sequence.
+     */
+    toAsync(): IAsyncEnumerable<T>;
+    /**
+     * Converts that sequence to a lookup.
+     *
+     * Without a custom comparer, keys are compared like the keys of a Map,
+     * i.e. 1 and '1' or two different objects are different keys.
      *
      * @template TKey Type of the keys.
-     * @template U Type of the result object.
      *
      * @param {Selector<T, TKey>} keySelector The key selector.
-     * @param {EqualityComparer<TKey>} [keyEqualityComparer] The custom equality comparer for the keys.
+     * @param {EqualityComparer<TKey>|IEqualityComparer<TKey>} [keyEqualityComparer] The custom equality comparer for the keys.
+     *
+     * @returns {ILookup<TKey, T>} The lookup.
+     */
+    toLookup<TKey>(
+      keySelector: Selector<T, TKey>,
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+    ): ILookup<TKey, T>;
+    /**
+     * Converts that sequence to a Map.
+     *
+     * @template TKey Type of the keys.
+     * @template TValue Type of the values.
+     *
+     * @param {Selector<T, TKey>} keySelector The key selector. Keys can also be objects.
+     * @param {Selector<T, TValue>} [valueSelector] The custom value selector. Default: the item itself
+     * @param {DuplicateKeyOptions<TValue, TKey>} [options] Custom options.
      *
-     * @returns U The lookup object
+     * @returns {Map<TKey, TValue>} The new Map.
+     *
+     * @throws {DuplicateKeyError} Two items have the same key.
      */
-    toLookup<TKey extends PropertyKey, U = any>(
+    toMap<TKey, TValue = T>(
       keySelector: Selector<T, TKey>,
-      keyEqualityComparer?: EqualityComparer<TKey>,
-    ): U;
+      valueSelector?: Selector<T, TValue>,
+      options?: DuplicateKeyOptions<TValue, TKey>,
+    ): Map<TKey, TValue>;
     /**
      * Wraps the items of that sequence to an object.
      *
@@ -1201,25 +1947,92 @@ declare namespace Enumerable {
       keySelector?: (item: T, index: number) => TKey,
     ): TResult;
     /**
-     * Traces the elements of that sequence.
+     * Converts that sequence to a plain object.
      *
-     * @param {Selector<T, any>} [formatter] The custom formatter to use.
+     * Keys are handled as property keys, i.e. 1 and '1' are the same key.
      *
-     * @return {IEnumerable<T>} The new, piped sequence.
+     * @template TKey Type of the keys.
+     * @template TValue Type of the values.
+     *
+     * @param {Selector<T, TKey>} keySelector The key selector.
+     * @param {Selector<T, TValue>} [valueSelector] The custom value selector. Default: the item itself
+     * @param {DuplicateKeyOptions<TValue, TKey>} [options] Custom options.
+     *
+     * @returns {Record<TKey, TValue>} The new object.
+     *
+     * @throws {DuplicateKeyError} Two items have the same key.
      */
-    trace(formatter?: Selector<T, any>): IEnumerable<T>;
+    toRecord<TKey extends PropertyKey, TValue = T>(
+      keySelector: Selector<T, TKey>,
+      valueSelector?: Selector<T, TValue>,
+      options?: DuplicateKeyOptions<TValue, TKey>,
+    ): Record<TKey, TValue>;
     /**
-     * Produces the union of that sequence and another.
+     * Converts that sequence to a Set.
+     *
+     * @returns {Set<T>} The new Set.
+     */
+    toSet(): Set<T>;
+    /**
+     * Returns the items with the highest keys, in descending order,
+     * without sorting the whole sequence.
+     *
+     * Items with equal keys keep their order.
+     *
+     * @template U Type of the keys.
+     *
+     * @param {number} [count] The maximum number of items to return.
+     *                         Default: all items, which is also used for an infinite value.
+     * @param {Selector<T,U>} [selector] The key selector.
+     * @param {Comparer<U>} [comparer] The custom key comparer to use.
+     *
+     * @return {IEnumerable<T>} The new sequence.
+     */
+    topBy<U = T>(
+      count?: number,
+      selector?: Selector<T, U>,
+      comparer?: Comparer<U>,
+    ): IEnumerable<T>;
+    /**
+     * Traces the elements of that sequence.
+     *
+     * @param {Selector<T, any>} [formatter] The custom formatter to use.
+     *
+     * @return {IEnumerable<T>} The new, piped sequence.
+     */
+    trace(formatter?: Selector<T, any>): IEnumerable<T>;
+    /**
+     * Returns the number of the remaining items, if it can be determined
+     * without enumerating that sequence.
+     *
+     * Collections, like 'List' or 'HashSet', return the number of all of their items,
+     * because they are enumerated from the beginning again and again.
+     *
+     * @return {number|false} The number of items or (false) if unknown.
+     */
+    tryGetNonEnumeratedCount(): number | false;
+    /**
+     * Produces the union of that sequence and another.
      *
      * @param {Sequence<T>} second The other sequence.
-     * @param {EqualityComparer<T>|true} [comparer] The optional equality comparer to use.
+     * @param {EqualityComparer<T>|IEqualityComparer<T>|true} [comparer] The optional equality comparer to use.
      *
      * @returns {IEnumerable<T>} The new sequence.
      */
     union(
       second: Sequence<T>,
-      comparer?: EqualityComparer<T> | true,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
     ): IEnumerable<T>;
+    /**
+     * Filters the items of that sequence by their type.
+     *
+     * @template U The narrowed type.
+     *
+     * @param {TypeGuard<T, U>} predicate The type guard to use.
+     *
+     * @return {IEnumerable<U>} The filtered sequence.
+     */
+    where<U extends T>(predicate: TypeGuard<T, U>): IEnumerable<U>;
     /**
      * Filters the items of that sequence.
      *
@@ -1228,6 +2041,22 @@ declare namespace Enumerable {
      * @return {IEnumerable<T>} The filtered sequence.
      */
     where(predicate: Predicate<T>): IEnumerable<T>;
+    /**
+     * Returns sliding windows of that sequence, which can overlap.
+     *
+     * @param {number} size The size of a window.
+     * @param {number} [step] The number of items between the start of two windows. Default: 1
+     * @param {WindowedOptions} [options] Custom options.
+     *
+     * @return {IEnumerable<IEnumerable<T>>} The sequence of windows.
+     *
+     * @throws {RangeError} 'size' or 'step' is less than 1.
+     */
+    windowed(
+      size: number,
+      step?: number,
+      options?: WindowedOptions,
+    ): IEnumerable<IEnumerable<T>>;
     /**
      * Applies a specified function to the corresponding elements of that sequence
      * and another, producing a sequence of the results.
@@ -1245,22 +2074,87 @@ declare namespace Enumerable {
       resultSelector: ZipSelector<T, U, TResult>,
     ): IEnumerable<TResult>;
   }
+  /**
+   * An equality comparer, which also provides hash codes,
+   * so items can be compared by using a hash table.
+   *
+   * If no comparer is defined, primitive values are compared with ==,
+   * and arrays, plain objects and dates by their values.
+   *
+   * @template T Type of the items.
+   */
+  export interface IEqualityComparer<T = any> {
+    /**
+     * Checks if two items are equal.
+     *
+     * @param {T} x The first item.
+     * @param {T} y The second item.
+     *
+     * @return {boolean} Are equal or not.
+     */
+    equals(x: T, y: T): boolean;
+    /**
+     * Returns the hash code of an item. Equal items must have the same hash code.
+     *
+     * @param {T} obj The item.
+     *
+     * @return {any} The hash code, like a number or a string.
+     */
+    getHashCode(obj: T): any;
+  }
   /**
    * Describes a grouping.
    *
    * @template T Type of the items.
    * @template TKey Type of the key.
    */
-  interface IGrouping<TKey = any, T = any> extends IEnumerable<T> {
+  export interface IGrouping<TKey = any, T = any> extends IEnumerable<T> {
     /**
      * Gets the key.
      */
     readonly key: TKey;
   }
+  /**
+   * A lookup, which maps keys to sequences of items.
+   *
+   * Enumerating the lookup returns one grouping per key, in the order
+   * the keys have been found. 'count()' returns the number of keys.
+   *
+   * @template TKey Type of the keys.
+   * @template T Type of the items.
+   */
+  export interface ILookup<TKey = any, T = any>
+    extends IEnumerable<IGrouping<TKey, T>> {
+    /**
+     * Returns the number of keys, without moving the position of that lookup.
+     * With a predicate, the groupings are enumerated, like in any other sequence.
+     *
+     * @param {Predicate<IGrouping<TKey, T>>} [predicate] The optional predicate to use.
+     *
+     * @returns {number} The number of (matching) keys.
+     */
+    count(predicate?: Predicate<IGrouping<TKey, T>>): number;
+    /**
+     * Returns the items of a key.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {IEnumerable<T>} The items or an empty sequence, if the key does not exist.
+     */
+    get(key: TKey): IEnumerable<T>;
+    /**
+     * Checks if a key exists.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {boolean} Key exists or not.
+     */
+    has(key: TKey): boolean;
+  }
   /**
    * Describes an ordered sequence.
    */
-  interface IOrderedEnumerable<T = any> extends IEnumerable<T> {
+  export interface IOrderedEnumerable<T = any> extends IEnumerable<T> {
     /**
      * Performs a subsequent ordering of the elements in that sequence in ascending order,
      * using the values itself as keys.
@@ -1308,6 +2202,26 @@ declare namespace Enumerable {
      */
     thenDescending(comparer?: Comparer<T>): IOrderedEnumerable<T>;
   }
+  /**
+   * Schedules actions, which should be invoked later.
+   */
+  export interface IScheduler {
+    /**
+     * Returns the current time, in milliseconds.
+     *
+     * @return {number} The current time.
+     */
+    now(): number;
+    /**
+     * Schedules an action.
+     *
+     * @param {Function} action The action to invoke.
+     * @param {number} dueTime The time, in milliseconds, to wait before the action is invoked.
+     *
+     * @return {Function} The function, which cancels the action.
+     */
+    schedule(action: () => void, dueTime: number): () => void;
+  }
   /**
    * A result selector for a 'zip' method / function.
    *
@@ -1317,75 +2231,76 @@ declare namespace Enumerable {
    *
    * @return {TResult} The "zipped" result,
    */
-  type ZipSelector<T = any, U = T, TResult = any> = (
+  export type ZipSelector<T = any, U = T, TResult = any> = (
     x: T,
     y: U,
     index: number,
   ) => TResult;
+  /**
+   * An error that is thrown if an operation has been aborted by an AbortSignal.
+   */
+  export import AbortError = Internal.AbortError;
   /**
    * Represents a list of errors.
    */
-  class AggregateError extends Error {
+  export import AggregateError = Internal.AggregateError;
+  /**
+   * An error that is thrown if two items of a sequence have the same key.
+   */
+  export import DuplicateKeyError = Internal.DuplicateKeyError;
+  /**
+   * A error wrapper for a function.
+   */
+  export import FunctionError = Internal.FunctionError;
+  /**
+   * An error that is thrown if a custom operator should be registered
+   * with a name, which is already in use.
+   */
+  export class OperatorClashError extends Error {
     /**
-     * Stores the errors.
+     * Stores the name of the operator.
      */
-    protected _errors: any[];
+    protected _operatorName: string;
     /**
      * Initializes a new instance of that class.
      *
-     * @param {any[]} [errors] The occurred errors.
+     * @param {string} [operatorName] The name of the operator.
      */
-    constructor(errors?: any[]);
+    constructor(operatorName?: string);
     /**
-     * Gets the errors.
+     * Gets the name of the operator.
      */
-    get errors(): any[];
-    /** @inheritdoc */
-    get stack(): string;
-    /** @inheritdoc */
-    toString(): string;
+    get operatorName(): string;
   }
   /**
-   * A error wrapper for a function.
+   * An error that is thrown if an operation has timed out.
    */
-  class FunctionError extends Error {
-    /**
-     * Stores the inner error.
-     */
-    protected _error: any;
-    /**
-     * Stores the underlying function.
-     */
-    protected _function: Function;
+  export class TimeoutError extends Error {
     /**
-     * Stores the (zero based) index.
+     * Stores the time, in milliseconds.
      */
-    protected _index: number;
+    protected _dueTime: number;
     /**
      * Initializes a new instance of that class.
      *
-     * @param {any} [err] The underlying, inner error.
-     * @param {Function} [func] The underlying function.
-     * @param {number} [index] The (zero based) index.
+     * @param {number} [dueTime] The time, in milliseconds, that has been exceeded.
      */
-    constructor(err?: any, func?: Function, index?: number);
+    constructor(dueTime?: number);
     /**
-     * Gets the (zero based) index.
+     * Gets the time, in milliseconds, that has been exceeded.
      */
-    get index(): number;
-    /**
-     * Gets the inner error.
-     */
-    get innerError(): any;
-    /** @inheritdoc */
-    get stack(): string;
-    /** @inheritdoc */
-    toString(): string;
+    get dueTime(): number;
   }
+  /**
+   * Merges the members of 'IEnumerable<T>' into 'EnumerableBase<T>', so that
+   * operators, which are registered by 'registerOperator()' and declared by
+   * augmenting 'IEnumerable<T>', are also known by all sequence classes.
+   */
+  export interface EnumerableBase<T = any> extends IEnumerable<T> {}
   /**
    * A basic sequence.
    */
-  abstract class EnumerableBase<T = any> implements IEnumerable<T> {
+  export abstract class EnumerableBase<T = any> implements IEnumerable<T> {
     /**
      * Stores the current iterator result.
      */
@@ -1394,6 +2309,10 @@ declare namespace Enumerable {
      * Stores the current index.
      */
     protected _index: number;
+    /**
+     * Stores the source and the stages, if that sequence is the result of fused operators.
+     */
+    protected _pipeline: FusedPipeline;
     /**
      * Indicates that that instance is an enumerable (sequence).
      */
@@ -1404,7 +2323,7 @@ declare namespace Enumerable {
     abs(handleAsInt?: boolean): IEnumerable<number>;
     /** @inheritdoc */
     aggregate<TAccumulate = T, TResult = T>(
-      func: (accumulator: TAccumulate, item: T) => TAccumulate,
+      func: Reducer<TAccumulate, T>,
       seed?: TAccumulate,
       resultSelector?: (accumulator: TAccumulate) => TResult,
     ): TResult;
@@ -1416,6 +2335,16 @@ declare namespace Enumerable {
     append<U = T>(...args: Sequence<U>[]): IEnumerable<T | U>;
     /** @inheritdoc */
     appendArray<U = T>(sequences: ArrayLike<Sequence<U>>): IEnumerable<T | U>;
+    /**
+     * Applies an operator of the 'operators' module, which returns a sequence.
+     *
+     * @param {Operator<T, Iterable<U>>} operator The operator.
+     *
+     * @return {IEnumerable<U>} The new sequence.
+     */
+    protected applyOperator<U>(
+      operator: Operators.Operator<T, Iterable<U>>,
+    ): IEnumerable<U>;
     /** @inheritdoc */
     arcCos(handleAsInt?: boolean): IEnumerable<number>;
     /** @inheritdoc */
@@ -1433,10 +2362,20 @@ declare namespace Enumerable {
     /** @inheritdoc */
     assertAll(predicate: Predicate<T>, errMsg?: ItemMessage<T>): this;
     /** @inheritdoc */
-    async(action: AsyncAction<T>, previousValue?: any): Promise<any>;
+    async(
+      action: AsyncAction<T>,
+      previousValue?: any,
+      signal?: AbortSignal,
+    ): Promise<any>;
     /** @inheritdoc */
     average(selector?: Selector<T, number>): number | symbol;
     /** @inheritdoc */
+    bottomBy<U = T>(
+      count?: number,
+      selector?: Selector<T, U>,
+      comparer?: Comparer<U>,
+    ): IEnumerable<T>;
+    /** @inheritdoc */
     get canReset(): boolean;
     /** @inheritdoc */
     cast<U>(type?: string): IEnumerable<U>;
@@ -1444,34 +2383,22 @@ declare namespace Enumerable {
     ceil(): IEnumerable<number>;
     /** @inheritdoc */
     chunk(size?: number): IEnumerable<IEnumerable<T>>;
-    /**
-     * @see chunk()
-     */
-    protected chunkInner(
-      size: number,
-    ): Generator<IEnumerable<T>, void, unknown>;
     /** @inheritdoc */
     clone<U = T>(
       count?: number,
       itemSelector?: Selector<T, U>,
     ): IEnumerable<IEnumerable<U>>;
     /**
-     * @see concatArray()
+     * Closes the underlying iterator, if an operation,
+     * like 'async()', has been finished before the end of that sequence.
      */
-    protected cloneInner<U>(
-      count: number,
-      itemSelector: Selector<T, U>,
-    ): Generator<any, void, unknown>;
+    protected closeIterator(): void;
+    /** @inheritdoc */
+    collect<A, R = A>(collector: Collector<T, A, R>): R;
     /** @inheritdoc */
     concat<U = T>(...args: Sequence<U>[]): IEnumerable<T | U>;
     /** @inheritdoc */
     concatArray<U = T>(sequences: ArrayLike<Sequence<U>>): IEnumerable<T | U>;
-    /**
-     * @see concatArray()
-     */
-    protected concatArrayInner<U>(
-      sequences: ArrayLike<Sequence<U>>,
-    ): IterableIterator<T | U>;
     /** @inheritdoc */
     consume(): this;
     /** @inheritdoc */
@@ -1482,40 +2409,42 @@ declare namespace Enumerable {
     cosH(handleAsInt?: boolean): IEnumerable<number>;
     /** @inheritdoc */
     count(predicate?: Predicate<T>): number;
+    /**
+     * Creates the sequence for the result of a fusable operation, like 'where()'.
+     *
+     * If that sequence is also the result of fusable operations, and has not been
+     * enumerated yet, all stages are executed in one loop over the original source.
+     *
+     * @param {FusedStage[]} stages The functions, which create the stages for an iteration.
+     *
+     * @return {IEnumerable<U>} The new sequence.
+     */
+    protected createFusedSequence<U>(stages: FusedStage[]): IEnumerable<U>;
+    /**
+     * Creates the sequence for the result of an operation, like 'selectMany()'.
+     *
+     * @param {Function} factory The function, which creates the iterator of the result.
+     *
+     * @return {IEnumerable<U>} The new sequence.
+     */
+    protected createSequence<U>(factory: () => Iterator<U>): IEnumerable<U>;
     /** @inheritdoc */
     get current(): IteratorResult<T>;
     /** @inheritdoc */
     defaultArrayIfEmpty(defaultSequence: Sequence<T>): IEnumerable<T>;
     /** @inheritdoc */
     defaultIfEmpty(...defaultItems: Array<T>): IEnumerable<T>;
-    /**
-     * @see defaultIfEmpty()
-     */
-    protected defaultIfEmptyInner(
-      defaultItems: Array<T>,
-    ): Generator<T, void, unknown>;
     /** @inheritdoc */
     defaultSequenceIfEmpty(defaultSequence: Sequence<T>): IEnumerable<T>;
-    /**
-     * @see defaultIfEmpty()
-     */
-    protected defaultSequenceIfEmptyInner(
-      defaultSequence: Sequence<T>,
-    ): Generator<T, void, unknown>;
     /** @inheritdoc */
-    distinct(comparer?: EqualityComparer<T> | true): IEnumerable<T>;
+    distinct(
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+    ): IEnumerable<T>;
     /** @inheritdoc */
     distinctBy<U>(
       selector: Selector<T, U>,
-      comparer?: EqualityComparer<U> | true,
+      comparer?: EqualityComparer<U> | IEqualityComparer<U> | true,
     ): IEnumerable<T>;
-    /**
-     * @see distinct()
-     */
-    protected distinctByInner<U>(
-      selector: Selector<T, U>,
-      comparer: EqualityComparer<U>,
-    ): Generator<T, void, unknown>;
     /** @inheritdoc */
     each(action: EachAction<T>): this;
     /** @inheritdoc */
@@ -1527,18 +2456,13 @@ declare namespace Enumerable {
     /** @inheritdoc */
     except(
       second: Sequence<T>,
-      comparer?: EqualityComparer<T> | true,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
     ): IEnumerable<T>;
-    /**
-     * @see except()
-     */
-    protected exceptInner(
-      second: Array<T>,
-      comparer: EqualityComparer<T>,
-    ): Generator<T, void, unknown>;
     /** @inheritdoc */
     exp(handleAsInt?: boolean): IEnumerable<number>;
     /** @inheritdoc */
+    first<U extends T>(predicate: TypeGuard<T, U>): U;
+    /** @inheritdoc */
     first(predicate?: Predicate<T>): T;
     /** @inheritdoc */
     firstOrDefault<U = symbol>(
@@ -1553,22 +2477,16 @@ declare namespace Enumerable {
     forAll(action: EachAction<T>): this;
     /** @inheritdoc */
     forEach(action: EachAction<T>): this;
-    /**
-     * @see chunkInner()
-     */
-    protected getNextChunkArray(size: number): T[];
+    /** @inheritdoc */
+    forEachParallel(
+      action: AsyncEachAction<T>,
+      options?: ParallelOptions,
+    ): Promise<void>;
     /** @inheritdoc */
     groupBy<TKey>(
       keySelector: Selector<T, TKey>,
-      keyEqualityComparer?: EqualityComparer<TKey>,
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
     ): IEnumerable<IGrouping<TKey, T>>;
-    /**
-     * @see groupBy()
-     */
-    protected groupByInner<TKey>(
-      keySelector: Selector<T, TKey>,
-      keyEqualityComparer: EqualityComparer<TKey>,
-    ): Generator<Grouping<TKey, T>, void, unknown>;
     /** @inheritdoc */
     groupJoin<
       TInner = T,
@@ -1580,42 +2498,24 @@ declare namespace Enumerable {
       outerKeySelector?: Selector<T, TOuterKey>,
       innerKeySelector?: Selector<TInner, TInnerKey>,
       resultSelector?: (outer: T, inner: IEnumerable<TInner>) => TResult,
-      keyEqualityComparer?: EqualityComparer<TOuterKey, TInnerKey> | true,
+      keyEqualityComparer?:
+        | EqualityComparer<TOuterKey, TInnerKey>
+        | IEqualityComparer<TOuterKey | TInnerKey>
+        | true,
     ): IEnumerable<TResult>;
-    /**
-     * @see groupJoin()
-     */
-    protected groupJoinInner<TInner, TOuterKey, TInnerKey, TResult>(
-      inner: IEnumerable<TInner>,
-      outerKeySelector: Selector<T, TOuterKey>,
-      innerKeySelector: Selector<TInner, TInnerKey>,
-      resultSelector: (outer: T, inner: IEnumerable<TInner>) => TResult,
-      keyEqualityComparer: EqualityComparer<TOuterKey, TInnerKey>,
-    ): Generator<TResult, void, unknown>;
     /** @inheritdoc */
     get index(): number;
     /** @inheritdoc */
     indexOf<U>(item: U, comparer?: EqualityComparer<T, U> | true): number;
     /** @inheritdoc */
     intersperse<U = T>(...separators: U[]): IEnumerable<T | U>;
-    /**
-     * @see intersperseInner()
-     */
-    protected intersperseInner<U>(separators: U[]): Iterator<T | U>;
     /** @inheritdoc */
     intersperseArray<U = T>(separators: Sequence<U>): IEnumerable<T | U>;
     /** @inheritdoc */
     intersect(
       second: Sequence<T>,
-      comparer?: EqualityComparer<T> | true,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
     ): IEnumerable<T>;
-    /**
-     * @see intersect()
-     */
-    protected intersectInner(
-      second: Array<T>,
-      comparer: EqualityComparer<T>,
-    ): Generator<T, void, unknown>;
     /** @inheritdoc */
     isEmpty(): boolean;
     /** @inheritdoc */
@@ -1629,18 +2529,11 @@ declare namespace Enumerable {
       outerKeySelector?: Selector<T, TOuterKey>,
       innerKeySelector?: Selector<TInner, TInnerKey>,
       resultSelector?: (outer: T, inner: TInner) => TResult,
-      keyEqualityComparer?: EqualityComparer<TOuterKey, TInnerKey> | true,
+      keyEqualityComparer?:
+        | EqualityComparer<TOuterKey, TInnerKey>
+        | IEqualityComparer<TOuterKey | TInnerKey>
+        | true,
     ): IEnumerable<TResult>;
-    /**
-     * @see join()
-     */
-    protected joinInner<TInner, TOuterKey, TInnerKey, TResult>(
-      inner: IEnumerable<TInner>,
-      outerKeySelector: Selector<T, TOuterKey>,
-      innerKeySelector: Selector<TInner, TInnerKey>,
-      resultSelector: (outer: T, inner: TInner) => TResult,
-      keyEqualityComparer: EqualityComparer<TOuterKey, TInnerKey>,
-    ): Generator<TResult, void, unknown>;
     /** @inheritdoc */
     joinToString(separator?: any): string;
     /** @inheritdoc */
@@ -1664,6 +2557,8 @@ declare namespace Enumerable {
       comparer?: Comparer<U>,
     ): T | symbol;
     /** @inheritdoc */
+    memoize(): IEnumerable<T>;
+    /** @inheritdoc */
     min<U = T>(
       valueSelector?: Selector<T, U>,
       comparer?: Comparer<U>,
@@ -1679,6 +2574,8 @@ declare namespace Enumerable {
     /** @inheritdoc */
     ofType<U = any>(type: string): IEnumerable<U>;
     /** @inheritdoc */
+    ofType<U>(type: TypeConstructor<U>): IEnumerable<U>;
+    /** @inheritdoc */
     order(comparer?: Comparer<T>): IOrderedEnumerable<T>;
     /** @inheritdoc */
     orderBy<U>(
@@ -1693,6 +2590,8 @@ declare namespace Enumerable {
     /** @inheritdoc */
     orderDescending(comparer?: Comparer<T>): IOrderedEnumerable<T>;
     /** @inheritdoc */
+    pairwise(): IEnumerable<[T, T]>;
+    /** @inheritdoc */
     pipe(action: EachAction<T>): IEnumerable<T>;
     /**
      * @see pipe()
@@ -1704,12 +2603,6 @@ declare namespace Enumerable {
     prepend<U = T>(...args: Sequence<U>[]): IEnumerable<T | U>;
     /** @inheritdoc */
     prependArray<U = T>(sequences: ArrayLike<Sequence<U>>): IEnumerable<T | U>;
-    /**
-     * @see concatArray()
-     */
-    protected prependArrayInner<U>(
-      sequences: ArrayLike<Sequence<U>>,
-    ): IterableIterator<T | U>;
     /** @inheritdoc */
     product(): T | symbol;
     /** @inheritdoc */
@@ -1728,12 +2621,11 @@ declare namespace Enumerable {
     select<U>(selector: Selector<T, U>): IEnumerable<U>;
     /** @inheritdoc */
     selectMany<U>(selector: Selector<T, Sequence<U>>): IEnumerable<U>;
-    /**
-     * @see selectMany()
-     */
-    protected selectManyInner<U>(
-      selector: Selector<T, Sequence<U>>,
-    ): IterableIterator<U>;
+    /** @inheritdoc */
+    selectParallel<U>(
+      selector: ParallelSelector<T, U>,
+      options?: ParallelOptions,
+    ): IAsyncEnumerable<U>;
     /** @inheritdoc */
     sequenceEqual<U>(
       other: Sequence<U>,
@@ -1744,6 +2636,8 @@ declare namespace Enumerable {
     /** @inheritdoc */
     sin(handleAsInt?: boolean): IEnumerable<number>;
     /** @inheritdoc */
+    single<U extends T>(predicate: TypeGuard<T, U>): U;
+    /** @inheritdoc */
     single(predicate?: Predicate<T>): T;
     /** @inheritdoc */
     singleOrDefault<U = symbol>(
@@ -1756,18 +2650,8 @@ declare namespace Enumerable {
     skip(count?: number): IEnumerable<T>;
     /** @inheritdoc */
     skipLast(): IEnumerable<T>;
-    /**
-     * @see skipLast()
-     */
-    protected skipLastInner(): Generator<T, void, unknown>;
     /** @inheritdoc */
     skipWhile(predicate: Predicate<T>): IEnumerable<T>;
-    /**
-     * @see takeWhile()
-     */
-    protected skipWhileInner(
-      predicate: Predicate<T>,
-    ): Generator<T, void, unknown>;
     /** @inheritdoc */
     sqrt(handleAsInt?: boolean): IEnumerable<number>;
     /** @inheritdoc */
@@ -1776,59 +2660,76 @@ declare namespace Enumerable {
     take(count?: number): IEnumerable<T>;
     /** @inheritdoc */
     takeWhile(predicate: Predicate<T>): IEnumerable<T>;
-    /**
-     * @see takeWhile()
-     */
-    protected takeWhileInner(
-      predicate: Predicate<T>,
-    ): Generator<T, void, unknown>;
     /** @inheritdoc */
     tan(handleAsInt?: boolean): IEnumerable<number>;
     /** @inheritdoc */
     tanH(handleAsInt?: boolean): IEnumerable<number>;
     /** @inheritdoc */
+    tee(count?: number): IEnumerable<T>[];
+    /** @inheritdoc */
     toArray(): Array<T>;
     /** @inheritdoc */
-    toLookup<TKey extends PropertyKey, U = any>(
+    toAsync(): IAsyncEnumerable<T>;
+    /** @inheritdoc */
+    toLookup<TKey>(
+      keySelector: Selector<T, TKey>,
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+    ): ILookup<TKey, T>;
+    /** @inheritdoc */
+    toMap<TKey, TValue = T>(
       keySelector: Selector<T, TKey>,
-      keyEqualityComparer?: EqualityComparer<TKey>,
-    ): U;
+      valueSelector?: Selector<T, TValue>,
+      options?: DuplicateKeyOptions<TValue, TKey>,
+    ): Map<TKey, TValue>;
     /** @inheritdoc */
     toObject<TResult = any, TKey extends PropertyKey = number>(
       keySelector?: (item: T, index: number) => TKey,
     ): TResult;
     /** @inheritdoc */
+    toRecord<TKey extends PropertyKey, TValue = T>(
+      keySelector: Selector<T, TKey>,
+      valueSelector?: Selector<T, TValue>,
+      options?: DuplicateKeyOptions<TValue, TKey>,
+    ): Record<TKey, TValue>;
+    /** @inheritdoc */
+    toSet(): Set<T>;
+    /** @inheritdoc */
+    topBy<U = T>(
+      count?: number,
+      selector?: Selector<T, U>,
+      comparer?: Comparer<U>,
+    ): IEnumerable<T>;
+    /** @inheritdoc */
     trace(formatter?: Selector<T, any>): IEnumerable<T>;
     /** @inheritdoc */
+    tryGetNonEnumeratedCount(): number | false;
+    /** @inheritdoc */
     union(
       second: Sequence<T>,
-      comparer?: EqualityComparer<T> | true,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
     ): IEnumerable<T>;
     /** @inheritdoc */
+    where<U extends T>(predicate: TypeGuard<T, U>): IEnumerable<U>;
+    /** @inheritdoc */
     where(predicate: Predicate<T>): IEnumerable<T>;
-    /**
-     * @see where()
-     */
-    protected whereInner(predicate: Predicate<T>): IterableIterator<T>;
+    /** @inheritdoc */
+    windowed(
+      size: number,
+      step?: number,
+      options?: WindowedOptions,
+    ): IEnumerable<IEnumerable<T>>;
     /** @inheritdoc */
     zip<U = T, TResult = any>(
       second: Sequence<U>,
       resultSelector: ZipSelector<T, U, TResult>,
     ): IEnumerable<TResult>;
-    /**
-     * @see zip()
-     */
-    protected zipInner<U, TResult>(
-      second: Iterator<U>,
-      resultSelector: ZipSelector<T, U, TResult>,
-    ): Generator<TResult, void, unknown>;
   }
   /**
    * Wraps a sequence.
    *
    * @template T Type of the items.
    */
-  class EnumerableWrapper<T = any> extends EnumerableBase<T> {
+  export class EnumerableWrapper<T = any> extends EnumerableBase<T> {
     /**
      * The wrapped sequence.
      */
@@ -1838,136 +2739,1504 @@ declare namespace Enumerable {
      *
      * @param {IEnumerable<T>} [seq] The sequence to wrap.
      */
-    constructor(seq?: IEnumerable<T>);
+    constructor(seq?: IEnumerable<T>);
+    /** @inheritdoc */
+    get canReset(): boolean;
+    /** @inheritdoc */
+    get current(): IteratorResult<T, any>;
+    /** @inheritdoc */
+    next(): IteratorResult<T, any>;
+    /** @inheritdoc */
+    reset(): this;
+    /** @inheritdoc */
+    tryGetNonEnumeratedCount(): number | false;
+  }
+  /**
+   * A sequence based on an Iterator<T>.
+   */
+  export class IteratorEnumerable<T = any> extends EnumerableBase<T> {
+    /**
+     * Stores the inner iterator.
+     */
+    protected _iterator: Iterator<T>;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Iterator<T>} [iterator] The underlying iterator.
+     */
+    constructor(iterator?: Iterator<T>);
+    /** @inheritdoc */
+    protected closeIterator(): void;
+    /** @inheritdoc */
+    next(value?: any): IteratorResult<T>;
+  }
+  /**
+   * A sequence based on an array.
+   */
+  export class ArrayEnumerable<T = any> extends EnumerableBase<T> {
+    /**
+     * Stores the underlying array.
+     */
+    protected _array: ArrayLike<T>;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {ArrayLike<T>} [arr] The underlying array.
+     */
+    constructor(arr?: ArrayLike<T>);
+    /** @inheritdoc */
+    get canReset(): boolean;
+    /** @inheritdoc */
+    count(predicate?: Predicate<T>): number;
+    /** @inheritdoc */
+    elementAtOrDefault<U = symbol>(index: number, defaultValue?: U): T | U;
+    /**
+     * Returns an item of the underlying array.
+     *
+     * @param {number} index The zero based index.
+     *
+     * @return {T} The item.
+     */
+    protected getItemAt(index: number): T;
+    /** @inheritdoc */
+    lastOrDefault<U = symbol>(
+      predicateOrDefaultValue?: Predicate<T> | T,
+      defaultValue?: U,
+    ): T | U;
+    /** @inheritdoc */
+    length(): number;
+    /**
+     * Moves behind the last item, like an enumeration would do.
+     */
+    protected moveToEnd(): void;
+    /** @inheritdoc */
+    next(): IteratorResult<T>;
+    /** @inheritdoc */
+    reset(): this;
+    /** @inheritdoc */
+    reverse(): IOrderedEnumerable<T>;
+    /** @inheritdoc */
+    skip(count?: number): IEnumerable<T>;
+    /**
+     * @see skip()
+     */
+    protected skipInner(count: number): Generator<T, void, unknown>;
+    /** @inheritdoc */
+    tryGetNonEnumeratedCount(): number;
+  }
+  /**
+   * A range of numbers, which can be accessed by index.
+   */
+  export class RangeEnumerable extends ArrayEnumerable<number> {
+    /**
+     * Stores the first number.
+     */
+    protected _start: number;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {number} start The first number.
+     * @param {number} count The number of values.
+     */
+    constructor(start: number, count: number);
+    /** @inheritdoc */
+    protected getItemAt(index: number): number;
+  }
+  /**
+   * A grouping.
+   *
+   * @template T Type of the items.
+   * @template TKey Type of the key.
+   */
+  export class Grouping<TKey = any, T = any>
+    extends EnumerableWrapper<T>
+    implements IGrouping<TKey, T>
+  {
+    /**
+     * Stores the key.
+     */
+    protected _key: TKey;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {TKey} key The key.
+     * @param {IEnumerable} seq The items of the grouping.
+     */
+    constructor(key: TKey, seq: IEnumerable<T>);
+    /** @inheritdoc */
+    get key(): TKey;
+  }
+  /**
+   * A lookup, which maps keys to sequences of items.
+   *
+   * @template TKey Type of the keys.
+   * @template T Type of the items.
+   */
+  export class Lookup<TKey = any, T = any>
+    extends ArrayEnumerable<IGrouping<TKey, T>>
+    implements ILookup<TKey, T>
+  {
+    /**
+     * Stores the items by key.
+     */
+    protected _groups: Operators.ItemLookup<TKey, T>;
+    /**
+     * Stores the keys, in the order they have been found.
+     */
+    protected _keys: TKey[];
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Iterable<T>} seq The items.
+     * @param {Selector<T, TKey>} keySelector The key selector.
+     * @param {EqualityComparer<TKey>|IEqualityComparer<TKey>} [keyEqualityComparer] The custom equality comparer for the keys.
+     */
+    constructor(
+      seq: Iterable<T>,
+      keySelector: Selector<T, TKey>,
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+    );
+    /** @inheritdoc */
+    count(predicate?: Predicate<IGrouping<TKey, T>>): number;
+    /** @inheritdoc */
+    get(key: TKey): IEnumerable<T>;
+    /** @inheritdoc */
+    protected getItemAt(index: number): IGrouping<TKey, T>;
+    /** @inheritdoc */
+    has(key: TKey): boolean;
+  }
+  /**
+   * A re-iterable sequence, which creates its items by a factory function
+   * each time it is iterated. Operations, like 'where()', also return
+   * re-iterable sequences, which replay the whole pipeline from the source.
+   *
+   * @template T Type of the items.
+   */
+  export class DeferredEnumerable<T = any> extends EnumerableBase<T> {
+    /**
+     * Stores the factory, which creates the items.
+     */
+    protected _factory: () => Sequence<T>;
+    /**
+     * Stores the iterator, which is used by 'next()'.
+     */
+    protected _iterator: Iterator<T>;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Function} [factory] The factory, which creates the items.
+     */
+    constructor(factory?: () => Sequence<T>);
+    /** @inheritdoc */
+    [Symbol.iterator](): Iterator<T>;
+    /** @inheritdoc */
+    get canReset(): boolean;
+    /** @inheritdoc */
+    protected createSequence<U>(factory: () => Iterator<U>): IEnumerable<U>;
+    /** @inheritdoc */
+    next(): IteratorResult<T>;
+    /** @inheritdoc */
+    orderBy<U>(
+      selector: Selector<T, U>,
+      comparer?: Comparer<U>,
+    ): IOrderedEnumerable<T>;
+    /** @inheritdoc */
+    reset(): this;
+  }
+  /**
+   * A re-iterable, ordered sequence, which sorts the items
+   * each time it is iterated.
+   *
+   * @template T Type of the items.
+   */
+  export class DeferredOrderedEnumerable<T = any>
+    extends DeferredEnumerable<T>
+    implements IOrderedEnumerable<T>
+  {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Function} factory The factory, which creates the sorted sequence.
+     */
+    constructor(factory: () => IOrderedEnumerable<T>);
+    /**
+     * Creates the sorted sequence for the current iteration.
+     *
+     * @return {IOrderedEnumerable<T>} The sorted sequence.
+     */
+    protected createOrderedSequence(): IOrderedEnumerable<T>;
+    /** @inheritdoc */
+    take(count?: number): IEnumerable<T>;
+    /** @inheritdoc */
+    then(comparer?: Comparer<T>): IOrderedEnumerable<T>;
+    /** @inheritdoc */
+    thenBy<U>(
+      selector: Selector<T, U>,
+      comparer?: Comparer<U, U>,
+    ): IOrderedEnumerable<T>;
+    /** @inheritdoc */
+    thenByDescending<U>(
+      selector: Selector<T, U>,
+      comparer?: Comparer<U, U>,
+    ): IOrderedEnumerable<T>;
+    /** @inheritdoc */
+    thenDescending(comparer?: Comparer<T>): IOrderedEnumerable<T>;
+  }
+  /**
+   * An ordered sequence, which is sorted on its first enumeration.
+   *
+   * @template T Type of the items.
+   * @template U Type of the sort keys.
+   */
+  export class OrderedEnumerable<T = any, U = T>
+    extends EnumerableWrapper<T>
+    implements IOrderedEnumerable<T>
+  {
+    /**
+     * Stores the items in the original order, after they have been loaded.
+     */
+    protected _items: Array<T>;
+    /**
+     * Stores the sort levels, beginning with the primary one.
+     */
+    protected _levels: OrderLevel<T>[];
+    /**
+     * Stores the sequence with the 'thenBy' levels before this one.
+     */
+    protected _parent: OrderedEnumerable<T, any>;
+    /**
+     * Stores the source sequence.
+     */
+    protected _source: IEnumerable<T>;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {IEnumerable<T>} seq The source sequence.
+     * @param {Selector<T,U>} selector The selector for the sort values.
+     * @param {Comparer<U,U>} comparer The comparer to use.
+     * @param {OrderedEnumerable<T, any>} [parent] The sequence with the previous sort levels.
+     */
+    constructor(
+      seq: IEnumerable<T>,
+      selector: Selector<T, U>,
+      comparer: Comparer<U, U>,
+      parent?: OrderedEnumerable<T, any>,
+    );
+    /** @inheritdoc */
+    get canReset(): boolean;
+    /**
+     * Gets the comparer of the primary sort level.
+     */
+    get comparer(): Comparer<U, U>;
+    /**
+     * Compares the keys of two items by all levels.
+     *
+     * @param {any[]} x The keys of the first item.
+     * @param {any[]} y The keys of the second item.
+     *
+     * @return {number} The result of the comparison.
+     */
+    protected compareKeys(x: any[], y: any[]): number;
+    /** @inheritdoc */
+    get current(): IteratorResult<T, any>;
+    /**
+     * Returns the items in the original order and loads them, if needed.
+     *
+     * @return {Array<T>} The items.
+     */
+    protected getItems(): Array<T>;
+    /**
+     * Returns the sorted sequence and sorts the items, if needed.
+     *
+     * @return {IEnumerable<T>} The sorted sequence.
+     */
+    protected getSortedSequence(): IEnumerable<T>;
+    /** @inheritdoc */
+    next(): IteratorResult<T, any>;
+    /** @inheritdoc */
+    reset(): this;
+    /**
+     * Gets the selector of the primary sort level.
+     */
+    get selector(): (x: T) => any;
+    /**
+     * Returns the keys of an item for all levels.
+     *
+     * @param {T} item The item.
+     *
+     * @return {any[]} The keys.
+     */
+    protected selectKeys(item: T): any[];
+    /**
+     * Sorts the items by all levels.
+     *
+     * @return {Array<T>} The sorted items.
+     */
+    protected sortItems(): Array<T>;
+    /** @inheritdoc */
+    take(count?: number): IEnumerable<T>;
+    /**
+     * @see take()
+     */
+    protected takeInner(count: number): Generator<T, void, undefined>;
+    /** @inheritdoc */
+    then(comparer?: Comparer<T>): IOrderedEnumerable<T>;
+    /** @inheritdoc */
+    thenBy<U>(
+      selector: Selector<T, U>,
+      comparer?: Comparer<U, U>,
+    ): IOrderedEnumerable<T>;
+    /** @inheritdoc */
+    thenByDescending<U>(
+      selector: Selector<T, U>,
+      comparer?: Comparer<U, U>,
+    ): IOrderedEnumerable<T>;
+    /** @inheritdoc */
+    thenDescending(comparer?: Comparer<T>): IOrderedEnumerable<T>;
+    /** @inheritdoc */
+    tryGetNonEnumeratedCount(): number | false;
+  }
+  /**
+   * A sequence, which returns the items of another sequence in reverse order.
+   *
+   * @template T Type of the items.
+   */
+  export class ReversedEnumerable<T = any> extends OrderedEnumerable<
+    T,
+    number
+  > {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {IEnumerable<T>} seq The source sequence.
+     */
+    constructor(seq: IEnumerable<T>);
+    /** @inheritdoc */
+    protected sortItems(): Array<T>;
+  }
+  /**
+   * A list of items, which can be modified and enumerated again and again.
+   *
+   * Operations, like 'where()', return sequences, which read the current
+   * items of the list, each time they are iterated.
+   *
+   * @template T Type of the items.
+   */
+  export class List<T = any> extends DeferredEnumerable<T> {
+    /**
+     * Stores the items.
+     */
+    protected _items: T[];
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Sequence<T>} [items] The initial items.
+     */
+    constructor(items?: Sequence<T>);
+    /**
+     * Adds one or more items to the end of the list.
+     *
+     * @param {...Array<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    add(...items: Array<T>): this;
+    /**
+     * Adds the items of a sequence to the end of the list.
+     *
+     * @param {Sequence<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    addRange(items: Sequence<T>): this;
+    /**
+     * Searches a sorted list for an item.
+     *
+     * @param {T} item The item to search for.
+     * @param {Comparer<T>} [comparer] The custom comparer, the list is sorted by.
+     *
+     * @return {number} The index of the item, or the bitwise complement of the index,
+     *                  where the item would have to be inserted, if not found.
+     */
+    binarySearch(item: T, comparer?: Comparer<T>): number;
+    /**
+     * Removes all items.
+     *
+     * @return {this} That instance.
+     */
+    clear(): this;
+    /**
+     * Returns an item.
+     *
+     * @param {number} index The zero based index.
+     *
+     * @return {T} The item.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    get(index: number): T;
+    /**
+     * Inserts one or more items at a specific position.
+     *
+     * @param {number} index The zero based index.
+     * @param {...Array<T>} items The items to insert.
+     *
+     * @return {this} That instance.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    insert(index: number, ...items: Array<T>): this;
+    /** @inheritdoc */
+    length(): number;
+    /**
+     * Removes the first occurrence of an item.
+     *
+     * @param {T} item The item to remove.
+     *
+     * @return {boolean} Item has been removed or not.
+     */
+    remove(item: T): boolean;
+    /**
+     * Removes all items, which satisfy a condition.
+     *
+     * @param {Predicate<T>} predicate The condition.
+     *
+     * @return {number} The number of removed items.
+     */
+    removeAll(predicate: Predicate<T>): number;
+    /**
+     * Removes the item at a specific position.
+     *
+     * @param {number} index The zero based index.
+     *
+     * @return {T} The removed item.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    removeAt(index: number): T;
+    /**
+     * Sets an item.
+     *
+     * @param {number} index The zero based index.
+     * @param {T} item The new item.
+     *
+     * @return {this} That instance.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    set(index: number, item: T): this;
+    /**
+     * Sorts the items of that list (stable).
+     *
+     * @param {Comparer<T>} [comparer] The custom comparer.
+     *
+     * @return {this} That instance.
+     */
+    sort(comparer?: Comparer<T>): this;
+    /** @inheritdoc */
+    toArray(): Array<T>;
+    /**
+     * Checks and returns an index.
+     *
+     * @param {number} index The zero based index.
+     * @param {boolean} allowEnd The index may also be the length of the list.
+     *
+     * @return {number} The index.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    protected toIndexSafe(index: number, allowEnd: boolean): number;
+    /** @inheritdoc */
+    tryGetNonEnumeratedCount(): number;
+  }
+  /**
+   * A set of unique items, which can be modified and enumerated again and again.
+   *
+   * Items are enumerated in the order they have been added.
+   *
+   * @template T Type of the items.
+   */
+  export class HashSet<T = any> extends DeferredEnumerable<T> {
+    /**
+     * Stores the comparer.
+     */
+    protected _comparer: IEqualityComparer<T>;
+    /**
+     * Stores the items.
+     */
+    protected _items: EqualityMap<T, T>;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Sequence<T>} [items] The initial items.
+     * @param {EqualityComparer<T>|IEqualityComparer<T>|true} [comparer] The custom equality comparer.
+     */
+    constructor(
+      items?: Sequence<T>,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+    );
+    /**
+     * Adds an item, if it does not exist.
+     *
+     * @param {T} item The item to add.
+     *
+     * @return {boolean} Item has been added or not.
+     */
+    add(item: T): boolean;
+    /**
+     * Removes all items.
+     *
+     * @return {this} That instance.
+     */
+    clear(): this;
+    /**
+     * Gets the comparer of that set.
+     */
+    get comparer(): IEqualityComparer<T>;
+    /** @inheritdoc */
+    contains<U>(item: U, comparer?: EqualityComparer<T, U> | true): boolean;
+    /**
+     * Removes all items, which are part of another sequence.
+     *
+     * @param {Sequence<T>} other The other sequence.
+     *
+     * @return {this} That instance.
+     */
+    exceptWith(other: Sequence<T>): this;
+    /**
+     * Checks if an item exists.
+     *
+     * @param {T} item The item to check.
+     *
+     * @return {boolean} Item exists or not.
+     */
+    has(item: T): boolean;
+    /**
+     * Removes all items, which are not part of another sequence.
+     *
+     * @param {Sequence<T>} other The other sequence.
+     *
+     * @return {this} That instance.
+     */
+    intersectWith(other: Sequence<T>): this;
+    /**
+     * Checks if all items of that set are part of another sequence.
+     *
+     * @param {Sequence<T>} other The other sequence.
+     *
+     * @return {boolean} Is subset or not.
+     */
+    isSubsetOf(other: Sequence<T>): boolean;
+    /** @inheritdoc */
+    length(): number;
+    /**
+     * Removes an item.
+     *
+     * @param {T} item The item to remove.
+     *
+     * @return {boolean} Item has been removed or not.
+     */
+    remove(item: T): boolean;
+    /** @inheritdoc */
+    toArray(): Array<T>;
+    /** @inheritdoc */
+    tryGetNonEnumeratedCount(): number;
+    /**
+     * Adds all items of another sequence, which do not exist.
+     *
+     * @param {Sequence<T>} other The other sequence.
+     *
+     * @return {this} That instance.
+     */
+    unionWith(other: Sequence<T>): this;
+  }
+  /**
+   * A basic collection, which keeps its items sorted by keys, while they are added.
+   *
+   * The collection is an ordered sequence, so 'thenBy()' and all other operations
+   * can be used directly, without sorting the items again.
+   *
+   * 'floor()' without a key still rounds the items, like in any other sequence.
+   *
+   * @template TKey Type of the keys.
+   * @template T Type of the items.
+   */
+  export abstract class SortedCollectionBase<
+    TKey = any,
+    T = any,
+  > extends DeferredOrderedEnumerable<T> {
+    /**
+     * Stores the key comparer.
+     */
+    protected _keyComparer: Comparer<TKey>;
+    /**
+     * Stores the sorted items.
+     */
+    protected _items: T[];
+    /**
+     * Stores the key selector.
+     */
+    protected _keySelector: Selector<T, TKey>;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Selector<T, TKey>} keySelector The key selector.
+     * @param {Comparer<TKey>} [keyComparer] The custom key comparer.
+     */
+    constructor(keySelector: Selector<T, TKey>, keyComparer?: Comparer<TKey>);
+    /**
+     * Returns the first item, which has a key that is greater than or equal to a specific one.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {T} The item or (undefined) if there is no such item.
+     */
+    ceiling(key: TKey): T;
+    /**
+     * Removes all items.
+     *
+     * @return {this} That instance.
+     */
+    clear(): this;
+    /** @inheritdoc */
+    floor(): IEnumerable<number>;
+    /**
+     * Returns the last item, which has a key that is less than or equal to a specific one.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {T} The item or (undefined) if there is no such item.
+     */
+    floor(key: TKey): T;
+    /**
+     * Returns an item.
+     *
+     * @param {number} index The zero based index.
+     *
+     * @return {T} The item.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    get(index: number): T;
+    /**
+     * Inserts an item at its sorted position, behind all items with the same key.
+     *
+     * @param {T} item The item to insert.
+     *
+     * @return {number} The index of the item.
+     */
+    protected insertItem(item: T): number;
+    /** @inheritdoc */
+    length(): number;
+    /**
+     * Returns the index of the first item, which has a key that is greater than
+     * or equal to a specific one.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {number} The index or the number of items, if there is no such item.
+     */
+    protected lowerBound(key: TKey): number;
+    /**
+     * Returns the items, which have keys between two values.
+     *
+     * @param {TKey} from The lowest key (inclusive).
+     * @param {TKey} to The highest key (inclusive).
+     *
+     * @return {IOrderedEnumerable<T>} The items, which are read, each time the sequence is iterated.
+     */
+    range(from: TKey, to: TKey): IOrderedEnumerable<T>;
+    /**
+     * Returns the number of items, which have a key that is less than a specific one.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {number} The rank of the key.
+     */
+    rank(key: TKey): number;
+    /**
+     * Removes the item at a specific position.
+     *
+     * @param {number} index The zero based index.
+     *
+     * @return {T} The removed item.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    removeAt(index: number): T;
+    /**
+     * Does a binary search for the first item, which does not satisfy a condition
+     * for the result of the key comparer.
+     *
+     * @param {TKey} key The key.
+     * @param {Function} isBefore Checks the result of the key comparer.
+     *
+     * @return {number} The index.
+     */
+    protected searchIndex(
+      key: TKey,
+      isBefore: (comparerResult: number) => boolean,
+    ): number;
+    /** @inheritdoc */
+    toArray(): Array<T>;
+    /**
+     * Checks and returns an index.
+     *
+     * @param {number} index The zero based index.
+     *
+     * @return {number} The index.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    protected toIndexSafe(index: number): number;
+    /** @inheritdoc */
+    tryGetNonEnumeratedCount(): number;
+    /**
+     * Returns the index of the first item, which has a key that is greater than
+     * a specific one.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {number} The index or the number of items, if there is no such item.
+     */
+    protected upperBound(key: TKey): number;
+  }
+  /**
+   * A list, which keeps its items sorted by keys. Items can have the same key.
+   *
+   * @template TKey Type of the keys.
+   * @template T Type of the items.
+   */
+  export class SortedList<TKey = any, T = any> extends SortedCollectionBase<
+    TKey,
+    T
+  > {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Selector<T, TKey>} keySelector The key selector.
+     * @param {Sequence<T>} [items] The initial items.
+     * @param {Comparer<TKey>} [keyComparer] The custom key comparer.
+     */
+    constructor(
+      keySelector: Selector<T, TKey>,
+      items?: Sequence<T>,
+      keyComparer?: Comparer<TKey>,
+    );
+    /**
+     * Adds one or more items.
+     *
+     * @param {...Array<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    add(...items: Array<T>): this;
+    /**
+     * Adds the items of a sequence.
+     *
+     * @param {Sequence<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    addRange(items: Sequence<T>): this;
+    /**
+     * Checks if a key exists.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {boolean} Key exists or not.
+     */
+    containsKey(key: TKey): boolean;
+    /**
+     * Removes an item.
+     *
+     * @param {T} item The item to remove.
+     *
+     * @return {boolean} Item has been removed or not.
+     */
+    remove(item: T): boolean;
+    /**
+     * Removes all items with a specific key.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {number} The number of removed items.
+     */
+    removeKey(key: TKey): number;
+  }
+  /**
+   * A set of unique items, which are kept sorted.
+   *
+   * Two items are the same, if the comparer returns 0.
+   *
+   * @template T Type of the items.
+   */
+  export class SortedSet<T = any> extends SortedCollectionBase<T, T> {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Sequence<T>} [items] The initial items.
+     * @param {Comparer<T>} [comparer] The custom comparer.
+     */
+    constructor(items?: Sequence<T>, comparer?: Comparer<T>);
+    /**
+     * Adds an item, if it does not exist.
+     *
+     * @param {T} item The item to add.
+     *
+     * @return {boolean} Item has been added or not.
+     */
+    add(item: T): boolean;
+    /**
+     * Checks if an item exists.
+     *
+     * @param {T} item The item to check.
+     *
+     * @return {boolean} Item exists or not.
+     */
+    has(item: T): boolean;
+    /**
+     * Removes an item.
+     *
+     * @param {T} item The item to remove.
+     *
+     * @return {boolean} Item has been removed or not.
+     */
+    remove(item: T): boolean;
+  }
+  /**
+   * A double-ended queue.
+   *
+   * Iterating the deque returns a snapshot of its items, from front to back,
+   * without removing them. Use 'drain()' to remove them while iterating.
+   *
+   * @template T Type of the items.
+   */
+  export class Deque<T = any> extends DeferredEnumerable<T> {
+    /**
+     * Stores the items.
+     */
+    protected _items: RingBuffer<T>;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Sequence<T>} [items] The initial items, from front to back.
+     */
+    constructor(items?: Sequence<T>);
+    /**
+     * Removes all items.
+     *
+     * @return {this} That instance.
+     */
+    clear(): this;
+    /**
+     * Returns a sequence, which removes the items from the front of the deque, while it is iterated.
+     *
+     * Items, which are added during the iteration, are also returned.
+     *
+     * @return {IEnumerable<T>} The new sequence.
+     */
+    drain(): IEnumerable<T>;
+    /**
+     * @see drain()
+     */
+    protected drainInner(): Generator<T, void, unknown>;
+    /** @inheritdoc */
+    length(): number;
+    /**
+     * Returns the last item without removing it.
+     *
+     * @return {T} The item or (undefined) if the deque is empty.
+     */
+    peekBack(): T;
+    /**
+     * Returns the first item without removing it.
+     *
+     * @return {T} The item or (undefined) if the deque is empty.
+     */
+    peekFront(): T;
+    /**
+     * Removes the last item.
+     *
+     * @return {T} The item or (undefined) if the deque is empty.
+     */
+    popBack(): T;
+    /**
+     * Removes the first item.
+     *
+     * @return {T} The item or (undefined) if the deque is empty.
+     */
+    popFront(): T;
+    /**
+     * Adds one or more items to the back.
+     *
+     * @param {...Array<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    pushBack(...items: Array<T>): this;
+    /**
+     * Adds one or more items to the front, like 'Array.unshift()' does.
+     *
+     * @param {...Array<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    pushFront(...items: Array<T>): this;
+    /** @inheritdoc */
+    toArray(): Array<T>;
+  }
+  /**
+   * A queue, whose items are removed in the order they have been added (FIFO).
+   *
+   * Iterating the queue returns a snapshot of its items without removing them.
+   * Use 'drain()' to remove them while iterating.
+   *
+   * @template T Type of the items.
+   */
+  export class Queue<T = any> extends DeferredEnumerable<T> {
+    /**
+     * Stores the items.
+     */
+    protected _items: RingBuffer<T>;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Sequence<T>} [items] The initial items.
+     */
+    constructor(items?: Sequence<T>);
+    /**
+     * Removes all items.
+     *
+     * @return {this} That instance.
+     */
+    clear(): this;
+    /**
+     * Removes the first item.
+     *
+     * @return {T} The item or (undefined) if the queue is empty.
+     */
+    dequeue(): T;
+    /**
+     * Returns a sequence, which removes the items from the queue, while it is iterated.
+     *
+     * Items, which are added during the iteration, are also returned.
+     *
+     * @return {IEnumerable<T>} The new sequence.
+     */
+    drain(): IEnumerable<T>;
+    /**
+     * @see drain()
+     */
+    protected drainInner(): Generator<T, void, unknown>;
+    /**
+     * Adds one or more items.
+     *
+     * @param {...Array<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    enqueue(...items: Array<T>): this;
+    /** @inheritdoc */
+    length(): number;
+    /**
+     * Returns the first item without removing it.
+     *
+     * @return {T} The item or (undefined) if the queue is empty.
+     */
+    peek(): T;
+    /** @inheritdoc */
+    toArray(): Array<T>;
+  }
+  /**
+   * A queue, which removes the lowest item first. Items, which are equal,
+   * are removed in the order they have been added.
+   *
+   * Iterating the queue returns a sorted snapshot of its items without removing them.
+   * Use 'drain()' to remove them while iterating.
+   *
+   * @template T Type of the items.
+   */
+  export class PriorityQueue<T = any> extends DeferredEnumerable<T> {
+    /**
+     * Stores the comparer.
+     */
+    protected _comparer: Comparer<T>;
+    /**
+     * Stores the number of items, which have been added.
+     */
+    protected _counter: number;
+    /**
+     * Stores the items.
+     */
+    protected _items: BinaryHeap<PriorityQueueEntry<T>>;
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Sequence<T>} [items] The initial items.
+     * @param {Comparer<T>} [comparer] The custom comparer. Default: ascending order
+     */
+    constructor(items?: Sequence<T>, comparer?: Comparer<T>);
+    /**
+     * Removes all items.
+     *
+     * @return {this} That instance.
+     */
+    clear(): this;
+    /**
+     * Gets the comparer of that queue.
+     */
+    get comparer(): Comparer<T>;
+    /**
+     * Removes the lowest item.
+     *
+     * @return {T} The item or (undefined) if the queue is empty.
+     */
+    dequeue(): T;
+    /**
+     * Returns a sequence, which removes the items from the queue, lowest first, while it is iterated.
+     *
+     * Items, which are added during the iteration, are also returned.
+     *
+     * @return {IEnumerable<T>} The new sequence.
+     */
+    drain(): IEnumerable<T>;
+    /**
+     * @see drain()
+     */
+    protected drainInner(): Generator<T, void, unknown>;
+    /**
+     * Adds one or more items.
+     *
+     * @param {...Array<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    enqueue(...items: Array<T>): this;
+    /** @inheritdoc */
+    length(): number;
+    /**
+     * Returns the lowest item without removing it.
+     *
+     * @return {T} The item or (undefined) if the queue is empty.
+     */
+    peek(): T;
+    /** @inheritdoc */
+    toArray(): Array<T>;
+  }
+  /**
+   * A basic async sequence.
+   */
+  export abstract class AsyncEnumerableBase<T = any>
+    implements IAsyncEnumerable<T>
+  {
+    /**
+     * Stores the current iterator result.
+     */
+    protected _current: IteratorResult<T>;
+    /**
+     * Stores the current index.
+     */
+    protected _index: number;
+    /**
+     * Indicates that that instance is an async enumerable (sequence).
+     */
+    readonly IS_ASYNC_ENUMERABLE: symbol;
+    /** @inheritdoc */
+    [Symbol.asyncIterator](): AsyncIterator<T>;
+    /** @inheritdoc */
+    bufferTime(
+      timeSpan: number,
+      maxSize?: number,
+      scheduler?: IScheduler,
+    ): IAsyncEnumerable<T[]>;
+    /** @inheritdoc */
+    count(predicate?: AsyncPredicate<T>): Promise<number>;
+    /** @inheritdoc */
+    get current(): IteratorResult<T>;
+    /** @inheritdoc */
+    debounce(dueTime: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
+    /** @inheritdoc */
+    delay(dueTime: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
+    /**
+     * @see delay()
+     */
+    protected delayInner(
+      dueTime: number,
+      scheduler: IScheduler,
+    ): AsyncGenerator<Awaited<T>, void, unknown>;
+    /** @inheritdoc */
+    first(predicate?: AsyncPredicate<T>): Promise<T>;
+    /** @inheritdoc */
+    forEachParallel(
+      action: AsyncEachAction<T>,
+      options?: ParallelOptions,
+    ): Promise<void>;
+    /** @inheritdoc */
+    groupBy<TKey>(
+      keySelector: AsyncSelector<T, TKey>,
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+    ): IAsyncEnumerable<IGrouping<TKey, T>>;
+    /**
+     * @see groupBy()
+     */
+    protected groupByInner<TKey>(
+      keySelector: AsyncSelector<T, TKey>,
+      keyEqualityComparer: IEqualityComparer<TKey>,
+    ): AsyncGenerator<Grouping<TKey, T>, void, unknown>;
+    /** @inheritdoc */
+    get index(): number;
+    /** @inheritdoc */
+    abstract next(value?: any): Promise<IteratorResult<T>>;
+    /** @inheritdoc */
+    orderBy<U>(
+      selector: AsyncSelector<T, U>,
+      comparer?: Comparer<U>,
+    ): IAsyncEnumerable<T>;
+    /**
+     * @see orderBy()
+     */
+    protected orderByInner<U>(
+      selector: AsyncSelector<T, U>,
+      comparer: Comparer<U>,
+    ): AsyncGenerator<Awaited<T>, void, unknown>;
+    /** @inheritdoc */
+    orderByDescending<U>(
+      selector: AsyncSelector<T, U>,
+      comparer?: Comparer<U>,
+    ): IAsyncEnumerable<T>;
+    /** @inheritdoc */
+    sample(period: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
+    /** @inheritdoc */
+    select<U>(selector: AsyncSelector<T, U>): IAsyncEnumerable<U>;
+    /**
+     * @see select()
+     */
+    protected selectInner<U>(
+      selector: AsyncSelector<T, U>,
+    ): AsyncGenerator<Awaited<U>, void, unknown>;
+    /** @inheritdoc */
+    selectMany<U>(
+      selector: AsyncSelector<T, AsyncSequence<U>>,
+    ): IAsyncEnumerable<U>;
+    /**
+     * @see selectMany()
+     */
+    protected selectManyInner<U>(
+      selector: AsyncSelector<T, AsyncSequence<U>>,
+    ): AsyncGenerator<Awaited<U>, void, unknown>;
+    /** @inheritdoc */
+    selectParallel<U>(
+      selector: ParallelSelector<T, U>,
+      options?: ParallelOptions,
+    ): IAsyncEnumerable<U>;
+    /** @inheritdoc */
+    skip(count?: number): IAsyncEnumerable<T>;
+    /** @inheritdoc */
+    skipWhile(predicate: AsyncPredicate<T>): IAsyncEnumerable<T>;
+    /**
+     * @see skipWhile()
+     */
+    protected skipWhileInner(
+      predicate: AsyncPredicate<T>,
+    ): AsyncGenerator<Awaited<T>, void, unknown>;
+    /** @inheritdoc */
+    take(count?: number): IAsyncEnumerable<T>;
+    /**
+     * @see take()
+     */
+    protected takeInner(
+      count: number,
+    ): AsyncGenerator<Awaited<T>, void, unknown>;
+    /** @inheritdoc */
+    takeWhile(predicate: AsyncPredicate<T>): IAsyncEnumerable<T>;
+    /**
+     * @see takeWhile()
+     */
+    protected takeWhileInner(
+      predicate: AsyncPredicate<T>,
+    ): AsyncGenerator<Awaited<T>, void, unknown>;
     /** @inheritdoc */
-    get canReset(): boolean;
+    throttle(duration: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
+    /**
+     * @see throttle()
+     */
+    protected throttleInner(
+      duration: number,
+      scheduler: IScheduler,
+    ): AsyncGenerator<Awaited<T>, void, unknown>;
     /** @inheritdoc */
-    get current(): IteratorResult<T, any>;
+    timeout(dueTime: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
+    /**
+     * @see timeout()
+     */
+    protected timeoutInner(
+      dueTime: number,
+      scheduler: IScheduler,
+    ): AsyncGenerator<any, void, unknown>;
     /** @inheritdoc */
-    next(): IteratorResult<T, any>;
+    toArray(): Promise<Array<T>>;
     /** @inheritdoc */
-    reset(): this;
+    where(predicate: AsyncPredicate<T>): IAsyncEnumerable<T>;
+    /**
+     * @see where()
+     */
+    protected whereInner(
+      predicate: AsyncPredicate<T>,
+    ): AsyncGenerator<Awaited<T>, void, unknown>;
   }
   /**
-   * A sequence based on an Iterator<T>.
+   * An async sequence based on an AsyncIterator<T>.
    */
-  class IteratorEnumerable<T = any> extends EnumerableBase<T> {
+  export class AsyncIteratorEnumerable<T = any> extends AsyncEnumerableBase<T> {
     /**
      * Stores the inner iterator.
      */
-    protected _iterator: Iterator<T>;
+    protected _iterator: AsyncIterator<T> | Iterator<T>;
     /**
      * Initializes a new instance of that class.
      *
-     * @param {Iterator<T>} [iterator] The underlying iterator.
+     * @param {AsyncIterator<T>|Iterator<T>} [iterator] The underlying iterator.
      */
-    constructor(iterator?: Iterator<T>);
+    constructor(iterator?: AsyncIterator<T> | Iterator<T>);
     /** @inheritdoc */
-    next(value?: any): IteratorResult<T>;
+    next(value?: any): Promise<IteratorResult<T>>;
+    /**
+     * Closes the underlying iterator, like an async generator,
+     * e.g. if a 'for await' loop has been left before the end.
+     *
+     * @param {any} [value] The value to return.
+     *
+     * @returns {Promise<IteratorResult<T>>} The promise with the result.
+     */
+    return(value?: any): Promise<IteratorResult<T>>;
   }
   /**
-   * A sequence based on an array.
+   * A scheduler, which uses the timers of the runtime.
    */
-  class ArrayEnumerable<T = any> extends EnumerableBase<T> {
+  export class TimerScheduler implements IScheduler {
+    /** @inheritdoc */
+    now(): number;
+    /** @inheritdoc */
+    schedule(action: () => void, dueTime: number): () => void;
+  }
+  /**
+   * A scheduler with a virtual clock, which is only moved forward
+   * by 'advanceBy()' or 'advanceTo()', e.g. for unit tests.
+   */
+  export class VirtualScheduler implements IScheduler {
     /**
-     * Stores the underlying array.
+     * Stores the scheduled actions, sorted by their due time.
      */
-    protected _array: ArrayLike<T>;
+    protected _actions: {
+      action: () => void;
+      dueTime: number;
+      id: number;
+    }[];
+    /**
+     * Stores the ID for the next action.
+     */
+    protected _nextId: number;
+    /**
+     * Stores the current (virtual) time.
+     */
+    protected _now: number;
     /**
      * Initializes a new instance of that class.
      *
-     * @param {ArrayLike<T>} [arr] The underlying array.
+     * @param {number} [now] The initial time, in milliseconds. Default: 0
      */
-    constructor(arr?: ArrayLike<T>);
-    /** @inheritdoc */
-    get canReset(): boolean;
-    /** @inheritdoc */
-    length(): number;
+    constructor(now?: number);
+    /**
+     * Moves the clock forward and invokes all actions, which are due.
+     *
+     * @param {number} time The time, in milliseconds, to move forward.
+     *
+     * @returns {Promise<void>} The promise.
+     */
+    advanceBy(time: number): Promise<void>;
+    /**
+     * Moves the clock forward to a specific time and invokes
+     * all actions, which are due until then.
+     *
+     * @param {number} time The time, in milliseconds, to move to.
+     *
+     * @returns {Promise<void>} The promise.
+     */
+    advanceTo(time: number): Promise<void>;
     /** @inheritdoc */
-    next(): IteratorResult<T>;
+    now(): number;
     /** @inheritdoc */
-    reset(): this;
+    schedule(action: () => void, dueTime: number): () => void;
   }
   /**
-   * A grouping.
+   * A value, which signals, that a reduction should be stopped.
    *
-   * @template T Type of the items.
-   * @template TKey Type of the key.
+   * @template T Type of the value.
    */
-  class Grouping<TKey = any, T = any>
-    extends EnumerableWrapper<T>
-    implements IGrouping<TKey, T>
-  {
+  export import ReducedValue = Internal.ReducedValue;
+  /**
+   * Builds a transducer, which is a transformation, that can be defined once
+   * and applied to an 'IEnumerable', an array, an async sequence
+   * or a push-based source.
+   *
+   * @template T Type of the source items.
+   * @template U Type of the target items.
+   */
+  export class TransducerBuilder<T = any, U = T> {
     /**
-     * Stores the key.
+     * Indicates that the transducer does not require any item, like 'take(0)'.
      */
-    protected _key: TKey;
+    protected _isEmpty: boolean;
+    /**
+     * Stores the underlying transducer.
+     */
+    protected _transducer: Transducer<T, U>;
     /**
      * Initializes a new instance of that class.
      *
-     * @param {TKey} key The key.
-     * @param {IEnumerable} seq The items of the grouping.
+     * @param {Transducer<T, U>} transducer The underlying transducer.
      */
-    constructor(key: TKey, seq: IEnumerable<T>);
-    /** @inheritdoc */
-    get key(): TKey;
-  }
-  /**
-   * An ordered sequence.
-   *
-   * @template T Type of the items.
-   * @template U Type of the sort keys.
-   */
-  class OrderedEnumerable<T = any, U = T>
-    extends EnumerableWrapper<T>
-    implements IOrderedEnumerable<T>
-  {
+    constructor(transducer: Transducer<T, U>);
+    /**
+     * Applies the transducer to a sequence.
+     *
+     * @param {Sequence<T>} source The source sequence.
+     *
+     * @return {IEnumerable<U>} The new sequence, which can be iterated again,
+     *                          if the source can.
+     */
+    applyTo(source: Sequence<T>): IEnumerable<U>;
     /**
-     * Stores the items in the original order.
+     * @see applyTo()
      */
-    protected _originalItems: Array<T>;
+    protected applyToInner(source: Sequence<T>): Generator<U, void, undefined>;
     /**
-     * Stores the comparer for the sort keys.
+     * Applies the transducer to an async sequence.
+     *
+     * @param {AsyncSequence<T>} source The source sequence.
+     *
+     * @return {IAsyncEnumerable<U>} The new sequence.
      */
-    protected _orderComparer: Comparer<U, U>;
+    applyToAsync(source: AsyncSequence<T>): IAsyncEnumerable<U>;
     /**
-     * Stores the selector for the keys.
+     * @see applyToAsync()
      */
-    protected _orderSelector: Selector<T, U>;
+    protected applyToAsyncInner(
+      source: AsyncSequence<T>,
+    ): AsyncGenerator<Awaited<U>, void, undefined>;
     /**
-     * Initializes a new instance of that class.
+     * Returns the underlying transducer.
      *
-     * @param {IEnumerable<T>} seq The source sequence.
-     * @param {Selector<T,U>} selector The selector for the sort values.
-     * @param {Comparer<U,U>} comparer The comparer to use.
+     * @return {Transducer<T, U>} The transducer.
      */
-    constructor(
-      seq: IEnumerable<T>,
-      selector: Selector<T, U>,
-      comparer: Comparer<U, U>,
-    );
+    compile(): Transducer<T, U>;
+    /**
+     * Appends a custom transducer.
+     *
+     * @template V Type of the new target items.
+     *
+     * @param {Transducer<U, V>} transducer The transducer to append.
+     *
+     * @return {TransducerBuilder<T, V>} The new builder.
+     */
+    compose<V>(transducer: Transducer<U, V>): TransducerBuilder<T, V>;
     /**
-     * Gets the comparer.
+     * Creates a function, which can be invoked by a push-based source,
+     * like an event handler, for each of its items.
+     *
+     * @param {(item: U) => void} observer The function, which receives the target items.
+     *
+     * @return {(item: T) => boolean} The function for the source items, which returns
+     *                                (false), if no more items are required.
      */
-    get comparer(): Comparer<U, U>;
+    observe(observer: (item: U) => void): (item: T) => boolean;
     /**
-     * Gets the selector.
+     * Creates a reducer of source items, which can be used
+     * with 'IEnumerable.aggregate()', e.g.
+     *
+     * The reducer keeps the state of steps, like 'skip()' or 'take()',
+     * so create a new one for each 'aggregate()' call.
+     *
+     * @template TAccumulate Type of the accumulator value.
+     *
+     * @param {Reducer<TAccumulate, U>} reducer The reducer of the target items.
+     *
+     * @return {Reducer<TAccumulate, T>} The new reducer.
      */
-    get selector(): (x: T) => any;
-    /** @inheritdoc */
-    then(comparer?: Comparer<T>): IOrderedEnumerable<T>;
-    /** @inheritdoc */
-    thenBy<U>(
-      selector: Selector<T, U>,
-      comparer?: Comparer<U, U>,
-    ): IOrderedEnumerable<T>;
-    /** @inheritdoc */
-    thenByDescending<U>(
-      selector: Selector<T, U>,
-      comparer?: Comparer<U, U>,
-    ): IOrderedEnumerable<T>;
-    /** @inheritdoc */
-    thenDescending(comparer?: Comparer<T>): IOrderedEnumerable<T>;
+    reducer<TAccumulate>(
+      reducer: Reducer<TAccumulate, U>,
+    ): Reducer<TAccumulate, T>;
+    /**
+     * Projects the items.
+     *
+     * @template V Type of the new target items.
+     *
+     * @param {Selector<U, V>} selector The selector.
+     *
+     * @return {TransducerBuilder<T, V>} The new builder.
+     */
+    select<V>(selector: Selector<U, V>): TransducerBuilder<T, V>;
+    /**
+     * Projects the items to sequences and flattens them.
+     *
+     * @template V Type of the new target items.
+     *
+     * @param {Selector<U, Sequence<V>>} selector The selector.
+     *
+     * @return {TransducerBuilder<T, V>} The new builder.
+     */
+    selectMany<V>(selector: Selector<U, Sequence<V>>): TransducerBuilder<T, V>;
+    /**
+     * Skips a number of items.
+     *
+     * @param {number} [count] The number of items to skip. Default: 1
+     *
+     * @return {TransducerBuilder<T, U>} The new builder.
+     */
+    skip(count?: number): TransducerBuilder<T, U>;
+    /**
+     * Skips items while a condition is satisfied.
+     *
+     * @param {Predicate<U>} predicate The predicate.
+     *
+     * @return {TransducerBuilder<T, U>} The new builder.
+     */
+    skipWhile(predicate: Predicate<U>): TransducerBuilder<T, U>;
+    /**
+     * Takes a number of items and stops.
+     *
+     * @param {number} [count] The number of items to take. Default: 1
+     *
+     * @return {TransducerBuilder<T, U>} The new builder.
+     */
+    take(count?: number): TransducerBuilder<T, U>;
+    /**
+     * Takes items while a condition is satisfied and stops.
+     *
+     * @param {Predicate<U>} predicate The predicate.
+     *
+     * @return {TransducerBuilder<T, U>} The new builder.
+     */
+    takeWhile(predicate: Predicate<U>): TransducerBuilder<T, U>;
+    /**
+     * Filters the items by a type guard.
+     *
+     * @template V The narrowed type.
+     *
+     * @param {TypeGuard<U, V>} predicate The type guard.
+     *
+     * @return {TransducerBuilder<T, V>} The new builder.
+     */
+    where<V extends U>(predicate: TypeGuard<U, V>): TransducerBuilder<T, V>;
+    /**
+     * Filters the items.
+     *
+     * @param {Predicate<U>} predicate The predicate.
+     *
+     * @return {TransducerBuilder<T, U>} The new builder.
+     */
+    where(predicate: Predicate<U>): TransducerBuilder<T, U>;
   }
   /**
    * Keeps sure that a value is a sequence.
@@ -1976,7 +4245,7 @@ declare namespace Enumerable {
    *
    * @return {IEnumerable<T>} The value as sequence. Can return (null) or (undefined), if 'val' is one of these values.
    */
-  function asEnumerable<T = any>(val: any): IEnumerable<T>;
+  export function asEnumerable<T = any>(val: any): IEnumerable<T>;
   /**
    * Returns a value as function.
    *
@@ -1986,7 +4255,7 @@ declare namespace Enumerable {
    * @return {T} 'val' as function or (false) on error, if 'throwException' is (false).
    *             Can be (null) or (undefined) if 'val' has a same value or is an empty string (representation).
    */
-  function asFunc<T extends Function = Function>(
+  export function asFunc<T extends Function = Function>(
     val: any,
     throwException?: boolean,
   ): T | false;
@@ -1997,12 +4266,16 @@ declare namespace Enumerable {
    *
    * @param {CancelableFactory<T>} factory The factory function.
    * @param {number} [count] The maximum number of items.
+   * @param {AbortSignal} [signal] The optional signal, that can abort the sequence.
    *
    * @returns {IEnumerable<T>}
+   *
+   * @throws {AbortError} The sequence has been aborted.
    */
-  function build<T = any>(
+  export function build<T = any>(
     factory: CancelableFactory<T>,
     count?: number,
+    signal?: AbortSignal,
   ): IEnumerable<T>;
   /**
    * Builds a flatten sequence of sequences.
@@ -2010,12 +4283,16 @@ declare namespace Enumerable {
    * @template T Type of the items.
    * @param {CancelableFactory<Sequence<T>>} factory The factory.
    * @param {number} [count] The maximum number of invocations.
+   * @param {AbortSignal} [signal] The optional signal, that can abort the sequence.
    *
    * @returns {IEnumerable<T>} The flatten list of items.
+   *
+   * @throws {AbortError} The sequence has been aborted.
    */
-  function buildMany<T = any>(
+  export function buildMany<T = any>(
     factory: CancelableFactory<Sequence<T>>,
     count?: number,
+    signal?: AbortSignal,
   ): IEnumerable<T>;
   /**
    * Creates a new sequence from a list of items.
@@ -2026,7 +4303,19 @@ declare namespace Enumerable {
    *
    * @returns {IEnumerable<T>} The new sequence.
    */
-  function create<T = any>(...items: Array<T>): IEnumerable<T>;
+  export function create<T = any>(...items: Array<T>): IEnumerable<T>;
+  /**
+   * Creates a new, re-iterable sequence, which invokes a factory function
+   * each time it is iterated. All sequences created from it by operations,
+   * like 'where()' or 'select()', are re-iterable, too.
+   *
+   * @template T Type of the items.
+   *
+   * @param {Function} factory The function, which creates the items.
+   *
+   * @returns {IEnumerable<T>} The new sequence.
+   */
+  export function defer<T = any>(factory: () => Sequence<T>): IEnumerable<T>;
   /**
    * Creates an empty sequence.
    *
@@ -2034,7 +4323,7 @@ declare namespace Enumerable {
    *
    * @returns {IEnumerable<T>} The new, empty sequence.
    */
-  function empty<T = any>(): IEnumerable<T>;
+  export function empty<T = any>(): IEnumerable<T>;
   /**
    * Creates a new sequence.
    *
@@ -2042,7 +4331,17 @@ declare namespace Enumerable {
    *
    * @return {IEnumerable<T>} The new sequence.
    */
-  function from<T = any>(seq?: Sequence<T>): IEnumerable<T>;
+  export function from<T = any>(seq?: Sequence<T>): IEnumerable<T>;
+  /**
+   * Creates a new async sequence.
+   *
+   * @param {AsyncSequence<T>} seq The input data.
+   *
+   * @return {IAsyncEnumerable<T>} The new async sequence.
+   */
+  export function fromAsync<T = any>(
+    seq?: AsyncSequence<T>,
+  ): IAsyncEnumerable<T>;
   /**
    * Creates a new sequence from the string representation of a value.
    *
@@ -2050,7 +4349,46 @@ declare namespace Enumerable {
    *
    * @return {IEnumerable<string>} The new sequence.
    */
-  function fromString(val: any): IEnumerable<string>;
+  export function fromString(val: any): IEnumerable<string>;
+  /**
+   * Creates a new async sequence from the events of an emitter.
+   * If a listener of an event is invoked with more than one argument,
+   * only the first one is used as item.
+   *
+   * @param {EventEmitterLike} emitter The emitter.
+   * @param {string|symbol} eventName The name of the event, which provides the items.
+   * @param {FromEventOptions} [options] Custom options.
+   *
+   * @return {IAsyncEnumerable<T>} The new async sequence.
+   */
+  export function fromEvent<T = any>(
+    emitter: EventEmitterLike,
+    eventName: string | symbol,
+    options?: FromEventOptions,
+  ): IAsyncEnumerable<T>;
+  /**
+   * Creates a new, infinite async sequence, which emits
+   * zero based, increasing numbers periodically.
+   *
+   * @param {number} period The period, in milliseconds.
+   * @param {IScheduler} [scheduler] The custom scheduler.
+   *
+   * @return {IAsyncEnumerable<number>} The new async sequence.
+   */
+  export function interval(
+    period: number,
+    scheduler?: IScheduler,
+  ): IAsyncEnumerable<number>;
+  /**
+   * Checks if a value represents an async enumerable (sequence).
+   *
+   * @param {any} val The value to check.
+   *
+   * @returns {boolean} Is async enumerable (sequence) or not.
+   */
+  export function isAsyncEnumerable<T = any>(
+    val: any,
+  ): val is IAsyncEnumerable<T>;
   /**
    * Checks if a value represents the IS_EMPTY symbol.
    *
@@ -2058,7 +4396,7 @@ declare namespace Enumerable {
    *
    * @returns {boolean} Is IS_EMPTY symbol or not.
    */
-  function isEmpty(val: any): val is symbol;
+  export function isEmpty(val: any): val is symbol;
   /**
    * Checks if a value represents an enumerable (sequence).
    *
@@ -2066,7 +4404,7 @@ declare namespace Enumerable {
    *
    * @returns {boolean} Is enumerable (sequence) or not.
    */
-  function isEnumerable<T = any>(val: any): val is IEnumerable<T>;
+  export function isEnumerable<T = any>(val: any): val is IEnumerable<T>;
   /**
    * Checks if a sequence is (null) or empty.
    *
@@ -2074,9 +4412,17 @@ declare namespace Enumerable {
    *
    * @return {boolean} Is (null) or empty.
    */
-  function isNullOrEmpty<T = any>(
+  export function isNullOrEmpty<T = any>(
     seq: IEnumerable<T> | null,
   ): seq is null | IEnumerable<T>;
+  /**
+   * Checks if a value has been wrapped by 'reduced()'.
+   *
+   * @param {any} val The value to check.
+   *
+   * @return {boolean} Is reduced value or not.
+   */
+  export import isReduced = Internal.isReduced;
   /**
    * Checks if a value can be used as enumerable (sequence).
    *
@@ -2084,7 +4430,7 @@ declare namespace Enumerable {
    *
    * @return {boolean} Is sequence or not.
    */
-  function isSequence<T = any>(val: any): val is Sequence<T>;
+  export import isSequence = Internal.isSequence;
   /**
    * Checks if a sequence is (undefined) / (null) or empty.
    *
@@ -2092,7 +4438,7 @@ declare namespace Enumerable {
    *
    * @return {boolean} Is (undefined), (null) or empty.
    */
-  function isUndefinedNullOrEmpty<T = any>(
+  export function isUndefinedNullOrEmpty<T = any>(
     seq: IEnumerable<T> | null | undefined,
   ): seq is undefined | null | IEnumerable<T>;
   /**
@@ -2102,7 +4448,7 @@ declare namespace Enumerable {
    *
    * @return {boolean} Is (undefined) or empty.
    */
-  function isUndefinedOrEmpty<T = any>(
+  export function isUndefinedOrEmpty<T = any>(
     seq: IEnumerable<T> | undefined,
   ): seq is undefined | IEnumerable<T>;
   /**
@@ -2112,7 +4458,7 @@ declare namespace Enumerable {
    *
    * @returns {boolean} Is NOT_FOUND symbol or not.
    */
-  function notFound(val: any): val is symbol;
+  export function notFound(val: any): val is symbol;
   /**
    * Creates a sequence from a stack by popping its elements.
    *
@@ -2120,19 +4466,23 @@ declare namespace Enumerable {
    *
    * @return {IEnumerable<T>} The new sequence.
    */
-  function popFrom<T = any>(stack: PoppableStack<T>): IEnumerable<T>;
+  export function popFrom<T = any>(stack: PoppableStack<T>): IEnumerable<T>;
   /**
    * Returns a sequence of random numbers.
    *
    * @param {number} [count] The maximum number of items.
    *                         If not defined, the sequence will become infinitely.
    * @param {(randomValue: number, index: number) => number} [valueProvider] A custom function for providing a random number.
+   * @param {AbortSignal} [signal] The optional signal, that can abort the sequence.
    *
    * @return {IEnumerable<number>} The sequence of random numbers.
+   *
+   * @throws {AbortError} The sequence has been aborted.
    */
-  function random(
+  export function random(
     count?: number,
     valueProvider?: (randomValue: number, index: number) => number,
+    signal?: AbortSignal,
   ): IEnumerable<number>;
   /**
    * Creates a range of numbers.
@@ -2142,7 +4492,39 @@ declare namespace Enumerable {
    *
    * @returns {IEnumerable<number>} The new sequence.
    */
-  function range(start: number, count?: number): IEnumerable<number>;
+  export function range(start: number, count?: number): IEnumerable<number>;
+  /**
+   * Wraps a value, which is returned by a reducer, to signal,
+   * that no more items are required.
+   *
+   * @param {T} value The (final) accumulator value.
+   *
+   * @return {ReducedValue<T>} The wrapped value.
+   */
+  export function reduced<T = any>(value: T): ReducedValue<T>;
+  /**
+   * Registers a custom operator for all sequences, like 'ArrayEnumerable',
+   * 'IteratorEnumerable', 'OrderedEnumerable' or 'Grouping'.
+   *
+   * To use the operator in TypeScript, augment the 'IEnumerable<T>'
+   * interface of the module:
+   *
+   * declare module "node-enumerable" {
+   *   interface IEnumerable<T> {
+   *     evens(): IEnumerable<T>;
+   *   }
+   * }
+   *
+   * @param {string} name The name of the operator.
+   * @param {OperatorImplementation<T>} impl The implementation.
+   *
+   * @throws {OperatorClashError} The name is already used by a built-in
+   *                              or previously registered operator.
+   */
+  export function registerOperator<T = any>(
+    name: string,
+    impl: OperatorImplementation<T>,
+  ): void;
   /**
    * Creates a range of numbers.
    *
@@ -2151,7 +4533,7 @@ declare namespace Enumerable {
    *
    * @returns {IEnumerable<number>} The new sequence.
    */
-  function repeat<T = any>(item: T, count?: number): IEnumerable<T>;
+  export function repeat<T = any>(item: T, count?: number): IEnumerable<T>;
   /**
    * Creates a sequence from a stack by shifting its elements.
    *
@@ -2159,7 +4541,7 @@ declare namespace Enumerable {
    *
    * @return {IEnumerable<T>} The new sequence.
    */
-  function shiftFrom<T = any>(stack: ShiftableStack<T>): IEnumerable<T>;
+  export function shiftFrom<T = any>(stack: ShiftableStack<T>): IEnumerable<T>;
   /**
    * Returns a sorted sequence.
    *
@@ -2172,7 +4554,7 @@ declare namespace Enumerable {
    *
    * @return {IOrderedEnumerable<T>} The sorted sequence.
    */
-  function sort<T = any, U = T>(
+  export function sort<T = any, U = T>(
     items: Sequence<T>,
     selector?: Selector<T, U>,
     comparer?: Comparer<U>,
@@ -2189,10 +4571,150 @@ declare namespace Enumerable {
    *
    * @return {IOrderedEnumerable<T>} The sorted sequence.
    */
-  function sortDesc<T = any, U = T>(
+  export function sortDesc<T = any, U = T>(
     items: Sequence<T>,
     selector?: Selector<T, U>,
     comparer?: Comparer<U>,
   ): IOrderedEnumerable<T>;
+  /**
+   * Starts building a transducer.
+   *
+   * @template T Type of the source items.
+   *
+   * @return {TransducerBuilder<T, T>} The new builder.
+   */
+  export function transducer<T = any>(): TransducerBuilder<T, T>;
+  /**
+   * Built-in collectors for 'IEnumerable.collect()'.
+   */
+  export namespace Collectors {
+    /**
+     * Creates a collector, which counts the items.
+     *
+     * @return {Collector<any, number>} The new collector.
+     */
+    function counting(): Collector<any, number>;
+    /**
+     * Creates a collector, which groups the items into a Map.
+     *
+     * @template T Type of the items.
+     * @template TKey Type of the keys.
+     * @template A Type of the container of the downstream collector.
+     * @template R Type of the result of the downstream collector.
+     *
+     * @param {Selector<T, TKey>} keySelector The key selector.
+     * @param {Collector<T, A, R>} [downstream] The collector for the items of a group.
+     *                                         Default: toArray()
+     *
+     * @return {Collector<T, Map<TKey, A>, Map<TKey, R>>} The new collector.
+     */
+    function groupingBy<T, TKey, A = T[], R = A>(
+      keySelector: Selector<T, TKey>,
+      downstream?: Collector<T, A, R>,
+    ): Collector<T, Map<TKey, A>, Map<TKey, R>>;
+    /**
+     * Creates a collector, which joins the items to a string.
+     *
+     * @param {string} [separator] The separator. Default: ''
+     * @param {string} [prefix] The prefix of the result. Default: ''
+     * @param {string} [suffix] The suffix of the result. Default: ''
+     *
+     * @return {Collector<any, string[], string>} The new collector.
+     */
+    function joining(
+      separator?: string,
+      prefix?: string,
+      suffix?: string,
+    ): Collector<any, string[], string>;
+    /**
+     * Creates a collector, which splits the items into matching
+     * and not matching ones.
+     *
+     * @template T Type of the items.
+     * @template A Type of the containers of the downstream collector.
+     * @template R Type of the results of the downstream collector.
+     *
+     * @param {Predicate<T>} predicate The predicate.
+     * @param {Collector<T, A, R>} [downstream] The collector for the items of a partition.
+     *                                         Default: toArray()
+     *
+     * @return {Collector<T, [A, A], [R, R]>} The new collector, which returns
+     *                                       the matching items first.
+     */
+    function partitioningBy<T, A = T[], R = A>(
+      predicate: Predicate<T>,
+      downstream?: Collector<T, A, R>,
+    ): Collector<T, [A, A], [R, R]>;
+    /**
+     * Creates a collector, which calculates a statistics summary.
+     *
+     * @template T Type of the items.
+     *
+     * @param {Selector<T, number>} [selector] The custom selector for the values.
+     *
+     * @return {Collector<T, StatisticsSummary>} The new collector.
+     */
+    function summarizing<T = number>(
+      selector?: Selector<T, number>,
+    ): Collector<T, StatisticsSummary>;
+    /**
+     * Creates a collector, which collects the items into an array.
+     *
+     * @template T Type of the items.
+     *
+     * @return {Collector<T, T[]>} The new collector.
+     */
+    function toArray<T = any>(): Collector<T, T[]>;
+    /**
+     * Creates a collector, which collects the items into a Map.
+     *
+     * @template T Type of the items.
+     * @template TKey Type of the keys.
+     * @template TValue Type of the values.
+     *
+     * @param {Selector<T, TKey>} keySelector The key selector.
+     * @param {Selector<T, TValue>} [valueSelector] The custom value selector.
+     * @param {DuplicateKeyOptions<TValue, TKey>} [options] Custom options.
+     *
+     * @return {Collector<T, Map<TKey, TValue>>} The new collector.
+     */
+    function toMap<T, TKey, TValue = T>(
+      keySelector: Selector<T, TKey>,
+      valueSelector?: Selector<T, TValue>,
+      options?: DuplicateKeyOptions<TValue, TKey>,
+    ): Collector<T, Map<TKey, TValue>>;
+    /**
+     * Creates a collector, which collects the items into a Set.
+     *
+     * @template T Type of the items.
+     *
+     * @return {Collector<T, Set<T>>} The new collector.
+     */
+    function toSet<T = any>(): Collector<T, Set<T>>;
+    /**
+     * Creates a collector, which pushes the items to an existing array or stack.
+     *
+     * The container is the stack itself, so the collector does not support combining.
+     *
+     * @template T Type of the items.
+     * @template S Type of the stack.
+     *
+     * @param {S} stack The array or stack.
+     *
+     * @return {Collector<T, S>} The new collector.
+     */
+    function toStack<T = any, S extends Stack<T> = Stack<T>>(
+      stack: S,
+    ): Collector<T, S>;
+  }
+  interface FusedPipeline {
+    source: EnumerableBase<any>;
+    stages: FusedStage[];
+  }
+  interface PriorityQueueEntry<T> {
+    index: number;
+    value: T;
+  }
+  export {};
 }
 export = Enumerable;
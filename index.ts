@@ -26,7 +26,35 @@
  *
  * Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
  */
+import Internal = require("./internal");
+import Operators = require("./operators");
+
 namespace Enumerable {
+  import accumulateWith = Internal.accumulateWith;
+  import BinaryHeap = Internal.BinaryHeap;
+  import compareByLevels = Internal.compareByLevels;
+  import createDictionaryCollector = Internal.createDictionaryCollector;
+  import createStackCollector = Internal.createStackCollector;
+  import EqualityMap = Internal.EqualityMap;
+  import finishWith = Internal.finishWith;
+  import FusedIterable = Internal.FusedIterable;
+  import FusedStage = Internal.FusedStage;
+  import getNextIteratorResultSafe = Internal.getNextIteratorResultSafe;
+  import getOrDefaultArguments = Internal.getOrDefaultArguments;
+  import isNullOrUndefined = Internal.isNullOrUndefined;
+  import OrderLevel = Internal.OrderLevel;
+  import RingBuffer = Internal.RingBuffer;
+  import runFusedStages = Internal.runFusedStages;
+  import selectFirstItems = Internal.selectFirstItems;
+  import selectItem = Internal.selectItem;
+  import selectKeysByLevels = Internal.selectKeysByLevels;
+  import selectParallelItems = Internal.selectParallelItems;
+  import sortByLevels = Internal.sortByLevels;
+  import toComparerSafe = Internal.toComparerSafe;
+  import toIEqualityComparerSafe = Internal.toIEqualityComparerSafe;
+  import toPredicateSafe = Internal.toPredicateSafe;
+  import toStringSafe = Internal.toStringSafe;
+
   /**
    * An async action.
    *
@@ -92,6 +120,65 @@ namespace Enumerable {
     value: any;
   } // AsyncActionContext<T>
 
+  /**
+   * An async forEach action.
+   *
+   * @template T Type of the items.
+   *
+   * @param {T} item The current item.
+   * @param {number} index The zero based index of the current item.
+   *
+   * @return {void|PromiseLike<void>} The (optional) promise.
+   */
+  export type AsyncEachAction<T = any> = (
+    item: T,
+    index: number,
+  ) => void | PromiseLike<void>;
+
+  /**
+   * A predicate / condition that can also be resolved asynchronously.
+   *
+   * @template T Type of the item to check.
+   *
+   * @param {T} The item to check.
+   *
+   * @return {boolean|PromiseLike<boolean>} Item satisfies the condition or not.
+   */
+  export type AsyncPredicate<T = any> = (
+    item: T,
+  ) => boolean | PromiseLike<boolean>;
+
+  /**
+   * A selector that can also be resolved asynchronously.
+   *
+   * @template T Type of the source item.
+   * @template U Type of the new item.
+   *
+   * @param {T} item The source item.
+   *
+   * @return {U|PromiseLike<U>} The new item.
+   */
+  export type AsyncSelector<T = any, U = any> = (item: T) => U | PromiseLike<U>;
+
+  /**
+   * Possible async sequence types.
+   *
+   * @template T Type of the items.
+   */
+  export type AsyncSequence<T = any> =
+    | AsyncIterable<T>
+    | AsyncIterator<T>
+    | Sequence<T>;
+
+  /**
+   * Strategies, what to do, if a buffer is full.
+   *
+   * 'drop-newest': ignore the new item
+   * 'drop-oldest': remove the oldest item from the buffer
+   * 'error': fail with a RangeError
+   */
+  export type BufferOverflowStrategy = "drop-newest" | "drop-oldest" | "error";
+
   /**
    * A factory function that can be cancelled.
    *
@@ -107,6 +194,53 @@ namespace Enumerable {
     index: number,
   ) => TResult;
 
+  /**
+   * A collector, which reduces the items of a sequence in one pass,
+   * by using a mutable container.
+   *
+   * @template T Type of the items.
+   * @template A Type of the container.
+   * @template R Type of the result.
+   */
+  export interface Collector<T = any, A = any, R = A> {
+    /**
+     * Adds an item to a container.
+     *
+     * If a value is returned, it is used as new container,
+     * what is useful for immutable ones, like numbers.
+     *
+     * @param {A} container The container.
+     * @param {T} item The item to add.
+     *
+     * @return {A|void} The new container or nothing, to keep the current one.
+     */
+    accumulator: (container: A, item: T) => A | void;
+    /**
+     * Merges two containers, which have been filled independently.
+     *
+     * @param {A} left The first container.
+     * @param {A} right The second container.
+     *
+     * @return {A} The merged container.
+     */
+    combiner?: (left: A, right: A) => A;
+    /**
+     * Converts a container to the final result.
+     * If not defined, the container is the result.
+     *
+     * @param {A} container The container.
+     *
+     * @return {R} The result.
+     */
+    finisher?: (container: A) => R;
+    /**
+     * Creates a new and empty container.
+     *
+     * @return {A} The new container.
+     */
+    supplier: () => A;
+  } // Collector<T, A, R>
+
   /**
    * Compares to values.
    *
@@ -120,6 +254,54 @@ namespace Enumerable {
    */
   export type Comparer<T = any, U = T> = (x: T, y: U) => number;
 
+  /**
+   * Merges the values of two items with the same key.
+   *
+   * @template TValue Type of the values.
+   * @template TKey Type of the key.
+   *
+   * @param {TValue} existingValue The value, which has already been stored for the key.
+   * @param {TValue} newValue The new value.
+   * @param {TKey} key The key.
+   *
+   * @return {TValue} The merged value.
+   */
+  export type DuplicateKeyMerger<TValue = any, TKey = any> = (
+    existingValue: TValue,
+    newValue: TValue,
+    key: TKey,
+  ) => TValue;
+
+  /**
+   * Options for methods, like 'toMap()' or 'toRecord()', which store values by keys.
+   *
+   * @template TValue Type of the values.
+   * @template TKey Type of the keys.
+   */
+  export interface DuplicateKeyOptions<TValue = any, TKey = any> {
+    /**
+     * Defines what happens if two items have the same key:
+     *
+     * - 'throw': throw a 'DuplicateKeyError' (default)
+     * - 'first': keep the value of the first item
+     * - 'last': keep the value of the last item
+     * - a function, which merges the values
+     */
+    onDuplicate?: DuplicateKeyPolicy<TValue, TKey>;
+  } // DuplicateKeyOptions<TValue, TKey>
+
+  /**
+   * Possible values for 'DuplicateKeyOptions.onDuplicate'.
+   *
+   * @template TValue Type of the values.
+   * @template TKey Type of the keys.
+   */
+  export type DuplicateKeyPolicy<TValue = any, TKey = any> =
+    | "first"
+    | "last"
+    | "throw"
+    | DuplicateKeyMerger<TValue, TKey>;
+
   /**
    * A forEach action.
    *
@@ -133,6 +315,10 @@ namespace Enumerable {
   /**
    * Checks if two values are equal.
    *
+   * Such a function provides no hash codes, so hash based operations,
+   * like 'distinct()' or 'HashSet', have to compare all items with each other.
+   * Use an 'IEqualityComparer' for large sequences instead.
+   *
    * @template T Type of the "left" value.
    * @template U Type of the "right" value.
    *
@@ -143,6 +329,52 @@ namespace Enumerable {
    */
   export type EqualityComparer<T = any, U = T> = (x: T, y: U) => boolean;
 
+  /**
+   * An object, like a Node.js EventEmitter, that emits events.
+   */
+  export interface EventEmitterLike {
+    /**
+     * Registers a listener for an event.
+     *
+     * @param {string|symbol} eventName The name of the event.
+     * @param {Function} listener The listener.
+     */
+    on(eventName: string | symbol, listener: (...args: any[]) => void): any;
+    /**
+     * Removes a listener of an event.
+     *
+     * @param {string|symbol} eventName The name of the event.
+     * @param {Function} listener The listener.
+     */
+    removeListener(
+      eventName: string | symbol,
+      listener: (...args: any[]) => void,
+    ): any;
+  } // EventEmitterLike
+
+  /**
+   * Options for 'fromEvent()' function.
+   */
+  export interface FromEventOptions {
+    /**
+     * The maximum number of events, which are buffered
+     * until they are read by the sequence. Default: no limit
+     */
+    bufferSize?: number;
+    /**
+     * The name of the event, that ends the sequence.
+     */
+    endEvent?: string | symbol;
+    /**
+     * The name of the event, that makes the sequence fail. Default: 'error'
+     */
+    errorEvent?: string | symbol;
+    /**
+     * What to do, if the buffer is full. Default: 'error'
+     */
+    overflow?: BufferOverflowStrategy;
+  } // FromEventOptions
+
   /**
    * An item message (provider).
    */
@@ -167,6 +399,50 @@ namespace Enumerable {
     outer: TOuter;
   } // JoinedItems<TOuter, TInner>
 
+  /**
+   * The implementation of a custom operator, which is registered by
+   * 'registerOperator()'.
+   *
+   * 'this' is the sequence, the operator is invoked on.
+   *
+   * @template T Type of the items.
+   */
+  export type OperatorImplementation<T = any> = (
+    this: IEnumerable<T>,
+    ...args: any[]
+  ) => any;
+
+  /**
+   * Options for parallel operations, like 'selectParallel()'.
+   */
+  export interface ParallelOptions {
+    /**
+     * The maximum number of items that are handled at the same time. Default: 1
+     */
+    concurrency?: number;
+    /**
+     * Return the results in the order of the source items (true)
+     * or in the order they have been completed (false). Default: (true)
+     */
+    preserveOrder?: boolean;
+  } // ParallelOptions
+
+  /**
+   * A selector for parallel operations.
+   *
+   * @template T Type of the source item.
+   * @template U Type of the new item.
+   *
+   * @param {T} item The source item.
+   * @param {number} index The zero based index of the source item.
+   *
+   * @return {U|PromiseLike<U>} The new item.
+   */
+  export type ParallelSelector<T = any, U = any> = (
+    item: T,
+    index: number,
+  ) => U | PromiseLike<U>;
+
   /**
    * A collection that can be popped.
    */
@@ -194,6 +470,25 @@ namespace Enumerable {
    */
   export type Predicate<T = any> = (item: T) => boolean;
 
+  /**
+   * A reducer, which adds an item to an accumulator value.
+   *
+   * The result can be wrapped by 'reduced()', to signal, that
+   * no more items are required.
+   *
+   * @template TAccumulate Type of the accumulator value.
+   * @template T Type of the items.
+   *
+   * @param {TAccumulate} accumulator The current accumulator value.
+   * @param {T} item The item to add.
+   *
+   * @return {TAccumulate|ReducedValue<TAccumulate>} The new accumulator value.
+   */
+  export type Reducer<TAccumulate = any, T = any> = (
+    accumulator: TAccumulate,
+    item: T,
+  ) => TAccumulate | ReducedValue<TAccumulate>;
+
   /**
    * A selector.
    *
@@ -249,10 +544,85 @@ namespace Enumerable {
     push(...items: Array<T>): number;
   } // interface Stack<T>
 
+  /**
+   * A statistics summary, like created by 'Collectors.summarizing()'.
+   */
+  export interface StatisticsSummary {
+    /**
+     * The average value or NaN if there are no values.
+     */
+    average: number;
+    /**
+     * The number of values.
+     */
+    count: number;
+    /**
+     * The maximum value or NaN if there are no values.
+     */
+    max: number;
+    /**
+     * The minimum value or NaN if there are no values.
+     */
+    min: number;
+    /**
+     * The sum of all values.
+     */
+    sum: number;
+  } // StatisticsSummary
+
+  /**
+   * A transducer, which transforms a reducer of target items
+   * to a reducer of source items.
+   *
+   * @template T Type of the source items.
+   * @template U Type of the target items.
+   *
+   * @param {Reducer<TAccumulate, U>} reducer The reducer of the target items.
+   *
+   * @return {Reducer<TAccumulate, T>} The reducer of the source items.
+   */
+  export type Transducer<T = any, U = T> = <TAccumulate>(
+    reducer: Reducer<TAccumulate, U>,
+  ) => Reducer<TAccumulate, T>;
+
+  /**
+   * A constructor (class), which can be used with 'instanceof'.
+   *
+   * @template T Type of the instances.
+   */
+  export type TypeConstructor<T = any> = abstract new (...args: any[]) => T;
+
+  /**
+   * A predicate / condition, which narrows the type of an item.
+   *
+   * @template T Type of the item to check.
+   * @template U The narrowed type.
+   *
+   * @param {T} The item to check.
+   *
+   * @return {boolean} Item is of type U or not.
+   */
+  export type TypeGuard<T = any, U extends T = T> = (item: T) => item is U;
+
+  /**
+   * Options for 'IEnumerable.windowed()'.
+   */
+  export interface WindowedOptions {
+    /**
+     * Also return the windows at the end of the sequence,
+     * which are smaller than the window size. Default: (false)
+     */
+    partial?: boolean;
+  } // WindowedOptions
+
+  /**
+   * Indicates that something is an async enumerable (sequence).
+   */
+  export const IS_ASYNC_ENUMERABLE = Symbol("IS_ASYNC_ENUMERABLE");
   /**
    * Indicates that something is empty.
    */
-  export const IS_EMPTY = Symbol("IS_EMPTY");
+  export import IS_EMPTY = Internal.IS_EMPTY;
   /**
    * Indicates that something is an enumerable (sequence).
    */
@@ -260,116 +630,359 @@ namespace Enumerable {
   /**
    * Indicates if something was not found.
    */
-  export const NOT_FOUND = Symbol("NOT_FOUND");
+  export import NOT_FOUND = Internal.NOT_FOUND;
 
   /**
-   * A sequence.
+   * An async sequence.
    *
    * @template T Type of the items.
    */
-  export interface IEnumerable<T = any> extends Iterable<T>, Iterator<T> {
+  export interface IAsyncEnumerable<T = any>
+    extends AsyncIterable<T>,
+      AsyncIterator<T> {
     /**
-     * Handles current items as numbers and returns their absolute values.
+     * Collects the items of that sequence into arrays, which are emitted
+     * periodically. Empty arrays are not emitted.
      *
-     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
-     *                                Default: (false)
+     * @param {number} timeSpan The time span, in milliseconds, of a buffer.
+     * @param {number} [maxSize] The maximum size of a buffer. If reached, the buffer is emitted immediately.
+     * @param {IScheduler} [scheduler] The custom scheduler.
      *
-     * @return {IEnumerable<number>} The new sequence.
+     * @returns {IAsyncEnumerable<T[]>} The new sequence.
      */
-    abs(handleAsInt?: boolean): IEnumerable<number>;
+    bufferTime(
+      timeSpan: number,
+      maxSize?: number,
+      scheduler?: IScheduler,
+    ): IAsyncEnumerable<T[]>;
     /**
-     * Applies an accumulator function over that sequence.
-     * If specified 'seed' is used as the initial accumulator value,
-     * and (if specified) the 'resultSelector' is used to select the result value.
-     *
-     * @template TAccumulate The type of the accumulator value.
-     * @template TResult The result type.
+     * Counts the elements of that sequence.
      *
-     * @param {(acc: TAccumulate, item: T) => TAccumulate} func An accumulator function to be invoked on each element.
-     * @param {TAccumulate} [seed] The initial accumulator value.
-     * @param {(acc: TAccumulate) => TResult} [resultSelector] A function to transform the final accumulator value
-     *                                                         into the result value.
+     * @param {AsyncPredicate<T>} [predicate] The optional predicate to use.
      *
-     * @returns {TResult} The final value.
+     * @returns {Promise<number>} The promise with the number of (matching) items.
      */
-    aggregate<TAccumulate = T, TResult = T>(
-      func: (accumulator: TAccumulate, item: T) => TAccumulate,
-      seed?: TAccumulate,
-      resultSelector?: (accumulator: TAccumulate) => TResult,
-    ): TResult;
+    count(predicate?: AsyncPredicate<T>): Promise<number>;
     /**
-     * Checks if all elements of that sequence
-     * satisfy a condition or not.
-     *
-     * @param {Predicate<T>} predicate The condition.
-     *
-     * @returns {boolean} All elements satisfy the condition or not.
+     * Gets the current iterator result.
      */
-    all(predicate: Predicate<T>): boolean;
+    readonly current: IteratorResult<T>;
     /**
-     * Checks if at least one element of that sequence
-     * satisfies a condition or not.
+     * Emits an item only, if no other item has been emitted
+     * by that sequence for a specific time.
      *
-     * @param {Predicate<T>} predicate The condition.
+     * @param {number} dueTime The time, in milliseconds, to wait for other items.
+     * @param {IScheduler} [scheduler] The custom scheduler.
      *
-     * @returns {boolean} One element satisfies the condition or not.
+     * @returns {IAsyncEnumerable<T>} The new sequence.
      */
-    any(predicate?: Predicate<T>): boolean;
+    debounce(dueTime: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
     /**
-     * Alias for concat()
+     * Delays each item of that sequence.
+     *
+     * @param {number} dueTime The time, in milliseconds, to wait before an item is emitted.
+     * @param {IScheduler} [scheduler] The custom scheduler.
+     *
+     * @returns {IAsyncEnumerable<T>} The new sequence.
      */
-    append<U = T>(...args: Sequence<U>[]): IEnumerable<T | U>;
+    delay(dueTime: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
     /**
-     * Alias for concatArray()
+     * Returns the first element of that sequence.
+     *
+     * @param {AsyncPredicate<T>} [predicate] The optional predicate to use.
+     *
+     * @returns {Promise<T>} The promise with the first element.
+     *
+     * @throws Element not found.
      */
-    appendArray<U = T>(sequences: ArrayLike<Sequence<U>>): IEnumerable<T | U>;
+    first(predicate?: AsyncPredicate<T>): Promise<T>;
     /**
-     * Handles current items as numbers and calculates the arc cosine for each item.
+     * Invokes a (promise returning) function for each element of that sequence,
+     * with a maximum number of invocations at the same time. All occurred errors
+     * will be thrown at the end, wrapped as FunctionError, inside an AggregateError.
      *
-     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
-     *                                Default: (false)
+     * @param {AsyncEachAction<T>} action The action to invoke.
+     * @param {ParallelOptions} [options] Custom options.
      *
-     * @return {IEnumerable<number>} The new sequence.
+     * @returns {Promise<void>} The promise.
      */
-    arcCos(handleAsInt?: boolean): IEnumerable<number>;
+    forEachParallel(
+      action: AsyncEachAction<T>,
+      options?: ParallelOptions,
+    ): Promise<void>;
     /**
-     * Handles current items as numbers and calculates the arc hyperbolic cosine for each item.
+     * Groups the items of that sequence by a key.
      *
-     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
-     *                                Default: (false)
+     * @template TKey Type of the keys.
      *
-     * @return {IEnumerable<number>} The new sequence.
+     * @param {AsyncSelector<T, TKey>} keySelector The key selector.
+     * @param {EqualityComparer<TKey>|IEqualityComparer<TKey>} [keyEqualityComparer] The custom equality comparer for the keys.
+     *
+     * @returns {IAsyncEnumerable<IGrouping<TKey, T>>} The grouped items.
      */
-    arcCosH(handleAsInt?: boolean): IEnumerable<number>;
+    groupBy<TKey>(
+      keySelector: AsyncSelector<T, TKey>,
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+    ): IAsyncEnumerable<IGrouping<TKey, T>>;
     /**
-     * Handles current items as numbers and calculates the arc sine for each item.
+     * Gets the current zero based index.
+     */
+    readonly index: number;
+    /**
+     * Sorts the elements of that sequence in ascending order.
      *
-     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
-     *                                Default: (false)
+     * @param {AsyncSelector<T,U>} selector The key selector.
+     * @param {Comparer<U>} [comparer] The custom key comparer to use.
      *
-     * @return {IEnumerable<number>} The new sequence.
+     * @return {IAsyncEnumerable<T>} The new sequence.
      */
-    arcSin(handleAsInt?: boolean): IEnumerable<number>;
+    orderBy<U>(
+      selector: AsyncSelector<T, U>,
+      comparer?: Comparer<U>,
+    ): IAsyncEnumerable<T>;
     /**
-     * Handles current items as numbers and calculates the arc hyperbolic sine for each item.
+     * Sorts the elements of that sequence in descending order.
      *
-     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
-     *                                Default: (false)
+     * @param {AsyncSelector<T,U>} selector The key selector.
+     * @param {Comparer<U>} [comparer] The custom key comparer to use.
      *
-     * @return {IEnumerable<number>} The new sequence.
+     * @return {IAsyncEnumerable<T>} The new sequence.
      */
-    arcSinH(handleAsInt?: boolean): IEnumerable<number>;
+    orderByDescending<U>(
+      selector: AsyncSelector<T, U>,
+      comparer?: Comparer<U>,
+    ): IAsyncEnumerable<T>;
     /**
-     * Handles current items as numbers and calculates the arc tangent for each item.
+     * Emits the latest item of that sequence periodically,
+     * if there is a new one since the last period.
      *
-     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
-     *                                Default: (false)
+     * @param {number} period The period, in milliseconds.
+     * @param {IScheduler} [scheduler] The custom scheduler.
      *
-     * @return {IEnumerable<number>} The new sequence.
+     * @returns {IAsyncEnumerable<T>} The new sequence.
      */
-    arcTan(handleAsInt?: boolean): IEnumerable<number>;
+    sample(period: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
     /**
-     * Handles current items as numbers and calculates the arc hyperbolic tangent for each item.
+     * Projects the items of that sequence to new values / objects.
+     *
+     * @template U The type of the new items.
+     *
+     * @param {AsyncSelector<T, U>} selector
+     *
+     * @returns {IAsyncEnumerable<U>} The new sequence.
+     */
+    select<U>(selector: AsyncSelector<T, U>): IAsyncEnumerable<U>;
+    /**
+     * Projects the items of that sequence to new sequences
+     * that are flatten to a single sequence.
+     *
+     * @template U Type of the items of the result sequences.
+     *
+     * @param {AsyncSelector<T, AsyncSequence<U>>} selector The selector.
+     *
+     * @returns {IAsyncEnumerable<U>} The new, flatten sequence.
+     */
+    selectMany<U>(
+      selector: AsyncSelector<T, AsyncSequence<U>>,
+    ): IAsyncEnumerable<U>;
+    /**
+     * Projects the items of that sequence to new values / objects
+     * by using a (promise returning) selector, with a maximum number of invocations
+     * at the same time. All occurred errors will be thrown at the end,
+     * wrapped as FunctionError, inside an AggregateError.
+     *
+     * @template U The type of the new items.
+     *
+     * @param {ParallelSelector<T, U>} selector The selector.
+     * @param {ParallelOptions} [options] Custom options.
+     *
+     * @returns {IAsyncEnumerable<U>} The new sequence.
+     */
+    selectParallel<U>(
+      selector: ParallelSelector<T, U>,
+      options?: ParallelOptions,
+    ): IAsyncEnumerable<U>;
+    /**
+     * Skips a maximum number of items.
+     *
+     * @param {number} [count] The number of items to skip. Default: 1
+     *
+     * @return {IAsyncEnumerable<T>} The new sequence.
+     */
+    skip(count?: number): IAsyncEnumerable<T>;
+    /**
+     * Skips items while a condition satisfies.
+     *
+     * @param {AsyncPredicate<T>} [predicate] The predicate to use.
+     *
+     * @return {IAsyncEnumerable<T>} The new sequence.
+     */
+    skipWhile(predicate: AsyncPredicate<T>): IAsyncEnumerable<T>;
+    /**
+     * Takes a maximum number of items.
+     *
+     * @param {number} [count] The maximum number of items. Default: 1
+     *
+     * @return {IAsyncEnumerable<T>} The new sequence.
+     */
+    take(count?: number): IAsyncEnumerable<T>;
+    /**
+     * Takes items while a condition satisfies.
+     *
+     * @param {AsyncPredicate<T>} [predicate] The predicate to use.
+     *
+     * @return {IAsyncEnumerable<T>} The new sequence.
+     */
+    takeWhile(predicate: AsyncPredicate<T>): IAsyncEnumerable<T>;
+    /**
+     * Emits an item of that sequence and ignores all following items
+     * for a specific time.
+     *
+     * @param {number} duration The time, in milliseconds, to ignore items.
+     * @param {IScheduler} [scheduler] The custom scheduler.
+     *
+     * @returns {IAsyncEnumerable<T>} The new sequence.
+     */
+    throttle(duration: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
+    /**
+     * Fails with a TimeoutError, if that sequence does not provide
+     * its next item within a specific time.
+     *
+     * @param {number} dueTime The maximum time, in milliseconds, to wait for an item.
+     * @param {IScheduler} [scheduler] The custom scheduler.
+     *
+     * @returns {IAsyncEnumerable<T>} The new sequence.
+     */
+    timeout(dueTime: number, scheduler?: IScheduler): IAsyncEnumerable<T>;
+    /**
+     * Creates a new array from the items of that sequence.
+     *
+     * @returns {Promise<Array<T>>} The promise with the sequence as array.
+     */
+    toArray(): Promise<Array<T>>;
+    /**
+     * Filters the items of that sequence.
+     *
+     * @param {AsyncPredicate<T>} predicate The predicate to use.
+     *
+     * @return {IAsyncEnumerable<T>} The filtered sequence.
+     */
+    where(predicate: AsyncPredicate<T>): IAsyncEnumerable<T>;
+  } // IAsyncEnumerable<T>
+
+  /**
+   * A sequence.
+   *
+   * @template T Type of the items.
+   */
+  export interface IEnumerable<T = any> extends Iterable<T>, Iterator<T> {
+    /**
+     * Handles current items as numbers and returns their absolute values.
+     *
+     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
+     *                                Default: (false)
+     *
+     * @return {IEnumerable<number>} The new sequence.
+     */
+    abs(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Applies an accumulator function over that sequence.
+     * If specified 'seed' is used as the initial accumulator value,
+     * and (if specified) the 'resultSelector' is used to select the result value.
+     *
+     * @template TAccumulate The type of the accumulator value.
+     * @template TResult The result type.
+     *
+     * @param {Reducer<TAccumulate, T>} func An accumulator function to be invoked on each element.
+     *                                       If it returns a value, wrapped by 'reduced()',
+     *                                       the operation stops without reading further elements.
+     * @param {TAccumulate} [seed] The initial accumulator value.
+     * @param {(acc: TAccumulate) => TResult} [resultSelector] A function to transform the final accumulator value
+     *                                                         into the result value.
+     *
+     * @returns {TResult} The final value.
+     */
+    aggregate<TAccumulate = T, TResult = T>(
+      func: Reducer<TAccumulate, T>,
+      seed?: TAccumulate,
+      resultSelector?: (accumulator: TAccumulate) => TResult,
+    ): TResult;
+    /**
+     * Checks if all elements of that sequence
+     * satisfy a condition or not.
+     *
+     * A type guard does not narrow the type of that sequence,
+     * because its elements have been consumed by the check.
+     *
+     * @param {Predicate<T>} predicate The condition.
+     *
+     * @returns {boolean} All elements satisfy the condition or not.
+     */
+    all(predicate: Predicate<T>): boolean;
+    /**
+     * Checks if at least one element of that sequence
+     * satisfies a condition or not.
+     *
+     * @param {Predicate<T>} predicate The condition.
+     *
+     * @returns {boolean} One element satisfies the condition or not.
+     */
+    any(predicate?: Predicate<T>): boolean;
+    /**
+     * Alias for concat()
+     */
+    append<U = T>(...args: Sequence<U>[]): IEnumerable<T | U>;
+    /**
+     * Alias for concatArray()
+     */
+    appendArray<U = T>(sequences: ArrayLike<Sequence<U>>): IEnumerable<T | U>;
+    /**
+     * Handles current items as numbers and calculates the arc cosine for each item.
+     *
+     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
+     *                                Default: (false)
+     *
+     * @return {IEnumerable<number>} The new sequence.
+     */
+    arcCos(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Handles current items as numbers and calculates the arc hyperbolic cosine for each item.
+     *
+     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
+     *                                Default: (false)
+     *
+     * @return {IEnumerable<number>} The new sequence.
+     */
+    arcCosH(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Handles current items as numbers and calculates the arc sine for each item.
+     *
+     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
+     *                                Default: (false)
+     *
+     * @return {IEnumerable<number>} The new sequence.
+     */
+    arcSin(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Handles current items as numbers and calculates the arc hyperbolic sine for each item.
+     *
+     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
+     *                                Default: (false)
+     *
+     * @return {IEnumerable<number>} The new sequence.
+     */
+    arcSinH(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Handles current items as numbers and calculates the arc tangent for each item.
+     *
+     * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
+     *                                Default: (false)
+     *
+     * @return {IEnumerable<number>} The new sequence.
+     */
+    arcTan(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Handles current items as numbers and calculates the arc hyperbolic tangent for each item.
      *
      * @param {boolean} [handleAsInt] Handle as integer values (true) or floats (false).
      *                                Default: (false)
@@ -407,10 +1020,17 @@ namespace Enumerable {
      * @param AsyncAction<T> action The action to invoke.
      * @param AsyncCallback [callback] The callback.
      * @param {any} [previousValue] The value for the 'previousValue' of the first action.
+     * @param {AbortSignal} [signal] The optional signal, that can abort the whole operation.
      *
      * @returns {Promise<any>} The promise.
+     *
+     * @throws {AbortError} The operation has been aborted.
      */
-    async(action: AsyncAction<T>, previousValue?: any): Promise<any>;
+    async(
+      action: AsyncAction<T>,
+      previousValue?: any,
+      signal?: AbortSignal,
+    ): Promise<any>;
     /**
      * Calculates the average of the items of that sequence.
      *
@@ -419,6 +1039,26 @@ namespace Enumerable {
      * @returns {number|symbol} The average or IS_EMPTY if sequence is empty.
      */
     average(selector?: Selector<T, number>): number | symbol;
+    /**
+     * Returns the items with the lowest keys, in ascending order,
+     * without sorting the whole sequence.
+     *
+     * Items with equal keys keep their order.
+     *
+     * @template U Type of the keys.
+     *
+     * @param {number} [count] The maximum number of items to return.
+     *                         Default: all items, which is also used for an infinite value.
+     * @param {Selector<T,U>} [selector] The key selector.
+     * @param {Comparer<U>} [comparer] The custom key comparer to use.
+     *
+     * @return {IEnumerable<T>} The new sequence.
+     */
+    bottomBy<U = T>(
+      count?: number,
+      selector?: Selector<T, U>,
+      comparer?: Comparer<U>,
+    ): IEnumerable<T>;
     /**
      * Gets if that sequence can be resetted or not.
      */
@@ -466,6 +1106,17 @@ namespace Enumerable {
       count?: number,
       itemSelector?: Selector<T, U>,
     ): IEnumerable<IEnumerable<U>>;
+    /**
+     * Reduces the items of that sequence in one pass by using a collector.
+     *
+     * @template A Type of the container of the collector.
+     * @template R Type of the result.
+     *
+     * @param {Collector<T, A, R>} collector The collector.
+     *
+     * @return {R} The result of the collector.
+     */
+    collect<A, R = A>(collector: Collector<T, A, R>): R;
     /**
      * Concats the items of that sequences with other ones
      * to a new sequence.
@@ -558,24 +1209,26 @@ namespace Enumerable {
     /**
      * Removes duplicate entries from that sequence.
      *
-     * @param {EqualityComparer<T>} [comparer] The custom equality comparer to use.
-     *                                         (true) indicates to do a === check.
+     * @param {EqualityComparer<T>|IEqualityComparer<T>} [comparer] The custom equality comparer to use.
+     *                                                              (true) indicates to do a === check.
      *
      * @returns {IEnumerable<T>} The new sequence.
      */
-    distinct(comparer?: EqualityComparer<T> | true): IEnumerable<T>;
+    distinct(
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+    ): IEnumerable<T>;
     /**
      * Removes duplicate entries from that sequence by using a selector.
      *
      * @param {Selector<T,U>} selector The selector to use.
-     * @param {EqualityComparer<T>} [comparer] The custom equality comparer to use.
-     *                                         (true) indicates to do a === check.
+     * @param {EqualityComparer<U>|IEqualityComparer<U>} [comparer] The custom equality comparer to use.
+     *                                                              (true) indicates to do a === check.
      *
      * @returns {IEnumerable<T>} The new sequence.
      */
     distinctBy<U>(
       selector: Selector<T, U>,
-      comparer?: EqualityComparer<U> | true,
+      comparer?: EqualityComparer<U> | IEqualityComparer<U> | true,
     ): IEnumerable<T>;
     /**
      * Alias for forEach()
@@ -612,13 +1265,13 @@ namespace Enumerable {
      * Returns the items of that sequence except a list of specific ones.
      *
      * @param {Sequence<T>} second The second sequence.
-     * @param {EqualityComparer<T>|true} [equalityComparer] The custom equality comparer to use.
+     * @param {EqualityComparer<T>|IEqualityComparer<T>|true} [equalityComparer] The custom equality comparer to use.
      *
      * @return {IEnumerable<T>} The new sequence.
      */
     except(
       second: Sequence<T>,
-      comparer?: EqualityComparer<T> | true,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
     ): IEnumerable<T>;
     /**
      * Handles current items as numbers and calculates e (the base of natural logarithms) raised to each value.
@@ -629,6 +1282,18 @@ namespace Enumerable {
      * @return {IEnumerable<number>} The new sequence.
      */
     exp(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Returns the first element of that sequence, which is of a specific type.
+     *
+     * @template U The narrowed type.
+     *
+     * @param {TypeGuard<T, U>} predicate The type guard.
+     *
+     * @returns {U} The first element.
+     *
+     * @throws Element not found.
+     */
+    first<U extends T>(predicate: TypeGuard<T, U>): U;
     /**
      * Returns the first element of that sequence.
      *
@@ -685,29 +1350,48 @@ namespace Enumerable {
      * @chainable
      */
     forEach(func: EachAction<T>): this;
+    /**
+     * Invokes a (promise returning) function for each element of that sequence,
+     * with a maximum number of invocations at the same time. All occurred errors
+     * will be thrown at the end, wrapped as FunctionError, inside an AggregateError.
+     *
+     * @param {AsyncEachAction<T>} action The action to invoke.
+     * @param {ParallelOptions} [options] Custom options.
+     *
+     * @returns {Promise<void>} The promise.
+     */
+    forEachParallel(
+      action: AsyncEachAction<T>,
+      options?: ParallelOptions,
+    ): Promise<void>;
     /**
      * Groups the items of that sequence by a key.
      *
      * @template TKey Type of the keys.
      *
      * @param {Selector<T, TKey>} keySelector The key selector.
-     * @param {EqualityComparer<TKey>} [keyEqualityComparer] The custom equality comparer for the keys.
+     * @param {EqualityComparer<TKey>|IEqualityComparer<TKey>} [keyEqualityComparer] The custom equality comparer for the keys.
      *
      * @returns {IEnumerable<IGrouping<TKey, T>>} The grouped items.
      */
     groupBy<TKey>(
       keySelector: Selector<T, TKey>,
-      keyEqualityComparer?: EqualityComparer<TKey>,
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
     ): IEnumerable<IGrouping<TKey, T>>;
     /**
      * Correlates the elements of that sequence and another based on matching keys and groups them.
      *
+     * If both sequences are IOrderedEnumerable<T>s, which are sorted with the key selectors
+     * and the same comparer, and no custom equality comparer is used, they are merged.
+     * Otherwise a hash table is used. An EqualityComparer<TOuterKey, TInnerKey> function
+     * does not provide hash codes, so all keys are compared with each other in that case.
+     *
      * @param {Sequence<TInner>} inner The other sequence.
      * @param {Selector<T, TOuterKey>} [outerKeySelector] The key selector for the items of that sequence.
      * @param {Selector<TInner, TInnerKey} [innerKeySelector] The key selector for the items of the other sequence.
      * @param {((outer: T, inner: IEnumerable<TInner>) => TResult)} [resultSelector] The function that provides the result value for two matching elements.
-     * @param {EqualityComparer<TOuterKey, TInnerKey>|true} [keyEqualityComparer] The custom equality comparer for the keys to use.
-     *                                                                            (true) indicates to do a === check.
+     * @param {EqualityComparer<TOuterKey, TInnerKey>|IEqualityComparer<TOuterKey|TInnerKey>|true} [keyEqualityComparer] The custom equality comparer for the keys to use.
+     *                                                                                                             (true) indicates to do a === check.
      *
      * @return {IEnumerable<TResult>} The new sequence.
      */
@@ -721,7 +1405,10 @@ namespace Enumerable {
       outerKeySelector?: Selector<T, TOuterKey>,
       innerKeySelector?: Selector<TInner, TInnerKey>,
       resultSelector?: (outer: T, inner: IEnumerable<TInner>) => TResult,
-      keyEqualityComparer?: EqualityComparer<TOuterKey, TInnerKey> | true,
+      keyEqualityComparer?:
+        | EqualityComparer<TOuterKey, TInnerKey>
+        | IEqualityComparer<TOuterKey | TInnerKey>
+        | true,
     ): IEnumerable<TResult>;
     /**
      * Gets the current zero based index.
@@ -759,13 +1446,13 @@ namespace Enumerable {
      * Returns the intersection between this and a second sequence.
      *
      * @param {Sequence<T>} second The second sequence.
-     * @param {EqualityComparer<T>|true} [equalityComparer] The custom equality comparer to use.
+     * @param {EqualityComparer<T>|IEqualityComparer<T>|true} [equalityComparer] The custom equality comparer to use.
      *
      * @return {IEnumerable<T>} The new sequence.
      */
     intersect(
       second: Sequence<T>,
-      comparer?: EqualityComparer<T> | true,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
     ): IEnumerable<T>;
     /**
      * Checks if that sequence is empty or not
@@ -777,12 +1464,17 @@ namespace Enumerable {
     /**
      * Correlates the elements of that sequence and another based on matching keys.
      *
+     * If both sequences are IOrderedEnumerable<T>s, which are sorted with the key selectors
+     * and the same comparer, and no custom equality comparer is used, they are merged.
+     * Otherwise a hash table is used. An EqualityComparer<TOuterKey, TInnerKey> function
+     * does not provide hash codes, so all keys are compared with each other in that case.
+     *
      * @param {Sequence<TInner>} inner The other sequence.
      * @param {Selector<T, TOuterKey>} [outerKeySelector] The key selector for the items of that sequence.
      * @param {Selector<TInner, TInnerKey} [innerKeySelector] The key selector for the items of the other sequence.
      * @param {((outer: T, inner: IEnumerable<TInner>) => TResult)} [resultSelector] The function that provides the result value for two matching elements.
-     * @param {EqualityComparer<TOuterKey, TInnerKey>|true} [keyEqualityComparer] The custom equality comparer for the keys to use.
-     *                                                                            (true) indicates to do a === check.
+     * @param {EqualityComparer<TOuterKey, TInnerKey>|IEqualityComparer<TOuterKey|TInnerKey>|true} [keyEqualityComparer] The custom equality comparer for the keys to use.
+     *                                                                                                             (true) indicates to do a === check.
      *
      * @return {IEnumerable<TResult>} The new sequence.
      */
@@ -796,7 +1488,10 @@ namespace Enumerable {
       outerKeySelector?: Selector<T, TOuterKey>,
       innerKeySelector?: Selector<TInner, TInnerKey>,
       resultSelector?: (outer: T, inner: TInner) => TResult,
-      keyEqualityComparer?: EqualityComparer<TOuterKey, TInnerKey> | true,
+      keyEqualityComparer?:
+        | EqualityComparer<TOuterKey, TInnerKey>
+        | IEqualityComparer<TOuterKey | TInnerKey>
+        | true,
     ): IEnumerable<TResult>;
     /**
      * Joins the items of that sequence to one string.
@@ -878,6 +1573,14 @@ namespace Enumerable {
       valueSelector?: Selector<T, U>,
       comparer?: Comparer<U>,
     ): T | symbol;
+    /**
+     * Returns a re-iterable version of that sequence, which reads the items
+     * of that sequence lazily and caches them, so all following
+     * iterations replay the cached items, before they continue reading.
+     *
+     * @returns {IEnumerable<T>} The new sequence.
+     */
+    memoize(): IEnumerable<T>;
     /**
      * Returns the minimum item of that sequence.
      *
@@ -917,11 +1620,22 @@ namespace Enumerable {
      *
      * @template U The type of the target sequence.
      *
-     * @param {string} type The type.
+     * @param {string} type The type, like 'string' or 'number', that is compared
+     *                      with the result of 'typeof'.
      *
      * @returns {IEnumerable<U>} The filtered sequence.
      */
     ofType<U = any>(type: string): IEnumerable<U>;
+    /**
+     * Filters items, which are instances of a specific class.
+     *
+     * @template U The type of the target sequence.
+     *
+     * @param {TypeConstructor<U>} type The constructor, which is used with 'instanceof'.
+     *
+     * @returns {IEnumerable<U>} The filtered sequence.
+     */
+    ofType<U>(type: TypeConstructor<U>): IEnumerable<U>;
     /**
      * Sorts the elements of that sequence in ascending order by using the values itself as keys.
      *
@@ -962,6 +1676,12 @@ namespace Enumerable {
      * @return {IOrderedEnumerable<T>} The new sequence.
      */
     orderDescending(comparer?: Comparer<T>): IOrderedEnumerable<T>;
+    /**
+     * Returns each element of that sequence together with its predecessor.
+     *
+     * @return {IEnumerable<[T, T]>} The sequence of [previous, current] tuples.
+     */
+    pairwise(): IEnumerable<[T, T]>;
     /**
      * Executes the given action on each element in the source sequence
      * and yields it.
@@ -1072,6 +1792,23 @@ namespace Enumerable {
      * @returns {IEnumerable<U>} The new, flatten sequence.
      */
     selectMany<U>(selector: Selector<T, Sequence<U>>): IEnumerable<U>;
+    /**
+     * Projects the items of that sequence to new values / objects
+     * by using a (promise returning) selector, with a maximum number of invocations
+     * at the same time. All occurred errors will be thrown at the end,
+     * wrapped as FunctionError, inside an AggregateError.
+     *
+     * @template U The type of the new items.
+     *
+     * @param {ParallelSelector<T, U>} selector The selector.
+     * @param {ParallelOptions} [options] Custom options.
+     *
+     * @returns {IAsyncEnumerable<U>} The new sequence.
+     */
+    selectParallel<U>(
+      selector: ParallelSelector<T, U>,
+      options?: ParallelOptions,
+    ): IAsyncEnumerable<U>;
     /**
      * Checks if that sequence is equal to another.
      *
@@ -1099,6 +1836,18 @@ namespace Enumerable {
      * @return {IEnumerable<number>} The new sequence.
      */
     sin(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Returns the one and only element of that sequence, which is of a specific type.
+     *
+     * @template U The narrowed type.
+     *
+     * @param {TypeGuard<T, U>} predicate The type guard.
+     *
+     * @returns {U} The single element.
+     *
+     * @throws Element not found or sequence contains for than one (matching) element.
+     */
+    single<U extends T>(predicate: TypeGuard<T, U>): U;
     /**
      * Returns the one and only element of that sequence.
      *
@@ -1206,6 +1955,16 @@ namespace Enumerable {
      * @return {IEnumerable<number>} The new sequence.
      */
     tanH(handleAsInt?: boolean): IEnumerable<number>;
+    /**
+     * Splits that sequence into independent sequences, which can be iterated
+     * at different speeds. Only the items between the fastest and
+     * the slowest sequence are buffered.
+     *
+     * @param {number} [count] The number of sequences. Default: 2
+     *
+     * @returns {IEnumerable<T>[]} The new sequences.
+     */
+    tee(count?: number): IEnumerable<T>[];
     /**
      * Creates a new array from the items of that sequence.
      *
@@ -1213,20 +1972,47 @@ namespace Enumerable {
      */
     toArray(): Array<T>;
     /**
-     * Converts that sequence to a lookup object.
+     * Returns an async version of that sequence.
+     *
+     * @returns {IAsyncEnumerable<T>} The async sequence.
+     */
+    toAsync(): IAsyncEnumerable<T>;
+    /**
+     * Converts that sequence to a lookup.
+     *
+     * Without a custom comparer, keys are compared like the keys of a Map,
+     * i.e. 1 and '1' or two different objects are different keys.
      *
      * @template TKey Type of the keys.
-     * @template U Type of the result object.
      *
      * @param {Selector<T, TKey>} keySelector The key selector.
-     * @param {EqualityComparer<TKey>} [keyEqualityComparer] The custom equality comparer for the keys.
+     * @param {EqualityComparer<TKey>|IEqualityComparer<TKey>} [keyEqualityComparer] The custom equality comparer for the keys.
+     *
+     * @returns {ILookup<TKey, T>} The lookup.
+     */
+    toLookup<TKey>(
+      keySelector: Selector<T, TKey>,
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+    ): ILookup<TKey, T>;
+    /**
+     * Converts that sequence to a Map.
+     *
+     * @template TKey Type of the keys.
+     * @template TValue Type of the values.
      *
-     * @returns U The lookup object
+     * @param {Selector<T, TKey>} keySelector The key selector. Keys can also be objects.
+     * @param {Selector<T, TValue>} [valueSelector] The custom value selector. Default: the item itself
+     * @param {DuplicateKeyOptions<TValue, TKey>} [options] Custom options.
+     *
+     * @returns {Map<TKey, TValue>} The new Map.
+     *
+     * @throws {DuplicateKeyError} Two items have the same key.
      */
-    toLookup<TKey extends PropertyKey, U = any>(
+    toMap<TKey, TValue = T>(
       keySelector: Selector<T, TKey>,
-      keyEqualityComparer?: EqualityComparer<TKey>,
-    ): U;
+      valueSelector?: Selector<T, TValue>,
+      options?: DuplicateKeyOptions<TValue, TKey>,
+    ): Map<TKey, TValue>;
     /**
      * Wraps the items of that sequence to an object.
      *
@@ -1241,25 +2027,92 @@ namespace Enumerable {
       keySelector?: (item: T, index: number) => TKey,
     ): TResult;
     /**
-     * Traces the elements of that sequence.
+     * Converts that sequence to a plain object.
      *
-     * @param {Selector<T, any>} [formatter] The custom formatter to use.
+     * Keys are handled as property keys, i.e. 1 and '1' are the same key.
      *
-     * @return {IEnumerable<T>} The new, piped sequence.
+     * @template TKey Type of the keys.
+     * @template TValue Type of the values.
+     *
+     * @param {Selector<T, TKey>} keySelector The key selector.
+     * @param {Selector<T, TValue>} [valueSelector] The custom value selector. Default: the item itself
+     * @param {DuplicateKeyOptions<TValue, TKey>} [options] Custom options.
+     *
+     * @returns {Record<TKey, TValue>} The new object.
+     *
+     * @throws {DuplicateKeyError} Two items have the same key.
      */
-    trace(formatter?: Selector<T, any>): IEnumerable<T>;
+    toRecord<TKey extends PropertyKey, TValue = T>(
+      keySelector: Selector<T, TKey>,
+      valueSelector?: Selector<T, TValue>,
+      options?: DuplicateKeyOptions<TValue, TKey>,
+    ): Record<TKey, TValue>;
     /**
-     * Produces the union of that sequence and another.
-     *
-     * @param {Sequence<T>} second The other sequence.
-     * @param {EqualityComparer<T>|true} [comparer] The optional equality comparer to use.
+     * Converts that sequence to a Set.
      *
-     * @returns {IEnumerable<T>} The new sequence.
+     * @returns {Set<T>} The new Set.
+     */
+    toSet(): Set<T>;
+    /**
+     * Returns the items with the highest keys, in descending order,
+     * without sorting the whole sequence.
+     *
+     * Items with equal keys keep their order.
+     *
+     * @template U Type of the keys.
+     *
+     * @param {number} [count] The maximum number of items to return.
+     *                         Default: all items, which is also used for an infinite value.
+     * @param {Selector<T,U>} [selector] The key selector.
+     * @param {Comparer<U>} [comparer] The custom key comparer to use.
+     *
+     * @return {IEnumerable<T>} The new sequence.
+     */
+    topBy<U = T>(
+      count?: number,
+      selector?: Selector<T, U>,
+      comparer?: Comparer<U>,
+    ): IEnumerable<T>;
+    /**
+     * Traces the elements of that sequence.
+     *
+     * @param {Selector<T, any>} [formatter] The custom formatter to use.
+     *
+     * @return {IEnumerable<T>} The new, piped sequence.
+     */
+    trace(formatter?: Selector<T, any>): IEnumerable<T>;
+    /**
+     * Returns the number of the remaining items, if it can be determined
+     * without enumerating that sequence.
+     *
+     * Collections, like 'List' or 'HashSet', return the number of all of their items,
+     * because they are enumerated from the beginning again and again.
+     *
+     * @return {number|false} The number of items or (false) if unknown.
+     */
+    tryGetNonEnumeratedCount(): number | false;
+    /**
+     * Produces the union of that sequence and another.
+     *
+     * @param {Sequence<T>} second The other sequence.
+     * @param {EqualityComparer<T>|IEqualityComparer<T>|true} [comparer] The optional equality comparer to use.
+     *
+     * @returns {IEnumerable<T>} The new sequence.
      */
     union(
       second: Sequence<T>,
-      comparer?: EqualityComparer<T> | true,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
     ): IEnumerable<T>;
+    /**
+     * Filters the items of that sequence by their type.
+     *
+     * @template U The narrowed type.
+     *
+     * @param {TypeGuard<T, U>} predicate The type guard to use.
+     *
+     * @return {IEnumerable<U>} The filtered sequence.
+     */
+    where<U extends T>(predicate: TypeGuard<T, U>): IEnumerable<U>;
     /**
      * Filters the items of that sequence.
      *
@@ -1268,6 +2121,22 @@ namespace Enumerable {
      * @return {IEnumerable<T>} The filtered sequence.
      */
     where(predicate: Predicate<T>): IEnumerable<T>;
+    /**
+     * Returns sliding windows of that sequence, which can overlap.
+     *
+     * @param {number} size The size of a window.
+     * @param {number} [step] The number of items between the start of two windows. Default: 1
+     * @param {WindowedOptions} [options] Custom options.
+     *
+     * @return {IEnumerable<IEnumerable<T>>} The sequence of windows.
+     *
+     * @throws {RangeError} 'size' or 'step' is less than 1.
+     */
+    windowed(
+      size: number,
+      step?: number,
+      options?: WindowedOptions,
+    ): IEnumerable<IEnumerable<T>>;
     /**
      * Applies a specified function to the corresponding elements of that sequence
      * and another, producing a sequence of the results.
@@ -1286,6 +2155,35 @@ namespace Enumerable {
     ): IEnumerable<TResult>;
   } // IEnumerable<T>
 
+  /**
+   * An equality comparer, which also provides hash codes,
+   * so items can be compared by using a hash table.
+   *
+   * If no comparer is defined, primitive values are compared with ==,
+   * and arrays, plain objects and dates by their values.
+   *
+   * @template T Type of the items.
+   */
+  export interface IEqualityComparer<T = any> {
+    /**
+     * Checks if two items are equal.
+     *
+     * @param {T} x The first item.
+     * @param {T} y The second item.
+     *
+     * @return {boolean} Are equal or not.
+     */
+    equals(x: T, y: T): boolean;
+    /**
+     * Returns the hash code of an item. Equal items must have the same hash code.
+     *
+     * @param {T} obj The item.
+     *
+     * @return {any} The hash code, like a number or a string.
+     */
+    getHashCode(obj: T): any;
+  } // IEqualityComparer<T>
+
   /**
    * Describes a grouping.
    *
@@ -1299,6 +2197,44 @@ namespace Enumerable {
     readonly key: TKey;
   } // IGrouping<TKey, T>
 
+  /**
+   * A lookup, which maps keys to sequences of items.
+   *
+   * Enumerating the lookup returns one grouping per key, in the order
+   * the keys have been found. 'count()' returns the number of keys.
+   *
+   * @template TKey Type of the keys.
+   * @template T Type of the items.
+   */
+  export interface ILookup<TKey = any, T = any>
+    extends IEnumerable<IGrouping<TKey, T>> {
+    /**
+     * Returns the number of keys, without moving the position of that lookup.
+     * With a predicate, the groupings are enumerated, like in any other sequence.
+     *
+     * @param {Predicate<IGrouping<TKey, T>>} [predicate] The optional predicate to use.
+     *
+     * @returns {number} The number of (matching) keys.
+     */
+    count(predicate?: Predicate<IGrouping<TKey, T>>): number;
+    /**
+     * Returns the items of a key.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {IEnumerable<T>} The items or an empty sequence, if the key does not exist.
+     */
+    get(key: TKey): IEnumerable<T>;
+    /**
+     * Checks if a key exists.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {boolean} Key exists or not.
+     */
+    has(key: TKey): boolean;
+  } // ILookup<TKey, T>
+
   /**
    * Describes an ordered sequence.
    */
@@ -1351,6 +2287,27 @@ namespace Enumerable {
     thenDescending(comparer?: Comparer<T>): IOrderedEnumerable<T>;
   } // IOrderedEnumerable<T>
 
+  /**
+   * Schedules actions, which should be invoked later.
+   */
+  export interface IScheduler {
+    /**
+     * Returns the current time, in milliseconds.
+     *
+     * @return {number} The current time.
+     */
+    now(): number;
+    /**
+     * Schedules an action.
+     *
+     * @param {Function} action The action to invoke.
+     * @param {number} dueTime The time, in milliseconds, to wait before the action is invoked.
+     *
+     * @return {Function} The function, which cancels the action.
+     */
+    schedule(action: () => void, dueTime: number): () => void;
+  } // IScheduler
+
   /**
    * A result selector for a 'zip' method / function.
    *
@@ -1366,131 +2323,92 @@ namespace Enumerable {
     index: number,
   ) => TResult;
 
+  /**
+   * An error that is thrown if an operation has been aborted by an AbortSignal.
+   */
+  export import AbortError = Internal.AbortError;
+
   /**
    * Represents a list of errors.
    */
-  export class AggregateError extends Error {
+  export import AggregateError = Internal.AggregateError;
+
+  /**
+   * An error that is thrown if two items of a sequence have the same key.
+   */
+  export import DuplicateKeyError = Internal.DuplicateKeyError;
+
+  /**
+   * A error wrapper for a function.
+   */
+  export import FunctionError = Internal.FunctionError;
+
+  /**
+   * An error that is thrown if a custom operator should be registered
+   * with a name, which is already in use.
+   */
+  export class OperatorClashError extends Error {
     /**
-     * Stores the errors.
+     * Stores the name of the operator.
      */
-    protected _errors: any[];
+    protected _operatorName: string;
 
     /**
      * Initializes a new instance of that class.
      *
-     * @param {any[]} [errors] The occurred errors.
+     * @param {string} [operatorName] The name of the operator.
      */
-    constructor(errors?: any[]) {
-      super();
+    constructor(operatorName?: string) {
+      super(`The operator '${operatorName}' already exists`);
 
-      this._errors = (errors || []).filter((e) => {
-        return !isNullOrUndefined(e);
-      });
+      this.name = "OperatorClashError";
+      this._operatorName = operatorName;
     }
 
     /**
-     * Gets the errors.
+     * Gets the name of the operator.
      */
-    public get errors(): any[] {
-      return this._errors;
-    }
-
-    /** @inheritdoc */
-    public get stack(): string {
-      return this.errors
-        .map((e, i) => {
-          const TITLE = "STACK #" + (i + 1);
-          const LINE = repeat("=", TITLE.length + 5).joinToString();
-
-          return `${TITLE}\n${LINE}\n${toStringSafe(e["stack"])}`;
-        })
-        .join("\n\n");
-    }
-
-    /** @inheritdoc */
-    public toString(): string {
-      return this.errors
-        .map((e, i) => {
-          const TITLE = "ERROR #" + (i + 1);
-          const LINE = repeat("=", TITLE.length + 5).joinToString();
-
-          return `${TITLE}\n${LINE}\n${e}`;
-        })
-        .join("\n\n");
+    public get operatorName(): string {
+      return this._operatorName;
     }
   }
 
   /**
-   * A error wrapper for a function.
+   * An error that is thrown if an operation has timed out.
    */
-  export class FunctionError extends Error {
-    /**
-     * Stores the inner error.
-     */
-    protected _error: any;
-    /**
-     * Stores the underlying function.
-     */
-    protected _function: Function;
+  export class TimeoutError extends Error {
     /**
-     * Stores the (zero based) index.
+     * Stores the time, in milliseconds.
      */
-    protected _index: number;
+    protected _dueTime: number;
 
     /**
      * Initializes a new instance of that class.
      *
-     * @param {any} [err] The underlying, inner error.
-     * @param {Function} [func] The underlying function.
-     * @param {number} [index] The (zero based) index.
+     * @param {number} [dueTime] The time, in milliseconds, that has been exceeded.
      */
-    constructor(err?: any, func?: Function, index?: number) {
-      super();
-
-      this._error = err;
-      this._function = func;
-      this._index = index;
-    }
+    constructor(dueTime?: number) {
+      super("The operation has timed out");
 
-    /**
-     * Gets the (zero based) index.
-     */
-    public get index(): number {
-      return this._index;
+      this.name = "TimeoutError";
+      this._dueTime = dueTime;
     }
 
     /**
-     * Gets the inner error.
+     * Gets the time, in milliseconds, that has been exceeded.
      */
-    public get innerError(): any {
-      return this._error;
-    }
-
-    /** @inheritdoc */
-    public get stack(): string {
-      if (this.innerError) {
-        return this.innerError["stack"];
-      }
-    }
-
-    /** @inheritdoc */
-    public toString(): string {
-      let title = "ACTION ERROR";
-      if (!isNaN(this.index)) {
-        title += " #" + this.index;
-      }
-
-      const LINE = repeat("=", title.length + 5).joinToString();
-
-      let content = "";
-      if (this.innerError) {
-        content += this.innerError;
-      }
-
-      return `${title}\n${LINE}\n${content}`;
+    public get dueTime(): number {
+      return this._dueTime;
     }
   }
 
+  /**
+   * Merges the members of 'IEnumerable<T>' into 'EnumerableBase<T>', so that
+   * operators, which are registered by 'registerOperator()' and declared by
+   * augmenting 'IEnumerable<T>', are also known by all sequence classes.
+   */
+  export interface EnumerableBase<T = any> extends IEnumerable<T> {}
+
   /**
    * A basic sequence.
    */
@@ -1503,6 +2421,10 @@ namespace Enumerable {
      * Stores the current index.
      */
     protected _index = -1;
+    /**
+     * Stores the source and the stages, if that sequence is the result of fused operators.
+     */
+    protected _pipeline: FusedPipeline;
 
     /**
      * Indicates that that instance is an enumerable (sequence).
@@ -1516,54 +2438,23 @@ namespace Enumerable {
 
     /** @inheritdoc */
     public abs(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x: any) => {
-        return invokeForValidNumber(x, (y) => Math.abs(y), handleAsInt);
-      });
+      return this.applyOperator(Operators.abs(handleAsInt));
     }
     /** @inheritdoc */
     public aggregate<TAccumulate = T, TResult = T>(
-      func: (accumulator: TAccumulate, item: T) => TAccumulate,
+      func: Reducer<TAccumulate, T>,
       seed?: TAccumulate,
       resultSelector?: (accumulator: TAccumulate) => TResult,
     ): TResult {
-      if (!func) {
-        func = (acc, item) => <any>acc + <any>item;
-      }
-
-      if (!resultSelector) {
-        resultSelector = (acc) => <any>acc;
-      }
-
-      let acc = seed;
-      for (let item of this) {
-        acc = func(acc, item);
-      }
-
-      return resultSelector(acc);
+      return Operators.aggregate(func, seed, resultSelector)(this);
     }
     /** @inheritdoc */
     public all(predicate: Predicate<T>): boolean {
-      predicate = toPredicateSafe(predicate);
-
-      for (let item of this) {
-        if (!predicate(item)) {
-          return false;
-        }
-      }
-
-      return true;
+      return Operators.all(predicate)(this);
     }
     /** @inheritdoc */
     public any(predicate?: Predicate<T>): boolean {
-      predicate = toPredicateSafe(predicate);
-
-      for (let item of this) {
-        if (predicate(item)) {
-          return true;
-        }
-      }
-
-      return false;
+      return Operators.any(predicate)(this);
     }
     /** @inheritdoc */
     public append<U = T>(...args: Sequence<U>[]): IEnumerable<T | U> {
@@ -1575,197 +2466,100 @@ namespace Enumerable {
     ): IEnumerable<T | U> {
       return this.concatArray.apply(this, arguments);
     }
+    /**
+     * Applies an operator of the 'operators' module, which returns a sequence.
+     *
+     * @param {Operator<T, Iterable<U>>} operator The operator.
+     *
+     * @return {IEnumerable<U>} The new sequence.
+     */
+    protected applyOperator<U>(
+      operator: Operators.Operator<T, Iterable<U>>,
+    ): IEnumerable<U> {
+      const RESULT = operator(this);
+
+      if (RESULT instanceof FusedIterable && RESULT.source === this) {
+        return this.createFusedSequence(RESULT.stages);
+      }
+
+      return this.createSequence(() => RESULT[Symbol.iterator]());
+    }
     /** @inheritdoc */
     public arcCos(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.acos(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.arcCos(handleAsInt));
     }
     /** @inheritdoc */
     public arcCosH(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.acosh(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.arcCosH(handleAsInt));
     }
     /** @inheritdoc */
     public arcSin(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.asin(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.arcSin(handleAsInt));
     }
     /** @inheritdoc */
     public arcSinH(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.asinh(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.arcSinH(handleAsInt));
     }
     /** @inheritdoc */
     public arcTan(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.atan(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.arcTan(handleAsInt));
     }
     /** @inheritdoc */
     public arcTanH(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.atanh(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.arcTanH(handleAsInt));
     }
     /** @inheritdoc */
     public assert(predicate: Predicate<T>, errMsg?: ItemMessage<T>) {
-      predicate = toPredicateSafe(predicate);
-      errMsg = toItemMessageSafe(errMsg);
-
-      let i = -1;
-      for (let item of this) {
-        ++i;
-
-        if (!predicate(item)) {
-          throw errMsg(item, i);
-        }
-      }
+      Operators.assert(predicate, errMsg)(this);
 
       return this;
     }
     /** @inheritdoc */
     public assertAll(predicate: Predicate<T>, errMsg?: ItemMessage<T>) {
-      predicate = toPredicateSafe(predicate);
-      errMsg = toItemMessageSafe(errMsg);
-
-      const ERRORS: string[] = [];
-
-      let i = -1;
-      for (let item of this) {
-        ++i;
-
-        if (!predicate(item)) {
-          ERRORS.push(errMsg(item, i));
-        }
-      }
-
-      if (ERRORS.length > 0) {
-        throw new AggregateError(ERRORS);
-      }
+      Operators.assertAll(predicate, errMsg)(this);
 
       return this;
     }
     /** @inheritdoc */
-    public async(action: AsyncAction<T>, previousValue?: any): Promise<any> {
-      const ME = this;
-
-      return new Promise<any>((resolve, reject) => {
-        let asyncResult: any;
-        const ASYNC_COMPLETED = (err: any) => {
-          if (err) {
-            reject(err);
-          } else {
-            resolve(asyncResult);
-          }
-        };
-
-        try {
-          let i = -1;
-          let prevVal = previousValue;
-          let val: any;
-          const NEXT_ITEM = () => {
-            ++i;
-
-            const ITEM = this.next();
-            if (!ITEM || ITEM.done) {
-              ASYNC_COMPLETED(null);
-              return;
-            }
-
-            const CTX: AsyncActionContext<T> = {
-              cancel: function (result?: any) {
-                if (arguments.length > 0) {
-                  asyncResult = result;
-                }
-
-                ASYNC_COMPLETED(null);
-              },
-              index: i,
-              isFirst: 0 === i,
-              item: ITEM.value,
-              previousValue: prevVal,
-              reject: function (reason: any, result?: any) {
-                if (arguments.length > 1) {
-                  asyncResult = result;
-                }
-
-                ASYNC_COMPLETED(reason);
-              },
-              resolve: function (nextValue?: any) {
-                prevVal = nextValue;
-
-                NEXT_ITEM();
-              },
-              result: undefined,
-              sequence: ME,
-              value: undefined,
-            };
-
-            // ctx.result
-            Object.defineProperty(CTX, "result", {
-              get: () => {
-                return asyncResult;
-              },
-              set: (newValue) => {
-                asyncResult = newValue;
-              },
-
-              enumerable: true,
-            });
-
-            // ctx.value
-            Object.defineProperty(CTX, "value", {
-              get: () => {
-                return val;
-              },
-              set: (newValue) => {
-                val = newValue;
-              },
-
-              enumerable: true,
-            });
-
-            try {
-              if (action) {
-                action(CTX);
-              } else {
-                CTX.resolve();
-              }
-            } catch (e) {
-              CTX.reject(e);
-            }
-          };
-
-          NEXT_ITEM();
-        } catch (e) {
-          ASYNC_COMPLETED(e);
+    public async(
+      action: AsyncAction<T>,
+      previousValue?: any,
+      signal?: AbortSignal,
+    ): Promise<any> {
+      const CLOSE = () => {
+        if (!(this._current && this._current.done)) {
+          // operation has been finished before
+          // the end of the sequence
+          this.closeIterator();
         }
-      });
+      };
+
+      return Operators.async(
+        action,
+        previousValue,
+        signal,
+      )(this).then(
+        (result) => {
+          CLOSE();
+          return result;
+        },
+        (err) => {
+          CLOSE();
+          throw err;
+        },
+      );
     }
     /** @inheritdoc */
     public average(selector?: Selector<T, number>): number | symbol {
-      if (!selector) {
-        selector = (i) => <any>i;
-      }
-
-      let count = 0;
-      let sum = 0.0;
-      for (let n of this.select(selector)) {
-        if (!isNullOrUndefined(n)) {
-          if ("number" !== typeof n) {
-            n = parseFloat(toStringSafe(n).trim());
-          }
-        }
-
-        ++count;
-        sum += n;
-      }
-
-      return count > 0 ? sum / count : IS_EMPTY;
+      return Operators.average(selector)(this);
+    }
+    /** @inheritdoc */
+    public bottomBy<U = T>(
+      count?: number,
+      selector?: Selector<T, U>,
+      comparer?: Comparer<U>,
+    ): IEnumerable<T> {
+      return this.applyOperator(Operators.bottomBy(count, selector, comparer));
     }
     /** @inheritdoc */
     public get canReset(): boolean {
@@ -1773,141 +2567,35 @@ namespace Enumerable {
     }
     /** @inheritdoc */
     public cast<U>(type?: string): IEnumerable<U> {
-      type = toStringSafe(type).trim();
-
-      return this.select((x: any) => {
-        if ("" !== type) {
-          switch (type) {
-            case "bool":
-            case "boolean":
-              x = !!x;
-              break;
-
-            case "float":
-              x = parseFloat(toStringSafe(x).trim());
-              break;
-
-            case "func":
-            case "function":
-              if ("function" !== typeof x) {
-                const FUNC_RESULT = x;
-                x = function () {
-                  return FUNC_RESULT;
-                };
-              }
-              break;
-
-            case "null":
-              x = null;
-              break;
-
-            case "number":
-              if ("number" !== typeof x) {
-                x = parseFloat(toStringSafe(x).trim());
-              }
-              break;
+      return this.applyOperator(Operators.cast(type));
+    }
+    /** @inheritdoc */
+    public ceil(): IEnumerable<number> {
+      return this.applyOperator(Operators.ceil());
+    }
+    /** @inheritdoc */
+    public chunk(size?: number): IEnumerable<IEnumerable<T>> {
+      return this.applyOperator(Operators.chunk(size)).select((x) => from(x));
+    }
+    /** @inheritdoc */
+    public clone<U = T>(
+      count?: number,
+      itemSelector?: Selector<T, U>,
+    ): IEnumerable<IEnumerable<U>> {
+      return this.applyOperator(Operators.clone(count)).select((x) => {
+        const SEQ = from(x);
 
-            case "object":
-              if (!isNullOrUndefined(x)) {
-                if ("object" !== typeof x) {
-                  x = JSON.parse(toStringSafe(x));
-                }
-              }
-              break;
-
-            case "int":
-            case "integer":
-              x = parseInt(toStringSafe(x).trim());
-              break;
-
-            case "string":
-              x = "" + x;
-              break;
-
-            case "symbol":
-              if ("symbol" !== typeof x) {
-                let desc = x;
-                if (!isNullOrUndefined(desc)) {
-                  if ("number" !== typeof desc) {
-                    desc = toStringSafe(desc);
-                  }
-                }
-
-                x = Symbol(desc);
-              }
-              break;
-
-            case "undefined":
-              x = undefined;
-              break;
-
-            default:
-              throw "Not supported type " + type;
-          }
-        }
-
-        return <U>x;
+        return itemSelector ? SEQ.select(itemSelector) : <any>SEQ;
       });
     }
-    /** @inheritdoc */
-    public ceil(): IEnumerable<number> {
-      return this.select((x: any) => {
-        return invokeForValidNumber(x, (y) => Math.ceil(y));
-      });
-    }
-    /** @inheritdoc */
-    public chunk(size?: number): IEnumerable<IEnumerable<T>> {
-      size = parseInt(toStringSafe(size).trim());
-      if (isNaN(size)) {
-        size = 1;
-      }
-
-      return from(this.chunkInner(size));
-    }
     /**
-     * @see chunk()
+     * Closes the underlying iterator, if an operation,
+     * like 'async()', has been finished before the end of that sequence.
      */
-    protected *chunkInner(size: number) {
-      let currentChunk: T[];
-
-      while (true) {
-        const ARR = this.getNextChunkArray(size);
-        if (ARR.length > 0) {
-          yield from(ARR);
-        } else {
-          break;
-        }
-      }
-    }
+    protected closeIterator(): void {}
     /** @inheritdoc */
-    public clone<U = T>(
-      count?: number,
-      itemSelector?: Selector<T, U>,
-    ): IEnumerable<IEnumerable<U>> {
-      count = parseInt(toStringSafe(count).trim());
-
-      return from(this.cloneInner(count, itemSelector));
-    }
-    /**
-     * @see concatArray()
-     */
-    protected *cloneInner<U>(count: number, itemSelector: Selector<T, U>) {
-      const ITEMS = this.toArray();
-
-      while (true) {
-        if (!isNaN(count)) {
-          if (count-- < 1) {
-            break;
-          }
-        }
-
-        let seq: any = from(ITEMS);
-        if (itemSelector) {
-          seq = seq.select(itemSelector);
-        }
-
-        yield seq;
-      }
+    public collect<A, R = A>(collector: Collector<T, A, R>): R {
+      return Operators.collect(collector)(this);
     }
     /** @inheritdoc */
     public concat<U = T>(...args: Sequence<U>[]): IEnumerable<T | U> {
@@ -1917,32 +2605,11 @@ namespace Enumerable {
     public concatArray<U = T>(
       sequences: ArrayLike<Sequence<U>>,
     ): IEnumerable<T | U> {
-      return from(this.concatArrayInner(sequences));
-    }
-    /**
-     * @see concatArray()
-     */
-    protected *concatArrayInner<U>(
-      sequences: ArrayLike<Sequence<U>>,
-    ): IterableIterator<T | U> {
-      for (let item of this) {
-        yield item;
-      }
-
-      if (sequences) {
-        for (let i = 0; i < sequences.length; i++) {
-          const SEQ = sequences[i];
-
-          for (let item of from(SEQ)) {
-            yield item;
-          }
-        }
-      }
+      return this.applyOperator(Operators.concatArray(sequences));
     }
     /** @inheritdoc */
     public consume(): this {
-      for (let item of this) {
-      }
+      Operators.consume()(this);
 
       return this;
     }
@@ -1955,28 +2622,53 @@ namespace Enumerable {
     }
     /** @inheritdoc */
     public cos(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.cos(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.cos(handleAsInt));
     }
     /** @inheritdoc */
     public cosH(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.cosh(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.cosH(handleAsInt));
     }
     /** @inheritdoc */
     public count(predicate?: Predicate<T>): number {
-      predicate = toPredicateSafe(predicate);
+      return Operators.count(predicate)(this);
+    }
+    /**
+     * Creates the sequence for the result of a fusable operation, like 'where()'.
+     *
+     * If that sequence is also the result of fusable operations, and has not been
+     * enumerated yet, all stages are executed in one loop over the original source.
+     *
+     * @param {FusedStage[]} stages The functions, which create the stages for an iteration.
+     *
+     * @return {IEnumerable<U>} The new sequence.
+     */
+    protected createFusedSequence<U>(stages: FusedStage[]): IEnumerable<U> {
+      let source: EnumerableBase<any> = this;
 
-      let cnt = 0;
-      for (let item of this) {
-        if (predicate(item)) {
-          ++cnt;
-        }
+      if (this._pipeline && isNullOrUndefined(this._current)) {
+        source = this._pipeline.source;
+        stages = this._pipeline.stages.concat(stages);
       }
 
-      return cnt;
+      const SEQ = source.createSequence(() => runFusedStages(source, stages));
+      if (SEQ instanceof EnumerableBase) {
+        SEQ._pipeline = {
+          source: source,
+          stages: stages,
+        };
+      }
+
+      return SEQ;
+    }
+    /**
+     * Creates the sequence for the result of an operation, like 'selectMany()'.
+     *
+     * @param {Function} factory The function, which creates the iterator of the result.
+     *
+     * @return {IEnumerable<U>} The new sequence.
+     */
+    protected createSequence<U>(factory: () => Iterator<U>): IEnumerable<U> {
+      return from(factory());
     }
     /** @inheritdoc */
     public get current(): IteratorResult<T> {
@@ -1988,91 +2680,28 @@ namespace Enumerable {
     }
     /** @inheritdoc */
     public defaultIfEmpty(...defaultItems: Array<T>): IEnumerable<T> {
-      return from(this.defaultIfEmptyInner(defaultItems));
-    }
-    /**
-     * @see defaultIfEmpty()
-     */
-    protected *defaultIfEmptyInner(defaultItems: Array<T>) {
-      let hasItems = false;
-      for (let item of this) {
-        hasItems = true;
-
-        yield item;
-      }
-
-      if (!hasItems && defaultItems) {
-        for (let item of defaultItems) {
-          yield item;
-        }
-      }
+      return this.applyOperator(Operators.defaultIfEmpty(...defaultItems));
     }
     /** @inheritdoc */
     public defaultSequenceIfEmpty(
       defaultSequence: Sequence<T>,
     ): IEnumerable<T> {
-      return from(this.defaultSequenceIfEmptyInner(defaultSequence));
-    }
-    /**
-     * @see defaultIfEmpty()
-     */
-    protected *defaultSequenceIfEmptyInner(defaultSequence: Sequence<T>) {
-      let hasItems = false;
-      for (let item of this) {
-        hasItems = true;
-
-        yield item;
-      }
-
-      if (!hasItems) {
-        for (let item of from(defaultSequence)) {
-          yield item;
-        }
-      }
+      return this.applyOperator(
+        Operators.defaultSequenceIfEmpty(defaultSequence),
+      );
     }
     /** @inheritdoc */
-    public distinct(comparer?: EqualityComparer<T> | true): IEnumerable<T> {
+    public distinct(
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+    ): IEnumerable<T> {
       return this.distinctBy((x) => x, comparer);
     }
     /** @inheritdoc */
     public distinctBy<U>(
       selector: Selector<T, U>,
-      comparer?: EqualityComparer<U> | true,
+      comparer?: EqualityComparer<U> | IEqualityComparer<U> | true,
     ): IEnumerable<T> {
-      if (!selector) {
-        selector = (i) => <any>i;
-      }
-
-      comparer = toEqualityComparerSafe(comparer);
-
-      return from(this.distinctByInner(selector, comparer));
-    }
-    /**
-     * @see distinct()
-     */
-    protected *distinctByInner<U>(
-      selector: Selector<T, U>,
-      comparer: EqualityComparer<U>,
-    ) {
-      const TEMP: U[] = [];
-
-      for (let item of this) {
-        const KEY_ITEM = selector(item);
-
-        let found = false;
-        for (let t of TEMP) {
-          if (comparer(KEY_ITEM, t)) {
-            found = true;
-            break;
-          }
-        }
-
-        if (!found) {
-          TEMP.push(KEY_ITEM);
-
-          yield item;
-        }
-      }
+      return this.applyOperator(Operators.distinctBy(selector, comparer));
     }
     /** @inheritdoc */
     public each(action: EachAction<T>): this {
@@ -2099,59 +2728,26 @@ namespace Enumerable {
       index: number,
       defaultValue?: U,
     ): T | U {
-      index = parseInt(toStringSafe(index).trim());
-
-      if (arguments.length < 2) {
-        defaultValue = <any>NOT_FOUND;
-      }
-
-      let i = -1;
-      for (let item of this) {
-        if (++i === index) {
-          return item;
-        }
-      }
-
-      return <any>defaultValue;
+      return Operators.elementAtOrDefault<T, U>(
+        index,
+        arguments.length < 2 ? <any>NOT_FOUND : defaultValue,
+      )(this);
     }
     /** @inheritdoc */
     public except(
       second: Sequence<T>,
-      comparer?: EqualityComparer<T> | true,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
     ): IEnumerable<T> {
-      return from(
-        this.exceptInner(
-          from(second).distinct().toArray(),
-          toEqualityComparerSafe(comparer),
-        ),
-      );
-    }
-    /**
-     * @see except()
-     */
-    protected *exceptInner(second: Array<T>, comparer: EqualityComparer<T>) {
-      for (let item of this) {
-        let found = false;
-
-        for (let secondItem of second) {
-          if (comparer(item, secondItem)) {
-            found = true;
-            break;
-          }
-        }
-
-        if (!found) {
-          yield item;
-        }
-      }
+      return this.applyOperator(Operators.except(second, comparer));
     }
     /** @inheritdoc */
     public exp(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.exp(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.exp(handleAsInt));
     }
     /** @inheritdoc */
+    public first<U extends T>(predicate: TypeGuard<T, U>): U;
+    /** @inheritdoc */
+    public first(predicate?: Predicate<T>): T;
     public first(predicate?: Predicate<T>): T {
       predicate = toPredicateSafe(predicate);
 
@@ -2176,135 +2772,46 @@ namespace Enumerable {
         arguments.length,
       );
 
-      for (let item of this) {
-        if (ARGS.predicate(item)) {
-          return item;
-        }
-      }
-
-      return ARGS.defaultValue;
+      return Operators.firstOrDefault<T, U>(
+        ARGS.predicate,
+        ARGS.defaultValue,
+      )(this);
     }
     /** @inheritdoc */
     public flatten<U = T>(): IEnumerable<U> {
-      return this.selectMany((x: any) => {
-        if (!isSequence(x)) {
-          x = [x];
-        }
-
-        return x;
-      });
+      return this.applyOperator(Operators.flatten());
     }
     /** @inheritdoc */
     public floor(): IEnumerable<number> {
-      return this.select((x: any) => {
-        return invokeForValidNumber(x, (y) => Math.floor(y));
-      });
+      return this.applyOperator(Operators.floor());
     }
     /** @inheritdoc */
     public forAll(action: EachAction<T>): this {
-      const ERRORS: any[] = [];
-
-      let i = -1;
-      for (let item of this) {
-        ++i;
-
-        try {
-          if (action) {
-            action(item, i);
-          }
-        } catch (e) {
-          ERRORS.push(new FunctionError(e, action, i));
-        }
-      }
-
-      if (ERRORS.length > 0) {
-        throw new AggregateError(ERRORS);
-      }
+      Operators.forAll(action)(this);
 
       return this;
     }
     /** @inheritdoc */
     public forEach(action: EachAction<T>): this {
-      let i = -1;
-      for (let item of this) {
-        ++i;
-
-        if (action) {
-          action(item, i);
-        }
-      }
+      Operators.forEach(action)(this);
 
       return this;
     }
-    /**
-     * @see chunkInner()
-     */
-    protected getNextChunkArray(size: number): T[] {
-      const ARR: T[] = [];
-
-      for (let item of this) {
-        ARR.push(item);
-
-        if (ARR.length >= size) {
-          break;
-        }
-      }
-
-      return ARR;
+    /** @inheritdoc */
+    public forEachParallel(
+      action: AsyncEachAction<T>,
+      options?: ParallelOptions,
+    ): Promise<void> {
+      return this.toAsync().forEachParallel(action, options);
     }
     /** @inheritdoc */
     public groupBy<TKey>(
       keySelector: Selector<T, TKey>,
-      keyEqualityComparer?: EqualityComparer<TKey>,
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
     ): IEnumerable<IGrouping<TKey, T>> {
-      if (!keySelector) {
-        keySelector = (i) => <any>i;
-      }
-
-      keyEqualityComparer = toEqualityComparerSafe(keyEqualityComparer);
-
-      return from(this.groupByInner(keySelector, keyEqualityComparer));
-    }
-    /**
-     * @see groupBy()
-     */
-    protected *groupByInner<TKey>(
-      keySelector: Selector<T, TKey>,
-      keyEqualityComparer: EqualityComparer<TKey>,
-    ) {
-      interface GroupItem {
-        key: TKey;
-        values: Array<T>;
-      }
-
-      const GROUP_LIST: GroupItem[] = [];
-
-      for (let item of this) {
-        const KEY = keySelector(item);
-
-        let grp: GroupItem;
-        for (let g of GROUP_LIST) {
-          if (keyEqualityComparer(KEY, g.key)) {
-            grp = g;
-            break;
-          }
-        }
-
-        if (!grp) {
-          grp = {
-            key: KEY,
-            values: [],
-          };
-
-          GROUP_LIST.push(grp);
-        }
-
-        grp.values.push(item);
-      }
-
-      for (let grp of GROUP_LIST) {
-        yield new Grouping(grp.key, from(grp.values));
-      }
+      return this.applyOperator(
+        Operators.groupBy(keySelector, keyEqualityComparer),
+      ).select((x) => new Grouping(x.key, from(x.values)));
     }
     /** @inheritdoc */
     public groupJoin<
@@ -2317,19 +2824,11 @@ namespace Enumerable {
       outerKeySelector?: Selector<T, TOuterKey>,
       innerKeySelector?: Selector<TInner, TInnerKey>,
       resultSelector?: (outer: T, inner: IEnumerable<TInner>) => TResult,
-      keyEqualityComparer?: EqualityComparer<TOuterKey, TInnerKey> | true,
+      keyEqualityComparer?:
+        | EqualityComparer<TOuterKey, TInnerKey>
+        | IEqualityComparer<TOuterKey | TInnerKey>
+        | true,
     ): IEnumerable<TResult> {
-      if (!outerKeySelector && !innerKeySelector) {
-        outerKeySelector = (i) => <any>i;
-        innerKeySelector = <any>outerKeySelector;
-      } else {
-        if (!outerKeySelector) {
-          outerKeySelector = <any>innerKeySelector;
-        } else if (!innerKeySelector) {
-          innerKeySelector = <any>outerKeySelector;
-        }
-      }
-
       if (!resultSelector) {
         resultSelector = (outer, inner) => {
           // JoinedItems<T, IEnumerable<TInner>>
@@ -2340,47 +2839,16 @@ namespace Enumerable {
         };
       }
 
-      keyEqualityComparer = toEqualityComparerSafe(keyEqualityComparer);
-
-      return from(
-        this.groupJoinInner(
-          from(inner),
+      return this.applyOperator(
+        Operators.groupJoin(
+          inner,
           outerKeySelector,
           innerKeySelector,
-          resultSelector,
+          (outer: T, inner: TInner[]) => resultSelector(outer, from(inner)),
           keyEqualityComparer,
         ),
       );
     }
-    /**
-     * @see groupJoin()
-     */
-    protected *groupJoinInner<TInner, TOuterKey, TInnerKey, TResult>(
-      inner: IEnumerable<TInner>,
-      outerKeySelector: Selector<T, TOuterKey>,
-      innerKeySelector: Selector<TInner, TInnerKey>,
-      resultSelector: (outer: T, inner: IEnumerable<TInner>) => TResult,
-      keyEqualityComparer: EqualityComparer<TOuterKey, TInnerKey>,
-    ) {
-      const OUTER_GROUPS = createGroupArrayForSequence(this, outerKeySelector);
-      const INNER_GROUPS = createGroupArrayForSequence(inner, innerKeySelector);
-
-      while (OUTER_GROUPS.length > 0) {
-        const OUTER_GRP = OUTER_GROUPS.shift();
-
-        for (let i = 0; i < INNER_GROUPS.length; i++) {
-          const INNER_GRP = INNER_GROUPS[i];
-
-          if (!keyEqualityComparer(OUTER_GRP.key, INNER_GRP.key)) {
-            continue;
-          }
-
-          for (let j = 0; j < OUTER_GRP.values.length; j++) {
-            yield resultSelector(OUTER_GRP.values[j], from(INNER_GRP.values));
-          }
-        }
-      }
-    }
     /** @inheritdoc */
     public get index(): number {
       return this._index;
@@ -2390,76 +2858,24 @@ namespace Enumerable {
       item: U,
       comparer?: EqualityComparer<T, U> | true,
     ): number {
-      let index = -1;
-
-      comparer = toEqualityComparerSafe(comparer);
-      for (let thisItem of this) {
-        ++index;
-
-        if (comparer(thisItem, item)) {
-          return index;
-        }
-      }
-
-      return -1;
+      return Operators.indexOf(item, comparer)(this);
     }
     /** @inheritdoc */
     public intersperse<U = T>(...separators: U[]): IEnumerable<T | U> {
-      return from(this.intersperseInner(separators));
-    }
-    /**
-     * @see intersperseInner()
-     */
-    protected *intersperseInner<U>(separators: U[]): Iterator<T | U> {
-      if (!separators) {
-        separators = [];
-      }
-
-      let isFirst = true;
-      for (let item of this) {
-        // separator(s)
-        if (!isFirst) {
-          for (let s of separators) {
-            yield s;
-          }
-        } else {
-          isFirst = false;
-        }
-
-        yield item;
-      }
+      return this.applyOperator(Operators.intersperseArray(separators));
     }
     /** @inheritdoc */
     public intersperseArray<U = T>(
       separators: Sequence<U>,
     ): IEnumerable<T | U> {
-      return from(this.intersperseInner(from(separators).toArray()));
+      return this.applyOperator(Operators.intersperseArray(separators));
     }
     /** @inheritdoc */
     public intersect(
       second: Sequence<T>,
-      comparer?: EqualityComparer<T> | true,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
     ): IEnumerable<T> {
-      return from(
-        this.intersectInner(
-          from(second).distinct().toArray(),
-          toEqualityComparerSafe(comparer),
-        ),
-      );
-    }
-    /**
-     * @see intersect()
-     */
-    protected *intersectInner(second: Array<T>, comparer: EqualityComparer<T>) {
-      for (let item of this) {
-        for (let secondItem of second) {
-          if (comparer(item, secondItem)) {
-            yield item;
-
-            break;
-          }
-        }
-      }
+      return this.applyOperator(Operators.intersect(second, comparer));
     }
     /** @inheritdoc */
     public isEmpty(): boolean {
@@ -2476,34 +2892,14 @@ namespace Enumerable {
       outerKeySelector?: Selector<T, TOuterKey>,
       innerKeySelector?: Selector<TInner, TInnerKey>,
       resultSelector?: (outer: T, inner: TInner) => TResult,
-      keyEqualityComparer?: EqualityComparer<TOuterKey, TInnerKey> | true,
+      keyEqualityComparer?:
+        | EqualityComparer<TOuterKey, TInnerKey>
+        | IEqualityComparer<TOuterKey | TInnerKey>
+        | true,
     ): IEnumerable<TResult> {
-      if (!outerKeySelector && !innerKeySelector) {
-        outerKeySelector = (i) => <any>i;
-        innerKeySelector = <any>outerKeySelector;
-      } else {
-        if (!outerKeySelector) {
-          outerKeySelector = <any>innerKeySelector;
-        } else if (!innerKeySelector) {
-          innerKeySelector = <any>outerKeySelector;
-        }
-      }
-
-      if (!resultSelector) {
-        resultSelector = (outer, inner) => {
-          // JoinedItems<T, TInner>
-          return <any>{
-            inner: inner,
-            outer: outer,
-          };
-        };
-      }
-
-      keyEqualityComparer = toEqualityComparerSafe(keyEqualityComparer);
-
-      return from(
-        this.joinInner(
-          from(inner),
+      return this.applyOperator(
+        Operators.join(
+          inner,
           outerKeySelector,
           innerKeySelector,
           resultSelector,
@@ -2511,45 +2907,12 @@ namespace Enumerable {
         ),
       );
     }
-    /**
-     * @see join()
-     */
-    protected *joinInner<TInner, TOuterKey, TInnerKey, TResult>(
-      inner: IEnumerable<TInner>,
-      outerKeySelector: Selector<T, TOuterKey>,
-      innerKeySelector: Selector<TInner, TInnerKey>,
-      resultSelector: (outer: T, inner: TInner) => TResult,
-      keyEqualityComparer: EqualityComparer<TOuterKey, TInnerKey>,
-    ) {
-      const OUTER_GROUPS = createGroupArrayForSequence(this, outerKeySelector);
-      const INNER_GROUPS = createGroupArrayForSequence(inner, innerKeySelector);
-
-      while (OUTER_GROUPS.length > 0) {
-        const OUTER_GRP = OUTER_GROUPS.shift();
-
-        for (let i = 0; i < INNER_GROUPS.length; i++) {
-          const INNER_GRP = INNER_GROUPS[i];
-
-          if (!keyEqualityComparer(OUTER_GRP.key, INNER_GRP.key)) {
-            continue;
-          }
-
-          for (let j = 0; j < OUTER_GRP.values.length; j++) {
-            for (let k = 0; k < INNER_GRP.values.length; k++) {
-              yield resultSelector(OUTER_GRP.values[j], INNER_GRP.values[k]);
-            }
-          }
-        }
-      }
-    }
     /** @inheritdoc */
     public joinToString(separator?: any): string {
       return this.toArray().join(toStringSafe(separator));
     }
     /** @inheritdoc */
     public last(predicate?: Predicate<T>): T {
-      predicate = toPredicateSafe(predicate);
-
       const ELEMENT_NOT_FOUND = Symbol("ELEMENT_NOT_FOUND");
 
       const RESULT = this.lastOrDefault(predicate, ELEMENT_NOT_FOUND);
@@ -2565,19 +2928,7 @@ namespace Enumerable {
       item: U,
       comparer?: EqualityComparer<T, U> | true,
     ): number {
-      let index = -1;
-      let lastIndex = -1;
-
-      comparer = toEqualityComparerSafe(comparer);
-      for (let thisItem of this) {
-        ++index;
-
-        if (comparer(thisItem, item)) {
-          lastIndex = index;
-        }
-      }
-
-      return lastIndex;
+      return Operators.lastIndexOf(item, comparer)(this);
     }
     /** @inheritdoc */
     public lastOrDefault<U = symbol>(
@@ -2590,21 +2941,10 @@ namespace Enumerable {
         arguments.length,
       );
 
-      const ELEMENT_NOT_FOUND = Symbol("ELEMENT_NOT_FOUND");
-
-      let result: any = ELEMENT_NOT_FOUND;
-
-      for (let item of this) {
-        if (ARGS.predicate(item)) {
-          result = item;
-        }
-      }
-
-      if (ELEMENT_NOT_FOUND !== result) {
-        return result;
-      }
-
-      return ARGS.defaultValue;
+      return Operators.lastOrDefault<T, U>(
+        ARGS.predicate,
+        ARGS.defaultValue,
+      )(this);
     }
     /** @inheritdoc */
     public length(): number {
@@ -2612,18 +2952,7 @@ namespace Enumerable {
     }
     /** @inheritdoc */
     public log(base?: number, handleAsInt?: boolean): IEnumerable<number> {
-      let logFunc: (n: number) => number;
-
-      base = parseFloat(toStringSafe(base).trim());
-      if (isNaN(base)) {
-        logFunc = (a) => Math.log(a);
-      } else {
-        logFunc = (a) => Math.log(a) / Math.log(base);
-      }
-
-      return this.select((x) => {
-        return invokeForValidNumber(x, (y) => logFunc(y), handleAsInt);
-      });
+      return this.applyOperator(Operators.log(base, handleAsInt));
     }
     /** @inheritdoc */
     public makeResettable(): IEnumerable<T> {
@@ -2638,111 +2967,47 @@ namespace Enumerable {
       valueSelector?: Selector<T, U>,
       comparer?: Comparer<U>,
     ): T | symbol {
-      if (!valueSelector) {
-        valueSelector = (i) => <any>i;
-      }
-
-      comparer = toComparerSafe(comparer);
-
-      let result: any = IS_EMPTY;
-      let maxValue: U;
-
-      let isFirst = true;
-      for (let item of this) {
-        const VALUE = valueSelector(item);
-
-        const UPDATE_RESULT = () => {
-          result = item;
-          maxValue = VALUE;
-        };
-
-        if (!isFirst) {
-          if (comparer(VALUE, maxValue) > 0) {
-            UPDATE_RESULT();
-          }
-        } else {
-          isFirst = false;
-
-          UPDATE_RESULT();
-        }
-      }
+      return Operators.max(valueSelector, comparer)(this);
+    }
+    /** @inheritdoc */
+    public memoize(): IEnumerable<T> {
+      const MEMOIZED = Operators.memoize<T>()(this);
 
-      return result;
+      return defer(() => MEMOIZED[Symbol.iterator]());
     }
     /** @inheritdoc */
     public min<U = T>(
       valueSelector?: Selector<T, U>,
       comparer?: Comparer<U>,
     ): T | symbol {
-      if (!valueSelector) {
-        valueSelector = (i) => <any>i;
-      }
-
-      comparer = toComparerSafe(comparer);
-
-      let result: any = IS_EMPTY;
-      let minValue: U;
-
-      let isFirst = true;
-      for (let item of this) {
-        const VALUE = valueSelector(item);
-
-        const UPDATE_RESULT = () => {
-          result = item;
-          minValue = VALUE;
-        };
-
-        if (!isFirst) {
-          if (comparer(VALUE, minValue) < 0) {
-            UPDATE_RESULT();
-          }
-        } else {
-          isFirst = false;
-
-          UPDATE_RESULT();
-        }
-      }
-
-      return result;
+      return Operators.min(valueSelector, comparer)(this);
     }
     /** @inheritdoc */
     public abstract next(value?: any): IteratorResult<T>;
     /** @inheritdoc */
     public noNAN(checkForInt?: boolean): IEnumerable<T> {
-      return this.where((x) => {
-        const STR = toStringSafe(x).trim();
-
-        return !isNaN(!checkForInt ? parseFloat(STR) : parseInt(STR));
-      });
+      return this.applyOperator(Operators.noNAN(checkForInt));
     }
     /** @inheritdoc */
     public not(predicate?: Predicate<T>): IEnumerable<T> {
-      let predicateToUse: Predicate<T>;
-      if (arguments.length < 1) {
-        predicateToUse = (x) => !x;
-      } else {
-        predicate = toPredicateSafe(predicate);
-
-        predicateToUse = (x) => !predicate(x);
-      }
-
-      return this.where((x) => predicateToUse(x));
+      return this.applyOperator(
+        arguments.length < 1 ? Operators.not() : Operators.not(predicate),
+      );
     }
     /** @inheritdoc */
     public notEmpty(): IEnumerable<T> {
-      return this.where((x) => !!x);
+      return this.applyOperator(Operators.notEmpty());
     }
     /** @inheritdoc */
-    public ofType<U = any>(type: string): IEnumerable<U> {
-      type = toStringSafe(type).trim();
-
-      return <any>this.where((x) => {
-        return type.toLowerCase() === typeof x || "" === type;
-      });
+    public ofType<U = any>(type: string): IEnumerable<U>;
+    /** @inheritdoc */
+    public ofType<U>(type: TypeConstructor<U>): IEnumerable<U>;
+    public ofType<U>(type: string | TypeConstructor<U>): IEnumerable<U> {
+      return this.applyOperator(Operators.ofType(<any>type));
     }
     /** @inheritdoc */
     public order(comparer?: Comparer<T>): IOrderedEnumerable<T> {
-      return this.orderBy((x) => x, comparer);
+      return this.orderBy(selectItem, comparer);
     }
     /** @inheritdoc */
     public orderBy<U>(
@@ -2767,8 +3032,12 @@ namespace Enumerable {
       return this.orderByDescending((x) => x, comparer);
     }
     /** @inheritdoc */
+    public pairwise(): IEnumerable<[T, T]> {
+      return this.applyOperator(Operators.pairwise());
+    }
+    /** @inheritdoc */
     public pipe(action: EachAction<T>): IEnumerable<T> {
-      return from(this.pipeInner(action));
+      return this.createSequence(() => this.pipeInner(action));
     }
     /**
      * @see pipe()
@@ -2787,18 +3056,7 @@ namespace Enumerable {
     }
     /** @inheritdoc */
     public pow(exponent?: number, handleAsInt?: boolean): IEnumerable<number> {
-      exponent = parseFloat(toStringSafe(exponent).trim());
-      if (isNaN(exponent)) {
-        exponent = 2;
-      }
-
-      return this.select((x: any) => {
-        return invokeForValidNumber(
-          x,
-          (y) => Math.pow(y, exponent),
-          handleAsInt,
-        );
-      });
+      return this.applyOperator(Operators.pow(exponent, handleAsInt));
     }
     /** @inheritdoc */
     public prepend<U = T>(...args: Sequence<U>[]): IEnumerable<T | U> {
@@ -2808,27 +3066,7 @@ namespace Enumerable {
     public prependArray<U = T>(
       sequences: ArrayLike<Sequence<U>>,
     ): IEnumerable<T | U> {
-      return from(this.prependArrayInner(sequences));
-    }
-    /**
-     * @see concatArray()
-     */
-    protected *prependArrayInner<U>(
-      sequences: ArrayLike<Sequence<U>>,
-    ): IterableIterator<T | U> {
-      if (sequences) {
-        for (let i = 0; i < sequences.length; i++) {
-          const SEQ = sequences[i];
-
-          for (let item of from(SEQ)) {
-            yield item;
-          }
-        }
-      }
-
-      for (let item of this) {
-        yield item;
-      }
+      return this.applyOperator(Operators.prependArray(sequences));
     }
     /** @inheritdoc */
     public product(): T | symbol {
@@ -2840,7 +3078,7 @@ namespace Enumerable {
     /** @inheritdoc */
     public pushTo(stack: Stack<T>): this {
       if (stack) {
-        stack.push.apply(stack, this.toArray());
+        this.collect(Collectors.toStack(stack));
       }
 
       return this;
@@ -2869,86 +3107,33 @@ namespace Enumerable {
     }
     /** @inheritdoc */
     public root(power?: number, handleAsInt?: boolean): IEnumerable<number> {
-      power = parseFloat(toStringSafe(power).trim());
-      if (isNaN(power)) {
-        power = 2;
-      }
-
-      return this.select((x) => {
-        return invokeForValidNumber(
-          x,
-          (y) => Math.pow(y, 1 / power),
-          handleAsInt,
-        );
-      });
+      return this.applyOperator(Operators.root(power, handleAsInt));
     }
     /** @inheritdoc */
     public round(): IEnumerable<number> {
-      return this.select((x: any) => {
-        return invokeForValidNumber(x, (y) => Math.round(y));
-      });
+      return this.applyOperator(Operators.round());
     }
     /** @inheritdoc */
     public select<U>(selector: Selector<T, U>): IEnumerable<U> {
-      if (!selector) {
-        selector = (x) => <any>x;
-      }
-
-      return this.selectMany((x) => {
-        return [selector(x)];
-      });
+      return this.applyOperator(Operators.select(selector));
     }
     /** @inheritdoc */
     public selectMany<U>(selector: Selector<T, Sequence<U>>): IEnumerable<U> {
-      return from(this.selectManyInner(selector));
+      return this.applyOperator(Operators.selectMany(selector));
     }
-    /**
-     * @see selectMany()
-     */
-    protected *selectManyInner<U>(
-      selector: Selector<T, Sequence<U>>,
-    ): IterableIterator<U> {
-      if (!selector) {
-        selector = (x) => [<any>x];
-      }
-
-      for (let s of this) {
-        const SEQ = from(selector(s));
-
-        for (let item of SEQ) {
-          yield item;
-        }
-      }
+    /** @inheritdoc */
+    public selectParallel<U>(
+      selector: ParallelSelector<T, U>,
+      options?: ParallelOptions,
+    ): IAsyncEnumerable<U> {
+      return this.toAsync().selectParallel(selector, options);
     }
     /** @inheritdoc */
     public sequenceEqual<U>(
       other: Sequence<U>,
       equalityComparer?: EqualityComparer<T, U> | true,
     ): boolean {
-      const OTHER_SEQ = from(other);
-      equalityComparer = toEqualityComparerSafe(equalityComparer);
-
-      do {
-        const X = getNextIteratorResultSafe(this);
-        if (X.done) {
-          break;
-        }
-
-        const Y = getNextIteratorResultSafe(OTHER_SEQ);
-        if (Y.done) {
-          return false;
-        }
-
-        if (!equalityComparer(X.value, Y.value)) {
-          return false;
-        }
-      } while (true);
-
-      if (!getNextIteratorResultSafe(OTHER_SEQ).done) {
-        return false;
-      }
-
-      return true;
+      return Operators.sequenceEqual(other, equalityComparer)(this);
     }
     /** @inheritdoc */
     public shuffle(sortValueProvider?: () => any) {
@@ -2956,11 +3141,12 @@ namespace Enumerable {
     }
     /** @inheritdoc */
     public sin(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.sin(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.sin(handleAsInt));
     }
     /** @inheritdoc */
+    public single<U extends T>(predicate: TypeGuard<T, U>): U;
+    /** @inheritdoc */
+    public single(predicate?: Predicate<T>): T;
     public single(predicate?: Predicate<T>): T {
       predicate = toPredicateSafe(predicate);
 
@@ -2985,100 +3171,30 @@ namespace Enumerable {
         arguments.length,
       );
 
-      const ELEMENT_NOT_FOUND = Symbol("ELEMENT_NOT_FOUND");
-
-      let result: any = ELEMENT_NOT_FOUND;
-
-      for (let item of this) {
-        if (!ARGS.predicate(item)) {
-          continue;
-        }
-
-        if (ELEMENT_NOT_FOUND !== result) {
-          throw "Sequence contains more that one matching element";
-        }
-
-        result = item;
-      }
-
-      if (ELEMENT_NOT_FOUND !== result) {
-        return result;
-      }
-
-      return ARGS.defaultValue;
+      return Operators.singleOrDefault<T, U>(
+        ARGS.predicate,
+        ARGS.defaultValue,
+      )(this);
     }
     /** @inheritdoc */
     public sinH(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.sinh(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.sinH(handleAsInt));
     }
     /** @inheritdoc */
     public skip(count?: number): IEnumerable<T> {
-      count = parseInt(toStringSafe(count).trim());
-      if (isNaN(count)) {
-        count = 1;
-      }
-
-      return this.skipWhile(() => {
-        return count-- > 0;
-      });
+      return this.applyOperator(Operators.skip(count));
     }
     /** @inheritdoc */
     public skipLast(): IEnumerable<T> {
-      return from(this.skipLastInner());
-    }
-    /**
-     * @see skipLast()
-     */
-    protected *skipLastInner() {
-      let hasRemainingItems;
-      let isFirst = true;
-      let item: T;
-
-      do {
-        const ITERATOR_ITEM = this.next();
-
-        hasRemainingItems = ITERATOR_ITEM && !ITERATOR_ITEM.done;
-        if (!hasRemainingItems) {
-          continue;
-        }
-
-        if (!isFirst) {
-          yield item;
-        } else {
-          isFirst = false;
-        }
-
-        item = ITERATOR_ITEM.value;
-      } while (hasRemainingItems);
+      return this.applyOperator(Operators.skipLast());
     }
     /** @inheritdoc */
     public skipWhile(predicate: Predicate<T>): IEnumerable<T> {
-      return from(this.skipWhileInner(predicate));
-    }
-    /**
-     * @see takeWhile()
-     */
-    protected *skipWhileInner(predicate: Predicate<T>) {
-      predicate = toPredicateSafe(predicate);
-
-      let returnItem = false;
-      for (let item of this) {
-        if (!returnItem && !predicate(item)) {
-          returnItem = true;
-        }
-
-        if (returnItem) {
-          yield item;
-        }
-      }
+      return this.applyOperator(Operators.skipWhile(predicate));
     }
     /** @inheritdoc */
     public sqrt(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.sqrt(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.sqrt(handleAsInt));
     }
     /** @inheritdoc */
     public sum(): T | symbol {
@@ -3089,86 +3205,74 @@ namespace Enumerable {
     }
     /** @inheritdoc */
     public take(count?: number): IEnumerable<T> {
-      count = parseInt(toStringSafe(count).trim());
-      if (isNaN(count)) {
-        count = 1;
-      }
-
-      return this.takeWhile(() => {
-        return count-- > 0;
-      });
+      return this.applyOperator(Operators.take(count));
     }
     /** @inheritdoc */
     public takeWhile(predicate: Predicate<T>): IEnumerable<T> {
-      return from(this.takeWhileInner(predicate));
-    }
-    /**
-     * @see takeWhile()
-     */
-    protected *takeWhileInner(predicate: Predicate<T>) {
-      predicate = toPredicateSafe(predicate);
-
-      for (let item of this) {
-        if (predicate(item)) {
-          yield item;
-        } else {
-          break;
-        }
-      }
+      return this.applyOperator(Operators.takeWhile(predicate));
     }
     /** @inheritdoc */
     public tan(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.tan(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.tan(handleAsInt));
     }
     /** @inheritdoc */
     public tanH(handleAsInt?: boolean): IEnumerable<number> {
-      return this.select((x) =>
-        invokeForValidNumber(x, (y) => Math.tanh(y), handleAsInt),
-      );
+      return this.applyOperator(Operators.tanH(handleAsInt));
+    }
+    /** @inheritdoc */
+    public tee(count?: number): IEnumerable<T>[] {
+      return Operators.tee<T>(count)(this).map((x) => from(x));
     }
     /** @inheritdoc */
     public toArray(): Array<T> {
-      const ARR: Array<T> = [];
-
-      for (let i of this) {
-        ARR.push(i);
-      }
-
-      return ARR;
+      return Operators.toArray<T>()(this);
+    }
+    /** @inheritdoc */
+    public toAsync(): IAsyncEnumerable<T> {
+      return fromAsync(this);
     }
     /** @inheritdoc */
-    public toLookup<TKey extends PropertyKey, U = any>(
+    public toLookup<TKey>(
       keySelector: Selector<T, TKey>,
-      keyEqualityComparer?: EqualityComparer<TKey>,
-    ): U {
-      const LOOKUP: any = {};
-
-      for (let grp of this.groupBy(keySelector, keyEqualityComparer)) {
-        LOOKUP[grp.key] = grp;
-      }
-
-      return LOOKUP;
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+    ): ILookup<TKey, T> {
+      return new Lookup(this, keySelector, keyEqualityComparer);
+    }
+    /** @inheritdoc */
+    public toMap<TKey, TValue = T>(
+      keySelector: Selector<T, TKey>,
+      valueSelector?: Selector<T, TValue>,
+      options?: DuplicateKeyOptions<TValue, TKey>,
+    ): Map<TKey, TValue> {
+      return Operators.toMap(keySelector, valueSelector, options)(this);
     }
     /** @inheritdoc */
     public toObject<TResult = any, TKey extends PropertyKey = number>(
       keySelector?: (item: T, index: number) => TKey,
     ): TResult {
-      if (!keySelector) {
-        keySelector = (item, index) => <any>index;
-      }
-
-      const OBJ: any = {};
-
-      let i = -1;
-      for (let item of this) {
-        ++i;
-
-        OBJ[keySelector(item, i)] = item;
-      }
+      return Operators.toObject(keySelector)(this);
+    }
+    /** @inheritdoc */
+    public toRecord<TKey extends PropertyKey, TValue = T>(
+      keySelector: Selector<T, TKey>,
+      valueSelector?: Selector<T, TValue>,
+      options?: DuplicateKeyOptions<TValue, TKey>,
+    ): Record<TKey, TValue> {
+      return Operators.toRecord(keySelector, valueSelector, options)(this);
+    }
+    /** @inheritdoc */
+    public toSet(): Set<T> {
+      return Operators.toSet<T>()(this);
+    }
+    /** @inheritdoc */
+    public topBy<U = T>(
+      count?: number,
+      selector?: Selector<T, U>,
+      comparer?: Comparer<U>,
+    ): IEnumerable<T> {
+      const COMPARER = toComparerSafe(comparer);
 
-      return OBJ;
+      return this.bottomBy(count, selector, (x, y) => COMPARER(y, x));
     }
     /** @inheritdoc */
     public trace(formatter?: Selector<T, any>): IEnumerable<T> {
@@ -3187,61 +3291,39 @@ namespace Enumerable {
       });
     }
     /** @inheritdoc */
+    public tryGetNonEnumeratedCount(): number | false {
+      return false;
+    }
+    /** @inheritdoc */
     public union(
       second: Sequence<T>,
-      comparer?: EqualityComparer<T> | true,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
     ): IEnumerable<T> {
       return this.concat(second).distinct(comparer);
     }
     /** @inheritdoc */
+    public where<U extends T>(predicate: TypeGuard<T, U>): IEnumerable<U>;
+    /** @inheritdoc */
+    public where(predicate: Predicate<T>): IEnumerable<T>;
     public where(predicate: Predicate<T>): IEnumerable<T> {
-      return from(this.whereInner(predicate));
+      return this.applyOperator(Operators.where(predicate));
     }
-    /**
-     * @see where()
-     */
-    protected *whereInner(predicate: Predicate<T>): IterableIterator<T> {
-      predicate = toPredicateSafe(predicate);
-
-      for (let item of this) {
-        if (predicate(item)) {
-          yield item;
-        }
-      }
+    /** @inheritdoc */
+    public windowed(
+      size: number,
+      step?: number,
+      options?: WindowedOptions,
+    ): IEnumerable<IEnumerable<T>> {
+      return this.applyOperator(Operators.windowed(size, step, options)).select(
+        (x) => from(x),
+      );
     }
     /** @inheritdoc */
     public zip<U = T, TResult = any>(
       second: Sequence<U>,
       resultSelector: ZipSelector<T, U, TResult>,
     ): IEnumerable<TResult> {
-      if (!resultSelector) {
-        resultSelector = (x: any, y: any) => x + y;
-      }
-
-      return from(this.zipInner(from(second), resultSelector));
-    }
-
-    /**
-     * @see zip()
-     */
-    protected *zipInner<U, TResult>(
-      second: Iterator<U>,
-      resultSelector: ZipSelector<T, U, TResult>,
-    ) {
-      let i = -1;
-      do {
-        const ITEM_THIS = getNextIteratorResultSafe(this);
-        if (ITEM_THIS.done) {
-          break;
-        }
-
-        const ITEM_SECOND = getNextIteratorResultSafe(second);
-        if (ITEM_SECOND.done) {
-          break;
-        }
-
-        yield resultSelector(ITEM_THIS.value, ITEM_SECOND.value, ++i);
-      } while (true);
+      return this.applyOperator(Operators.zip(second, resultSelector));
     }
   } // EnumerableBase<T>
 
@@ -3284,6 +3366,10 @@ namespace Enumerable {
       this._sequence.reset();
       return this;
     }
+    /** @inheritdoc */
+    public tryGetNonEnumeratedCount(): number | false {
+      return this._sequence.tryGetNonEnumeratedCount();
+    }
   } // EnumerableWrapper<T>
 
   /**
@@ -3309,6 +3395,12 @@ namespace Enumerable {
       }
     }
 
+    /** @inheritdoc */
+    protected closeIterator(): void {
+      if ("function" === typeof this._iterator.return) {
+        this._iterator.return();
+      }
+    }
     /** @inheritdoc */
     public next(value?: any): IteratorResult<T> {
       let result = this._iterator.next(value);
@@ -3357,15 +3449,93 @@ namespace Enumerable {
       return true;
     }
     /** @inheritdoc */
+    public count(predicate?: Predicate<T>): number {
+      if (predicate) {
+        return super.count(predicate);
+      }
+
+      const COUNT = this.tryGetNonEnumeratedCount();
+      this.moveToEnd();
+
+      return COUNT;
+    }
+    /** @inheritdoc */
+    public elementAtOrDefault<U = symbol>(
+      index: number,
+      defaultValue?: U,
+    ): T | U {
+      index = parseInt(toStringSafe(index).trim());
+
+      if (arguments.length < 2) {
+        defaultValue = <any>NOT_FOUND;
+      }
+
+      if (index >= 0 && index < this.tryGetNonEnumeratedCount()) {
+        this._index += index + 1;
+
+        const RESULT: IteratorResult<T> = {
+          done: false,
+          value: this.getItemAt(this._index),
+        };
+
+        this._current = RESULT;
+        return RESULT.value;
+      }
+
+      this.moveToEnd();
+      return <any>defaultValue;
+    }
+    /**
+     * Returns an item of the underlying array.
+     *
+     * @param {number} index The zero based index.
+     *
+     * @return {T} The item.
+     */
+    protected getItemAt(index: number): T {
+      return this._array[index];
+    }
+    /** @inheritdoc */
+    public lastOrDefault<U = symbol>(
+      predicateOrDefaultValue?: Predicate<T> | T,
+      defaultValue?: U,
+    ): T | U {
+      const ARGS = getOrDefaultArguments(
+        predicateOrDefaultValue,
+        defaultValue,
+        arguments.length,
+      );
+
+      if (ARGS.hasPredicate) {
+        return super.lastOrDefault.apply(this, arguments);
+      }
+
+      const COUNT = this.tryGetNonEnumeratedCount();
+      this.moveToEnd();
+
+      return COUNT > 0 ? this.getItemAt(this.length() - 1) : ARGS.defaultValue;
+    }
+    /** @inheritdoc */
     public length(): number {
       return this._array.length;
     }
+    /**
+     * Moves behind the last item, like an enumeration would do.
+     */
+    protected moveToEnd(): void {
+      this._index = Math.max(this._index, this.length() - 1);
+
+      this._current = {
+        done: true,
+        value: undefined,
+      };
+    }
     /** @inheritdoc */
     public next(): IteratorResult<T> {
       let result: IteratorResult<T>;
 
       const NEXT_INDEX = this._index + 1;
-      if (NEXT_INDEX >= this._array.length) {
+      if (NEXT_INDEX >= this.length()) {
         result = {
           done: true,
           value: undefined,
@@ -3375,193 +3545,2855 @@ namespace Enumerable {
 
         result = {
           done: false,
-          value: this._array[NEXT_INDEX],
+          value: this.getItemAt(NEXT_INDEX),
         };
       }
 
       this._current = result;
       return result;
     }
-    /** @inheritdoc */
-    public reset(): this {
-      if (this.canReset) {
-        this._index = -1;
-      } else {
-        return super.reset();
+    /** @inheritdoc */
+    public reset(): this {
+      if (this.canReset) {
+        this._index = -1;
+      } else {
+        return super.reset();
+      }
+
+      return this;
+    }
+    /** @inheritdoc */
+    public reverse(): IOrderedEnumerable<T> {
+      return new ReversedEnumerable<T>(this);
+    }
+    /** @inheritdoc */
+    public skip(count?: number): IEnumerable<T> {
+      count = parseInt(toStringSafe(count).trim());
+      if (isNaN(count)) {
+        count = 1;
+      }
+
+      return this.createSequence(() => this.skipInner(count));
+    }
+    /**
+     * @see skip()
+     */
+    protected *skipInner(count: number) {
+      if (count > 0) {
+        // jump over the items, without reading them
+        this._index = Math.min(this._index + count, this.length() - 1);
+      }
+
+      for (let item of this) {
+        yield item;
+      }
+    }
+    /** @inheritdoc */
+    public tryGetNonEnumeratedCount(): number {
+      return Math.max(this.length() - (this._index + 1), 0);
+    }
+  } // ArrayEnumerable<T>
+
+  /**
+   * A range of numbers, which can be accessed by index.
+   */
+  export class RangeEnumerable extends ArrayEnumerable<number> {
+    /**
+     * Stores the first number.
+     */
+    protected _start: number;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {number} start The first number.
+     * @param {number} count The number of values.
+     */
+    constructor(start: number, count: number) {
+      super({
+        length: Math.max(count, 0),
+      });
+
+      this._start = start;
+    }
+
+    /** @inheritdoc */
+    protected getItemAt(index: number): number {
+      return this._start + index;
+    }
+  } // RangeEnumerable
+
+  /**
+   * A grouping.
+   *
+   * @template T Type of the items.
+   * @template TKey Type of the key.
+   */
+  export class Grouping<TKey = any, T = any>
+    extends EnumerableWrapper<T>
+    implements IGrouping<TKey, T>
+  {
+    /**
+     * Stores the key.
+     */
+    protected _key: TKey;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {TKey} key The key.
+     * @param {IEnumerable} seq The items of the grouping.
+     */
+    constructor(key: TKey, seq: IEnumerable<T>) {
+      super(seq);
+
+      this._key = key;
+    }
+
+    /** @inheritdoc */
+    public get key(): TKey {
+      return this._key;
+    }
+  } // Grouping<TKey, T>
+
+  /**
+   * A lookup, which maps keys to sequences of items.
+   *
+   * @template TKey Type of the keys.
+   * @template T Type of the items.
+   */
+  export class Lookup<TKey = any, T = any>
+    extends ArrayEnumerable<IGrouping<TKey, T>>
+    implements ILookup<TKey, T>
+  {
+    /**
+     * Stores the items by key.
+     */
+    protected _groups: Operators.ItemLookup<TKey, T>;
+    /**
+     * Stores the keys, in the order they have been found.
+     */
+    protected _keys: TKey[];
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Iterable<T>} seq The items.
+     * @param {Selector<T, TKey>} keySelector The key selector.
+     * @param {EqualityComparer<TKey>|IEqualityComparer<TKey>} [keyEqualityComparer] The custom equality comparer for the keys.
+     */
+    constructor(
+      seq: Iterable<T>,
+      keySelector: Selector<T, TKey>,
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+    ) {
+      const GROUPS = Operators.toLookup(keySelector, keyEqualityComparer)(seq);
+      const KEYS = Array.from(GROUPS.keys());
+
+      super({
+        length: KEYS.length,
+      });
+
+      this._groups = GROUPS;
+      this._keys = KEYS;
+    }
+
+    /** @inheritdoc */
+    public count(predicate?: Predicate<IGrouping<TKey, T>>): number {
+      if (predicate) {
+        return super.count(predicate);
+      }
+
+      return this._keys.length;
+    }
+    /** @inheritdoc */
+    public get(key: TKey): IEnumerable<T> {
+      return from(this._groups.get(key) || []);
+    }
+    /** @inheritdoc */
+    protected getItemAt(index: number): IGrouping<TKey, T> {
+      const KEY = this._keys[index];
+
+      // always a new grouping, so it can be enumerated from the beginning
+      return new Grouping(KEY, this.get(KEY));
+    }
+    /** @inheritdoc */
+    public has(key: TKey): boolean {
+      return this._groups.has(key);
+    }
+  } // Lookup<TKey, T>
+
+  /**
+   * A re-iterable sequence, which creates its items by a factory function
+   * each time it is iterated. Operations, like 'where()', also return
+   * re-iterable sequences, which replay the whole pipeline from the source.
+   *
+   * @template T Type of the items.
+   */
+  export class DeferredEnumerable<T = any> extends EnumerableBase<T> {
+    /**
+     * Stores the factory, which creates the items.
+     */
+    protected _factory: () => Sequence<T>;
+    /**
+     * Stores the iterator, which is used by 'next()'.
+     */
+    protected _iterator: Iterator<T>;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Function} [factory] The factory, which creates the items.
+     */
+    constructor(factory?: () => Sequence<T>) {
+      super();
+
+      this._factory = factory;
+      if (!this._factory) {
+        this._factory = () => [];
+      }
+    }
+
+    /** @inheritdoc */
+    public [Symbol.iterator](): Iterator<T> {
+      return from(this._factory())[Symbol.iterator]();
+    }
+
+    /** @inheritdoc */
+    public get canReset(): boolean {
+      return true;
+    }
+    /** @inheritdoc */
+    protected createSequence<U>(factory: () => Iterator<U>): IEnumerable<U> {
+      return new DeferredEnumerable<U>(factory);
+    }
+    /** @inheritdoc */
+    public next(): IteratorResult<T> {
+      if (!this._iterator) {
+        this._iterator = this[Symbol.iterator]();
+      }
+
+      const RESULT = getNextIteratorResultSafe(this._iterator);
+
+      this._current = RESULT;
+
+      if (!RESULT.done) {
+        ++this._index;
+      }
+
+      return RESULT;
+    }
+    /** @inheritdoc */
+    public orderBy<U>(
+      selector: Selector<T, U>,
+      comparer?: Comparer<U>,
+    ): IOrderedEnumerable<T> {
+      return new DeferredOrderedEnumerable<T>(() => {
+        return super.orderBy(selector, comparer);
+      });
+    }
+    /** @inheritdoc */
+    public reset(): this {
+      this._current = undefined;
+      this._index = -1;
+      this._iterator = undefined;
+
+      return this;
+    }
+  } // DeferredEnumerable<T>
+
+  /**
+   * A re-iterable, ordered sequence, which sorts the items
+   * each time it is iterated.
+   *
+   * @template T Type of the items.
+   */
+  export class DeferredOrderedEnumerable<T = any>
+    extends DeferredEnumerable<T>
+    implements IOrderedEnumerable<T>
+  {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Function} factory The factory, which creates the sorted sequence.
+     */
+    constructor(factory: () => IOrderedEnumerable<T>) {
+      super(factory);
+    }
+
+    /**
+     * Creates the sorted sequence for the current iteration.
+     *
+     * @return {IOrderedEnumerable<T>} The sorted sequence.
+     */
+    protected createOrderedSequence(): IOrderedEnumerable<T> {
+      return <IOrderedEnumerable<T>>this._factory();
+    }
+    /** @inheritdoc */
+    public take(count?: number): IEnumerable<T> {
+      return new DeferredEnumerable<T>(() => {
+        return this.createOrderedSequence().take(count);
+      });
+    }
+    /** @inheritdoc */
+    public then(comparer?: Comparer<T>): IOrderedEnumerable<T> {
+      return new DeferredOrderedEnumerable<T>(() => {
+        return this.createOrderedSequence().then(comparer);
+      });
+    }
+    /** @inheritdoc */
+    public thenBy<U>(
+      selector: Selector<T, U>,
+      comparer?: Comparer<U, U>,
+    ): IOrderedEnumerable<T> {
+      return new DeferredOrderedEnumerable<T>(() => {
+        return this.createOrderedSequence().thenBy(selector, comparer);
+      });
+    }
+    /** @inheritdoc */
+    public thenByDescending<U>(
+      selector: Selector<T, U>,
+      comparer?: Comparer<U, U>,
+    ): IOrderedEnumerable<T> {
+      return new DeferredOrderedEnumerable<T>(() => {
+        return this.createOrderedSequence().thenByDescending(
+          selector,
+          comparer,
+        );
+      });
+    }
+    /** @inheritdoc */
+    public thenDescending(comparer?: Comparer<T>): IOrderedEnumerable<T> {
+      return new DeferredOrderedEnumerable<T>(() => {
+        return this.createOrderedSequence().thenDescending(comparer);
+      });
+    }
+  } // DeferredOrderedEnumerable<T>
+
+  /**
+   * An ordered sequence, which is sorted on its first enumeration.
+   *
+   * @template T Type of the items.
+   * @template U Type of the sort keys.
+   */
+  export class OrderedEnumerable<T = any, U = T>
+    extends EnumerableWrapper<T>
+    implements IOrderedEnumerable<T>
+  {
+    /**
+     * Stores the items in the original order, after they have been loaded.
+     */
+    protected _items: Array<T>;
+    /**
+     * Stores the sort levels, beginning with the primary one.
+     */
+    protected _levels: OrderLevel<T>[];
+    /**
+     * Stores the sequence with the 'thenBy' levels before this one.
+     */
+    protected _parent: OrderedEnumerable<T, any>;
+    /**
+     * Stores the source sequence.
+     */
+    protected _source: IEnumerable<T>;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {IEnumerable<T>} seq The source sequence.
+     * @param {Selector<T,U>} selector The selector for the sort values.
+     * @param {Comparer<U,U>} comparer The comparer to use.
+     * @param {OrderedEnumerable<T, any>} [parent] The sequence with the previous sort levels.
+     */
+    constructor(
+      seq: IEnumerable<T>,
+      selector: Selector<T, U>,
+      comparer: Comparer<U, U>,
+      parent?: OrderedEnumerable<T, any>,
+    ) {
+      super();
+
+      if (!selector) {
+        selector = selectItem;
+      }
+
+      this._source = seq;
+      this._parent = parent;
+
+      this._levels = (parent ? parent._levels : []).concat([
+        {
+          comparer: toComparerSafe(comparer),
+          selector: selector,
+        },
+      ]);
+    }
+
+    /** @inheritdoc */
+    public get canReset() {
+      return true;
+    }
+    /**
+     * Gets the comparer of the primary sort level.
+     */
+    public get comparer(): Comparer<U, U> {
+      return this._levels[0].comparer;
+    }
+    /**
+     * Compares the keys of two items by all levels.
+     *
+     * @param {any[]} x The keys of the first item.
+     * @param {any[]} y The keys of the second item.
+     *
+     * @return {number} The result of the comparison.
+     */
+    protected compareKeys(x: any[], y: any[]): number {
+      return compareByLevels(this._levels, x, y);
+    }
+    /** @inheritdoc */
+    public get current() {
+      return this._sequence ? this._sequence.current : undefined;
+    }
+    /**
+     * Returns the items in the original order and loads them, if needed.
+     *
+     * @return {Array<T>} The items.
+     */
+    protected getItems(): Array<T> {
+      if (this._parent) {
+        return this._parent.getItems();
+      }
+
+      if (!this._items) {
+        this._items = this._source.toArray();
+      }
+
+      return this._items;
+    }
+    /**
+     * Returns the sorted sequence and sorts the items, if needed.
+     *
+     * @return {IEnumerable<T>} The sorted sequence.
+     */
+    protected getSortedSequence(): IEnumerable<T> {
+      if (!this._sequence) {
+        this._sequence = from(this.sortItems());
+      }
+
+      return this._sequence;
+    }
+    /** @inheritdoc */
+    public next() {
+      return this.getSortedSequence().next();
+    }
+    /** @inheritdoc */
+    public reset() {
+      if (this._sequence) {
+        this._sequence.reset();
+      }
+
+      return this;
+    }
+    /**
+     * Gets the selector of the primary sort level.
+     */
+    public get selector(): (x: T) => any {
+      return this._levels[0].selector;
+    }
+    /**
+     * Returns the keys of an item for all levels.
+     *
+     * @param {T} item The item.
+     *
+     * @return {any[]} The keys.
+     */
+    protected selectKeys(item: T): any[] {
+      return selectKeysByLevels(this._levels, item);
+    }
+    /**
+     * Sorts the items by all levels.
+     *
+     * @return {Array<T>} The sorted items.
+     */
+    protected sortItems(): Array<T> {
+      return sortByLevels(this.getItems(), this._levels);
+    }
+    /** @inheritdoc */
+    public take(count?: number): IEnumerable<T> {
+      count = parseInt(toStringSafe(count).trim());
+      if (isNaN(count)) {
+        count = 1;
+      }
+
+      return this.createSequence(() => this.takeInner(count));
+    }
+    /**
+     * @see take()
+     */
+    protected *takeInner(count: number) {
+      if (this._sequence) {
+        // enumeration has already been started
+        yield* Operators.takeWhile<T>(() => count-- > 0)(this);
+        return;
+      }
+
+      yield* selectFirstItems(
+        this.getItems(),
+        count,
+        (x) => this.selectKeys(x),
+        (x, y) => this.compareKeys(x, y),
+      );
+    }
+    /** @inheritdoc */
+    public then(comparer?: Comparer<T>): IOrderedEnumerable<T> {
+      return this.thenBy(selectItem, comparer);
+    }
+    /** @inheritdoc */
+    public thenBy<U>(
+      selector: Selector<T, U>,
+      comparer?: Comparer<U, U>,
+    ): IOrderedEnumerable<T> {
+      return new OrderedEnumerable<T, U>(
+        this._source,
+        selector,
+        comparer,
+        this,
+      );
+    }
+    /** @inheritdoc */
+    public thenByDescending<U>(
+      selector: Selector<T, U>,
+      comparer?: Comparer<U, U>,
+    ): IOrderedEnumerable<T> {
+      comparer = toComparerSafe(comparer);
+
+      return this.thenBy(selector, (x, y) => comparer(y, x));
+    }
+    /** @inheritdoc */
+    public thenDescending(comparer?: Comparer<T>): IOrderedEnumerable<T> {
+      return this.thenByDescending(selectItem, comparer);
+    }
+    /** @inheritdoc */
+    public tryGetNonEnumeratedCount(): number | false {
+      return this._sequence ? this._sequence.tryGetNonEnumeratedCount() : false;
+    }
+  } // OrderedEnumerable<T, U = T>
+
+  /**
+   * A sequence, which returns the items of another sequence in reverse order.
+   *
+   * @template T Type of the items.
+   */
+  export class ReversedEnumerable<T = any> extends OrderedEnumerable<
+    T,
+    number
+  > {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {IEnumerable<T>} seq The source sequence.
+     */
+    constructor(seq: IEnumerable<T>) {
+      let i = Number.MIN_SAFE_INTEGER;
+
+      super(
+        seq,
+        () => i++,
+        (x, y) => y - x,
+      );
+    }
+
+    /** @inheritdoc */
+    protected sortItems(): Array<T> {
+      // the keys are the positions, so no sort is needed
+      return this.getItems().slice().reverse();
+    }
+  } // ReversedEnumerable<T>
+
+  /**
+   * A list of items, which can be modified and enumerated again and again.
+   *
+   * Operations, like 'where()', return sequences, which read the current
+   * items of the list, each time they are iterated.
+   *
+   * @template T Type of the items.
+   */
+  export class List<T = any> extends DeferredEnumerable<T> {
+    /**
+     * Stores the items.
+     */
+    protected _items: T[];
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Sequence<T>} [items] The initial items.
+     */
+    constructor(items?: Sequence<T>) {
+      const ITEMS: T[] = isNullOrUndefined(items) ? [] : from(items).toArray();
+
+      super(() => ITEMS);
+
+      this._items = ITEMS;
+    }
+
+    /**
+     * Adds one or more items to the end of the list.
+     *
+     * @param {...Array<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    public add(...items: Array<T>): this {
+      return this.addRange(items);
+    }
+    /**
+     * Adds the items of a sequence to the end of the list.
+     *
+     * @param {Sequence<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    public addRange(items: Sequence<T>): this {
+      for (let item of from(items).toArray()) {
+        this._items.push(item);
+      }
+
+      return this;
+    }
+    /**
+     * Searches a sorted list for an item.
+     *
+     * @param {T} item The item to search for.
+     * @param {Comparer<T>} [comparer] The custom comparer, the list is sorted by.
+     *
+     * @return {number} The index of the item, or the bitwise complement of the index,
+     *                  where the item would have to be inserted, if not found.
+     */
+    public binarySearch(item: T, comparer?: Comparer<T>): number {
+      comparer = toComparerSafe(comparer);
+
+      let low = 0;
+      let high = this._items.length - 1;
+      while (low <= high) {
+        const MIDDLE = low + ((high - low) >> 1);
+        const COMP = comparer(this._items[MIDDLE], item);
+
+        if (0 === COMP) {
+          return MIDDLE;
+        }
+
+        if (COMP < 0) {
+          low = MIDDLE + 1;
+        } else {
+          high = MIDDLE - 1;
+        }
+      }
+
+      return ~low;
+    }
+    /**
+     * Removes all items.
+     *
+     * @return {this} That instance.
+     */
+    public clear(): this {
+      this._items.length = 0;
+
+      return this;
+    }
+    /**
+     * Returns an item.
+     *
+     * @param {number} index The zero based index.
+     *
+     * @return {T} The item.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    public get(index: number): T {
+      return this._items[this.toIndexSafe(index, false)];
+    }
+    /**
+     * Inserts one or more items at a specific position.
+     *
+     * @param {number} index The zero based index.
+     * @param {...Array<T>} items The items to insert.
+     *
+     * @return {this} That instance.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    public insert(index: number, ...items: Array<T>): this {
+      this._items.splice(this.toIndexSafe(index, true), 0, ...items);
+
+      return this;
+    }
+    /** @inheritdoc */
+    public length(): number {
+      return this._items.length;
+    }
+    /**
+     * Removes the first occurrence of an item.
+     *
+     * @param {T} item The item to remove.
+     *
+     * @return {boolean} Item has been removed or not.
+     */
+    public remove(item: T): boolean {
+      const INDEX = this._items.indexOf(item);
+      if (INDEX > -1) {
+        this._items.splice(INDEX, 1);
+        return true;
+      }
+
+      return false;
+    }
+    /**
+     * Removes all items, which satisfy a condition.
+     *
+     * @param {Predicate<T>} predicate The condition.
+     *
+     * @return {number} The number of removed items.
+     */
+    public removeAll(predicate: Predicate<T>): number {
+      predicate = toPredicateSafe(predicate);
+
+      let newLength = 0;
+      for (let i = 0; i < this._items.length; i++) {
+        const ITEM = this._items[i];
+
+        if (!predicate(ITEM)) {
+          this._items[newLength++] = ITEM;
+        }
+      }
+
+      const REMOVED = this._items.length - newLength;
+      this._items.length = newLength;
+
+      return REMOVED;
+    }
+    /**
+     * Removes the item at a specific position.
+     *
+     * @param {number} index The zero based index.
+     *
+     * @return {T} The removed item.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    public removeAt(index: number): T {
+      return this._items.splice(this.toIndexSafe(index, false), 1)[0];
+    }
+    /**
+     * Sets an item.
+     *
+     * @param {number} index The zero based index.
+     * @param {T} item The new item.
+     *
+     * @return {this} That instance.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    public set(index: number, item: T): this {
+      this._items[this.toIndexSafe(index, false)] = item;
+
+      return this;
+    }
+    /**
+     * Sorts the items of that list (stable).
+     *
+     * @param {Comparer<T>} [comparer] The custom comparer.
+     *
+     * @return {this} That instance.
+     */
+    public sort(comparer?: Comparer<T>): this {
+      this._items.sort(toComparerSafe(comparer));
+
+      return this;
+    }
+    /** @inheritdoc */
+    public toArray(): Array<T> {
+      return this._items.slice();
+    }
+    /**
+     * Checks and returns an index.
+     *
+     * @param {number} index The zero based index.
+     * @param {boolean} allowEnd The index may also be the length of the list.
+     *
+     * @return {number} The index.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    protected toIndexSafe(index: number, allowEnd: boolean): number {
+      const MAX_INDEX = this._items.length - (allowEnd ? 0 : 1);
+
+      if (!Number.isInteger(index) || index < 0 || index > MAX_INDEX) {
+        throw new RangeError(`Index ${index} is out of range`);
+      }
+
+      return index;
+    }
+    /** @inheritdoc */
+    public tryGetNonEnumeratedCount(): number {
+      return this._items.length;
+    }
+  } // List<T>
+
+  /**
+   * A set of unique items, which can be modified and enumerated again and again.
+   *
+   * Items are enumerated in the order they have been added.
+   *
+   * @template T Type of the items.
+   */
+  export class HashSet<T = any> extends DeferredEnumerable<T> {
+    /**
+     * Stores the comparer.
+     */
+    protected _comparer: IEqualityComparer<T>;
+    /**
+     * Stores the items.
+     */
+    protected _items: EqualityMap<T, T>;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Sequence<T>} [items] The initial items.
+     * @param {EqualityComparer<T>|IEqualityComparer<T>|true} [comparer] The custom equality comparer.
+     */
+    constructor(
+      items?: Sequence<T>,
+      comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+    ) {
+      const COMPARER = toIEqualityComparerSafe(comparer);
+      const ITEMS = new EqualityMap<T, T>(COMPARER);
+
+      super(() => ITEMS.keys());
+
+      this._comparer = COMPARER;
+      this._items = ITEMS;
+
+      if (!isNullOrUndefined(items)) {
+        this.unionWith(items);
+      }
+    }
+
+    /**
+     * Adds an item, if it does not exist.
+     *
+     * @param {T} item The item to add.
+     *
+     * @return {boolean} Item has been added or not.
+     */
+    public add(item: T): boolean {
+      return this._items.tryAdd(item, item);
+    }
+    /**
+     * Removes all items.
+     *
+     * @return {this} That instance.
+     */
+    public clear(): this {
+      this._items.clear();
+
+      return this;
+    }
+    /**
+     * Gets the comparer of that set.
+     */
+    public get comparer(): IEqualityComparer<T> {
+      return this._comparer;
+    }
+    /** @inheritdoc */
+    public contains<U>(
+      item: U,
+      comparer?: EqualityComparer<T, U> | true,
+    ): boolean {
+      if (comparer) {
+        return super.contains(item, comparer);
+      }
+
+      return this.has(<any>item);
+    }
+    /**
+     * Removes all items, which are part of another sequence.
+     *
+     * @param {Sequence<T>} other The other sequence.
+     *
+     * @return {this} That instance.
+     */
+    public exceptWith(other: Sequence<T>): this {
+      for (let item of from(other).toArray()) {
+        this._items.delete(item);
+      }
+
+      return this;
+    }
+    /**
+     * Checks if an item exists.
+     *
+     * @param {T} item The item to check.
+     *
+     * @return {boolean} Item exists or not.
+     */
+    public has(item: T): boolean {
+      return this._items.has(item);
+    }
+    /**
+     * Removes all items, which are not part of another sequence.
+     *
+     * @param {Sequence<T>} other The other sequence.
+     *
+     * @return {this} That instance.
+     */
+    public intersectWith(other: Sequence<T>): this {
+      const OTHER = new HashSet<T>(other, this._comparer);
+
+      for (let item of Array.from(this._items.keys())) {
+        if (!OTHER.has(item)) {
+          this._items.delete(item);
+        }
+      }
+
+      return this;
+    }
+    /**
+     * Checks if all items of that set are part of another sequence.
+     *
+     * @param {Sequence<T>} other The other sequence.
+     *
+     * @return {boolean} Is subset or not.
+     */
+    public isSubsetOf(other: Sequence<T>): boolean {
+      const OTHER = new HashSet<T>(other, this._comparer);
+
+      for (let item of this._items.keys()) {
+        if (!OTHER.has(item)) {
+          return false;
+        }
+      }
+
+      return true;
+    }
+    /** @inheritdoc */
+    public length(): number {
+      return this._items.size;
+    }
+    /**
+     * Removes an item.
+     *
+     * @param {T} item The item to remove.
+     *
+     * @return {boolean} Item has been removed or not.
+     */
+    public remove(item: T): boolean {
+      return this._items.delete(item);
+    }
+    /** @inheritdoc */
+    public toArray(): Array<T> {
+      return Array.from(this._items.keys());
+    }
+    /** @inheritdoc */
+    public tryGetNonEnumeratedCount(): number {
+      return this._items.size;
+    }
+    /**
+     * Adds all items of another sequence, which do not exist.
+     *
+     * @param {Sequence<T>} other The other sequence.
+     *
+     * @return {this} That instance.
+     */
+    public unionWith(other: Sequence<T>): this {
+      for (let item of from(other).toArray()) {
+        this._items.tryAdd(item, item);
+      }
+
+      return this;
+    }
+  } // HashSet<T>
+
+  /**
+   * A basic collection, which keeps its items sorted by keys, while they are added.
+   *
+   * The collection is an ordered sequence, so 'thenBy()' and all other operations
+   * can be used directly, without sorting the items again.
+   *
+   * 'floor()' without a key still rounds the items, like in any other sequence.
+   *
+   * @template TKey Type of the keys.
+   * @template T Type of the items.
+   */
+  export abstract class SortedCollectionBase<
+    TKey = any,
+    T = any,
+  > extends DeferredOrderedEnumerable<T> {
+    /**
+     * Stores the key comparer.
+     */
+    protected _keyComparer: Comparer<TKey>;
+    /**
+     * Stores the sorted items.
+     */
+    protected _items: T[];
+    /**
+     * Stores the key selector.
+     */
+    protected _keySelector: Selector<T, TKey>;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Selector<T, TKey>} keySelector The key selector.
+     * @param {Comparer<TKey>} [keyComparer] The custom key comparer.
+     */
+    constructor(keySelector: Selector<T, TKey>, keyComparer?: Comparer<TKey>) {
+      const ITEMS: T[] = [];
+      const KEY_COMPARER = toComparerSafe(keyComparer);
+
+      super(() => new SortedItemsEnumerable(ITEMS, keySelector, KEY_COMPARER));
+
+      this._items = ITEMS;
+      this._keyComparer = KEY_COMPARER;
+      this._keySelector = keySelector;
+    }
+
+    /**
+     * Returns the first item, which has a key that is greater than or equal to a specific one.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {T} The item or (undefined) if there is no such item.
+     */
+    public ceiling(key: TKey): T {
+      const INDEX = this.lowerBound(key);
+
+      return INDEX < this._items.length ? this._items[INDEX] : undefined;
+    }
+    /**
+     * Removes all items.
+     *
+     * @return {this} That instance.
+     */
+    public clear(): this {
+      this._items.length = 0;
+
+      return this;
+    }
+    /** @inheritdoc */
+    public floor(): IEnumerable<number>;
+    /**
+     * Returns the last item, which has a key that is less than or equal to a specific one.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {T} The item or (undefined) if there is no such item.
+     */
+    public floor(key: TKey): T;
+    public floor(key?: TKey): IEnumerable<number> | T {
+      if (arguments.length < 1) {
+        return super.floor();
+      }
+
+      const INDEX = this.upperBound(key) - 1;
+
+      return INDEX > -1 ? this._items[INDEX] : undefined;
+    }
+    /**
+     * Returns an item.
+     *
+     * @param {number} index The zero based index.
+     *
+     * @return {T} The item.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    public get(index: number): T {
+      return this._items[this.toIndexSafe(index)];
+    }
+    /**
+     * Inserts an item at its sorted position, behind all items with the same key.
+     *
+     * @param {T} item The item to insert.
+     *
+     * @return {number} The index of the item.
+     */
+    protected insertItem(item: T): number {
+      const INDEX = this.upperBound(this._keySelector(item));
+
+      this._items.splice(INDEX, 0, item);
+      return INDEX;
+    }
+    /** @inheritdoc */
+    public length(): number {
+      return this._items.length;
+    }
+    /**
+     * Returns the index of the first item, which has a key that is greater than
+     * or equal to a specific one.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {number} The index or the number of items, if there is no such item.
+     */
+    protected lowerBound(key: TKey): number {
+      return this.searchIndex(key, (comp) => comp < 0);
+    }
+    /**
+     * Returns the items, which have keys between two values.
+     *
+     * @param {TKey} from The lowest key (inclusive).
+     * @param {TKey} to The highest key (inclusive).
+     *
+     * @return {IOrderedEnumerable<T>} The items, which are read, each time the sequence is iterated.
+     */
+    public range(from: TKey, to: TKey): IOrderedEnumerable<T> {
+      return new DeferredOrderedEnumerable<T>(() => {
+        const ITEMS = this._items.slice(
+          this.lowerBound(from),
+          Math.max(this.upperBound(to), 0),
+        );
+
+        return new SortedItemsEnumerable(
+          ITEMS,
+          this._keySelector,
+          this._keyComparer,
+        );
+      });
+    }
+    /**
+     * Returns the number of items, which have a key that is less than a specific one.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {number} The rank of the key.
+     */
+    public rank(key: TKey): number {
+      return this.lowerBound(key);
+    }
+    /**
+     * Removes the item at a specific position.
+     *
+     * @param {number} index The zero based index.
+     *
+     * @return {T} The removed item.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    public removeAt(index: number): T {
+      return this._items.splice(this.toIndexSafe(index), 1)[0];
+    }
+    /**
+     * Does a binary search for the first item, which does not satisfy a condition
+     * for the result of the key comparer.
+     *
+     * @param {TKey} key The key.
+     * @param {Function} isBefore Checks the result of the key comparer.
+     *
+     * @return {number} The index.
+     */
+    protected searchIndex(
+      key: TKey,
+      isBefore: (comparerResult: number) => boolean,
+    ): number {
+      let low = 0;
+      let high = this._items.length;
+      while (low < high) {
+        const MIDDLE = low + ((high - low) >> 1);
+
+        if (
+          isBefore(
+            this._keyComparer(this._keySelector(this._items[MIDDLE]), key),
+          )
+        ) {
+          low = MIDDLE + 1;
+        } else {
+          high = MIDDLE;
+        }
+      }
+
+      return low;
+    }
+    /** @inheritdoc */
+    public toArray(): Array<T> {
+      return this._items.slice();
+    }
+    /**
+     * Checks and returns an index.
+     *
+     * @param {number} index The zero based index.
+     *
+     * @return {number} The index.
+     *
+     * @throws {RangeError} Index is out of range.
+     */
+    protected toIndexSafe(index: number): number {
+      if (
+        !Number.isInteger(index) ||
+        index < 0 ||
+        index >= this._items.length
+      ) {
+        throw new RangeError(`Index ${index} is out of range`);
+      }
+
+      return index;
+    }
+    /** @inheritdoc */
+    public tryGetNonEnumeratedCount(): number {
+      return this._items.length;
+    }
+    /**
+     * Returns the index of the first item, which has a key that is greater than
+     * a specific one.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {number} The index or the number of items, if there is no such item.
+     */
+    protected upperBound(key: TKey): number {
+      return this.searchIndex(key, (comp) => comp <= 0);
+    }
+  } // SortedCollectionBase<TKey, T>
+
+  /**
+   * A list, which keeps its items sorted by keys. Items can have the same key.
+   *
+   * @template TKey Type of the keys.
+   * @template T Type of the items.
+   */
+  export class SortedList<TKey = any, T = any> extends SortedCollectionBase<
+    TKey,
+    T
+  > {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Selector<T, TKey>} keySelector The key selector.
+     * @param {Sequence<T>} [items] The initial items.
+     * @param {Comparer<TKey>} [keyComparer] The custom key comparer.
+     */
+    constructor(
+      keySelector: Selector<T, TKey>,
+      items?: Sequence<T>,
+      keyComparer?: Comparer<TKey>,
+    ) {
+      super(keySelector, keyComparer);
+
+      if (!isNullOrUndefined(items)) {
+        this.addRange(items);
+      }
+    }
+
+    /**
+     * Adds one or more items.
+     *
+     * @param {...Array<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    public add(...items: Array<T>): this {
+      return this.addRange(items);
+    }
+    /**
+     * Adds the items of a sequence.
+     *
+     * @param {Sequence<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    public addRange(items: Sequence<T>): this {
+      for (let item of from(items).toArray()) {
+        this.insertItem(item);
+      }
+
+      return this;
+    }
+    /**
+     * Checks if a key exists.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {boolean} Key exists or not.
+     */
+    public containsKey(key: TKey): boolean {
+      return this.upperBound(key) > this.lowerBound(key);
+    }
+    /**
+     * Removes an item.
+     *
+     * @param {T} item The item to remove.
+     *
+     * @return {boolean} Item has been removed or not.
+     */
+    public remove(item: T): boolean {
+      const KEY = this._keySelector(item);
+
+      const END = this.upperBound(KEY);
+      for (let i = this.lowerBound(KEY); i < END; i++) {
+        if (this._items[i] === item) {
+          this._items.splice(i, 1);
+          return true;
+        }
+      }
+
+      return false;
+    }
+    /**
+     * Removes all items with a specific key.
+     *
+     * @param {TKey} key The key.
+     *
+     * @return {number} The number of removed items.
+     */
+    public removeKey(key: TKey): number {
+      const START = this.lowerBound(key);
+
+      return this._items.splice(START, this.upperBound(key) - START).length;
+    }
+  } // SortedList<TKey, T>
+
+  /**
+   * A set of unique items, which are kept sorted.
+   *
+   * Two items are the same, if the comparer returns 0.
+   *
+   * @template T Type of the items.
+   */
+  export class SortedSet<T = any> extends SortedCollectionBase<T, T> {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Sequence<T>} [items] The initial items.
+     * @param {Comparer<T>} [comparer] The custom comparer.
+     */
+    constructor(items?: Sequence<T>, comparer?: Comparer<T>) {
+      super(selectItem, comparer);
+
+      if (!isNullOrUndefined(items)) {
+        for (let item of from(items).toArray()) {
+          this.add(item);
+        }
+      }
+    }
+
+    /**
+     * Adds an item, if it does not exist.
+     *
+     * @param {T} item The item to add.
+     *
+     * @return {boolean} Item has been added or not.
+     */
+    public add(item: T): boolean {
+      if (this.has(item)) {
+        return false;
+      }
+
+      this.insertItem(item);
+      return true;
+    }
+    /**
+     * Checks if an item exists.
+     *
+     * @param {T} item The item to check.
+     *
+     * @return {boolean} Item exists or not.
+     */
+    public has(item: T): boolean {
+      const INDEX = this.lowerBound(item);
+
+      return (
+        INDEX < this._items.length &&
+        0 === this._keyComparer(this._items[INDEX], item)
+      );
+    }
+    /**
+     * Removes an item.
+     *
+     * @param {T} item The item to remove.
+     *
+     * @return {boolean} Item has been removed or not.
+     */
+    public remove(item: T): boolean {
+      if (!this.has(item)) {
+        return false;
+      }
+
+      this._items.splice(this.lowerBound(item), 1);
+      return true;
+    }
+  } // SortedSet<T>
+
+  /**
+   * A double-ended queue.
+   *
+   * Iterating the deque returns a snapshot of its items, from front to back,
+   * without removing them. Use 'drain()' to remove them while iterating.
+   *
+   * @template T Type of the items.
+   */
+  export class Deque<T = any> extends DeferredEnumerable<T> {
+    /**
+     * Stores the items.
+     */
+    protected _items: RingBuffer<T>;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Sequence<T>} [items] The initial items, from front to back.
+     */
+    constructor(items?: Sequence<T>) {
+      const ITEMS = new RingBuffer<T>();
+
+      super(() => ITEMS.toArray());
+
+      this._items = ITEMS;
+
+      if (!isNullOrUndefined(items)) {
+        this.pushBack(...from(items).toArray());
+      }
+    }
+
+    /**
+     * Removes all items.
+     *
+     * @return {this} That instance.
+     */
+    public clear(): this {
+      this._items.clear();
+
+      return this;
+    }
+    /**
+     * Returns a sequence, which removes the items from the front of the deque, while it is iterated.
+     *
+     * Items, which are added during the iteration, are also returned.
+     *
+     * @return {IEnumerable<T>} The new sequence.
+     */
+    public drain(): IEnumerable<T> {
+      return new DeferredEnumerable<T>(() => this.drainInner());
+    }
+    /**
+     * @see drain()
+     */
+    protected *drainInner() {
+      while (this.length() > 0) {
+        yield this.popFront();
+      }
+    }
+    /** @inheritdoc */
+    public length(): number {
+      return this._items.size;
+    }
+    /**
+     * Returns the last item without removing it.
+     *
+     * @return {T} The item or (undefined) if the deque is empty.
+     */
+    public peekBack(): T {
+      return this._items.peekBack();
+    }
+    /**
+     * Returns the first item without removing it.
+     *
+     * @return {T} The item or (undefined) if the deque is empty.
+     */
+    public peekFront(): T {
+      return this._items.peekFront();
+    }
+    /**
+     * Removes the last item.
+     *
+     * @return {T} The item or (undefined) if the deque is empty.
+     */
+    public popBack(): T {
+      return this._items.popBack();
+    }
+    /**
+     * Removes the first item.
+     *
+     * @return {T} The item or (undefined) if the deque is empty.
+     */
+    public popFront(): T {
+      return this._items.popFront();
+    }
+    /**
+     * Adds one or more items to the back.
+     *
+     * @param {...Array<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    public pushBack(...items: Array<T>): this {
+      for (let item of items) {
+        this._items.pushBack(item);
+      }
+
+      return this;
+    }
+    /**
+     * Adds one or more items to the front, like 'Array.unshift()' does.
+     *
+     * @param {...Array<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    public pushFront(...items: Array<T>): this {
+      for (let i = items.length - 1; i > -1; i--) {
+        this._items.pushFront(items[i]);
+      }
+
+      return this;
+    }
+    /** @inheritdoc */
+    public toArray(): Array<T> {
+      return this._items.toArray();
+    }
+  } // Deque<T>
+
+  /**
+   * A queue, whose items are removed in the order they have been added (FIFO).
+   *
+   * Iterating the queue returns a snapshot of its items without removing them.
+   * Use 'drain()' to remove them while iterating.
+   *
+   * @template T Type of the items.
+   */
+  export class Queue<T = any> extends DeferredEnumerable<T> {
+    /**
+     * Stores the items.
+     */
+    protected _items: RingBuffer<T>;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Sequence<T>} [items] The initial items.
+     */
+    constructor(items?: Sequence<T>) {
+      const ITEMS = new RingBuffer<T>();
+
+      super(() => ITEMS.toArray());
+
+      this._items = ITEMS;
+
+      if (!isNullOrUndefined(items)) {
+        this.enqueue(...from(items).toArray());
+      }
+    }
+
+    /**
+     * Removes all items.
+     *
+     * @return {this} That instance.
+     */
+    public clear(): this {
+      this._items.clear();
+
+      return this;
+    }
+    /**
+     * Removes the first item.
+     *
+     * @return {T} The item or (undefined) if the queue is empty.
+     */
+    public dequeue(): T {
+      return this._items.popFront();
+    }
+    /**
+     * Returns a sequence, which removes the items from the queue, while it is iterated.
+     *
+     * Items, which are added during the iteration, are also returned.
+     *
+     * @return {IEnumerable<T>} The new sequence.
+     */
+    public drain(): IEnumerable<T> {
+      return new DeferredEnumerable<T>(() => this.drainInner());
+    }
+    /**
+     * @see drain()
+     */
+    protected *drainInner() {
+      while (this.length() > 0) {
+        yield this.dequeue();
+      }
+    }
+    /**
+     * Adds one or more items.
+     *
+     * @param {...Array<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    public enqueue(...items: Array<T>): this {
+      for (let item of items) {
+        this._items.pushBack(item);
+      }
+
+      return this;
+    }
+    /** @inheritdoc */
+    public length(): number {
+      return this._items.size;
+    }
+    /**
+     * Returns the first item without removing it.
+     *
+     * @return {T} The item or (undefined) if the queue is empty.
+     */
+    public peek(): T {
+      return this._items.peekFront();
+    }
+    /** @inheritdoc */
+    public toArray(): Array<T> {
+      return this._items.toArray();
+    }
+  } // Queue<T>
+
+  /**
+   * A queue, which removes the lowest item first. Items, which are equal,
+   * are removed in the order they have been added.
+   *
+   * Iterating the queue returns a sorted snapshot of its items without removing them.
+   * Use 'drain()' to remove them while iterating.
+   *
+   * @template T Type of the items.
+   */
+  export class PriorityQueue<T = any> extends DeferredEnumerable<T> {
+    /**
+     * Stores the comparer.
+     */
+    protected _comparer: Comparer<T>;
+    /**
+     * Stores the number of items, which have been added.
+     */
+    protected _counter: number;
+    /**
+     * Stores the items.
+     */
+    protected _items: BinaryHeap<PriorityQueueEntry<T>>;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Sequence<T>} [items] The initial items.
+     * @param {Comparer<T>} [comparer] The custom comparer. Default: ascending order
+     */
+    constructor(items?: Sequence<T>, comparer?: Comparer<T>) {
+      const COMPARER = toComparerSafe(comparer);
+      const ITEMS = new BinaryHeap<PriorityQueueEntry<T>>(
+        (x, y) => COMPARER(x.value, y.value) || x.index - y.index,
+      );
+
+      super(() => sortHeapEntries(ITEMS));
+
+      this._comparer = COMPARER;
+      this._counter = 0;
+      this._items = ITEMS;
+
+      if (!isNullOrUndefined(items)) {
+        this.enqueue(...from(items).toArray());
+      }
+    }
+
+    /**
+     * Removes all items.
+     *
+     * @return {this} That instance.
+     */
+    public clear(): this {
+      this._items.clear();
+
+      return this;
+    }
+    /**
+     * Gets the comparer of that queue.
+     */
+    public get comparer(): Comparer<T> {
+      return this._comparer;
+    }
+    /**
+     * Removes the lowest item.
+     *
+     * @return {T} The item or (undefined) if the queue is empty.
+     */
+    public dequeue(): T {
+      const ENTRY = this._items.pop();
+
+      return isNullOrUndefined(ENTRY) ? undefined : ENTRY.value;
+    }
+    /**
+     * Returns a sequence, which removes the items from the queue, lowest first, while it is iterated.
+     *
+     * Items, which are added during the iteration, are also returned.
+     *
+     * @return {IEnumerable<T>} The new sequence.
+     */
+    public drain(): IEnumerable<T> {
+      return new DeferredEnumerable<T>(() => this.drainInner());
+    }
+    /**
+     * @see drain()
+     */
+    protected *drainInner() {
+      while (this.length() > 0) {
+        yield this.dequeue();
+      }
+    }
+    /**
+     * Adds one or more items.
+     *
+     * @param {...Array<T>} items The items to add.
+     *
+     * @return {this} That instance.
+     */
+    public enqueue(...items: Array<T>): this {
+      for (let item of items) {
+        this._items.push({
+          index: this._counter++,
+          value: item,
+        });
+      }
+
+      return this;
+    }
+    /** @inheritdoc */
+    public length(): number {
+      return this._items.size;
+    }
+    /**
+     * Returns the lowest item without removing it.
+     *
+     * @return {T} The item or (undefined) if the queue is empty.
+     */
+    public peek(): T {
+      const ENTRY = this._items.peek();
+
+      return isNullOrUndefined(ENTRY) ? undefined : ENTRY.value;
+    }
+    /** @inheritdoc */
+    public toArray(): Array<T> {
+      return sortHeapEntries(this._items);
+    }
+  } // PriorityQueue<T>
+
+  /**
+   * A basic async sequence.
+   */
+  export abstract class AsyncEnumerableBase<T = any>
+    implements IAsyncEnumerable<T>
+  {
+    /**
+     * Stores the current iterator result.
+     */
+    protected _current: IteratorResult<T>;
+    /**
+     * Stores the current index.
+     */
+    protected _index = -1;
+
+    /**
+     * Indicates that that instance is an async enumerable (sequence).
+     */
+    public readonly IS_ASYNC_ENUMERABLE = IS_ASYNC_ENUMERABLE;
+
+    /** @inheritdoc */
+    public [Symbol.asyncIterator](): AsyncIterator<T> {
+      return this;
+    }
+
+    /** @inheritdoc */
+    public bufferTime(
+      timeSpan: number,
+      maxSize?: number,
+      scheduler?: IScheduler,
+    ): IAsyncEnumerable<T[]> {
+      timeSpan = toTimeSafe(timeSpan);
+      scheduler = toSchedulerSafe(scheduler);
+
+      maxSize = parseInt(toStringSafe(maxSize).trim());
+      if (isNaN(maxSize) || maxSize < 1) {
+        maxSize = Number.POSITIVE_INFINITY;
+      }
+
+      return fromAsync(
+        createLazyPushIterator<T[]>((observer, ready) => {
+          let buffer: T[] = [];
+          let cancelTimer: () => void;
+
+          const START_TIMER = () => {
+            if (cancelTimer) {
+              cancelTimer();
+            }
+
+            cancelTimer = scheduler.schedule(FLUSH, timeSpan);
+          };
+
+          const FLUSH = () => {
+            START_TIMER();
+
+            if (buffer.length > 0) {
+              const BUFFER = buffer;
+              buffer = [];
+
+              observer.next(BUFFER);
+            }
+          };
+
+          START_TIMER();
+
+          const UNSUBSCRIBE = subscribeTo(this, ready, {
+            complete: () => {
+              cancelTimer();
+
+              if (buffer.length > 0) {
+                observer.next(buffer);
+              }
+              observer.complete();
+            },
+            error: (err) => {
+              observer.error(err);
+            },
+            next: (item) => {
+              buffer.push(item);
+
+              if (buffer.length >= maxSize) {
+                FLUSH();
+              }
+            },
+          });
+
+          return () => {
+            cancelTimer();
+            UNSUBSCRIBE();
+          };
+        }),
+      );
+    }
+    /** @inheritdoc */
+    public async count(predicate?: AsyncPredicate<T>): Promise<number> {
+      predicate = toPredicateSafe(<Predicate<T>>predicate);
+
+      let cnt = 0;
+      for await (let item of this) {
+        if (await predicate(item)) {
+          ++cnt;
+        }
+      }
+
+      return cnt;
+    }
+    /** @inheritdoc */
+    public get current(): IteratorResult<T> {
+      return this._current;
+    }
+    /** @inheritdoc */
+    public debounce(
+      dueTime: number,
+      scheduler?: IScheduler,
+    ): IAsyncEnumerable<T> {
+      dueTime = toTimeSafe(dueTime);
+      scheduler = toSchedulerSafe(scheduler);
+
+      return fromAsync(
+        createLazyPushIterator<T>((observer, ready) => {
+          let cancelTimer: () => void;
+          let lastItem: T;
+
+          const EMIT = () => {
+            cancelTimer = null;
+
+            observer.next(lastItem);
+          };
+
+          const UNSUBSCRIBE = subscribeTo(this, ready, {
+            complete: () => {
+              if (cancelTimer) {
+                cancelTimer();
+                EMIT();
+              }
+              observer.complete();
+            },
+            error: (err) => {
+              observer.error(err);
+            },
+            next: (item) => {
+              if (cancelTimer) {
+                cancelTimer();
+              }
+
+              lastItem = item;
+              cancelTimer = scheduler.schedule(EMIT, dueTime);
+            },
+          });
+
+          return () => {
+            if (cancelTimer) {
+              cancelTimer();
+            }
+            UNSUBSCRIBE();
+          };
+        }),
+      );
+    }
+    /** @inheritdoc */
+    public delay(dueTime: number, scheduler?: IScheduler): IAsyncEnumerable<T> {
+      return fromAsync(
+        this.delayInner(toTimeSafe(dueTime), toSchedulerSafe(scheduler)),
+      );
+    }
+    /**
+     * @see delay()
+     */
+    protected async *delayInner(dueTime: number, scheduler: IScheduler) {
+      for await (let item of this) {
+        await delayAsync(dueTime, scheduler);
+
+        yield item;
+      }
+    }
+    /** @inheritdoc */
+    public async first(predicate?: AsyncPredicate<T>): Promise<T> {
+      predicate = toPredicateSafe(<Predicate<T>>predicate);
+
+      for await (let item of this) {
+        if (await predicate(item)) {
+          return item;
+        }
+      }
+
+      throw "Element not found";
+    }
+    /** @inheritdoc */
+    public async forEachParallel(
+      action: AsyncEachAction<T>,
+      options?: ParallelOptions,
+    ): Promise<void> {
+      if (!action) {
+        action = () => {};
+      }
+
+      const SEQ = this.selectParallel(
+        action,
+        Object.assign({}, options, {
+          preserveOrder: false,
+        }),
+      );
+
+      for await (let item of SEQ) {
+      }
+    }
+    /** @inheritdoc */
+    public groupBy<TKey>(
+      keySelector: AsyncSelector<T, TKey>,
+      keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+    ): IAsyncEnumerable<IGrouping<TKey, T>> {
+      if (!keySelector) {
+        keySelector = (i) => <any>i;
+      }
+
+      return fromAsync(
+        this.groupByInner(
+          keySelector,
+          toIEqualityComparerSafe(keyEqualityComparer),
+        ),
+      );
+    }
+    /**
+     * @see groupBy()
+     */
+    protected async *groupByInner<TKey>(
+      keySelector: AsyncSelector<T, TKey>,
+      keyEqualityComparer: IEqualityComparer<TKey>,
+    ) {
+      interface GroupItem {
+        key: TKey;
+        values: Array<T>;
+      }
+
+      const GROUPS = new EqualityMap<TKey, GroupItem>(keyEqualityComparer);
+      const GROUP_LIST: GroupItem[] = [];
+
+      for await (let item of this) {
+        const KEY = await keySelector(item);
+
+        const GRP = GROUPS.getOrAdd(KEY, () => {
+          const NEW_GRP: GroupItem = {
+            key: KEY,
+            values: [],
+          };
+
+          GROUP_LIST.push(NEW_GRP);
+          return NEW_GRP;
+        });
+
+        GRP.values.push(item);
+      }
+
+      for (let grp of GROUP_LIST) {
+        yield new Grouping(grp.key, from(grp.values));
+      }
+    }
+    /** @inheritdoc */
+    public get index(): number {
+      return this._index;
+    }
+    /** @inheritdoc */
+    public abstract next(value?: any): Promise<IteratorResult<T>>;
+    /** @inheritdoc */
+    public orderBy<U>(
+      selector: AsyncSelector<T, U>,
+      comparer?: Comparer<U>,
+    ): IAsyncEnumerable<T> {
+      if (!selector) {
+        selector = (i) => <any>i;
+      }
+
+      return fromAsync(this.orderByInner(selector, toComparerSafe(comparer)));
+    }
+    /**
+     * @see orderBy()
+     */
+    protected async *orderByInner<U>(
+      selector: AsyncSelector<T, U>,
+      comparer: Comparer<U>,
+    ) {
+      const ITEMS: { sortBy: U; value: T }[] = [];
+      for await (let item of this) {
+        ITEMS.push({
+          sortBy: await selector(item),
+          value: item,
+        });
+      }
+
+      ITEMS.sort((x, y) => comparer(x.sortBy, y.sortBy));
+
+      for (let item of ITEMS) {
+        yield item.value;
+      }
+    }
+    /** @inheritdoc */
+    public orderByDescending<U>(
+      selector: AsyncSelector<T, U>,
+      comparer?: Comparer<U>,
+    ): IAsyncEnumerable<T> {
+      comparer = toComparerSafe(comparer);
+
+      return this.orderBy(selector, (x, y) => {
+        return comparer(y, x);
+      });
+    }
+    /** @inheritdoc */
+    public sample(period: number, scheduler?: IScheduler): IAsyncEnumerable<T> {
+      period = toTimeSafe(period);
+      scheduler = toSchedulerSafe(scheduler);
+
+      return fromAsync(
+        createLazyPushIterator<T>((observer, ready) => {
+          let cancelTimer: () => void;
+          let hasItem = false;
+          let lastItem: T;
+
+          const ON_TICK = () => {
+            cancelTimer = scheduler.schedule(ON_TICK, period);
+
+            if (hasItem) {
+              hasItem = false;
+
+              observer.next(lastItem);
+            }
+          };
+
+          cancelTimer = scheduler.schedule(ON_TICK, period);
+
+          const UNSUBSCRIBE = subscribeTo(this, ready, {
+            complete: () => {
+              observer.complete();
+            },
+            error: (err) => {
+              observer.error(err);
+            },
+            next: (item) => {
+              hasItem = true;
+              lastItem = item;
+            },
+          });
+
+          return () => {
+            cancelTimer();
+            UNSUBSCRIBE();
+          };
+        }),
+      );
+    }
+    /** @inheritdoc */
+    public select<U>(selector: AsyncSelector<T, U>): IAsyncEnumerable<U> {
+      if (!selector) {
+        selector = (x) => <any>x;
+      }
+
+      return fromAsync(this.selectInner(selector));
+    }
+    /**
+     * @see select()
+     */
+    protected async *selectInner<U>(selector: AsyncSelector<T, U>) {
+      for await (let item of this) {
+        yield await selector(item);
+      }
+    }
+    /** @inheritdoc */
+    public selectMany<U>(
+      selector: AsyncSelector<T, AsyncSequence<U>>,
+    ): IAsyncEnumerable<U> {
+      return fromAsync(this.selectManyInner(selector));
+    }
+    /**
+     * @see selectMany()
+     */
+    protected async *selectManyInner<U>(
+      selector: AsyncSelector<T, AsyncSequence<U>>,
+    ) {
+      if (!selector) {
+        selector = (x) => [<any>x];
+      }
+
+      for await (let s of this) {
+        const SEQ = fromAsync(await selector(s));
+
+        for await (let item of SEQ) {
+          yield item;
+        }
+      }
+    }
+    /** @inheritdoc */
+    public selectParallel<U>(
+      selector: ParallelSelector<T, U>,
+      options?: ParallelOptions,
+    ): IAsyncEnumerable<U> {
+      return fromAsync(selectParallelItems(this, selector, options));
+    }
+    /** @inheritdoc */
+    public skip(count?: number): IAsyncEnumerable<T> {
+      count = parseInt(toStringSafe(count).trim());
+      if (isNaN(count)) {
+        count = 1;
+      }
+
+      return this.skipWhile(() => {
+        return count-- > 0;
+      });
+    }
+    /** @inheritdoc */
+    public skipWhile(predicate: AsyncPredicate<T>): IAsyncEnumerable<T> {
+      return fromAsync(this.skipWhileInner(predicate));
+    }
+    /**
+     * @see skipWhile()
+     */
+    protected async *skipWhileInner(predicate: AsyncPredicate<T>) {
+      predicate = toPredicateSafe(<Predicate<T>>predicate);
+
+      let returnItem = false;
+      for await (let item of this) {
+        if (!returnItem && !(await predicate(item))) {
+          returnItem = true;
+        }
+
+        if (returnItem) {
+          yield item;
+        }
+      }
+    }
+    /** @inheritdoc */
+    public take(count?: number): IAsyncEnumerable<T> {
+      count = parseInt(toStringSafe(count).trim());
+      if (isNaN(count)) {
+        count = 1;
+      }
+
+      return fromAsync(this.takeInner(count));
+    }
+    /**
+     * @see take()
+     */
+    protected async *takeInner(count: number) {
+      if (count < 1) {
+        return;
+      }
+
+      // do not pull more items from the source than needed,
+      // because it may be infinite or expensive
+      for await (let item of this) {
+        yield item;
+
+        if (--count < 1) {
+          break;
+        }
+      }
+    }
+    /** @inheritdoc */
+    public takeWhile(predicate: AsyncPredicate<T>): IAsyncEnumerable<T> {
+      return fromAsync(this.takeWhileInner(predicate));
+    }
+    /**
+     * @see takeWhile()
+     */
+    protected async *takeWhileInner(predicate: AsyncPredicate<T>) {
+      predicate = toPredicateSafe(<Predicate<T>>predicate);
+
+      for await (let item of this) {
+        if (await predicate(item)) {
+          yield item;
+        } else {
+          break;
+        }
+      }
+    }
+    /** @inheritdoc */
+    public throttle(
+      duration: number,
+      scheduler?: IScheduler,
+    ): IAsyncEnumerable<T> {
+      duration = toTimeSafe(duration);
+      scheduler = toSchedulerSafe(scheduler);
+
+      return fromAsync(this.throttleInner(duration, scheduler));
+    }
+    /**
+     * @see throttle()
+     */
+    protected async *throttleInner(duration: number, scheduler: IScheduler) {
+      let lastTime: number;
+
+      for await (let item of this) {
+        const NOW = scheduler.now();
+
+        if (isNullOrUndefined(lastTime) || NOW - lastTime >= duration) {
+          lastTime = NOW;
+
+          yield item;
+        }
+      }
+    }
+    /** @inheritdoc */
+    public timeout(
+      dueTime: number,
+      scheduler?: IScheduler,
+    ): IAsyncEnumerable<T> {
+      return fromAsync(
+        this.timeoutInner(toTimeSafe(dueTime), toSchedulerSafe(scheduler)),
+      );
+    }
+    /**
+     * @see timeout()
+     */
+    protected async *timeoutInner(dueTime: number, scheduler: IScheduler) {
+      try {
+        while (true) {
+          let cancelTimer: () => void;
+
+          let item: IteratorResult<T>;
+          try {
+            item = await new Promise<IteratorResult<T>>((resolve, reject) => {
+              cancelTimer = scheduler.schedule(() => {
+                reject(new TimeoutError(dueTime));
+              }, dueTime);
+
+              this.next().then(resolve, reject);
+            });
+          } finally {
+            cancelTimer();
+          }
+
+          if (!item || item.done) {
+            break;
+          }
+
+          yield item.value;
+        }
+      } finally {
+        closeAsyncIteratorSafe(this);
+      }
+    }
+    /** @inheritdoc */
+    public async toArray(): Promise<Array<T>> {
+      const ARR: Array<T> = [];
+
+      for await (let i of this) {
+        ARR.push(i);
+      }
+
+      return ARR;
+    }
+    /** @inheritdoc */
+    public where(predicate: AsyncPredicate<T>): IAsyncEnumerable<T> {
+      return fromAsync(this.whereInner(predicate));
+    }
+    /**
+     * @see where()
+     */
+    protected async *whereInner(predicate: AsyncPredicate<T>) {
+      predicate = toPredicateSafe(<Predicate<T>>predicate);
+
+      for await (let item of this) {
+        if (await predicate(item)) {
+          yield item;
+        }
+      }
+    }
+  } // AsyncEnumerableBase<T>
+
+  /**
+   * An async sequence based on an AsyncIterator<T>.
+   */
+  export class AsyncIteratorEnumerable<T = any> extends AsyncEnumerableBase<T> {
+    /**
+     * Stores the inner iterator.
+     */
+    protected _iterator: AsyncIterator<T> | Iterator<T>;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {AsyncIterator<T>|Iterator<T>} [iterator] The underlying iterator.
+     */
+    constructor(iterator?: AsyncIterator<T> | Iterator<T>) {
+      super();
+
+      this._iterator = iterator;
+      if (isNullOrUndefined(this._iterator)) {
+        this._iterator = emptyIterator();
+      }
+    }
+
+    /** @inheritdoc */
+    public async next(value?: any): Promise<IteratorResult<T>> {
+      let result = await this._iterator.next(value);
+      if (!result) {
+        result = {
+          value: undefined,
+          done: true,
+        };
+      }
+
+      this._current = result;
+
+      if (!result.done) {
+        ++this._index;
+      }
+
+      return result;
+    }
+    /**
+     * Closes the underlying iterator, like an async generator,
+     * e.g. if a 'for await' loop has been left before the end.
+     *
+     * @param {any} [value] The value to return.
+     *
+     * @returns {Promise<IteratorResult<T>>} The promise with the result.
+     */
+    public async return(value?: any): Promise<IteratorResult<T>> {
+      let result: IteratorResult<T>;
+      if ("function" === typeof this._iterator.return) {
+        result = await this._iterator.return(value);
+      }
+
+      if (!result) {
+        result = {
+          value: value,
+          done: true,
+        };
+      }
+
+      this._current = result;
+      return result;
+    }
+  } // AsyncIteratorEnumerable<T>
+
+  /**
+   * A scheduler, which uses the timers of the runtime.
+   */
+  export class TimerScheduler implements IScheduler {
+    /** @inheritdoc */
+    public now(): number {
+      return Date.now();
+    }
+
+    /** @inheritdoc */
+    public schedule(action: () => void, dueTime: number): () => void {
+      const TIMER = setTimeout(action, toTimeSafe(dueTime));
+
+      return () => {
+        clearTimeout(TIMER);
+      };
+    }
+  } // TimerScheduler
+
+  /**
+   * A scheduler with a virtual clock, which is only moved forward
+   * by 'advanceBy()' or 'advanceTo()', e.g. for unit tests.
+   */
+  export class VirtualScheduler implements IScheduler {
+    /**
+     * Stores the scheduled actions, sorted by their due time.
+     */
+    protected _actions: {
+      action: () => void;
+      dueTime: number;
+      id: number;
+    }[] = [];
+    /**
+     * Stores the ID for the next action.
+     */
+    protected _nextId = 0;
+    /**
+     * Stores the current (virtual) time.
+     */
+    protected _now: number;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {number} [now] The initial time, in milliseconds. Default: 0
+     */
+    constructor(now?: number) {
+      this._now = toTimeSafe(now);
+    }
+
+    /**
+     * Moves the clock forward and invokes all actions, which are due.
+     *
+     * @param {number} time The time, in milliseconds, to move forward.
+     *
+     * @returns {Promise<void>} The promise.
+     */
+    public advanceBy(time: number): Promise<void> {
+      return this.advanceTo(this._now + toTimeSafe(time));
+    }
+
+    /**
+     * Moves the clock forward to a specific time and invokes
+     * all actions, which are due until then.
+     *
+     * @param {number} time The time, in milliseconds, to move to.
+     *
+     * @returns {Promise<void>} The promise.
+     */
+    public async advanceTo(time: number): Promise<void> {
+      time = toTimeSafe(time);
+
+      // give pending continuations the chance to schedule their actions
+      await flushAsync();
+
+      while (this._actions.length > 0 && this._actions[0].dueTime <= time) {
+        const NEXT = this._actions.shift();
+        if (NEXT.dueTime > this._now) {
+          this._now = NEXT.dueTime;
+        }
+
+        NEXT.action();
+
+        await flushAsync();
+      }
+
+      if (time > this._now) {
+        this._now = time;
+      }
+    }
+
+    /** @inheritdoc */
+    public now(): number {
+      return this._now;
+    }
+
+    /** @inheritdoc */
+    public schedule(action: () => void, dueTime: number): () => void {
+      const ACTION = {
+        action: action,
+        dueTime: this._now + toTimeSafe(dueTime),
+        id: this._nextId++,
+      };
+
+      let i = this._actions.length;
+      while (i > 0 && this._actions[i - 1].dueTime > ACTION.dueTime) {
+        --i;
+      }
+      this._actions.splice(i, 0, ACTION);
+
+      return () => {
+        const INDEX = this._actions.indexOf(ACTION);
+        if (INDEX > -1) {
+          this._actions.splice(INDEX, 1);
+        }
+      };
+    }
+  } // VirtualScheduler
+
+  /**
+   * A value, which signals, that a reduction should be stopped.
+   *
+   * @template T Type of the value.
+   */
+  export import ReducedValue = Internal.ReducedValue;
+
+  /**
+   * Builds a transducer, which is a transformation, that can be defined once
+   * and applied to an 'IEnumerable', an array, an async sequence
+   * or a push-based source.
+   *
+   * @template T Type of the source items.
+   * @template U Type of the target items.
+   */
+  export class TransducerBuilder<T = any, U = T> {
+    /**
+     * Indicates that the transducer does not require any item, like 'take(0)'.
+     */
+    protected _isEmpty = false;
+    /**
+     * Stores the underlying transducer.
+     */
+    protected _transducer: Transducer<T, U>;
+
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {Transducer<T, U>} transducer The underlying transducer.
+     */
+    constructor(transducer: Transducer<T, U>) {
+      this._transducer = transducer;
+    }
+
+    /**
+     * Applies the transducer to a sequence.
+     *
+     * @param {Sequence<T>} source The source sequence.
+     *
+     * @return {IEnumerable<U>} The new sequence, which can be iterated again,
+     *                          if the source can.
+     */
+    public applyTo(source: Sequence<T>): IEnumerable<U> {
+      return new DeferredEnumerable<U>(() => this.applyToInner(source));
+    }
+
+    /**
+     * @see applyTo()
+     */
+    protected *applyToInner(source: Sequence<T>) {
+      if (this._isEmpty) {
+        return;
+      }
+
+      const BUFFER: U[] = [];
+      const STEP = this._transducer<U[]>((buffer, item) => {
+        buffer.push(item);
+
+        return buffer;
+      });
+
+      for (let item of from(source)) {
+        const RESULT = STEP(BUFFER, item);
+
+        yield* BUFFER.splice(0);
+
+        if (isReduced(RESULT)) {
+          break;
+        }
+      }
+    }
+
+    /**
+     * Applies the transducer to an async sequence.
+     *
+     * @param {AsyncSequence<T>} source The source sequence.
+     *
+     * @return {IAsyncEnumerable<U>} The new sequence.
+     */
+    public applyToAsync(source: AsyncSequence<T>): IAsyncEnumerable<U> {
+      return fromAsync(this.applyToAsyncInner(source));
+    }
+
+    /**
+     * @see applyToAsync()
+     */
+    protected async *applyToAsyncInner(source: AsyncSequence<T>) {
+      if (this._isEmpty) {
+        return;
       }
 
-      return this;
+      const BUFFER: U[] = [];
+      const STEP = this._transducer<U[]>((buffer, item) => {
+        buffer.push(item);
+
+        return buffer;
+      });
+
+      for await (let item of fromAsync(source)) {
+        const RESULT = STEP(BUFFER, item);
+
+        yield* BUFFER.splice(0);
+
+        if (isReduced(RESULT)) {
+          break;
+        }
+      }
     }
-  } // ArrayEnumerable<T>
 
-  /**
-   * A grouping.
-   *
-   * @template T Type of the items.
-   * @template TKey Type of the key.
-   */
-  export class Grouping<TKey = any, T = any>
-    extends EnumerableWrapper<T>
-    implements IGrouping<TKey, T>
-  {
     /**
-     * Stores the key.
+     * Returns the underlying transducer.
+     *
+     * @return {Transducer<T, U>} The transducer.
      */
-    protected _key: TKey;
+    public compile(): Transducer<T, U> {
+      return this._transducer;
+    }
 
     /**
-     * Initializes a new instance of that class.
+     * Appends a custom transducer.
      *
-     * @param {TKey} key The key.
-     * @param {IEnumerable} seq The items of the grouping.
+     * @template V Type of the new target items.
+     *
+     * @param {Transducer<U, V>} transducer The transducer to append.
+     *
+     * @return {TransducerBuilder<T, V>} The new builder.
      */
-    constructor(key: TKey, seq: IEnumerable<T>) {
-      super(seq);
+    public compose<V>(transducer: Transducer<U, V>): TransducerBuilder<T, V> {
+      const TRANSDUCER = this._transducer;
 
-      this._key = key;
-    }
+      const BUILDER = new TransducerBuilder<T, V>((reducer) =>
+        TRANSDUCER(transducer(reducer)),
+      );
+      BUILDER._isEmpty = this._isEmpty;
 
-    /** @inheritdoc */
-    public get key(): TKey {
-      return this._key;
+      return BUILDER;
     }
-  } // Grouping<TKey, T>
 
-  /**
-   * An ordered sequence.
-   *
-   * @template T Type of the items.
-   * @template U Type of the sort keys.
-   */
-  export class OrderedEnumerable<T = any, U = T>
-    extends EnumerableWrapper<T>
-    implements IOrderedEnumerable<T>
-  {
     /**
-     * Stores the items in the original order.
+     * Creates a function, which can be invoked by a push-based source,
+     * like an event handler, for each of its items.
+     *
+     * @param {(item: U) => void} observer The function, which receives the target items.
+     *
+     * @return {(item: T) => boolean} The function for the source items, which returns
+     *                                (false), if no more items are required.
      */
-    protected _originalItems: Array<T>;
+    public observe(observer: (item: U) => void): (item: T) => boolean {
+      const STEP = this._transducer<void>((acc, item) => {
+        observer(item);
+      });
+
+      let isDone = this._isEmpty;
+
+      return (item) => {
+        if (!isDone) {
+          isDone = isReduced(STEP(undefined, item));
+        }
+
+        return !isDone;
+      };
+    }
+
     /**
-     * Stores the comparer for the sort keys.
+     * Creates a reducer of source items, which can be used
+     * with 'IEnumerable.aggregate()', e.g.
+     *
+     * The reducer keeps the state of steps, like 'skip()' or 'take()',
+     * so create a new one for each 'aggregate()' call.
+     *
+     * @template TAccumulate Type of the accumulator value.
+     *
+     * @param {Reducer<TAccumulate, U>} reducer The reducer of the target items.
+     *
+     * @return {Reducer<TAccumulate, T>} The new reducer.
      */
-    protected _orderComparer: Comparer<U, U>;
+    public reducer<TAccumulate>(
+      reducer: Reducer<TAccumulate, U>,
+    ): Reducer<TAccumulate, T> {
+      return this._transducer(reducer);
+    }
+
     /**
-     * Stores the selector for the keys.
+     * Projects the items.
+     *
+     * @template V Type of the new target items.
+     *
+     * @param {Selector<U, V>} selector The selector.
+     *
+     * @return {TransducerBuilder<T, V>} The new builder.
      */
-    protected _orderSelector: Selector<T, U>;
+    public select<V>(selector: Selector<U, V>): TransducerBuilder<T, V> {
+      return this.compose<V>(
+        (reducer) => (acc, item) => reducer(acc, selector(item)),
+      );
+    }
 
     /**
-     * Initializes a new instance of that class.
+     * Projects the items to sequences and flattens them.
      *
-     * @param {IEnumerable<T>} seq The source sequence.
-     * @param {Selector<T,U>} selector The selector for the sort values.
-     * @param {Comparer<U,U>} comparer The comparer to use.
+     * @template V Type of the new target items.
+     *
+     * @param {Selector<U, Sequence<V>>} selector The selector.
+     *
+     * @return {TransducerBuilder<T, V>} The new builder.
      */
-    constructor(
-      seq: IEnumerable<T>,
-      selector: Selector<T, U>,
-      comparer: Comparer<U, U>,
-    ) {
-      super(seq);
-
-      const ME = this;
+    public selectMany<V>(
+      selector: Selector<U, Sequence<V>>,
+    ): TransducerBuilder<T, V> {
+      return this.compose<V>((reducer) => (acc, item) => {
+        let result: any = acc;
+        for (let subItem of from(selector(item))) {
+          result = reducer(result, subItem);
+          if (isReduced(result)) {
+            break;
+          }
+        }
 
-      this._orderComparer = toComparerSafe(comparer);
+        return result;
+      });
+    }
 
-      if (!selector) {
-        selector = (i) => <any>i;
+    /**
+     * Skips a number of items.
+     *
+     * @param {number} [count] The number of items to skip. Default: 1
+     *
+     * @return {TransducerBuilder<T, U>} The new builder.
+     */
+    public skip(count?: number): TransducerBuilder<T, U> {
+      count = parseInt(toStringSafe(count).trim());
+      if (isNaN(count)) {
+        count = 1;
       }
-      this._orderSelector = selector;
-
-      this._originalItems = seq.toArray();
-
-      this._sequence = from(
-        this._originalItems
-          .map((x) => {
-            return {
-              sortBy: ME.selector(x),
-              value: x,
-            };
-          })
-          .sort(function (x, y) {
-            return ME.comparer(x.sortBy, y.sortBy);
-          })
-          .map(function (x) {
-            return x.value;
-          }),
-      );
+
+      return this.compose<U>((reducer) => {
+        // the counter is created for each reducer,
+        // so the transducer can be applied more than once
+        let remaining = count;
+
+        return (acc, item) => (remaining-- > 0 ? acc : reducer(acc, item));
+      });
     }
 
     /**
-     * Gets the comparer.
+     * Skips items while a condition is satisfied.
+     *
+     * @param {Predicate<U>} predicate The predicate.
+     *
+     * @return {TransducerBuilder<T, U>} The new builder.
      */
-    public get comparer(): Comparer<U, U> {
-      return this._orderComparer;
+    public skipWhile(predicate: Predicate<U>): TransducerBuilder<T, U> {
+      return this.compose<U>((reducer) => {
+        let isSkipping = true;
+
+        return (acc, item) => {
+          if (isSkipping) {
+            isSkipping = predicate(item);
+          }
+
+          return isSkipping ? acc : reducer(acc, item);
+        };
+      });
     }
+
     /**
-     * Gets the selector.
+     * Takes a number of items and stops.
+     *
+     * @param {number} [count] The number of items to take. Default: 1
+     *
+     * @return {TransducerBuilder<T, U>} The new builder.
      */
-    public get selector(): (x: T) => any {
-      return this._orderSelector;
-    }
-    /** @inheritdoc */
-    public then(comparer?: Comparer<T>): IOrderedEnumerable<T> {
-      return this.thenBy((x) => x, comparer);
-    }
-    /** @inheritdoc */
-    public thenBy<U>(
-      selector: Selector<T, U>,
-      comparer?: Comparer<U, U>,
-    ): IOrderedEnumerable<T> {
-      if (!selector) {
-        selector = (i) => <any>i;
+    public take(count?: number): TransducerBuilder<T, U> {
+      count = parseInt(toStringSafe(count).trim());
+      if (isNaN(count)) {
+        count = 1;
       }
 
-      comparer = toComparerSafe(comparer);
-
-      const THIS_SELECTOR = this.selector;
-      const THIS_COMPARER = this.comparer;
+      const BUILDER = this.compose<U>((reducer) => {
+        let remaining = count;
 
-      return from(this._originalItems).orderBy(
-        (x) => {
-          return {
-            level_0: THIS_SELECTOR(x),
-            level_1: selector(x),
-          };
-        },
-        (x, y) => {
-          const COMP_0 = THIS_COMPARER(x.level_0, y.level_0);
-          if (0 != COMP_0) {
-            return COMP_0;
+        return (acc, item) => {
+          if (remaining < 1) {
+            return reduced(acc);
           }
 
-          const COMP_1 = comparer(x.level_1, y.level_1);
-          if (0 != COMP_1) {
-            return COMP_1;
-          }
+          // stop after the last item, without waiting for another one
+          const RESULT = reducer(acc, item);
 
-          return 0;
-        },
+          return --remaining < 1 ? toReducedValue(RESULT) : RESULT;
+        };
+      });
+      if (count < 1) {
+        // do not read any item
+        BUILDER._isEmpty = true;
+      }
+
+      return BUILDER;
+    }
+
+    /**
+     * Takes items while a condition is satisfied and stops.
+     *
+     * @param {Predicate<U>} predicate The predicate.
+     *
+     * @return {TransducerBuilder<T, U>} The new builder.
+     */
+    public takeWhile(predicate: Predicate<U>): TransducerBuilder<T, U> {
+      return this.compose<U>(
+        (reducer) => (acc, item) =>
+          predicate(item) ? reducer(acc, item) : reduced(acc),
       );
     }
-    /** @inheritdoc */
-    public thenByDescending<U>(
-      selector: Selector<T, U>,
-      comparer?: Comparer<U, U>,
-    ): IOrderedEnumerable<T> {
-      if (!selector) {
-        selector = (i) => <any>i;
-      }
 
-      comparer = toComparerSafe(comparer);
+    /**
+     * Filters the items by a type guard.
+     *
+     * @template V The narrowed type.
+     *
+     * @param {TypeGuard<U, V>} predicate The type guard.
+     *
+     * @return {TransducerBuilder<T, V>} The new builder.
+     */
+    public where<V extends U>(
+      predicate: TypeGuard<U, V>,
+    ): TransducerBuilder<T, V>;
+    /**
+     * Filters the items.
+     *
+     * @param {Predicate<U>} predicate The predicate.
+     *
+     * @return {TransducerBuilder<T, U>} The new builder.
+     */
+    public where(predicate: Predicate<U>): TransducerBuilder<T, U>;
+    public where(predicate: Predicate<U>): TransducerBuilder<T, U> {
+      return this.compose<U>(
+        (reducer) => (acc, item) => predicate(item) ? reducer(acc, item) : acc,
+      );
+    }
+  } // TransducerBuilder<T, U>
 
-      return this.thenBy(selector, (x, y) => comparer(y, x));
+  /**
+   * An ordered sequence of items, which are already sorted.
+   */
+  class SortedItemsEnumerable<T = any, U = T> extends OrderedEnumerable<T, U> {
+    /**
+     * Initializes a new instance of that class.
+     *
+     * @param {T[]} items The sorted items.
+     * @param {Selector<T, U>} selector The key selector, the items are sorted by.
+     * @param {Comparer<U>} comparer The key comparer, the items are sorted by.
+     */
+    constructor(items: T[], selector: Selector<T, U>, comparer: Comparer<U>) {
+      super(from(items), selector, comparer);
     }
+
     /** @inheritdoc */
-    public thenDescending(comparer?: Comparer<T>): IOrderedEnumerable<T> {
-      return this.thenByDescending((x) => x, comparer);
+    protected sortItems(): Array<T> {
+      return this.getItems();
     }
-  } // OrderedEnumerable<T, U = T>
+  } // SortedItemsEnumerable<T, U>
 
   /**
    * Keeps sure that a value is a sequence.
@@ -3649,22 +6481,32 @@ namespace Enumerable {
    *
    * @param {CancelableFactory<T>} factory The factory function.
    * @param {number} [count] The maximum number of items.
+   * @param {AbortSignal} [signal] The optional signal, that can abort the sequence.
    *
    * @returns {IEnumerable<T>}
+   *
+   * @throws {AbortError} The sequence has been aborted.
    */
   export function build<T = any>(
     factory: CancelableFactory<T>,
     count?: number,
+    signal?: AbortSignal,
   ): IEnumerable<T> {
     count = parseInt(toStringSafe(count).trim());
 
-    return from(buildInner(factory, count));
+    return from(buildInner(factory, count, signal));
   } // build<T>()
 
-  function* buildInner<T = any>(factory: CancelableFactory<T>, count: number) {
+  function* buildInner<T = any>(
+    factory: CancelableFactory<T>,
+    count: number,
+    signal: AbortSignal,
+  ) {
     let i = -1;
     let run = true;
     while (run) {
+      throwIfAborted(signal);
+
       ++i;
 
       if (!isNaN(count)) {
@@ -3695,25 +6537,32 @@ namespace Enumerable {
    * @template T Type of the items.
    * @param {CancelableFactory<Sequence<T>>} factory The factory.
    * @param {number} [count] The maximum number of invocations.
+   * @param {AbortSignal} [signal] The optional signal, that can abort the sequence.
    *
    * @returns {IEnumerable<T>} The flatten list of items.
+   *
+   * @throws {AbortError} The sequence has been aborted.
    */
   export function buildMany<T = any>(
     factory: CancelableFactory<Sequence<T>>,
     count?: number,
+    signal?: AbortSignal,
   ): IEnumerable<T> {
     count = parseInt(toStringSafe(count).trim());
 
-    return from(buildManyInner(factory, count));
+    return from(buildManyInner(factory, count, signal));
   } // buildMany<T>()
 
   function* buildManyInner<T = any>(
     factory: CancelableFactory<Sequence<T>>,
     count: number,
+    signal: AbortSignal,
   ) {
     let i = -1;
     let run = true;
     while (run) {
+      throwIfAborted(signal);
+
       ++i;
 
       if (!isNaN(count)) {
@@ -3735,6 +6584,8 @@ namespace Enumerable {
       if (run) {
         if (!isNullOrUndefined(SEQ)) {
           for (let item of SEQ) {
+            throwIfAborted(signal);
+
             yield item;
           }
         }
@@ -3755,6 +6606,21 @@ namespace Enumerable {
     return from(items);
   } // create<T = any>()
 
+  /**
+   * Creates a new, re-iterable sequence, which invokes a factory function
+   * each time it is iterated. All sequences created from it by operations,
+   * like 'where()' or 'select()', are re-iterable, too.
+   *
+   * @template T Type of the items.
+   *
+   * @param {Function} factory The function, which creates the items.
+   *
+   * @returns {IEnumerable<T>} The new sequence.
+   */
+  export function defer<T = any>(factory: () => Sequence<T>): IEnumerable<T> {
+    return new DeferredEnumerable<T>(factory);
+  } // defer<T>()
+
   /**
    * Creates an empty sequence.
    *
@@ -3786,9 +6652,46 @@ namespace Enumerable {
       return <any>fromString(seq);
     }
 
+    if (seq instanceof DeferredEnumerable) {
+      return seq; // keep it re-iterable
+    }
+
     return new IteratorEnumerable<T>(<Iterator<T>>seq);
   } // from<T>()
 
+  /**
+   * Creates a new async sequence.
+   *
+   * @param {AsyncSequence<T>} seq The input data.
+   *
+   * @return {IAsyncEnumerable<T>} The new async sequence.
+   */
+  export function fromAsync<T = any>(
+    seq?: AsyncSequence<T>,
+  ): IAsyncEnumerable<T> {
+    if (isNullOrUndefined(seq)) {
+      seq = [];
+    }
+
+    if ("function" === typeof (<any>seq)[Symbol.asyncIterator]) {
+      return new AsyncIteratorEnumerable<T>(
+        (<AsyncIterable<T>>seq)[Symbol.asyncIterator](),
+      );
+    }
+
+    if (isSequence(seq)) {
+      return new AsyncIteratorEnumerable<T>(fromAsyncInner(from(seq)));
+    }
+
+    return new AsyncIteratorEnumerable<T>(<AsyncIterator<T>>seq);
+  } // fromAsync<T>()
+
+  async function* fromAsyncInner<T = any>(seq: IEnumerable<T>) {
+    for (let item of seq) {
+      yield item;
+    }
+  }
+
   /**
    * Creates a new sequence from the string representation of a value.
    *
@@ -3800,27 +6703,128 @@ namespace Enumerable {
     return new ArrayEnumerable<string>(toStringSafe(val).split(""));
   } // fromString()
 
-  function invokeForValidNumber(
-    x: any,
-    action: (n: number) => any,
-    handleAsInt = false,
-  ) {
-    if ("number" !== typeof x) {
-      if (!handleAsInt) {
-        x = parseFloat(toStringSafe(x).trim());
-      } else {
-        x = parseInt(toStringSafe(x).trim());
-      }
+  /**
+   * Creates a new async sequence from the events of an emitter.
+   * If a listener of an event is invoked with more than one argument,
+   * only the first one is used as item.
+   *
+   * @param {EventEmitterLike} emitter The emitter.
+   * @param {string|symbol} eventName The name of the event, which provides the items.
+   * @param {FromEventOptions} [options] Custom options.
+   *
+   * @return {IAsyncEnumerable<T>} The new async sequence.
+   */
+  export function fromEvent<T = any>(
+    emitter: EventEmitterLike,
+    eventName: string | symbol,
+    options?: FromEventOptions,
+  ): IAsyncEnumerable<T> {
+    if (!options) {
+      options = {};
+    }
+
+    let bufferSize = parseInt(toStringSafe(options.bufferSize).trim());
+    if (isNaN(bufferSize)) {
+      bufferSize = Number.POSITIVE_INFINITY;
+    } else if (bufferSize < 0) {
+      bufferSize = 0;
+    }
+
+    let errorEvent = options.errorEvent;
+    if (isNullOrUndefined(errorEvent)) {
+      errorEvent = "error";
+    }
+
+    let overflow = options.overflow;
+    if (isNullOrUndefined(overflow)) {
+      overflow = "error";
+    }
+
+    const END_EVENT = options.endEvent;
+
+    return fromAsync<T>(
+      createPushIterator<T>(
+        (observer) => {
+          const ON_EVENT = (item: T) => {
+            observer.next(item);
+          };
+          const ON_END = () => {
+            observer.complete();
+          };
+          const ON_ERROR = (err: any) => {
+            observer.error(err);
+          };
+
+          emitter.on(eventName, ON_EVENT);
+          if (!isNullOrUndefined(END_EVENT)) {
+            emitter.on(END_EVENT, ON_END);
+          }
+          if (!isNullOrUndefined(errorEvent)) {
+            emitter.on(errorEvent, ON_ERROR);
+          }
+
+          return () => {
+            emitter.removeListener(eventName, ON_EVENT);
+            if (!isNullOrUndefined(END_EVENT)) {
+              emitter.removeListener(END_EVENT, ON_END);
+            }
+            if (!isNullOrUndefined(errorEvent)) {
+              emitter.removeListener(errorEvent, ON_ERROR);
+            }
+          };
+        },
+        bufferSize,
+        overflow,
+      ),
+    );
+  } // fromEvent<T>()
+
+  /**
+   * Creates a new, infinite async sequence, which emits
+   * zero based, increasing numbers periodically.
+   *
+   * @param {number} period The period, in milliseconds.
+   * @param {IScheduler} [scheduler] The custom scheduler.
+   *
+   * @return {IAsyncEnumerable<number>} The new async sequence.
+   */
+  export function interval(
+    period: number,
+    scheduler?: IScheduler,
+  ): IAsyncEnumerable<number> {
+    return fromAsync(
+      intervalInner(toTimeSafe(period), toSchedulerSafe(scheduler)),
+    );
+  } // interval()
+
+  async function* intervalInner(period: number, scheduler: IScheduler) {
+    const START = scheduler.now();
+
+    let i = 0;
+    while (true) {
+      // relative to the start, so slow consumers do not shift the timeline
+      await delayAsync(START + (i + 1) * period - scheduler.now(), scheduler);
+
+      yield i++;
     }
+  }
 
-    if (!isNaN(x)) {
-      if (action) {
-        x = action(x);
-      }
+  /**
+   * Checks if a value represents an async enumerable (sequence).
+   *
+   * @param {any} val The value to check.
+   *
+   * @returns {boolean} Is async enumerable (sequence) or not.
+   */
+  export function isAsyncEnumerable<T = any>(
+    val: any,
+  ): val is IAsyncEnumerable<T> {
+    if (!isNullOrUndefined(val)) {
+      return val["IS_ASYNC_ENUMERABLE"] === IS_ASYNC_ENUMERABLE;
     }
 
-    return x;
-  } // invokeForNumber()
+    return false;
+  } // isAsyncEnumerable()
 
   /**
    * Checks if a value represents the IS_EMPTY symbol.
@@ -3861,6 +6865,15 @@ namespace Enumerable {
     return null === seq || ("undefined" !== typeof seq && seq.isEmpty());
   } // isNullOrEmpty<T>()
 
+  /**
+   * Checks if a value has been wrapped by 'reduced()'.
+   *
+   * @param {any} val The value to check.
+   *
+   * @return {boolean} Is reduced value or not.
+   */
+  export import isReduced = Internal.isReduced;
+
   /**
    * Checks if a value can be used as enumerable (sequence).
    *
@@ -3868,24 +6881,7 @@ namespace Enumerable {
    *
    * @return {boolean} Is sequence or not.
    */
-  export function isSequence<T = any>(val: any): val is Sequence<T> {
-    if (!isNullOrUndefined(val)) {
-      if ("function" === typeof val[Symbol.iterator]) {
-        // Iterator<T>
-        return true;
-      }
-
-      if (Array.isArray(val)) {
-        return true;
-      }
-
-      if ("string" === typeof val) {
-        return true;
-      }
-    }
-
-    return false;
-  } // isSequence()
+  export import isSequence = Internal.isSequence;
 
   /**
    * Checks if a sequence is (undefined) / (null) or empty.
@@ -3949,18 +6945,26 @@ namespace Enumerable {
    * @param {number} [count] The maximum number of items.
    *                         If not defined, the sequence will become infinitely.
    * @param {(randomValue: number, index: number) => number} [valueProvider] A custom function for providing a random number.
+   * @param {AbortSignal} [signal] The optional signal, that can abort the sequence.
    *
    * @return {IEnumerable<number>} The sequence of random numbers.
+   *
+   * @throws {AbortError} The sequence has been aborted.
    */
   export function random(
     count?: number,
     valueProvider?: (randomValue: number, index: number) => number,
+    signal?: AbortSignal,
   ): IEnumerable<number> {
     if (!valueProvider) {
       valueProvider = (randVal) => randVal;
     }
 
-    return build((cancel, index) => valueProvider(Math.random(), index), count);
+    return build(
+      (cancel, index) => valueProvider(Math.random(), index),
+      count,
+      signal,
+    );
   }
 
   /**
@@ -3979,6 +6983,10 @@ namespace Enumerable {
 
     count = parseInt(toStringSafe(count).trim());
 
+    if (!isNaN(count)) {
+      return new RangeEnumerable(start, count);
+    }
+
     return from(rangeInner(start, count));
   } // range()
 
@@ -3995,6 +7003,65 @@ namespace Enumerable {
     }
   }
 
+  /**
+   * Wraps a value, which is returned by a reducer, to signal,
+   * that no more items are required.
+   *
+   * @param {T} value The (final) accumulator value.
+   *
+   * @return {ReducedValue<T>} The wrapped value.
+   */
+  export function reduced<T = any>(value: T): ReducedValue<T> {
+    return new ReducedValue<T>(value);
+  } // reduced()
+
+  /**
+   * Registers a custom operator for all sequences, like 'ArrayEnumerable',
+   * 'IteratorEnumerable', 'OrderedEnumerable' or 'Grouping'.
+   *
+   * To use the operator in TypeScript, augment the 'IEnumerable<T>'
+   * interface of the module:
+   *
+   * declare module "node-enumerable" {
+   *   interface IEnumerable<T> {
+   *     evens(): IEnumerable<T>;
+   *   }
+   * }
+   *
+   * @param {string} name The name of the operator.
+   * @param {OperatorImplementation<T>} impl The implementation.
+   *
+   * @throws {OperatorClashError} The name is already used by a built-in
+   *                              or previously registered operator.
+   */
+  export function registerOperator<T = any>(
+    name: string,
+    impl: OperatorImplementation<T>,
+  ): void {
+    name = toStringSafe(name).trim();
+    if ("" === name) {
+      throw "No operator name defined";
+    }
+
+    if ("function" !== typeof impl) {
+      throw "Operator implementation must be a function";
+    }
+
+    if (
+      SEQUENCE_CLASSES.some((c) => {
+        return name in c.prototype;
+      })
+    ) {
+      throw new OperatorClashError(name);
+    }
+
+    Object.defineProperty(EnumerableBase.prototype, name, {
+      configurable: true,
+      value: impl,
+      writable: true,
+    });
+  } // registerOperator()
+
   /**
    * Creates a range of numbers.
    *
@@ -4088,154 +7155,657 @@ namespace Enumerable {
     return from(items).orderByDescending(selector, comparer);
   }
 
-  function createGroupArrayForSequence<T = any, TKey = any>(
-    seq: IEnumerable<T>,
-    keySelector: Selector<T, TKey>,
-  ) {
-    return seq
-      .groupBy(keySelector)
-      .select((grp) => {
-        return {
-          key: grp.key,
-          values: grp.toArray(),
-        };
-      })
-      .toArray();
-  }
+  /**
+   * Starts building a transducer.
+   *
+   * @template T Type of the source items.
+   *
+   * @return {TransducerBuilder<T, T>} The new builder.
+   */
+  export function transducer<T = any>(): TransducerBuilder<T, T> {
+    return new TransducerBuilder<T, T>((reducer) => reducer);
+  } // transducer()
 
-  function* emptyIterator() {
-    while (<any>false) {
-      yield <any>undefined;
+  /**
+   * Built-in collectors for 'IEnumerable.collect()'.
+   */
+  export namespace Collectors {
+    /**
+     * Creates a collector, which counts the items.
+     *
+     * @return {Collector<any, number>} The new collector.
+     */
+    export function counting(): Collector<any, number> {
+      return {
+        accumulator: (count) => count + 1,
+        combiner: (left, right) => left + right,
+        supplier: () => 0,
+      };
     }
-  }
 
-  function getOrDefaultArguments<T = any, U = T>(
-    predicateOrDefaultValue: Predicate<T> | T,
-    defaultValue: U,
-    paramCount: number,
-  ) {
-    let predicate: Predicate<T>;
-    let defVal: any;
-
-    if (paramCount < 1) {
-      defVal = NOT_FOUND;
-    } else if (paramCount < 2) {
-      if ("function" === typeof predicateOrDefaultValue) {
-        predicate = <Predicate<T>>predicateOrDefaultValue;
-        defVal = NOT_FOUND;
-      } else {
-        defVal = predicateOrDefaultValue;
+    /**
+     * Creates a collector, which groups the items into a Map.
+     *
+     * @template T Type of the items.
+     * @template TKey Type of the keys.
+     * @template A Type of the container of the downstream collector.
+     * @template R Type of the result of the downstream collector.
+     *
+     * @param {Selector<T, TKey>} keySelector The key selector.
+     * @param {Collector<T, A, R>} [downstream] The collector for the items of a group.
+     *                                         Default: toArray()
+     *
+     * @return {Collector<T, Map<TKey, A>, Map<TKey, R>>} The new collector.
+     */
+    export function groupingBy<T, TKey, A = T[], R = A>(
+      keySelector: Selector<T, TKey>,
+      downstream?: Collector<T, A, R>,
+    ): Collector<T, Map<TKey, A>, Map<TKey, R>> {
+      const DOWNSTREAM = downstream || <Collector<T, any, any>>toArray<T>();
+
+      return {
+        accumulator: (groups, item) => {
+          const KEY = keySelector(item);
+          const CONTAINER = groups.has(KEY)
+            ? groups.get(KEY)
+            : DOWNSTREAM.supplier();
+
+          groups.set(KEY, accumulateWith(DOWNSTREAM, CONTAINER, item));
+        },
+        combiner: (left, right) => {
+          right.forEach((container, key) => {
+            left.set(
+              key,
+              left.has(key)
+                ? combineWith(DOWNSTREAM, left.get(key), container)
+                : container,
+            );
+          });
+
+          return left;
+        },
+        finisher: (groups) => {
+          const RESULT = new Map<TKey, R>();
+          groups.forEach((container, key) => {
+            RESULT.set(key, finishWith(DOWNSTREAM, container));
+          });
+
+          return RESULT;
+        },
+        supplier: () => new Map<TKey, A>(),
+      };
+    }
+
+    /**
+     * Creates a collector, which joins the items to a string.
+     *
+     * @param {string} [separator] The separator. Default: ''
+     * @param {string} [prefix] The prefix of the result. Default: ''
+     * @param {string} [suffix] The suffix of the result. Default: ''
+     *
+     * @return {Collector<any, string[], string>} The new collector.
+     */
+    export function joining(
+      separator?: string,
+      prefix?: string,
+      suffix?: string,
+    ): Collector<any, string[], string> {
+      return {
+        accumulator: (parts, item) => {
+          parts.push(toStringSafe(item));
+        },
+        combiner: (left, right) => left.concat(right),
+        finisher: (parts) =>
+          toStringSafe(prefix) +
+          parts.join(toStringSafe(separator)) +
+          toStringSafe(suffix),
+        supplier: () => [],
+      };
+    }
+
+    /**
+     * Creates a collector, which splits the items into matching
+     * and not matching ones.
+     *
+     * @template T Type of the items.
+     * @template A Type of the containers of the downstream collector.
+     * @template R Type of the results of the downstream collector.
+     *
+     * @param {Predicate<T>} predicate The predicate.
+     * @param {Collector<T, A, R>} [downstream] The collector for the items of a partition.
+     *                                         Default: toArray()
+     *
+     * @return {Collector<T, [A, A], [R, R]>} The new collector, which returns
+     *                                       the matching items first.
+     */
+    export function partitioningBy<T, A = T[], R = A>(
+      predicate: Predicate<T>,
+      downstream?: Collector<T, A, R>,
+    ): Collector<T, [A, A], [R, R]> {
+      const DOWNSTREAM = downstream || <Collector<T, any, any>>toArray<T>();
+
+      return {
+        accumulator: (partitions, item) => {
+          const INDEX = predicate(item) ? 0 : 1;
+
+          partitions[INDEX] = accumulateWith(
+            DOWNSTREAM,
+            partitions[INDEX],
+            item,
+          );
+        },
+        combiner: (left, right) => [
+          combineWith(DOWNSTREAM, left[0], right[0]),
+          combineWith(DOWNSTREAM, left[1], right[1]),
+        ],
+        finisher: (partitions) => [
+          finishWith(DOWNSTREAM, partitions[0]),
+          finishWith(DOWNSTREAM, partitions[1]),
+        ],
+        supplier: () => [DOWNSTREAM.supplier(), DOWNSTREAM.supplier()],
+      };
+    }
+
+    /**
+     * Creates a collector, which calculates a statistics summary.
+     *
+     * @template T Type of the items.
+     *
+     * @param {Selector<T, number>} [selector] The custom selector for the values.
+     *
+     * @return {Collector<T, StatisticsSummary>} The new collector.
+     */
+    export function summarizing<T = number>(
+      selector?: Selector<T, number>,
+    ): Collector<T, StatisticsSummary> {
+      if (!selector) {
+        selector = selectItem;
       }
-    } else {
-      predicate = <any>predicateOrDefaultValue;
-      defVal = defaultValue;
+
+      return {
+        accumulator: (summary, item) => {
+          const VALUE = selector(item);
+
+          summary.max =
+            summary.count > 0 ? Math.max(summary.max, VALUE) : VALUE;
+          summary.min =
+            summary.count > 0 ? Math.min(summary.min, VALUE) : VALUE;
+          summary.sum += VALUE;
+          ++summary.count;
+        },
+        combiner: (left, right) => {
+          if (right.count > 0) {
+            left.max =
+              left.count > 0 ? Math.max(left.max, right.max) : right.max;
+            left.min =
+              left.count > 0 ? Math.min(left.min, right.min) : right.min;
+            left.sum += right.sum;
+            left.count += right.count;
+          }
+
+          return left;
+        },
+        finisher: (summary) => {
+          summary.average =
+            summary.count > 0 ? summary.sum / summary.count : NaN;
+
+          return summary;
+        },
+        supplier: () => ({
+          average: NaN,
+          count: 0,
+          max: NaN,
+          min: NaN,
+          sum: 0,
+        }),
+      };
     }
 
-    return {
-      defaultValue: defVal,
-      predicate: toPredicateSafe(predicate),
-    };
+    /**
+     * Creates a collector, which collects the items into an array.
+     *
+     * @template T Type of the items.
+     *
+     * @return {Collector<T, T[]>} The new collector.
+     */
+    export function toArray<T = any>(): Collector<T, T[]> {
+      return {
+        accumulator: (arr, item) => {
+          arr.push(item);
+        },
+        combiner: (left, right) => left.concat(right),
+        supplier: () => [],
+      };
+    }
+
+    /**
+     * Creates a collector, which collects the items into a Map.
+     *
+     * @template T Type of the items.
+     * @template TKey Type of the keys.
+     * @template TValue Type of the values.
+     *
+     * @param {Selector<T, TKey>} keySelector The key selector.
+     * @param {Selector<T, TValue>} [valueSelector] The custom value selector.
+     * @param {DuplicateKeyOptions<TValue, TKey>} [options] Custom options.
+     *
+     * @return {Collector<T, Map<TKey, TValue>>} The new collector.
+     */
+    export function toMap<T, TKey, TValue = T>(
+      keySelector: Selector<T, TKey>,
+      valueSelector?: Selector<T, TValue>,
+      options?: DuplicateKeyOptions<TValue, TKey>,
+    ): Collector<T, Map<TKey, TValue>> {
+      return createDictionaryCollector(
+        keySelector,
+        valueSelector,
+        options,
+        selectItem,
+      );
+    }
+
+    /**
+     * Creates a collector, which collects the items into a Set.
+     *
+     * @template T Type of the items.
+     *
+     * @return {Collector<T, Set<T>>} The new collector.
+     */
+    export function toSet<T = any>(): Collector<T, Set<T>> {
+      return {
+        accumulator: (set, item) => {
+          set.add(item);
+        },
+        combiner: (left, right) => {
+          right.forEach((item) => left.add(item));
+
+          return left;
+        },
+        supplier: () => new Set<T>(),
+      };
+    }
+
+    /**
+     * Creates a collector, which pushes the items to an existing array or stack.
+     *
+     * The container is the stack itself, so the collector does not support combining.
+     *
+     * @template T Type of the items.
+     * @template S Type of the stack.
+     *
+     * @param {S} stack The array or stack.
+     *
+     * @return {Collector<T, S>} The new collector.
+     */
+    export function toStack<T = any, S extends Stack<T> = Stack<T>>(
+      stack: S,
+    ): Collector<T, S> {
+      return createStackCollector(stack);
+    }
+  } // namespace Collectors
+
+  function closeAsyncIteratorSafe(iterator: AsyncIterator<any>) {
+    if ("function" === typeof iterator.return) {
+      // do not wait, because the iterator may still wait for its next item
+      Promise.resolve()
+        .then(() => iterator.return())
+        .catch(() => {});
+    }
   }
 
-  function getNextIteratorResultSafe<T = any>(
-    iterator: Iterator<T>,
-    defaultValue?: any,
-  ): IteratorResult<T> {
-    const RESULT = iterator.next();
+  function combineWith<A>(
+    collector: Collector<any, A, any>,
+    left: A,
+    right: A,
+  ): A {
+    if (!collector.combiner) {
+      throw new Error("Collector does not support combining");
+    }
 
-    return (
-      RESULT || {
-        done: true,
-        value: defaultValue,
-      }
-    );
+    return collector.combiner(left, right);
   }
 
-  function isNullOrUndefined(val: any): boolean {
-    return null === val || "undefined" === typeof val;
+  interface FusedPipeline {
+    source: EnumerableBase<any>;
+    stages: FusedStage[];
   }
 
-  function toComparerSafe<T = any, U = T>(
-    comparer: Comparer<T, U>,
-  ): Comparer<T, U> {
-    if (!comparer) {
-      comparer = (x: any, y: any) => {
-        if (x === y) {
-          return 0;
+  const SEQUENCE_CLASSES: Function[] = [
+    EnumerableBase,
+    EnumerableWrapper,
+    IteratorEnumerable,
+    ArrayEnumerable,
+    RangeEnumerable,
+    Grouping,
+    DeferredEnumerable,
+    DeferredOrderedEnumerable,
+    OrderedEnumerable,
+    ReversedEnumerable,
+    List,
+    HashSet,
+    SortedCollectionBase,
+    SortedList,
+    SortedSet,
+    Deque,
+    Queue,
+    PriorityQueue,
+  ];
+
+  interface PriorityQueueEntry<T> {
+    index: number;
+    value: T;
+  }
+
+  interface PushObserver<T> {
+    complete(): void;
+    error(err: any): void;
+    next(item: T): void;
+  }
+
+  function createLazyPushIterator<T>(
+    subscribe: (
+      observer: PushObserver<T>,
+      ready: () => Promise<void>,
+    ) => () => void,
+  ): AsyncIterator<T> {
+    // subscribe with the first 'next()' call
+    // and buffer, what has not been read, only
+    return createPushIterator(
+      subscribe,
+      Number.POSITIVE_INFINITY,
+      "error",
+      true,
+    );
+  }
+
+  function createPushIterator<T>(
+    subscribe: (
+      observer: PushObserver<T>,
+      ready: () => Promise<void>,
+    ) => () => void,
+    bufferSize = Number.POSITIVE_INFINITY,
+    overflow: BufferOverflowStrategy = "error",
+    isLazy = false,
+  ): AsyncIterator<T> {
+    const BUFFER: T[] = [];
+
+    let error: any;
+    let hasError = false;
+    let isEnded = false;
+    let unsubscribe: () => void;
+    // readers, which wait for the next item, in the order of their 'next()' calls
+    const WAITING_READERS: {
+      resolve: (result: IteratorResult<T>) => void;
+      reject: (reason: any) => void;
+    }[] = [];
+    // producers, which wait until the buffer has been read
+    const WAITING_WRITERS: (() => void)[] = [];
+
+    let isSubscribed = false;
+
+    const RELEASE_WRITERS = () => {
+      while (WAITING_WRITERS.length > 0) {
+        WAITING_WRITERS.shift()();
+      }
+    };
+
+    const FINISH = (action?: () => void) => {
+      if (isEnded) {
+        return;
+      }
+      isEnded = true;
+
+      if (unsubscribe) {
+        unsubscribe();
+      }
+
+      if (action) {
+        action();
+      }
+
+      // the first waiting reader receives the error (if any),
+      // all others the end of the sequence
+      while (WAITING_READERS.length > 0) {
+        const READER = WAITING_READERS.shift();
+
+        if (hasError) {
+          hasError = false;
+
+          READER.reject(error);
+        } else {
+          READER.resolve({
+            done: true,
+            value: undefined,
+          });
         }
+      }
+
+      RELEASE_WRITERS();
+    };
 
-        if (x < y) {
-          return -1;
+    const OBSERVER: PushObserver<T> = {
+      complete: () => {
+        FINISH();
+      },
+      error: (err) => {
+        FINISH(() => {
+          error = err;
+          hasError = true;
+        });
+      },
+      next: (item) => {
+        if (isEnded) {
+          return;
         }
 
-        if (x > y) {
-          return 1;
+        if (WAITING_READERS.length > 0) {
+          WAITING_READERS.shift().resolve({
+            done: false,
+            value: item,
+          });
+          return;
         }
 
-        return 0;
-      };
+        if (BUFFER.length >= bufferSize) {
+          switch (overflow) {
+            case "drop-newest":
+              return;
+
+            case "drop-oldest":
+              BUFFER.shift();
+              break;
+
+            default:
+              OBSERVER.error(
+                new RangeError(`Buffer size ${bufferSize} is exceeded`),
+              );
+              return;
+          }
+        }
+
+        if (BUFFER.length < bufferSize) {
+          BUFFER.push(item);
+        }
+      },
+    };
+
+    const READY = () => {
+      if (isEnded || BUFFER.length === 0) {
+        return Promise.resolve();
+      }
+
+      return new Promise<void>((resolve) => {
+        WAITING_WRITERS.push(resolve);
+      });
+    };
+
+    const SUBSCRIBE = () => {
+      if (isSubscribed || isEnded) {
+        return;
+      }
+      isSubscribed = true;
+
+      unsubscribe = subscribe(OBSERVER, READY);
+      if (isEnded) {
+        // has been finished while subscribing
+        unsubscribe();
+      }
+    };
+
+    if (!isLazy) {
+      SUBSCRIBE();
     }
 
-    return comparer;
+    return {
+      next: () => {
+        SUBSCRIBE();
+
+        // first the items, which have been emitted
+        // before the end or an error
+        if (BUFFER.length > 0) {
+          const ITEM = BUFFER.shift();
+          if (BUFFER.length === 0) {
+            RELEASE_WRITERS();
+          }
+
+          return Promise.resolve({
+            done: false,
+            value: ITEM,
+          });
+        }
+
+        if (isEnded) {
+          if (hasError) {
+            hasError = false;
+
+            return Promise.reject(error);
+          }
+
+          return Promise.resolve({
+            done: true,
+            value: undefined,
+          });
+        }
+
+        return new Promise<IteratorResult<T>>((resolve, reject) => {
+          WAITING_READERS.push({
+            resolve: resolve,
+            reject: reject,
+          });
+        });
+      },
+      return: (value?: any) => {
+        BUFFER.length = 0;
+        FINISH();
+
+        return Promise.resolve({
+          done: true,
+          value: value,
+        });
+      },
+    };
+  }
+
+  function delayAsync(dueTime: number, scheduler: IScheduler): Promise<void> {
+    return new Promise<void>((resolve) => {
+      scheduler.schedule(resolve, toTimeSafe(dueTime));
+    });
   }
 
-  function toEqualityComparerSafe<T = any, U = T>(
-    comparer: EqualityComparer<T, U> | true,
-  ): EqualityComparer<T, U> {
-    if (!comparer) {
-      comparer = (x: any, y: any) => x == y;
-    } else if (true === comparer) {
-      comparer = (x: any, y: any) => x === y;
+  function* emptyIterator() {
+    while (<any>false) {
+      yield <any>undefined;
     }
+  }
 
-    return comparer;
+  function flushAsync(): Promise<void> {
+    return new Promise<void>((resolve) => {
+      if ("function" === typeof setImmediate) {
+        setImmediate(resolve);
+      } else {
+        setTimeout(resolve, 0);
+      }
+    });
   }
 
-  function toItemMessageSafe<T = any>(
-    msgOrProvider: ItemMessage<T>,
-  ): (item: T, index: number) => string {
-    if (isNullOrUndefined(msgOrProvider)) {
-      msgOrProvider = (item, index) => `Condition failed at index ${index}`;
-    }
+  function sortHeapEntries<T>(heap: BinaryHeap<PriorityQueueEntry<T>>): T[] {
+    return heap
+      .toArray()
+      .sort(heap.comparer)
+      .map((entry) => entry.value);
+  }
 
-    if ("function" !== typeof msgOrProvider) {
-      const MSG = msgOrProvider;
+  function subscribeTo<T>(
+    source: AsyncIterator<T>,
+    ready: () => Promise<void>,
+    observer: PushObserver<T>,
+  ): () => void {
+    let isStopped = false;
+
+    (async () => {
+      try {
+        while (!isStopped) {
+          // do not pull the next item, before the consumer
+          // has read the items, which are already buffered
+          await ready();
+          if (isStopped) {
+            break;
+          }
 
-      msgOrProvider = () => MSG;
-    }
+          const ITEM = await source.next();
+          if (isStopped) {
+            break;
+          }
+
+          if (!ITEM || ITEM.done) {
+            observer.complete();
+            break;
+          }
+
+          observer.next(ITEM.value);
+        }
+      } catch (e) {
+        if (!isStopped) {
+          observer.error(e);
+        }
+      }
+    })();
 
-    return (item, index) => {
-      return toStringSafe((<Function>msgOrProvider)(item, index));
+    return () => {
+      if (isStopped) {
+        return;
+      }
+      isStopped = true;
+
+      closeAsyncIteratorSafe(source);
     };
   }
 
-  function toPredicateSafe<T = any>(
-    predicate: Predicate<T> | boolean,
-    defaultValue = true,
-  ): Predicate<T> {
-    if (isNullOrUndefined(predicate)) {
-      predicate = () => !!defaultValue;
+  function throwIfAborted(signal: AbortSignal) {
+    if (signal && signal.aborted) {
+      throw new AbortError((<any>signal).reason);
     }
+  }
 
-    if ("function" !== typeof predicate) {
-      const RESULT = !!predicate;
+  function toReducedValue<T>(val: T | ReducedValue<T>): ReducedValue<T> {
+    return isReduced(val) ? val : reduced(val);
+  }
 
-      predicate = () => RESULT;
+  function toSchedulerSafe(scheduler: IScheduler): IScheduler {
+    if (!scheduler) {
+      scheduler = new TimerScheduler();
     }
 
-    return predicate;
+    return scheduler;
   }
 
-  function toStringSafe(val: any): string {
-    if ("string" === typeof val) {
-      return val;
-    }
-
-    if (isNullOrUndefined(val)) {
-      val = "";
+  function toTimeSafe(time: number): number {
+    time = parseFloat(toStringSafe(time).trim());
+    if (isNaN(time) || time < 0) {
+      time = 0;
     }
 
-    return "" + val;
+    return time;
   }
 }
 
@@ -0,0 +1,577 @@
+/**
+ * node-enumerable (https://github.com/mkloubert/node-enumerable)
+ *
+ * Helpers, which are shared by the sequences of 'index' and the standalone
+ * operators of 'operators'. This module is no part of the public API.
+ */
+import type {
+  Collector,
+  Comparer,
+  DuplicateKeyOptions,
+  EqualityComparer,
+  IEqualityComparer,
+  ItemMessage,
+  JoinedItems,
+  ParallelOptions,
+  ParallelSelector,
+  Predicate,
+  Selector,
+  Sequence,
+  Stack,
+} from "./index";
+/**
+ * Indicates that something is empty.
+ */
+export declare const IS_EMPTY: unique symbol;
+/**
+ * Indicates if something was not found.
+ */
+export declare const NOT_FOUND: unique symbol;
+/**
+ * Is returned by a stage of fused operators, like 'where()', to skip an item.
+ */
+export declare const SKIP_ITEM: unique symbol;
+/**
+ * Creates the function for a stage of fused operators, like 'where()',
+ * once for each iteration.
+ *
+ * @param {Function} stop Stops the iteration after the current item.
+ *
+ * @return {Function} The function, which handles an item.
+ */
+export declare type FusedStage = (stop: () => void) => (item: any) => any;
+/**
+ * A level of an ordered sequence, like the one of 'thenBy()'.
+ */
+export interface OrderLevel<T> {
+  /**
+   * The comparer for the sort values.
+   */
+  comparer: Comparer<any, any>;
+  /**
+   * The selector for the sort values.
+   */
+  selector: Selector<T, any>;
+}
+/**
+ * An error that is thrown if an operation has been aborted by an AbortSignal.
+ */
+export declare class AbortError extends Error {
+  /**
+   * Stores the reason.
+   */
+  protected _reason: any;
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {any} [reason] The reason, why the operation has been aborted.
+   */
+  constructor(reason?: any);
+  /**
+   * Gets the reason, why the operation has been aborted.
+   */
+  get reason(): any;
+}
+/**
+ * Represents a list of errors.
+ */
+export declare class AggregateError extends Error {
+  /**
+   * Stores the errors.
+   */
+  protected _errors: any[];
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {any[]} [errors] The occurred errors.
+   */
+  constructor(errors?: any[]);
+  /**
+   * Gets the errors.
+   */
+  get errors(): any[];
+  /** @inheritdoc */
+  get stack(): string;
+  /** @inheritdoc */
+  toString(): string;
+}
+/**
+ * An error that is thrown if two items of a sequence have the same key.
+ */
+export declare class DuplicateKeyError extends Error {
+  /**
+   * Stores the key.
+   */
+  protected _key: any;
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {any} [key] The key, which is used more than once.
+   */
+  constructor(key?: any);
+  /**
+   * Gets the key, which is used more than once.
+   */
+  get key(): any;
+}
+/**
+ * A error wrapper for a function.
+ */
+export declare class FunctionError extends Error {
+  /**
+   * Stores the inner error.
+   */
+  protected _error: any;
+  /**
+   * Stores the underlying function.
+   */
+  protected _function: Function;
+  /**
+   * Stores the (zero based) index.
+   */
+  protected _index: number;
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {any} [err] The underlying, inner error.
+   * @param {Function} [func] The underlying function.
+   * @param {number} [index] The (zero based) index.
+   */
+  constructor(err?: any, func?: Function, index?: number);
+  /**
+   * Gets the (zero based) index.
+   */
+  get index(): number;
+  /**
+   * Gets the inner error.
+   */
+  get innerError(): any;
+  /** @inheritdoc */
+  get stack(): string;
+  /** @inheritdoc */
+  toString(): string;
+}
+/**
+ * A value, which signals, that a reduction should be stopped.
+ *
+ * @template T Type of the value.
+ */
+export declare class ReducedValue<T = any> {
+  /**
+   * Stores the value.
+   */
+  protected _value: T;
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {T} value The (final) value.
+   */
+  constructor(value: T);
+  /**
+   * Gets the (final) value.
+   */
+  get value(): T;
+}
+/**
+ * A map, which compares its keys by an IEqualityComparer<TKey>.
+ */
+export declare class EqualityMap<TKey = any, TValue = any> {
+  /**
+   * Stores the entries, grouped by the hash codes of their keys.
+   */
+  protected _buckets: Map<
+    any,
+    {
+      key: TKey;
+      value: TValue;
+    }[]
+  >;
+  /**
+   * Stores the comparer.
+   */
+  protected _comparer: IEqualityComparer<TKey>;
+  /**
+   * Stores all entries, in the order they have been added.
+   */
+  protected _entries: Set<{
+    key: TKey;
+    value: TValue;
+  }>;
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {IEqualityComparer<TKey>} comparer The comparer for the keys.
+   */
+  constructor(comparer: IEqualityComparer<TKey>);
+  /**
+   * Adds a new entry.
+   *
+   * @param {Array} bucket The bucket of the key.
+   * @param {TKey} key The key.
+   * @param {TValue} value The value.
+   */
+  protected addEntry(
+    bucket: {
+      key: TKey;
+      value: TValue;
+    }[],
+    key: TKey,
+    value: TValue,
+  ): void;
+  /**
+   * Removes all entries.
+   */
+  clear(): void;
+  /**
+   * Removes a key.
+   *
+   * @param {TKey} key The key.
+   *
+   * @return {boolean} Key has been removed or not.
+   */
+  delete(key: TKey): boolean;
+  /**
+   * Finds the entry of a key.
+   *
+   * @param {TKey} key The key.
+   * @param {boolean} [create] Create the bucket of the key, if it does not exist.
+   *
+   * @return The bucket and the entry, if found.
+   */
+  protected findEntry(
+    key: TKey,
+    create?: boolean,
+  ): {
+    bucket: {
+      key: TKey;
+      value: TValue;
+    }[];
+    entry: {
+      key: TKey;
+      value: TValue;
+    };
+  };
+  /**
+   * Returns the value of a key, or adds a new one.
+   *
+   * @param {TKey} key The key.
+   * @param {Function} valueFactory The function, which creates a new value.
+   *
+   * @return {TValue} The (new) value.
+   */
+  getOrAdd(key: TKey, valueFactory: () => TValue): TValue;
+  /**
+   * Returns the value of a key.
+   *
+   * @param {TKey} key The key.
+   *
+   * @return {TValue} The value or (undefined) if not found.
+   */
+  get(key: TKey): TValue;
+  /**
+   * Checks if a key exists.
+   *
+   * @param {TKey} key The key.
+   *
+   * @return {boolean} Key exists or not.
+   */
+  has(key: TKey): boolean;
+  /**
+   * Returns the keys, in the order they have been added.
+   */
+  keys(): IterableIterator<TKey>;
+  /**
+   * Gets the number of entries.
+   */
+  get size(): number;
+  /**
+   * Adds a key, if it does not exist.
+   *
+   * @param {TKey} key The key.
+   * @param {TValue} value The value.
+   *
+   * @return {boolean} Key has been added or not.
+   */
+  tryAdd(key: TKey, value: TValue): boolean;
+}
+/**
+ * A binary heap, which keeps the lowest item at its top.
+ */
+export declare class BinaryHeap<T = any> {
+  /**
+   * Stores the comparer.
+   */
+  protected _comparer: Comparer<T, T>;
+  /**
+   * Stores the items.
+   */
+  protected _items: T[];
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {Comparer<T,T>} comparer The comparer for the items.
+   */
+  constructor(comparer: Comparer<T, T>);
+  /**
+   * Removes all items.
+   */
+  clear(): void;
+  /**
+   * Gets the comparer.
+   */
+  get comparer(): Comparer<T, T>;
+  /**
+   * Returns the lowest item without removing it.
+   *
+   * @return {T} The item or (undefined) if heap is empty.
+   */
+  peek(): T;
+  /**
+   * Removes the lowest item.
+   *
+   * @return {T} The removed item or (undefined) if heap is empty.
+   */
+  pop(): T;
+  /**
+   * Adds a new item.
+   *
+   * @param {T} item The item to add.
+   */
+  push(item: T): void;
+  /**
+   * Gets the number of items.
+   */
+  get size(): number;
+  /**
+   * Returns a copy of the items, in the order of the heap.
+   *
+   * @return {T[]} The items.
+   */
+  toArray(): T[];
+}
+/**
+ * A queue of items with a fixed capacity, which grows if needed.
+ */
+export declare class RingBuffer<T = any> {
+  /**
+   * Stores the items.
+   */
+  protected _buffer: T[];
+  /**
+   * Stores the index of the first item.
+   */
+  protected _head: number;
+  /**
+   * Stores the number of items.
+   */
+  protected _size: number;
+  /**
+   * Removes all items.
+   */
+  clear(): void;
+  /**
+   * Doubles the capacity, if the buffer is full.
+   */
+  protected ensureCapacity(): void;
+  /**
+   * Returns the position of an item inside the buffer.
+   *
+   * @param {number} index The zero based index of the item.
+   *
+   * @return {number} The position.
+   */
+  protected getPosition(index: number): number;
+  /**
+   * Returns the last item without removing it.
+   *
+   * @return {T} The item or (undefined) if empty.
+   */
+  peekBack(): T;
+  /**
+   * Returns the first item without removing it.
+   *
+   * @return {T} The item or (undefined) if empty.
+   */
+  peekFront(): T;
+  /**
+   * Removes the last item.
+   *
+   * @return {T} The item or (undefined) if empty.
+   */
+  popBack(): T;
+  /**
+   * Removes the first item.
+   *
+   * @return {T} The item or (undefined) if empty.
+   */
+  popFront(): T;
+  /**
+   * Adds an item to the back.
+   *
+   * @param {T} item The item to add.
+   */
+  pushBack(item: T): void;
+  /**
+   * Adds an item to the front.
+   *
+   * @param {T} item The item to add.
+   */
+  pushFront(item: T): void;
+  /**
+   * Gets the number of items.
+   */
+  get size(): number;
+  /**
+   * Returns a copy of the items, from front to back.
+   *
+   * @return {T[]} The items.
+   */
+  toArray(): T[];
+}
+/**
+ * A re-iterable sequence, which runs the stages of fused operators,
+ * like 'where()' and 'select()', in one loop over its source.
+ *
+ * @template T Type of the items.
+ */
+export declare class FusedIterable<T = any> implements Iterable<T> {
+  /**
+   * Stores the source.
+   */
+  protected _source: Iterable<any>;
+  /**
+   * Stores the stages.
+   */
+  protected _stages: FusedStage[];
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {Iterable<any>} source The source.
+   * @param {FusedStage[]} stages The stages.
+   */
+  constructor(source: Iterable<any>, stages: FusedStage[]);
+  /** @inheritdoc */
+  [Symbol.iterator](): Iterator<T>;
+  /**
+   * Gets the source.
+   */
+  get source(): Iterable<any>;
+  /**
+   * Gets the stages.
+   */
+  get stages(): FusedStage[];
+}
+/**
+ * Checks if a value has been wrapped by 'reduced()'.
+ *
+ * @param {any} val The value to check.
+ *
+ * @return {boolean} Is reduced value or not.
+ */
+export declare function isReduced<T = any>(val: any): val is ReducedValue<T>;
+export declare function isSequence<T = any>(val: any): val is Sequence<T>;
+export declare function accumulateWith<T, A>(
+  collector: Collector<T, A, any>,
+  container: A,
+  item: T,
+): A;
+export declare function compareByLevels(
+  levels: OrderLevel<any>[],
+  x: any[],
+  y: any[],
+): number;
+export declare function compareItems(x: any, y: any): number;
+export declare function createDictionaryCollector<T, TKey, TValue>(
+  keySelector: Selector<T, TKey>,
+  valueSelector: Selector<T, TValue>,
+  options: DuplicateKeyOptions<TValue, TKey>,
+  keyConverter: (key: TKey) => any,
+): Collector<T, Map<any, TValue>>;
+export declare function createStackCollector<T, S extends Stack<T>>(
+  stack: S,
+): Collector<T, S>;
+export declare function finishWith<A, R>(
+  collector: Collector<any, A, R>,
+  container: A,
+): R;
+export declare function getDefaultHashCode(val: any): any;
+export declare function getOrDefaultArguments<T = any, U = T>(
+  predicateOrDefaultValue: Predicate<T> | T,
+  defaultValue: U,
+  paramCount: number,
+): {
+  defaultValue: any;
+  hasPredicate: boolean;
+  predicate: Predicate<T>;
+};
+export declare function getNextIteratorResultSafe<T = any>(
+  iterator: Iterator<T>,
+  defaultValue?: any,
+): IteratorResult<T>;
+export declare function groupItems<T, TKey>(
+  items: Iterable<T>,
+  keySelector: Selector<T, TKey>,
+  keyEqualityComparer?: IEqualityComparer<TKey>,
+): {
+  key: TKey;
+  values: T[];
+}[];
+export declare function invokeForValidNumber(
+  x: any,
+  action: (n: number) => any,
+  handleAsInt?: boolean,
+): any;
+export declare function isDefaultEqual(x: any, y: any): boolean;
+export declare function isNullOrUndefined(val: any): boolean;
+export declare function joinGroups<T, TInner, TOuterKey, TInnerKey>(
+  outer: Iterable<T>,
+  inner: Sequence<TInner>,
+  outerKeySelector: Selector<T, TOuterKey>,
+  innerKeySelector: Selector<TInner, TInnerKey>,
+  keyEqualityComparer:
+    | EqualityComparer<TOuterKey, TInnerKey>
+    | IEqualityComparer<TOuterKey | TInnerKey>
+    | true,
+): IterableIterator<JoinedItems<T[], TInner[]>>;
+export declare function runFusedStages(
+  source: Iterable<any>,
+  stages: FusedStage[],
+): Generator<any, void, unknown>;
+export declare function selectFirstItems<T, TKey>(
+  items: Iterable<T>,
+  count: number,
+  keySelector: (item: T) => TKey,
+  comparer: Comparer<TKey, TKey>,
+): T[];
+export declare function selectItem<T>(item: T): any;
+export declare function selectKeysByLevels<T>(
+  levels: OrderLevel<T>[],
+  item: T,
+): any[];
+export declare function selectParallelItems<T, U>(
+  iterator: AsyncIterator<T>,
+  selector: ParallelSelector<T, U>,
+  options: ParallelOptions,
+): AsyncIterableIterator<U>;
+export declare function sortByLevels<T>(
+  items: T[],
+  levels: OrderLevel<T>[],
+): T[];
+export declare function toComparerSafe<T = any, U = T>(
+  comparer: Comparer<T, U>,
+): Comparer<T, U>;
+export declare function toEqualityComparerSafe<T = any, U = T>(
+  comparer: EqualityComparer<T, U> | true,
+): EqualityComparer<T, U>;
+export declare function toIEqualityComparerSafe<T = any>(
+  comparer: EqualityComparer<T> | IEqualityComparer<T> | true,
+): IEqualityComparer<T>;
+export declare function toIterable<T>(seq: Sequence<T>): Iterable<T>;
+export declare function toItemMessageSafe<T = any>(
+  msgOrProvider: ItemMessage<T>,
+): (item: T, index: number) => string;
+export declare function toPredicateSafe<T = any>(
+  predicate: Predicate<T> | boolean,
+  defaultValue?: boolean,
+): Predicate<T>;
+export declare function toStringSafe(val: any): string;
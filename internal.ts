@@ -0,0 +1,1784 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+/**
+ * node-enumerable (https://github.com/mkloubert/node-enumerable)
+ *
+ * Helpers, which are shared by the sequences of 'index' and the standalone
+ * operators of 'operators'. This module is no part of the public API.
+ */
+import type {
+  Collector,
+  Comparer,
+  DuplicateKeyMerger,
+  DuplicateKeyOptions,
+  EqualityComparer,
+  IEqualityComparer,
+  ItemMessage,
+  JoinedItems,
+  ParallelOptions,
+  ParallelSelector,
+  Predicate,
+  Selector,
+  Sequence,
+  Stack,
+} from "./index";
+
+/**
+ * Indicates that something is empty.
+ */
+export const IS_EMPTY = Symbol("IS_EMPTY");
+
+/**
+ * Indicates if something was not found.
+ */
+export const NOT_FOUND = Symbol("NOT_FOUND");
+
+/**
+ * Is returned by a stage of fused operators, like 'where()', to skip an item.
+ */
+export const SKIP_ITEM = Symbol("SKIP_ITEM");
+
+const OBJECT_IDS = new WeakMap<object, number>();
+const WELL_KNOWN_SYMBOLS = new Map<symbol, string>(
+  Object.getOwnPropertyNames(Symbol)
+    .filter((name) => "symbol" === typeof (<any>Symbol)[name])
+    .map((name) => [(<any>Symbol)[name], name]),
+);
+let lastObjectId = 0;
+
+/**
+ * Creates the function for a stage of fused operators, like 'where()',
+ * once for each iteration.
+ *
+ * @param {Function} stop Stops the iteration after the current item.
+ *
+ * @return {Function} The function, which handles an item.
+ */
+export type FusedStage = (stop: () => void) => (item: any) => any;
+
+/**
+ * A level of an ordered sequence, like the one of 'thenBy()'.
+ */
+export interface OrderLevel<T> {
+  /**
+   * The comparer for the sort values.
+   */
+  comparer: Comparer<any, any>;
+  /**
+   * The selector for the sort values.
+   */
+  selector: Selector<T, any>;
+}
+
+/**
+ * An error that is thrown if an operation has been aborted by an AbortSignal.
+ */
+export class AbortError extends Error {
+  /**
+   * Stores the reason.
+   */
+  protected _reason: any;
+
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {any} [reason] The reason, why the operation has been aborted.
+   */
+  constructor(reason?: any) {
+    super("The operation was aborted");
+
+    this.name = "AbortError";
+    this._reason = reason;
+  }
+
+  /**
+   * Gets the reason, why the operation has been aborted.
+   */
+  public get reason(): any {
+    return this._reason;
+  }
+}
+
+/**
+ * Represents a list of errors.
+ */
+export class AggregateError extends Error {
+  /**
+   * Stores the errors.
+   */
+  protected _errors: any[];
+
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {any[]} [errors] The occurred errors.
+   */
+  constructor(errors?: any[]) {
+    super();
+
+    this._errors = (errors || []).filter((e) => {
+      return !isNullOrUndefined(e);
+    });
+  }
+
+  /**
+   * Gets the errors.
+   */
+  public get errors(): any[] {
+    return this._errors;
+  }
+
+  /** @inheritdoc */
+  public get stack(): string {
+    return this.errors
+      .map((e, i) => {
+        const TITLE = "STACK #" + (i + 1);
+        const LINE = "=".repeat(TITLE.length + 5);
+
+        return `${TITLE}\n${LINE}\n${toStringSafe(e["stack"])}`;
+      })
+      .join("\n\n");
+  }
+
+  /** @inheritdoc */
+  public toString(): string {
+    return this.errors
+      .map((e, i) => {
+        const TITLE = "ERROR #" + (i + 1);
+        const LINE = "=".repeat(TITLE.length + 5);
+
+        return `${TITLE}\n${LINE}\n${e}`;
+      })
+      .join("\n\n");
+  }
+}
+
+/**
+ * An error that is thrown if two items of a sequence have the same key.
+ */
+export class DuplicateKeyError extends Error {
+  /**
+   * Stores the key.
+   */
+  protected _key: any;
+
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {any} [key] The key, which is used more than once.
+   */
+  constructor(key?: any) {
+    super(`The key '${String(key)}' is used more than once`);
+
+    this.name = "DuplicateKeyError";
+    this._key = key;
+  }
+
+  /**
+   * Gets the key, which is used more than once.
+   */
+  public get key(): any {
+    return this._key;
+  }
+}
+
+/**
+ * A error wrapper for a function.
+ */
+export class FunctionError extends Error {
+  /**
+   * Stores the inner error.
+   */
+  protected _error: any;
+  /**
+   * Stores the underlying function.
+   */
+  protected _function: Function;
+  /**
+   * Stores the (zero based) index.
+   */
+  protected _index: number;
+
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {any} [err] The underlying, inner error.
+   * @param {Function} [func] The underlying function.
+   * @param {number} [index] The (zero based) index.
+   */
+  constructor(err?: any, func?: Function, index?: number) {
+    super();
+
+    this._error = err;
+    this._function = func;
+    this._index = index;
+  }
+
+  /**
+   * Gets the (zero based) index.
+   */
+  public get index(): number {
+    return this._index;
+  }
+
+  /**
+   * Gets the inner error.
+   */
+  public get innerError(): any {
+    return this._error;
+  }
+
+  /** @inheritdoc */
+  public get stack(): string {
+    if (this.innerError) {
+      return this.innerError["stack"];
+    }
+  }
+
+  /** @inheritdoc */
+  public toString(): string {
+    let title = "ACTION ERROR";
+    if (!isNaN(this.index)) {
+      title += " #" + this.index;
+    }
+
+    const LINE = "=".repeat(title.length + 5);
+
+    let content = "";
+    if (this.innerError) {
+      content += this.innerError;
+    }
+
+    return `${title}\n${LINE}\n${content}`;
+  }
+}
+
+/**
+ * A value, which signals, that a reduction should be stopped.
+ *
+ * @template T Type of the value.
+ */
+export class ReducedValue<T = any> {
+  /**
+   * Stores the value.
+   */
+  protected _value: T;
+
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {T} value The (final) value.
+   */
+  constructor(value: T) {
+    this._value = value;
+  }
+
+  /**
+   * Gets the (final) value.
+   */
+  public get value(): T {
+    return this._value;
+  }
+} // ReducedValue<T>
+
+/**
+ * A map, which compares its keys by an IEqualityComparer<TKey>.
+ */
+export class EqualityMap<TKey = any, TValue = any> {
+  /**
+   * Stores the entries, grouped by the hash codes of their keys.
+   */
+  protected _buckets = new Map<any, { key: TKey; value: TValue }[]>();
+  /**
+   * Stores the comparer.
+   */
+  protected _comparer: IEqualityComparer<TKey>;
+  /**
+   * Stores all entries, in the order they have been added.
+   */
+  protected _entries = new Set<{ key: TKey; value: TValue }>();
+
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {IEqualityComparer<TKey>} comparer The comparer for the keys.
+   */
+  constructor(comparer: IEqualityComparer<TKey>) {
+    this._comparer = comparer;
+  }
+
+  /**
+   * Adds a new entry.
+   *
+   * @param {Array} bucket The bucket of the key.
+   * @param {TKey} key The key.
+   * @param {TValue} value The value.
+   */
+  protected addEntry(
+    bucket: { key: TKey; value: TValue }[],
+    key: TKey,
+    value: TValue,
+  ): void {
+    const ENTRY = {
+      key: key,
+      value: value,
+    };
+
+    bucket.push(ENTRY);
+    this._entries.add(ENTRY);
+  }
+
+  /**
+   * Removes all entries.
+   */
+  public clear(): void {
+    this._buckets.clear();
+    this._entries.clear();
+  }
+
+  /**
+   * Removes a key.
+   *
+   * @param {TKey} key The key.
+   *
+   * @return {boolean} Key has been removed or not.
+   */
+  public delete(key: TKey): boolean {
+    const RESULT = this.findEntry(key);
+    if (!RESULT.entry) {
+      return false;
+    }
+
+    RESULT.bucket.splice(RESULT.bucket.indexOf(RESULT.entry), 1);
+    if (!RESULT.bucket.length) {
+      this._buckets.delete(this._comparer.getHashCode(key));
+    }
+
+    this._entries.delete(RESULT.entry);
+    return true;
+  }
+
+  /**
+   * Finds the entry of a key.
+   *
+   * @param {TKey} key The key.
+   * @param {boolean} [create] Create the bucket of the key, if it does not exist.
+   *
+   * @return The bucket and the entry, if found.
+   */
+  protected findEntry(key: TKey, create?: boolean) {
+    const HASH_CODE = this._comparer.getHashCode(key);
+
+    let bucket = this._buckets.get(HASH_CODE);
+    if (!bucket && create) {
+      bucket = [];
+      this._buckets.set(HASH_CODE, bucket);
+    }
+
+    if (bucket) {
+      for (let entry of bucket) {
+        if (this._comparer.equals(key, entry.key)) {
+          return {
+            bucket: bucket,
+            entry: entry,
+          };
+        }
+      }
+    }
+
+    return {
+      bucket: bucket,
+      entry: <{ key: TKey; value: TValue }>undefined,
+    };
+  }
+
+  /**
+   * Returns the value of a key, or adds a new one.
+   *
+   * @param {TKey} key The key.
+   * @param {Function} valueFactory The function, which creates a new value.
+   *
+   * @return {TValue} The (new) value.
+   */
+  public getOrAdd(key: TKey, valueFactory: () => TValue): TValue {
+    const RESULT = this.findEntry(key, true);
+    if (RESULT.entry) {
+      return RESULT.entry.value;
+    }
+
+    const VALUE = valueFactory();
+    this.addEntry(RESULT.bucket, key, VALUE);
+
+    return VALUE;
+  }
+
+  /**
+   * Returns the value of a key.
+   *
+   * @param {TKey} key The key.
+   *
+   * @return {TValue} The value or (undefined) if not found.
+   */
+  public get(key: TKey): TValue {
+    const ENTRY = this.findEntry(key).entry;
+
+    return ENTRY ? ENTRY.value : undefined;
+  }
+  /**
+   * Checks if a key exists.
+   *
+   * @param {TKey} key The key.
+   *
+   * @return {boolean} Key exists or not.
+   */
+  public has(key: TKey): boolean {
+    return !!this.findEntry(key).entry;
+  }
+
+  /**
+   * Returns the keys, in the order they have been added.
+   */
+  public *keys(): IterableIterator<TKey> {
+    for (let entry of this._entries) {
+      yield entry.key;
+    }
+  }
+
+  /**
+   * Gets the number of entries.
+   */
+  public get size(): number {
+    return this._entries.size;
+  }
+
+  /**
+   * Adds a key, if it does not exist.
+   *
+   * @param {TKey} key The key.
+   * @param {TValue} value The value.
+   *
+   * @return {boolean} Key has been added or not.
+   */
+  public tryAdd(key: TKey, value: TValue): boolean {
+    const RESULT = this.findEntry(key, true);
+    if (RESULT.entry) {
+      return false;
+    }
+
+    this.addEntry(RESULT.bucket, key, value);
+
+    return true;
+  }
+} // EqualityMap<TKey, TValue>
+
+/**
+ * A binary heap, which keeps the lowest item at its top.
+ */
+export class BinaryHeap<T = any> {
+  /**
+   * Stores the comparer.
+   */
+  protected _comparer: Comparer<T, T>;
+  /**
+   * Stores the items.
+   */
+  protected _items: T[] = [];
+
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {Comparer<T,T>} comparer The comparer for the items.
+   */
+  constructor(comparer: Comparer<T, T>) {
+    this._comparer = comparer;
+  }
+
+  /**
+   * Removes all items.
+   */
+  public clear(): void {
+    this._items = [];
+  }
+  /**
+   * Gets the comparer.
+   */
+  public get comparer(): Comparer<T, T> {
+    return this._comparer;
+  }
+  /**
+   * Returns the lowest item without removing it.
+   *
+   * @return {T} The item or (undefined) if heap is empty.
+   */
+  public peek(): T {
+    return this._items[0];
+  }
+  /**
+   * Removes the lowest item.
+   *
+   * @return {T} The removed item or (undefined) if heap is empty.
+   */
+  public pop(): T {
+    const ITEMS = this._items;
+    if (ITEMS.length < 1) {
+      return undefined;
+    }
+
+    const TOP = ITEMS[0];
+    const LAST = ITEMS.pop();
+
+    if (ITEMS.length > 0) {
+      ITEMS[0] = LAST;
+
+      // sift down
+      let i = 0;
+      while (true) {
+        const LEFT = 2 * i + 1;
+        const RIGHT = LEFT + 1;
+
+        let lowest = i;
+        if (
+          LEFT < ITEMS.length &&
+          this._comparer(ITEMS[LEFT], ITEMS[lowest]) < 0
+        ) {
+          lowest = LEFT;
+        }
+        if (
+          RIGHT < ITEMS.length &&
+          this._comparer(ITEMS[RIGHT], ITEMS[lowest]) < 0
+        ) {
+          lowest = RIGHT;
+        }
+
+        if (lowest === i) {
+          break;
+        }
+
+        [ITEMS[i], ITEMS[lowest]] = [ITEMS[lowest], ITEMS[i]];
+        i = lowest;
+      }
+    }
+
+    return TOP;
+  }
+  /**
+   * Adds a new item.
+   *
+   * @param {T} item The item to add.
+   */
+  public push(item: T): void {
+    const ITEMS = this._items;
+    ITEMS.push(item);
+
+    // sift up
+    let i = ITEMS.length - 1;
+    while (i > 0) {
+      const PARENT = (i - 1) >> 1;
+      if (this._comparer(ITEMS[i], ITEMS[PARENT]) >= 0) {
+        break;
+      }
+
+      [ITEMS[i], ITEMS[PARENT]] = [ITEMS[PARENT], ITEMS[i]];
+      i = PARENT;
+    }
+  }
+  /**
+   * Gets the number of items.
+   */
+  public get size(): number {
+    return this._items.length;
+  }
+  /**
+   * Returns a copy of the items, in the order of the heap.
+   *
+   * @return {T[]} The items.
+   */
+  public toArray(): T[] {
+    return this._items.slice();
+  }
+} // BinaryHeap<T>
+
+/**
+ * A queue of items with a fixed capacity, which grows if needed.
+ */
+export class RingBuffer<T = any> {
+  /**
+   * Stores the items.
+   */
+  protected _buffer: T[] = new Array(16);
+  /**
+   * Stores the index of the first item.
+   */
+  protected _head = 0;
+  /**
+   * Stores the number of items.
+   */
+  protected _size = 0;
+
+  /**
+   * Removes all items.
+   */
+  public clear(): void {
+    this._buffer = new Array(16);
+    this._head = 0;
+    this._size = 0;
+  }
+  /**
+   * Doubles the capacity, if the buffer is full.
+   */
+  protected ensureCapacity(): void {
+    if (this._size < this._buffer.length) {
+      return;
+    }
+
+    const NEW_BUFFER: T[] = this.toArray();
+    NEW_BUFFER.length = this._buffer.length * 2;
+
+    this._buffer = NEW_BUFFER;
+    this._head = 0;
+  }
+  /**
+   * Returns the position of an item inside the buffer.
+   *
+   * @param {number} index The zero based index of the item.
+   *
+   * @return {number} The position.
+   */
+  protected getPosition(index: number): number {
+    return (this._head + index) % this._buffer.length;
+  }
+  /**
+   * Returns the last item without removing it.
+   *
+   * @return {T} The item or (undefined) if empty.
+   */
+  public peekBack(): T {
+    return this._size > 0
+      ? this._buffer[this.getPosition(this._size - 1)]
+      : undefined;
+  }
+  /**
+   * Returns the first item without removing it.
+   *
+   * @return {T} The item or (undefined) if empty.
+   */
+  public peekFront(): T {
+    return this._size > 0 ? this._buffer[this._head] : undefined;
+  }
+  /**
+   * Removes the last item.
+   *
+   * @return {T} The item or (undefined) if empty.
+   */
+  public popBack(): T {
+    if (this._size < 1) {
+      return undefined;
+    }
+
+    const POS = this.getPosition(this._size - 1);
+    const ITEM = this._buffer[POS];
+
+    this._buffer[POS] = undefined; // do not hold a reference
+    --this._size;
+
+    return ITEM;
+  }
+  /**
+   * Removes the first item.
+   *
+   * @return {T} The item or (undefined) if empty.
+   */
+  public popFront(): T {
+    if (this._size < 1) {
+      return undefined;
+    }
+
+    const ITEM = this._buffer[this._head];
+
+    this._buffer[this._head] = undefined; // do not hold a reference
+    this._head = this.getPosition(1);
+    --this._size;
+
+    return ITEM;
+  }
+  /**
+   * Adds an item to the back.
+   *
+   * @param {T} item The item to add.
+   */
+  public pushBack(item: T): void {
+    this.ensureCapacity();
+
+    this._buffer[this.getPosition(this._size)] = item;
+    ++this._size;
+  }
+  /**
+   * Adds an item to the front.
+   *
+   * @param {T} item The item to add.
+   */
+  public pushFront(item: T): void {
+    this.ensureCapacity();
+
+    this._head = this.getPosition(this._buffer.length - 1);
+    this._buffer[this._head] = item;
+    ++this._size;
+  }
+  /**
+   * Gets the number of items.
+   */
+  public get size(): number {
+    return this._size;
+  }
+  /**
+   * Returns a copy of the items, from front to back.
+   *
+   * @return {T[]} The items.
+   */
+  public toArray(): T[] {
+    const ITEMS: T[] = new Array(this._size);
+    for (let i = 0; i < this._size; i++) {
+      ITEMS[i] = this._buffer[this.getPosition(i)];
+    }
+
+    return ITEMS;
+  }
+} // RingBuffer<T>
+
+/**
+ * A re-iterable sequence, which runs the stages of fused operators,
+ * like 'where()' and 'select()', in one loop over its source.
+ *
+ * @template T Type of the items.
+ */
+export class FusedIterable<T = any> implements Iterable<T> {
+  /**
+   * Stores the source.
+   */
+  protected _source: Iterable<any>;
+  /**
+   * Stores the stages.
+   */
+  protected _stages: FusedStage[];
+
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {Iterable<any>} source The source.
+   * @param {FusedStage[]} stages The stages.
+   */
+  constructor(source: Iterable<any>, stages: FusedStage[]) {
+    this._source = source;
+    this._stages = stages;
+  }
+
+  /** @inheritdoc */
+  public [Symbol.iterator](): Iterator<T> {
+    return runFusedStages(this._source, this._stages);
+  }
+
+  /**
+   * Gets the source.
+   */
+  public get source(): Iterable<any> {
+    return this._source;
+  }
+
+  /**
+   * Gets the stages.
+   */
+  public get stages(): FusedStage[] {
+    return this._stages;
+  }
+} // FusedIterable<T>
+
+/**
+ * Checks if a value has been wrapped by 'reduced()'.
+ *
+ * @param {any} val The value to check.
+ *
+ * @return {boolean} Is reduced value or not.
+ */
+export function isReduced<T = any>(val: any): val is ReducedValue<T> {
+  return val instanceof ReducedValue;
+} // isReduced()
+
+export function isSequence<T = any>(val: any): val is Sequence<T> {
+  if (!isNullOrUndefined(val)) {
+    if ("function" === typeof val[Symbol.iterator]) {
+      // Iterator<T>
+      return true;
+    }
+
+    if (Array.isArray(val)) {
+      return true;
+    }
+
+    if ("string" === typeof val) {
+      return true;
+    }
+  }
+
+  return false;
+} // isSequence()
+
+export function accumulateWith<T, A>(
+  collector: Collector<T, A, any>,
+  container: A,
+  item: T,
+): A {
+  const NEW_CONTAINER = collector.accumulator(container, item);
+
+  return undefined === NEW_CONTAINER ? container : <A>NEW_CONTAINER;
+}
+
+export function compareByLevels(
+  levels: OrderLevel<any>[],
+  x: any[],
+  y: any[],
+): number {
+  for (let i = 0; i < levels.length; i++) {
+    const COMP = levels[i].comparer(x[i], y[i]);
+    if (0 != COMP) {
+      return COMP;
+    }
+  }
+
+  return 0;
+}
+
+export function compareItems(x: any, y: any): number {
+  if (x === y) {
+    return 0;
+  }
+
+  if (x < y) {
+    return -1;
+  }
+
+  if (x > y) {
+    return 1;
+  }
+
+  return 0;
+}
+
+export function createDictionaryCollector<T, TKey, TValue>(
+  keySelector: Selector<T, TKey>,
+  valueSelector: Selector<T, TValue>,
+  options: DuplicateKeyOptions<TValue, TKey>,
+  keyConverter: (key: TKey) => any,
+): Collector<T, Map<any, TValue>> {
+  if (!valueSelector) {
+    valueSelector = selectItem;
+  }
+
+  if (!options) {
+    options = {};
+  }
+
+  let onDuplicate = <DuplicateKeyMerger<TValue, TKey>>options.onDuplicate;
+  if ("function" !== typeof onDuplicate) {
+    const POLICY = toStringSafe(onDuplicate).toLowerCase().trim();
+
+    if ("first" === POLICY) {
+      onDuplicate = (existingValue) => existingValue;
+    } else if ("last" === POLICY) {
+      onDuplicate = (existingValue, newValue) => newValue;
+    } else {
+      onDuplicate = (existingValue, newValue, key) => {
+        throw new DuplicateKeyError(key);
+      };
+    }
+  }
+
+  const SET_VALUE = (
+    dict: Map<any, TValue>,
+    key: TKey,
+    value: TValue,
+    dictKey = keyConverter(key),
+  ) => {
+    if (dict.has(dictKey)) {
+      dict.set(dictKey, onDuplicate(dict.get(dictKey), value, key));
+    } else {
+      dict.set(dictKey, value);
+    }
+  };
+
+  return {
+    accumulator: (dict, item) => {
+      SET_VALUE(dict, keySelector(item), valueSelector(item));
+    },
+    combiner: (left, right) => {
+      right.forEach((value, dictKey) => {
+        SET_VALUE(left, dictKey, value, dictKey);
+      });
+
+      return left;
+    },
+    supplier: () => new Map<any, TValue>(),
+  };
+}
+
+export function createStackCollector<T, S extends Stack<T>>(
+  stack: S,
+): Collector<T, S> {
+  return {
+    accumulator: (s, item) => {
+      s.push(item);
+    },
+    supplier: () => stack,
+  };
+}
+
+export function finishWith<A, R>(
+  collector: Collector<any, A, R>,
+  container: A,
+): R {
+  return collector.finisher ? collector.finisher(container) : <any>container;
+}
+
+export function getDefaultHashCode(val: any): any {
+  if (isNullOrUndefined(val)) {
+    return null; // null == undefined
+  }
+
+  switch (typeof val) {
+    case "bigint":
+    case "boolean":
+      return Number(val);
+
+    case "string":
+      // numeric strings are equal to numbers, like "1" == 1
+      const NUM = Number(val);
+
+      return isNaN(NUM) ? val : NUM;
+  }
+
+  if (isValueObject(val)) {
+    return toValueKey(val);
+  }
+
+  return val;
+}
+
+function getObjectId(obj: object): number {
+  let id = OBJECT_IDS.get(obj);
+  if (isNullOrUndefined(id)) {
+    id = ++lastObjectId;
+
+    OBJECT_IDS.set(obj, id);
+  }
+
+  return id;
+}
+
+export function getOrDefaultArguments<T = any, U = T>(
+  predicateOrDefaultValue: Predicate<T> | T,
+  defaultValue: U,
+  paramCount: number,
+) {
+  let predicate: Predicate<T>;
+  let defVal: any;
+
+  if (paramCount < 1) {
+    defVal = NOT_FOUND;
+  } else if (paramCount < 2) {
+    if ("function" === typeof predicateOrDefaultValue) {
+      predicate = <Predicate<T>>predicateOrDefaultValue;
+      defVal = NOT_FOUND;
+    } else {
+      defVal = predicateOrDefaultValue;
+    }
+  } else {
+    predicate = <any>predicateOrDefaultValue;
+    defVal = defaultValue;
+  }
+
+  return {
+    defaultValue: defVal,
+    hasPredicate: !!predicate,
+    predicate: toPredicateSafe(predicate),
+  };
+}
+
+export function getNextIteratorResultSafe<T = any>(
+  iterator: Iterator<T>,
+  defaultValue?: any,
+): IteratorResult<T> {
+  const RESULT = iterator.next();
+
+  return (
+    RESULT || {
+      done: true,
+      value: defaultValue,
+    }
+  );
+}
+
+export function groupItems<T, TKey>(
+  items: Iterable<T>,
+  keySelector: Selector<T, TKey>,
+  keyEqualityComparer?: IEqualityComparer<TKey>,
+): { key: TKey; values: T[] }[] {
+  if (!keyEqualityComparer) {
+    keyEqualityComparer = toIEqualityComparerSafe(null);
+  }
+
+  const GROUPS = new EqualityMap<TKey, { key: TKey; values: T[] }>(
+    keyEqualityComparer,
+  );
+  const GROUP_LIST: { key: TKey; values: T[] }[] = [];
+
+  for (let item of items) {
+    const KEY = keySelector(item);
+
+    const GRP = GROUPS.getOrAdd(KEY, () => {
+      const NEW_GRP = {
+        key: KEY,
+        values: <T[]>[],
+      };
+
+      GROUP_LIST.push(NEW_GRP);
+      return NEW_GRP;
+    });
+
+    GRP.values.push(item);
+  }
+
+  return GROUP_LIST;
+}
+
+export function invokeForValidNumber(
+  x: any,
+  action: (n: number) => any,
+  handleAsInt = false,
+) {
+  if ("number" !== typeof x) {
+    if (!handleAsInt) {
+      x = parseFloat(toStringSafe(x).trim());
+    } else {
+      x = parseInt(toStringSafe(x).trim());
+    }
+  }
+
+  if (!isNaN(x)) {
+    if (action) {
+      x = action(x);
+    }
+  }
+
+  return x;
+} // invokeForNumber()
+
+export function isDefaultEqual(x: any, y: any): boolean {
+  const IS_X_VALUE_OBJECT = isValueObject(x);
+  const IS_Y_VALUE_OBJECT = isValueObject(y);
+
+  if (IS_X_VALUE_OBJECT || IS_Y_VALUE_OBJECT) {
+    if (!IS_X_VALUE_OBJECT || !IS_Y_VALUE_OBJECT) {
+      return false;
+    }
+
+    // the IDs of unique symbols are only valid for that comparison
+    const SYMBOL_IDS = new Map<symbol, number>();
+
+    return toValueKey(x, SYMBOL_IDS) === toValueKey(y, SYMBOL_IDS);
+  }
+
+  return x == y;
+}
+
+export function isNullOrUndefined(val: any): boolean {
+  return null === val || "undefined" === typeof val;
+}
+
+function isOrderedBy(seq: any, keySelector: Selector): boolean {
+  // like the sequences of 'orderBy()'
+  return (
+    !isNullOrUndefined(seq) &&
+    "function" === typeof seq.comparer &&
+    keySelector === seq.selector
+  );
+}
+
+function isValueObject(val: any): boolean {
+  if (Array.isArray(val) || val instanceof Date) {
+    return true;
+  }
+
+  if (val && "object" === typeof val) {
+    const PROTO = Object.getPrototypeOf(val);
+
+    return null === PROTO || Object.prototype === PROTO;
+  }
+
+  return false;
+}
+
+export function* joinGroups<T, TInner, TOuterKey, TInnerKey>(
+  outer: Iterable<T>,
+  inner: Sequence<TInner>,
+  outerKeySelector: Selector<T, TOuterKey>,
+  innerKeySelector: Selector<TInner, TInnerKey>,
+  keyEqualityComparer:
+    | EqualityComparer<TOuterKey, TInnerKey>
+    | IEqualityComparer<TOuterKey | TInnerKey>
+    | true,
+): IterableIterator<JoinedItems<T[], TInner[]>> {
+  if ("function" === typeof keyEqualityComparer) {
+    // no hash codes
+    yield* loopJoinGroups(
+      outer,
+      toIterable(inner),
+      outerKeySelector,
+      innerKeySelector,
+      keyEqualityComparer,
+    );
+    return;
+  }
+
+  const COMPARER = toIEqualityComparerSafe<any>(keyEqualityComparer);
+
+  if (!keyEqualityComparer || true === keyEqualityComparer) {
+    // equal keys of a custom comparer may not be neighbors
+    const ORDER_COMPARER = getMergeJoinComparer(
+      outer,
+      inner,
+      outerKeySelector,
+      innerKeySelector,
+    );
+
+    if (ORDER_COMPARER) {
+      yield* mergeJoinGroups(
+        outer,
+        <Iterable<TInner>>inner,
+        outerKeySelector,
+        innerKeySelector,
+        ORDER_COMPARER,
+        COMPARER,
+      );
+      return;
+    }
+  }
+
+  yield* hashJoinGroups(
+    outer,
+    toIterable(inner),
+    outerKeySelector,
+    innerKeySelector,
+    COMPARER,
+  );
+}
+
+function* hashJoinGroups<T, TInner>(
+  outer: Iterable<T>,
+  inner: Iterable<TInner>,
+  outerKeySelector: Selector<T>,
+  innerKeySelector: Selector<TInner>,
+  comparer: IEqualityComparer,
+): IterableIterator<JoinedItems<T[], TInner[]>> {
+  const OUTER_GROUPS = new EqualityMap<any, JoinedItems<T[], TInner[]>>(
+    comparer,
+  );
+  const OUTER_LIST: { key: any; group: JoinedItems<T[], TInner[]> }[] = [];
+  for (let item of outer) {
+    const KEY = outerKeySelector(item);
+
+    OUTER_GROUPS.getOrAdd(KEY, () => {
+      const NEW_GRP: JoinedItems<T[], TInner[]> = {
+        inner: undefined,
+        outer: [],
+      };
+
+      OUTER_LIST.push({
+        key: KEY,
+        group: NEW_GRP,
+      });
+      return NEW_GRP;
+    }).outer.push(item);
+  }
+
+  const INNER_GROUPS = new EqualityMap<any, TInner[]>(comparer);
+  for (let item of inner) {
+    INNER_GROUPS.getOrAdd(innerKeySelector(item), () => []).push(item);
+  }
+
+  for (let entry of OUTER_LIST) {
+    const INNER_ITEMS = INNER_GROUPS.get(entry.key);
+    if (INNER_ITEMS) {
+      entry.group.inner = INNER_ITEMS;
+
+      yield entry.group;
+    }
+  }
+}
+
+function* loopJoinGroups<T, TInner, TOuterKey, TInnerKey>(
+  outer: Iterable<T>,
+  inner: Iterable<TInner>,
+  outerKeySelector: Selector<T, TOuterKey>,
+  innerKeySelector: Selector<TInner, TInnerKey>,
+  keyEqualityComparer: EqualityComparer<TOuterKey, TInnerKey>,
+): IterableIterator<JoinedItems<T[], TInner[]>> {
+  const OUTER_GROUPS = groupItems(outer, outerKeySelector);
+  const INNER_GROUPS = groupItems(inner, innerKeySelector);
+
+  for (let outerGrp of OUTER_GROUPS) {
+    for (let innerGrp of INNER_GROUPS) {
+      if (keyEqualityComparer(outerGrp.key, innerGrp.key)) {
+        yield {
+          inner: innerGrp.values,
+          outer: outerGrp.values,
+        };
+      }
+    }
+  }
+}
+
+function* mergeJoinGroups<T, TInner>(
+  outer: Iterable<T>,
+  inner: Iterable<TInner>,
+  outerKeySelector: Selector<T>,
+  innerKeySelector: Selector<TInner>,
+  orderComparer: Comparer,
+  comparer: IEqualityComparer,
+): IterableIterator<JoinedItems<T[], TInner[]>> {
+  const OUTER_RUNS = splitSortedSequence(
+    outer,
+    outerKeySelector,
+    orderComparer,
+  );
+  const INNER_RUNS = splitSortedSequence(
+    inner,
+    innerKeySelector,
+    orderComparer,
+  );
+
+  let outerRun = OUTER_RUNS.next();
+  let innerRun = INNER_RUNS.next();
+  while (!outerRun.done && !innerRun.done) {
+    const COMP = orderComparer(outerRun.value.key, innerRun.value.key);
+
+    if (COMP < 0) {
+      outerRun = OUTER_RUNS.next();
+    } else if (COMP > 0) {
+      innerRun = INNER_RUNS.next();
+    } else {
+      // keys, which are equal for the sort order, are not always equal for the join
+      yield* hashJoinGroups(
+        outerRun.value.values,
+        innerRun.value.values,
+        outerKeySelector,
+        innerKeySelector,
+        comparer,
+      );
+
+      outerRun = OUTER_RUNS.next();
+      innerRun = INNER_RUNS.next();
+    }
+  }
+}
+
+function* splitSortedSequence<T>(
+  seq: Iterable<T>,
+  keySelector: Selector<T>,
+  comparer: Comparer,
+): IterableIterator<{ key: any; values: T[] }> {
+  let run: { key: any; values: T[] };
+  for (let item of seq) {
+    const KEY = keySelector(item);
+
+    if (run && 0 === comparer(run.key, KEY)) {
+      run.values.push(item);
+    } else {
+      if (run) {
+        yield run;
+      }
+
+      run = {
+        key: KEY,
+        values: [item],
+      };
+    }
+  }
+
+  if (run) {
+    yield run;
+  }
+}
+
+function getMergeJoinComparer(
+  outer: any,
+  inner: any,
+  outerKeySelector: Selector,
+  innerKeySelector: Selector,
+): Comparer {
+  if (
+    isOrderedBy(outer, outerKeySelector) &&
+    isOrderedBy(inner, innerKeySelector)
+  ) {
+    if (outer.comparer === inner.comparer) {
+      return outer.comparer;
+    }
+  }
+
+  return null; // not ordered by the join keys
+}
+
+export function* runFusedStages(source: Iterable<any>, stages: FusedStage[]) {
+  let isStopped = false;
+  const STOP = () => {
+    isStopped = true;
+  };
+
+  // each iteration has its own state, like the counter of 'take()'
+  const STAGES = stages.map((s) => s(STOP));
+
+  if (isStopped) {
+    return;
+  }
+
+  for (let item of source) {
+    for (let stage of STAGES) {
+      item = stage(item);
+
+      if (SKIP_ITEM === item) {
+        break;
+      }
+    }
+
+    if (SKIP_ITEM !== item) {
+      yield item;
+    }
+
+    if (isStopped) {
+      return;
+    }
+  }
+}
+
+export function selectFirstItems<T, TKey>(
+  items: Iterable<T>,
+  count: number,
+  keySelector: (item: T) => TKey,
+  comparer: Comparer<TKey, TKey>,
+): T[] {
+  if (count < 1) {
+    return [];
+  }
+
+  interface Entry {
+    index: number;
+    key: TKey;
+    value: T;
+  }
+
+  const COMPARE_ENTRIES = (x: Entry, y: Entry) => {
+    const COMP = comparer(x.key, y.key);
+
+    return 0 != COMP ? COMP : x.index - y.index;
+  };
+
+  // the top of the heap is the last of the selected items
+  const HEAP = new BinaryHeap<Entry>((x, y) => COMPARE_ENTRIES(y, x));
+
+  let index = -1;
+  for (let item of items) {
+    const ENTRY: Entry = {
+      index: ++index,
+      key: keySelector(item),
+      value: item,
+    };
+
+    if (HEAP.size < count) {
+      HEAP.push(ENTRY);
+    } else if (COMPARE_ENTRIES(ENTRY, HEAP.peek()) < 0) {
+      HEAP.pop();
+      HEAP.push(ENTRY);
+    }
+  }
+
+  const RESULT: T[] = [];
+  while (HEAP.size > 0) {
+    RESULT.push(HEAP.pop().value);
+  }
+
+  return RESULT.reverse();
+}
+
+export function selectItem<T>(item: T): any {
+  return item;
+}
+
+export function selectKeysByLevels<T>(levels: OrderLevel<T>[], item: T): any[] {
+  return levels.map((l) => l.selector(item));
+}
+
+export async function* selectParallelItems<T, U>(
+  iterator: AsyncIterator<T>,
+  selector: ParallelSelector<T, U>,
+  options: ParallelOptions,
+): AsyncIterableIterator<U> {
+  if (!selector) {
+    selector = (x) => <any>x;
+  }
+
+  if (!options) {
+    options = {};
+  }
+
+  let concurrency = Math.floor(
+    parseFloat(toStringSafe(options.concurrency).trim()),
+  );
+  if (isNaN(concurrency) || concurrency < 1) {
+    concurrency = 1;
+  }
+
+  let preserveOrder = options.preserveOrder;
+  if (isNullOrUndefined(preserveOrder)) {
+    preserveOrder = true;
+  }
+
+  interface ParallelResult {
+    error?: FunctionError;
+    index: number;
+    value?: U;
+  }
+
+  const ERRORS: FunctionError[] = [];
+  const COMPLETED = new Map<number, ParallelResult>();
+  const RUNNING = new Map<number, Promise<ParallelResult>>();
+
+  let i = -1;
+  let isDone = false;
+  let nextIndexToYield = 0;
+
+  const HANDLE_RESULT = (result: ParallelResult) => {
+    if (result.error) {
+      ERRORS.push(result.error);
+      return false;
+    }
+
+    return true;
+  };
+
+  while (true) {
+    // results that are waiting for their predecessors
+    // count as "running", so the buffer cannot grow endlessly
+    while (!isDone && RUNNING.size + COMPLETED.size < concurrency) {
+      const ITEM = await iterator.next();
+      if (!ITEM || ITEM.done) {
+        isDone = true;
+        break;
+      }
+
+      const INDEX = ++i;
+
+      RUNNING.set(
+        INDEX,
+        Promise.resolve()
+          .then(() => selector(ITEM.value, INDEX))
+          .then(
+            (value) => {
+              return {
+                index: INDEX,
+                value: value,
+              };
+            },
+            (err) => {
+              return {
+                error: new FunctionError(err, selector, INDEX),
+                index: INDEX,
+              };
+            },
+          ),
+      );
+    }
+
+    if (RUNNING.size < 1) {
+      break;
+    }
+
+    const RESULT = await Promise.race(RUNNING.values());
+    RUNNING.delete(RESULT.index);
+
+    if (!preserveOrder) {
+      if (HANDLE_RESULT(RESULT)) {
+        yield RESULT.value;
+      }
+
+      continue;
+    }
+
+    COMPLETED.set(RESULT.index, RESULT);
+    while (COMPLETED.has(nextIndexToYield)) {
+      const NEXT_RESULT = COMPLETED.get(nextIndexToYield);
+      COMPLETED.delete(nextIndexToYield);
+
+      ++nextIndexToYield;
+
+      if (HANDLE_RESULT(NEXT_RESULT)) {
+        yield NEXT_RESULT.value;
+      }
+    }
+  }
+
+  if (ERRORS.length > 0) {
+    throw new AggregateError(ERRORS.sort((x, y) => x.index - y.index));
+  }
+}
+
+export function sortByLevels<T>(items: T[], levels: OrderLevel<T>[]): T[] {
+  return items
+    .map((x, i) => {
+      return {
+        index: i,
+        keys: selectKeysByLevels(levels, x),
+        value: x,
+      };
+    })
+    .sort((x, y) => {
+      const COMP = compareByLevels(levels, x.keys, y.keys);
+      if (0 != COMP) {
+        return COMP;
+      }
+
+      return x.index - y.index; // keep it stable
+    })
+    .map((x) => x.value);
+}
+
+export function toComparerSafe<T = any, U = T>(
+  comparer: Comparer<T, U>,
+): Comparer<T, U> {
+  if (!comparer) {
+    comparer = compareItems;
+  }
+
+  return comparer;
+}
+
+export function toEqualityComparerSafe<T = any, U = T>(
+  comparer: EqualityComparer<T, U> | true,
+): EqualityComparer<T, U> {
+  if (!comparer) {
+    comparer = (x: any, y: any) => x == y;
+  } else if (true === comparer) {
+    comparer = (x: any, y: any) => x === y;
+  }
+
+  return comparer;
+}
+
+export function toIEqualityComparerSafe<T = any>(
+  comparer: EqualityComparer<T> | IEqualityComparer<T> | true,
+): IEqualityComparer<T> {
+  if (!comparer) {
+    return {
+      equals: isDefaultEqual,
+      getHashCode: getDefaultHashCode,
+    };
+  }
+
+  if (true === comparer) {
+    return {
+      equals: (x, y) => x === y,
+      getHashCode: (obj) => obj,
+    };
+  }
+
+  if ("function" === typeof comparer) {
+    // without hash codes, all keys have to be compared with each other
+    return {
+      equals: comparer,
+      getHashCode: () => 0,
+    };
+  }
+
+  return comparer;
+}
+
+export function toIterable<T>(seq: Sequence<T>): Iterable<T> {
+  if (isNullOrUndefined(seq)) {
+    return [];
+  }
+
+  if ("string" === typeof seq) {
+    return (<any>seq).split(""); // like 'fromString()'
+  }
+
+  if ("function" === typeof (<any>seq)[Symbol.iterator]) {
+    return <Iterable<T>>seq;
+  }
+
+  if ("function" === typeof (<any>seq).next) {
+    // Iterator<T>
+    return {
+      [Symbol.iterator]: () => <Iterator<T>>seq,
+    };
+  }
+
+  return Array.from(<ArrayLike<T>>seq);
+}
+
+export function toItemMessageSafe<T = any>(
+  msgOrProvider: ItemMessage<T>,
+): (item: T, index: number) => string {
+  if (isNullOrUndefined(msgOrProvider)) {
+    msgOrProvider = (item, index) => `Condition failed at index ${index}`;
+  }
+
+  if ("function" !== typeof msgOrProvider) {
+    const MSG = msgOrProvider;
+
+    msgOrProvider = () => MSG;
+  }
+
+  return (item, index) => {
+    return toStringSafe((<Function>msgOrProvider)(item, index));
+  };
+}
+
+export function toPredicateSafe<T = any>(
+  predicate: Predicate<T> | boolean,
+  defaultValue = true,
+): Predicate<T> {
+  if (isNullOrUndefined(predicate)) {
+    predicate = () => !!defaultValue;
+  }
+
+  if ("function" !== typeof predicate) {
+    const RESULT = !!predicate;
+
+    predicate = () => RESULT;
+  }
+
+  return predicate;
+}
+
+export function toStringSafe(val: any): string {
+  if ("string" === typeof val) {
+    return val;
+  }
+
+  if (isNullOrUndefined(val)) {
+    val = "";
+  }
+
+  return "" + val;
+}
+
+function toValueKey(
+  val: any,
+  symbolIds?: Map<symbol, number>,
+  path = new Set<any>(),
+): string {
+  if (Array.isArray(val) || isValueObject(val)) {
+    if (path.has(val)) {
+      // a cycle, like 'obj.self = obj'
+      return "#" + getObjectId(val);
+    }
+
+    path.add(val);
+    try {
+      return toValueObjectKey(val, symbolIds, path);
+    } finally {
+      path.delete(val);
+    }
+  }
+
+  switch (typeof val) {
+    case "bigint":
+      return val + "n";
+
+    case "boolean":
+    case "number":
+    case "undefined":
+      return String(val);
+
+    case "string":
+      return JSON.stringify(val);
+
+    case "symbol":
+      return toSymbolKey(val, symbolIds);
+  }
+
+  if (null === val) {
+    return "null";
+  }
+
+  // other objects and functions by reference
+  return "#" + getObjectId(val);
+}
+
+function toValueObjectKey(
+  val: any,
+  symbolIds: Map<symbol, number>,
+  path: Set<any>,
+): string {
+  if (Array.isArray(val)) {
+    return "[" + val.map((x) => toValueKey(x, symbolIds, path)).join(",") + "]";
+  }
+
+  if (val instanceof Date) {
+    return "D" + val.getTime();
+  }
+
+  return (
+    "{" +
+    Object.keys(val)
+      .sort()
+      .map((k) => JSON.stringify(k) + ":" + toValueKey(val[k], symbolIds, path))
+      .join(",") +
+    "}"
+  );
+}
+
+function toSymbolKey(sym: symbol, symbolIds: Map<symbol, number>): string {
+  const KEY = Symbol.keyFor(sym);
+  if ("undefined" !== typeof KEY) {
+    // registered by 'Symbol.for()'
+    return "S" + JSON.stringify(KEY);
+  }
+
+  if (WELL_KNOWN_SYMBOLS.has(sym)) {
+    return "S." + WELL_KNOWN_SYMBOLS.get(sym);
+  }
+
+  if (!symbolIds) {
+    // hash codes of different symbols with the same description are
+    // equal, but 'isDefaultEqual()' still compares them by reference
+    return "S(" + JSON.stringify(String(sym)) + ")";
+  }
+
+  let id = symbolIds.get(sym);
+  if (isNullOrUndefined(id)) {
+    id = symbolIds.size + 1;
+
+    symbolIds.set(sym, id);
+  }
+
+  return "S#" + id;
+}
@@ -0,0 +1,787 @@
+/**
+ * node-enumerable (https://github.com/mkloubert/node-enumerable)
+ *
+ * Standalone versions of the methods of IEnumerable<T> and IOrderedEnumerable<T>,
+ * which can be imported by name and combined with 'pipe()'. They work on any
+ * Sequence<T>, like an array, a string or a generator, and return plain iterables,
+ * which can be iterated again, as long as their source can:
+ *
+ * import { pipe, select, toArray, where } from "node-enumerable/operators";
+ *
+ * const EVEN = pipe(
+ *   [1, 2, 3, 4],
+ *   where((x) => x % 2 === 0),
+ *   select((x) => x * 10),
+ *   toArray(),
+ * );
+ *
+ * That module does not load 'index' and is also available as ES module,
+ * so bundlers can drop the operators, which are not used.
+ *
+ * 'IEnumerable.pipe()' and 'IOrderedEnumerable.then()' have no standalone version:
+ * the first one would hide the 'pipe()' function, and a module, which exports 'then',
+ * would be handled as a Promise. Use 'thenBy()' instead of 'then()'.
+ */
+import type {
+  AsyncAction,
+  AsyncEachAction,
+  Collector,
+  Comparer,
+  DuplicateKeyOptions,
+  EachAction,
+  EqualityComparer,
+  IEqualityComparer,
+  ItemMessage,
+  JoinedItems,
+  ParallelOptions,
+  ParallelSelector,
+  Predicate,
+  Reducer,
+  Selector,
+  Sequence,
+  Stack,
+  TypeConstructor,
+  TypeGuard,
+  WindowedOptions,
+  ZipSelector,
+} from "./index";
+import type { OrderLevel } from "./internal";
+/**
+ * A group of items with the same key, which is created by 'groupBy()'.
+ *
+ * @template TKey Type of the key.
+ * @template T Type of the items.
+ */
+export interface ItemGroup<TKey = any, T = any> {
+  /**
+   * The key.
+   */
+  key: TKey;
+  /**
+   * The items.
+   */
+  values: T[];
+}
+/**
+ * Maps keys to the lists of their items, which is created by 'toLookup()'.
+ *
+ * @template TKey Type of the keys.
+ * @template T Type of the items.
+ */
+export interface ItemLookup<TKey = any, T = any> {
+  /**
+   * Returns the items of a key.
+   *
+   * @param {TKey} key The key.
+   *
+   * @return {T[]} The items or (undefined) if the key does not exist.
+   */
+  get(key: TKey): T[];
+  /**
+   * Checks if a key exists.
+   *
+   * @param {TKey} key The key.
+   *
+   * @return {boolean} Key exists or not.
+   */
+  has(key: TKey): boolean;
+  /**
+   * Returns the keys, in the order they have been found.
+   */
+  keys(): IterableIterator<TKey>;
+  /**
+   * Gets the number of keys.
+   */
+  readonly size: number;
+}
+/**
+ * An operator, which is applied to a sequence.
+ *
+ * @template T Type of the items.
+ * @template TResult Type of the result.
+ * @template TSource Type of the sequence.
+ *
+ * @param {TSource} source The sequence.
+ *
+ * @return {TResult} The result, like a new sequence or a value.
+ */
+export declare type Operator<T = any, TResult = any, TSource = Sequence<T>> = (
+  source: TSource,
+) => TResult;
+/**
+ * An ordered sequence, which is created by 'orderBy()' and sorts
+ * the items of its source, each time it is iterated.
+ *
+ * @template T Type of the items.
+ */
+export declare class OrderedIterable<T = any> implements Iterable<T> {
+  /**
+   * Stores the sort levels, beginning with the primary one.
+   */
+  protected _levels: OrderLevel<T>[];
+  /**
+   * Stores the source sequence.
+   */
+  protected _source: Sequence<T>;
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {Sequence<T>} source The source sequence.
+   * @param {OrderLevel<T>[]} levels The sort levels, beginning with the primary one.
+   */
+  constructor(source: Sequence<T>, levels: OrderLevel<T>[]);
+  /** @inheritdoc */
+  [Symbol.iterator](): Iterator<T>;
+  /**
+   * Gets the comparer of the primary sort level.
+   */
+  get comparer(): Comparer<any, any>;
+  /**
+   * Gets the sort levels, beginning with the primary one.
+   */
+  get levels(): OrderLevel<T>[];
+  /**
+   * Gets the selector of the primary sort level.
+   */
+  get selector(): (x: T) => any;
+  /**
+   * Gets the source sequence.
+   */
+  get source(): Sequence<T>;
+}
+/**
+ * Applies operators to a sequence, one after another.
+ *
+ * @param {Sequence<T>} source The sequence.
+ * @param {Operator[]} operators The operators.
+ *
+ * @return {any} The result of the last operator, or the sequence, if there are no operators.
+ */
+export declare function pipe<T>(source: Sequence<T>): Sequence<T>;
+export declare function pipe<T, A>(source: Sequence<T>, op1: Operator<T, A>): A;
+export declare function pipe<T, A, B>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+): B;
+export declare function pipe<T, A, B, C>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+): C;
+export declare function pipe<T, A, B, C, D>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+  op4: Operator<any, D, C>,
+): D;
+export declare function pipe<T, A, B, C, D, E>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+  op4: Operator<any, D, C>,
+  op5: Operator<any, E, D>,
+): E;
+export declare function pipe<T, A, B, C, D, E, F>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+  op4: Operator<any, D, C>,
+  op5: Operator<any, E, D>,
+  op6: Operator<any, F, E>,
+): F;
+export declare function pipe<T, A, B, C, D, E, F, G>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+  op4: Operator<any, D, C>,
+  op5: Operator<any, E, D>,
+  op6: Operator<any, F, E>,
+  op7: Operator<any, G, F>,
+): G;
+export declare function pipe<T, A, B, C, D, E, F, G, H>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+  op4: Operator<any, D, C>,
+  op5: Operator<any, E, D>,
+  op6: Operator<any, F, E>,
+  op7: Operator<any, G, F>,
+  op8: Operator<any, H, G>,
+): H;
+export declare function pipe<T, A, B, C, D, E, F, G, H, I>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+  op4: Operator<any, D, C>,
+  op5: Operator<any, E, D>,
+  op6: Operator<any, F, E>,
+  op7: Operator<any, G, F>,
+  op8: Operator<any, H, G>,
+  op9: Operator<any, I, H>,
+): I;
+export declare function pipe(
+  source: Sequence<any>,
+  ...operators: Operator<any, any, any>[]
+): any;
+/** @see IEnumerable.abs() */
+export declare function abs<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.aggregate() */
+export declare function aggregate<T, TAccumulate = T, TResult = T>(
+  func: Reducer<TAccumulate, T>,
+  seed?: TAccumulate,
+  resultSelector?: (accumulator: TAccumulate) => TResult,
+): Operator<T, TResult>;
+/** @see IEnumerable.all() */
+export declare function all<T>(predicate: Predicate<T>): Operator<T, boolean>;
+/** @see IEnumerable.any() */
+export declare function any<T>(predicate?: Predicate<T>): Operator<T, boolean>;
+/** @see IEnumerable.append() */
+export declare function append<T, U = T>(
+  ...args: Sequence<U>[]
+): Operator<T, Iterable<T | U>>;
+/** @see IEnumerable.appendArray() */
+export declare function appendArray<T, U = T>(
+  sequences: ArrayLike<Sequence<U>>,
+): Operator<T, Iterable<T | U>>;
+/** @see IEnumerable.arcCos() */
+export declare function arcCos<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.arcCosH() */
+export declare function arcCosH<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.arcSin() */
+export declare function arcSin<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.arcSinH() */
+export declare function arcSinH<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.arcTan() */
+export declare function arcTan<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.arcTanH() */
+export declare function arcTanH<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.assert() */
+export declare function assert<T>(
+  predicate: Predicate<T>,
+  errMsg?: ItemMessage<T>,
+): <S extends Sequence<T>>(source: S) => S;
+/** @see IEnumerable.assertAll() */
+export declare function assertAll<T>(
+  predicate: Predicate<T>,
+  errMsg?: ItemMessage<T>,
+): <S extends Sequence<T>>(source: S) => S;
+/**
+ * @see IEnumerable.async()
+ *
+ * The 'sequence' property of the context is the source of the operator.
+ */
+export declare function async<T>(
+  action: AsyncAction<T>,
+  previousValue?: any,
+  signal?: AbortSignal,
+): Operator<T, Promise<any>>;
+/** @see IEnumerable.average() */
+export declare function average<T>(
+  selector?: Selector<T, number>,
+): Operator<T, number | symbol>;
+/** @see IEnumerable.bottomBy() */
+export declare function bottomBy<T, U = T>(
+  count?: number,
+  selector?: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.cast() */
+export declare function cast<T, U = any>(
+  type?: string,
+): Operator<T, Iterable<U>>;
+/** @see IEnumerable.ceil() */
+export declare function ceil<T>(): Operator<T, Iterable<number>>;
+/**
+ * @see IEnumerable.chunk()
+ *
+ * The chunks are arrays.
+ */
+export declare function chunk<T>(size?: number): Operator<T, Iterable<T[]>>;
+/**
+ * @see IEnumerable.clone()
+ *
+ * The clones are arrays.
+ */
+export declare function clone<T, U = T>(
+  count?: number,
+  itemSelector?: Selector<T, U>,
+): Operator<T, Iterable<U[]>>;
+/** @see IEnumerable.collect() */
+export declare function collect<T, A, R = A>(
+  collector: Collector<T, A, R>,
+): Operator<T, R>;
+/** @see IEnumerable.concat() */
+export declare function concat<T, U = T>(
+  ...args: Sequence<U>[]
+): Operator<T, Iterable<T | U>>;
+/** @see IEnumerable.concatArray() */
+export declare function concatArray<T, U = T>(
+  sequences: ArrayLike<Sequence<U>>,
+): Operator<T, Iterable<T | U>>;
+/** @see IEnumerable.consume() */
+export declare function consume<T>(): <S extends Sequence<T>>(source: S) => S;
+/** @see IEnumerable.contains() */
+export declare function contains<T, U>(
+  item: U,
+  comparer?: EqualityComparer<T, U> | true,
+): Operator<T, boolean>;
+/** @see IEnumerable.cos() */
+export declare function cos<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.cosH() */
+export declare function cosH<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.count() */
+export declare function count<T>(predicate?: Predicate<T>): Operator<T, number>;
+/** @see IEnumerable.defaultArrayIfEmpty() */
+export declare function defaultArrayIfEmpty<T>(
+  defaultSequence: Sequence<T>,
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.defaultIfEmpty() */
+export declare function defaultIfEmpty<T>(
+  ...defaultItems: Array<T>
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.defaultSequenceIfEmpty() */
+export declare function defaultSequenceIfEmpty<T>(
+  defaultSequence: Sequence<T>,
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.distinct() */
+export declare function distinct<T>(
+  comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.distinctBy() */
+export declare function distinctBy<T, U>(
+  selector: Selector<T, U>,
+  comparer?: EqualityComparer<U> | IEqualityComparer<U> | true,
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.each() */
+export declare function each<T>(
+  action: EachAction<T>,
+): <S extends Sequence<T>>(source: S) => S;
+/** @see IEnumerable.eachAll() */
+export declare function eachAll<T>(
+  action: EachAction<T>,
+): <S extends Sequence<T>>(source: S) => S;
+/** @see IEnumerable.elementAt() */
+export declare function elementAt<T>(index: number): Operator<T, T>;
+/** @see IEnumerable.elementAtOrDefault() */
+export declare function elementAtOrDefault<T, U = symbol>(
+  index: number,
+  defaultValue?: U,
+): Operator<T, T | U>;
+/** @see IEnumerable.except() */
+export declare function except<T>(
+  second: Sequence<T>,
+  comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.exp() */
+export declare function exp<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.first() */
+export declare function first<T, U extends T>(
+  predicate: TypeGuard<T, U>,
+): Operator<T, U>;
+/** @see IEnumerable.first() */
+export declare function first<T>(predicate?: Predicate<T>): Operator<T, T>;
+/** @see IEnumerable.firstOrDefault() */
+export declare function firstOrDefault<T, U = symbol>(
+  predicateOrDefaultValue?: Predicate<T> | T,
+  defaultValue?: U,
+): Operator<T, T | U>;
+/** @see IEnumerable.flatten() */
+export declare function flatten<T, U = T>(): Operator<T, Iterable<U>>;
+/** @see IEnumerable.floor() */
+export declare function floor<T>(): Operator<T, Iterable<number>>;
+/** @see IEnumerable.forAll() */
+export declare function forAll<T>(
+  action: EachAction<T>,
+): <S extends Sequence<T>>(source: S) => S;
+/** @see IEnumerable.forEach() */
+export declare function forEach<T>(
+  action: EachAction<T>,
+): <S extends Sequence<T>>(source: S) => S;
+/** @see IEnumerable.forEachParallel() */
+export declare function forEachParallel<T>(
+  action: AsyncEachAction<T>,
+  options?: ParallelOptions,
+): Operator<T, Promise<void>>;
+/**
+ * @see IEnumerable.groupBy()
+ *
+ * The groups are objects with the key and an array of their items.
+ */
+export declare function groupBy<T, TKey>(
+  keySelector: Selector<T, TKey>,
+  keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+): Operator<T, Iterable<ItemGroup<TKey, T>>>;
+/**
+ * @see IEnumerable.groupJoin()
+ *
+ * The inner items are submitted as array.
+ */
+export declare function groupJoin<
+  T,
+  TInner = T,
+  TOuterKey = any,
+  TInnerKey = any,
+  TResult = JoinedItems<T, TInner[]>,
+>(
+  inner: Sequence<TInner>,
+  outerKeySelector?: Selector<T, TOuterKey>,
+  innerKeySelector?: Selector<TInner, TInnerKey>,
+  resultSelector?: (outer: T, inner: TInner[]) => TResult,
+  keyEqualityComparer?:
+    | EqualityComparer<TOuterKey, TInnerKey>
+    | IEqualityComparer<TOuterKey | TInnerKey>
+    | true,
+): Operator<T, Iterable<TResult>>;
+/** @see IEnumerable.indexOf() */
+export declare function indexOf<T, U>(
+  item: U,
+  comparer?: EqualityComparer<T, U> | true,
+): Operator<T, number>;
+/** @see IEnumerable.intersect() */
+export declare function intersect<T>(
+  second: Sequence<T>,
+  comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.intersperse() */
+export declare function intersperse<T, U = T>(
+  ...separators: U[]
+): Operator<T, Iterable<T | U>>;
+/** @see IEnumerable.intersperseArray() */
+export declare function intersperseArray<T, U = T>(
+  separators: Sequence<U>,
+): Operator<T, Iterable<T | U>>;
+/** @see IEnumerable.isEmpty() */
+export declare function isEmpty<T>(): Operator<T, boolean>;
+/** @see IEnumerable.join() */
+export declare function join<
+  T,
+  TInner = T,
+  TOuterKey = any,
+  TInnerKey = any,
+  TResult = JoinedItems<T, TInner>,
+>(
+  inner: Sequence<TInner>,
+  outerKeySelector?: Selector<T, TOuterKey>,
+  innerKeySelector?: Selector<TInner, TInnerKey>,
+  resultSelector?: (outer: T, inner: TInner) => TResult,
+  keyEqualityComparer?:
+    | EqualityComparer<TOuterKey, TInnerKey>
+    | IEqualityComparer<TOuterKey | TInnerKey>
+    | true,
+): Operator<T, Iterable<TResult>>;
+/** @see IEnumerable.joinToString() */
+export declare function joinToString<T>(separator?: any): Operator<T, string>;
+/** @see IEnumerable.last() */
+export declare function last<T>(predicate?: Predicate<T>): Operator<T, T>;
+/** @see IEnumerable.lastIndexOf() */
+export declare function lastIndexOf<T, U>(
+  item: U,
+  comparer?: EqualityComparer<T, U> | true,
+): Operator<T, number>;
+/** @see IEnumerable.lastOrDefault() */
+export declare function lastOrDefault<T, U = symbol>(
+  predicateOrDefaultValue?: Predicate<T> | T,
+  defaultValue?: U,
+): Operator<T, T | U>;
+/** @see IEnumerable.length() */
+export declare function length<T>(): Operator<T, number>;
+/** @see IEnumerable.log() */
+export declare function log<T>(
+  base?: number,
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/**
+ * @see IEnumerable.makeResettable()
+ *
+ * Returns an array, which can be iterated again and again.
+ */
+export declare function makeResettable<T>(): Operator<T, T[]>;
+/** @see IEnumerable.max() */
+export declare function max<T, U = T>(
+  valueSelector?: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, T | symbol>;
+/** @see IEnumerable.memoize() */
+export declare function memoize<T>(): Operator<T, Iterable<T>>;
+/** @see IEnumerable.min() */
+export declare function min<T, U = T>(
+  valueSelector?: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, T | symbol>;
+/** @see IEnumerable.noNAN() */
+export declare function noNAN<T>(
+  checkForInt?: boolean,
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.not() */
+export declare function not<T>(
+  predicate?: Predicate<T>,
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.notEmpty() */
+export declare function notEmpty<T>(): Operator<T, Iterable<T>>;
+/** @see IEnumerable.ofType() */
+export declare function ofType<T, U = any>(
+  type: string,
+): Operator<T, Iterable<U>>;
+/** @see IEnumerable.ofType() */
+export declare function ofType<T, U>(
+  type: TypeConstructor<U>,
+): Operator<T, Iterable<U>>;
+/** @see IEnumerable.order() */
+export declare function order<T>(
+  comparer?: Comparer<T>,
+): Operator<T, OrderedIterable<T>>;
+/** @see IEnumerable.orderBy() */
+export declare function orderBy<T, U>(
+  selector: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, OrderedIterable<T>>;
+/** @see IEnumerable.orderByDescending() */
+export declare function orderByDescending<T, U>(
+  selector: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, OrderedIterable<T>>;
+/** @see IEnumerable.orderDescending() */
+export declare function orderDescending<T>(
+  comparer?: Comparer<T>,
+): Operator<T, OrderedIterable<T>>;
+/** @see IEnumerable.pairwise() */
+export declare function pairwise<T>(): Operator<T, Iterable<[T, T]>>;
+/** @see IEnumerable.pow() */
+export declare function pow<T>(
+  exponent?: number,
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.prepend() */
+export declare function prepend<T, U = T>(
+  ...args: Sequence<U>[]
+): Operator<T, Iterable<T | U>>;
+/** @see IEnumerable.prependArray() */
+export declare function prependArray<T, U = T>(
+  sequences: ArrayLike<Sequence<U>>,
+): Operator<T, Iterable<T | U>>;
+/** @see IEnumerable.product() */
+export declare function product<T>(): Operator<T, T | symbol>;
+/** @see IEnumerable.pushTo() */
+export declare function pushTo<T>(
+  stack: Stack<T>,
+): <S extends Sequence<T>>(source: S) => S;
+/** @see IEnumerable.rand() */
+export declare function rand<T>(
+  sortValueProvider?: () => any,
+): Operator<T, OrderedIterable<T>>;
+/** @see IEnumerable.reverse() */
+export declare function reverse<T>(): Operator<T, OrderedIterable<T>>;
+/** @see IEnumerable.root() */
+export declare function root<T>(
+  power?: number,
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.round() */
+export declare function round<T>(): Operator<T, Iterable<number>>;
+/** @see IEnumerable.select() */
+export declare function select<T, U>(
+  selector: Selector<T, U>,
+): Operator<T, Iterable<U>>;
+/** @see IEnumerable.selectMany() */
+export declare function selectMany<T, U>(
+  selector: Selector<T, Sequence<U>>,
+): Operator<T, Iterable<U>>;
+/**
+ * @see IEnumerable.selectParallel()
+ *
+ * Returns an async iterable.
+ */
+export declare function selectParallel<T, U>(
+  selector: ParallelSelector<T, U>,
+  options?: ParallelOptions,
+): Operator<T, AsyncIterable<U>>;
+/** @see IEnumerable.sequenceEqual() */
+export declare function sequenceEqual<T, U>(
+  other: Sequence<U>,
+  equalityComparer?: EqualityComparer<T, U> | true,
+): Operator<T, boolean>;
+/** @see IEnumerable.shuffle() */
+export declare function shuffle<T>(
+  sortValueProvider?: () => any,
+): Operator<T, OrderedIterable<T>>;
+/** @see IEnumerable.sin() */
+export declare function sin<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.sinH() */
+export declare function sinH<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.single() */
+export declare function single<T, U extends T>(
+  predicate: TypeGuard<T, U>,
+): Operator<T, U>;
+/** @see IEnumerable.single() */
+export declare function single<T>(predicate?: Predicate<T>): Operator<T, T>;
+/** @see IEnumerable.singleOrDefault() */
+export declare function singleOrDefault<T, U = symbol>(
+  predicateOrDefaultValue?: Predicate<T> | T,
+  defaultValue?: U,
+): Operator<T, T | U>;
+/** @see IEnumerable.skip() */
+export declare function skip<T>(count?: number): Operator<T, Iterable<T>>;
+/** @see IEnumerable.skipLast() */
+export declare function skipLast<T>(): Operator<T, Iterable<T>>;
+/** @see IEnumerable.skipWhile() */
+export declare function skipWhile<T>(
+  predicate: Predicate<T>,
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.sqrt() */
+export declare function sqrt<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.sum() */
+export declare function sum<T>(): Operator<T, T | symbol>;
+/** @see IEnumerable.take() */
+export declare function take<T>(count?: number): Operator<T, Iterable<T>>;
+/** @see IEnumerable.takeWhile() */
+export declare function takeWhile<T>(
+  predicate: Predicate<T>,
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.tan() */
+export declare function tan<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/** @see IEnumerable.tanH() */
+export declare function tanH<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>>;
+/**
+ * @see IEnumerable.tee()
+ *
+ * The sequences are iterators, which can only be iterated once.
+ */
+export declare function tee<T>(
+  count?: number,
+): Operator<T, IterableIterator<T>[]>;
+/** @see IOrderedEnumerable.thenBy() */
+export declare function thenBy<T, U>(
+  selector: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, OrderedIterable<T>, OrderedIterable<T>>;
+/** @see IOrderedEnumerable.thenByDescending() */
+export declare function thenByDescending<T, U>(
+  selector: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, OrderedIterable<T>, OrderedIterable<T>>;
+/** @see IOrderedEnumerable.thenDescending() */
+export declare function thenDescending<T>(
+  comparer?: Comparer<T>,
+): Operator<T, OrderedIterable<T>, OrderedIterable<T>>;
+/** @see IEnumerable.toArray() */
+export declare function toArray<T>(): Operator<T, Array<T>>;
+/**
+ * @see IEnumerable.toAsync()
+ *
+ * Returns an async iterable.
+ */
+export declare function toAsync<T>(): Operator<T, AsyncIterable<T>>;
+/**
+ * @see IEnumerable.toLookup()
+ *
+ * The items of a key are returned as array.
+ */
+export declare function toLookup<T, TKey>(
+  keySelector: Selector<T, TKey>,
+  keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+): Operator<T, ItemLookup<TKey, T>>;
+/** @see IEnumerable.toMap() */
+export declare function toMap<T, TKey, TValue = T>(
+  keySelector: Selector<T, TKey>,
+  valueSelector?: Selector<T, TValue>,
+  options?: DuplicateKeyOptions<TValue, TKey>,
+): Operator<T, Map<TKey, TValue>>;
+/** @see IEnumerable.toObject() */
+export declare function toObject<
+  T,
+  TResult = any,
+  TKey extends PropertyKey = number,
+>(keySelector?: (item: T, index: number) => TKey): Operator<T, TResult>;
+/** @see IEnumerable.toRecord() */
+export declare function toRecord<T, TKey extends PropertyKey, TValue = T>(
+  keySelector: Selector<T, TKey>,
+  valueSelector?: Selector<T, TValue>,
+  options?: DuplicateKeyOptions<TValue, TKey>,
+): Operator<T, Record<TKey, TValue>>;
+/** @see IEnumerable.toSet() */
+export declare function toSet<T>(): Operator<T, Set<T>>;
+/** @see IEnumerable.topBy() */
+export declare function topBy<T, U = T>(
+  count?: number,
+  selector?: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.trace() */
+export declare function trace<T>(
+  formatter?: Selector<T, any>,
+): Operator<T, Iterable<T>>;
+/**
+ * @see IEnumerable.tryGetNonEnumeratedCount()
+ *
+ * Only the length of an array or a string is known.
+ */
+export declare function tryGetNonEnumeratedCount<T>(): Operator<
+  T,
+  number | false
+>;
+/** @see IEnumerable.union() */
+export declare function union<T>(
+  second: Sequence<T>,
+  comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+): Operator<T, Iterable<T>>;
+/** @see IEnumerable.where() */
+export declare function where<T, U extends T>(
+  predicate: TypeGuard<T, U>,
+): Operator<T, Iterable<U>>;
+/** @see IEnumerable.where() */
+export declare function where<T>(
+  predicate: Predicate<T>,
+): Operator<T, Iterable<T>>;
+/**
+ * @see IEnumerable.windowed()
+ *
+ * The windows are arrays.
+ */
+export declare function windowed<T>(
+  size: number,
+  step?: number,
+  options?: WindowedOptions,
+): Operator<T, Iterable<T[]>>;
+/** @see IEnumerable.zip() */
+export declare function zip<T, U = T, TResult = any>(
+  second: Sequence<U>,
+  resultSelector: ZipSelector<T, U, TResult>,
+): Operator<T, Iterable<TResult>>;
@@ -0,0 +1,2830 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+/**
+ * node-enumerable (https://github.com/mkloubert/node-enumerable)
+ *
+ * Standalone versions of the methods of IEnumerable<T> and IOrderedEnumerable<T>,
+ * which can be imported by name and combined with 'pipe()'. They work on any
+ * Sequence<T>, like an array, a string or a generator, and return plain iterables,
+ * which can be iterated again, as long as their source can:
+ *
+ * import { pipe, select, toArray, where } from "node-enumerable/operators";
+ *
+ * const EVEN = pipe(
+ *   [1, 2, 3, 4],
+ *   where((x) => x % 2 === 0),
+ *   select((x) => x * 10),
+ *   toArray(),
+ * );
+ *
+ * That module does not load 'index' and is also available as ES module,
+ * so bundlers can drop the operators, which are not used.
+ *
+ * 'IEnumerable.pipe()' and 'IOrderedEnumerable.then()' have no standalone version:
+ * the first one would hide the 'pipe()' function, and a module, which exports 'then',
+ * would be handled as a Promise. Use 'thenBy()' instead of 'then()'.
+ */
+import type {
+  AsyncAction,
+  AsyncActionContext,
+  AsyncEachAction,
+  Collector,
+  Comparer,
+  DuplicateKeyOptions,
+  EachAction,
+  EqualityComparer,
+  IEqualityComparer,
+  ItemMessage,
+  JoinedItems,
+  ParallelOptions,
+  ParallelSelector,
+  Predicate,
+  Reducer,
+  Selector,
+  Sequence,
+  Stack,
+  TypeConstructor,
+  TypeGuard,
+  WindowedOptions,
+  ZipSelector,
+} from "./index";
+import type { FusedStage, OrderLevel } from "./internal";
+import {
+  AbortError,
+  AggregateError,
+  EqualityMap,
+  FunctionError,
+  FusedIterable,
+  IS_EMPTY,
+  NOT_FOUND,
+  RingBuffer,
+  SKIP_ITEM,
+  accumulateWith,
+  createDictionaryCollector,
+  createStackCollector,
+  finishWith,
+  getNextIteratorResultSafe,
+  getOrDefaultArguments,
+  groupItems,
+  invokeForValidNumber,
+  isNullOrUndefined,
+  isReduced,
+  isSequence,
+  joinGroups,
+  selectFirstItems,
+  selectItem,
+  selectParallelItems,
+  sortByLevels,
+  toComparerSafe,
+  toEqualityComparerSafe,
+  toIEqualityComparerSafe,
+  toItemMessageSafe,
+  toIterable,
+  toPredicateSafe,
+  toStringSafe,
+} from "./internal";
+
+/**
+ * A group of items with the same key, which is created by 'groupBy()'.
+ *
+ * @template TKey Type of the key.
+ * @template T Type of the items.
+ */
+export interface ItemGroup<TKey = any, T = any> {
+  /**
+   * The key.
+   */
+  key: TKey;
+  /**
+   * The items.
+   */
+  values: T[];
+} // ItemGroup<TKey, T>
+
+/**
+ * Maps keys to the lists of their items, which is created by 'toLookup()'.
+ *
+ * @template TKey Type of the keys.
+ * @template T Type of the items.
+ */
+export interface ItemLookup<TKey = any, T = any> {
+  /**
+   * Returns the items of a key.
+   *
+   * @param {TKey} key The key.
+   *
+   * @return {T[]} The items or (undefined) if the key does not exist.
+   */
+  get(key: TKey): T[];
+  /**
+   * Checks if a key exists.
+   *
+   * @param {TKey} key The key.
+   *
+   * @return {boolean} Key exists or not.
+   */
+  has(key: TKey): boolean;
+  /**
+   * Returns the keys, in the order they have been found.
+   */
+  keys(): IterableIterator<TKey>;
+  /**
+   * Gets the number of keys.
+   */
+  readonly size: number;
+} // ItemLookup<TKey, T>
+
+/**
+ * An operator, which is applied to a sequence.
+ *
+ * @template T Type of the items.
+ * @template TResult Type of the result.
+ * @template TSource Type of the sequence.
+ *
+ * @param {TSource} source The sequence.
+ *
+ * @return {TResult} The result, like a new sequence or a value.
+ */
+export type Operator<T = any, TResult = any, TSource = Sequence<T>> = (
+  source: TSource,
+) => TResult;
+
+/**
+ * An ordered sequence, which is created by 'orderBy()' and sorts
+ * the items of its source, each time it is iterated.
+ *
+ * @template T Type of the items.
+ */
+export class OrderedIterable<T = any> implements Iterable<T> {
+  /**
+   * Stores the sort levels, beginning with the primary one.
+   */
+  protected _levels: OrderLevel<T>[];
+  /**
+   * Stores the source sequence.
+   */
+  protected _source: Sequence<T>;
+
+  /**
+   * Initializes a new instance of that class.
+   *
+   * @param {Sequence<T>} source The source sequence.
+   * @param {OrderLevel<T>[]} levels The sort levels, beginning with the primary one.
+   */
+  constructor(source: Sequence<T>, levels: OrderLevel<T>[]) {
+    this._source = source;
+    this._levels = levels;
+  }
+
+  /** @inheritdoc */
+  public *[Symbol.iterator](): Iterator<T> {
+    yield* sortByLevels(toArray<T>()(this._source), this._levels);
+  }
+
+  /**
+   * Gets the comparer of the primary sort level.
+   */
+  public get comparer(): Comparer<any, any> {
+    return this._levels[0].comparer;
+  }
+  /**
+   * Gets the sort levels, beginning with the primary one.
+   */
+  public get levels(): OrderLevel<T>[] {
+    return this._levels;
+  }
+  /**
+   * Gets the selector of the primary sort level.
+   */
+  public get selector(): (x: T) => any {
+    return this._levels[0].selector;
+  }
+  /**
+   * Gets the source sequence.
+   */
+  public get source(): Sequence<T> {
+    return this._source;
+  }
+} // OrderedIterable<T>
+
+/**
+ * Applies operators to a sequence, one after another.
+ *
+ * @param {Sequence<T>} source The sequence.
+ * @param {Operator[]} operators The operators.
+ *
+ * @return {any} The result of the last operator, or the sequence, if there are no operators.
+ */
+export function pipe<T>(source: Sequence<T>): Sequence<T>;
+export function pipe<T, A>(source: Sequence<T>, op1: Operator<T, A>): A;
+export function pipe<T, A, B>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+): B;
+export function pipe<T, A, B, C>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+): C;
+export function pipe<T, A, B, C, D>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+  op4: Operator<any, D, C>,
+): D;
+export function pipe<T, A, B, C, D, E>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+  op4: Operator<any, D, C>,
+  op5: Operator<any, E, D>,
+): E;
+export function pipe<T, A, B, C, D, E, F>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+  op4: Operator<any, D, C>,
+  op5: Operator<any, E, D>,
+  op6: Operator<any, F, E>,
+): F;
+export function pipe<T, A, B, C, D, E, F, G>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+  op4: Operator<any, D, C>,
+  op5: Operator<any, E, D>,
+  op6: Operator<any, F, E>,
+  op7: Operator<any, G, F>,
+): G;
+export function pipe<T, A, B, C, D, E, F, G, H>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+  op4: Operator<any, D, C>,
+  op5: Operator<any, E, D>,
+  op6: Operator<any, F, E>,
+  op7: Operator<any, G, F>,
+  op8: Operator<any, H, G>,
+): H;
+export function pipe<T, A, B, C, D, E, F, G, H, I>(
+  source: Sequence<T>,
+  op1: Operator<T, A>,
+  op2: Operator<any, B, A>,
+  op3: Operator<any, C, B>,
+  op4: Operator<any, D, C>,
+  op5: Operator<any, E, D>,
+  op6: Operator<any, F, E>,
+  op7: Operator<any, G, F>,
+  op8: Operator<any, H, G>,
+  op9: Operator<any, I, H>,
+): I;
+export function pipe(
+  source: Sequence<any>,
+  ...operators: Operator<any, any, any>[]
+): any;
+export function pipe(
+  source: Sequence<any>,
+  ...operators: Operator<any, any, any>[]
+): any {
+  let result: any = source;
+
+  for (let op of operators) {
+    result = op(result);
+  }
+
+  return result;
+} // pipe()
+
+/** @see IEnumerable.abs() */
+export function abs<T>(handleAsInt?: boolean): Operator<T, Iterable<number>> {
+  return select((x: any) => {
+    return invokeForValidNumber(x, (y) => Math.abs(y), handleAsInt);
+  });
+} // abs()
+
+/** @see IEnumerable.aggregate() */
+export function aggregate<T, TAccumulate = T, TResult = T>(
+  func: Reducer<TAccumulate, T>,
+  seed?: TAccumulate,
+  resultSelector?: (accumulator: TAccumulate) => TResult,
+): Operator<T, TResult> {
+  if (!func) {
+    func = (acc, item) => <any>acc + <any>item;
+  }
+
+  if (!resultSelector) {
+    resultSelector = (acc) => <any>acc;
+  }
+
+  return (source) => {
+    let acc = seed;
+    for (let item of toIterable(source)) {
+      const NEW_ACC = func(acc, item);
+      if (isReduced(NEW_ACC)) {
+        acc = NEW_ACC.value;
+        break;
+      }
+
+      acc = NEW_ACC;
+    }
+
+    return resultSelector(acc);
+  };
+} // aggregate()
+
+/** @see IEnumerable.all() */
+export function all<T>(predicate: Predicate<T>): Operator<T, boolean> {
+  predicate = toPredicateSafe(predicate);
+
+  return (source) => {
+    for (let item of toIterable(source)) {
+      if (!predicate(item)) {
+        return false;
+      }
+    }
+
+    return true;
+  };
+} // all()
+
+/** @see IEnumerable.any() */
+export function any<T>(predicate?: Predicate<T>): Operator<T, boolean> {
+  predicate = toPredicateSafe(predicate);
+
+  return (source) => {
+    for (let item of toIterable(source)) {
+      if (predicate(item)) {
+        return true;
+      }
+    }
+
+    return false;
+  };
+} // any()
+
+/** @see IEnumerable.append() */
+export function append<T, U = T>(
+  ...args: Sequence<U>[]
+): Operator<T, Iterable<T | U>> {
+  return concatArray<T, U>(args);
+} // append()
+
+/** @see IEnumerable.appendArray() */
+export function appendArray<T, U = T>(
+  sequences: ArrayLike<Sequence<U>>,
+): Operator<T, Iterable<T | U>> {
+  return concatArray<T, U>(sequences);
+} // appendArray()
+
+/** @see IEnumerable.arcCos() */
+export function arcCos<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.acos(y), handleAsInt),
+  );
+} // arcCos()
+
+/** @see IEnumerable.arcCosH() */
+export function arcCosH<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.acosh(y), handleAsInt),
+  );
+} // arcCosH()
+
+/** @see IEnumerable.arcSin() */
+export function arcSin<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.asin(y), handleAsInt),
+  );
+} // arcSin()
+
+/** @see IEnumerable.arcSinH() */
+export function arcSinH<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.asinh(y), handleAsInt),
+  );
+} // arcSinH()
+
+/** @see IEnumerable.arcTan() */
+export function arcTan<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.atan(y), handleAsInt),
+  );
+} // arcTan()
+
+/** @see IEnumerable.arcTanH() */
+export function arcTanH<T>(
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.atanh(y), handleAsInt),
+  );
+} // arcTanH()
+
+/** @see IEnumerable.assert() */
+export function assert<T>(
+  predicate: Predicate<T>,
+  errMsg?: ItemMessage<T>,
+): <S extends Sequence<T>>(source: S) => S {
+  predicate = toPredicateSafe(predicate);
+
+  const ERR_MSG = toItemMessageSafe(errMsg);
+
+  return (source) => {
+    let i = -1;
+    for (let item of toIterable(source)) {
+      ++i;
+
+      if (!predicate(item)) {
+        throw ERR_MSG(item, i);
+      }
+    }
+
+    return source;
+  };
+} // assert()
+
+/** @see IEnumerable.assertAll() */
+export function assertAll<T>(
+  predicate: Predicate<T>,
+  errMsg?: ItemMessage<T>,
+): <S extends Sequence<T>>(source: S) => S {
+  predicate = toPredicateSafe(predicate);
+
+  const ERR_MSG = toItemMessageSafe(errMsg);
+
+  return (source) => {
+    const ERRORS: string[] = [];
+
+    let i = -1;
+    for (let item of toIterable(source)) {
+      ++i;
+
+      if (!predicate(item)) {
+        ERRORS.push(ERR_MSG(item, i));
+      }
+    }
+
+    if (ERRORS.length > 0) {
+      throw new AggregateError(ERRORS);
+    }
+
+    return source;
+  };
+} // assertAll()
+
+/**
+ * @see IEnumerable.async()
+ *
+ * The 'sequence' property of the context is the source of the operator.
+ */
+export function async<T>(
+  action: AsyncAction<T>,
+  previousValue?: any,
+  signal?: AbortSignal,
+): Operator<T, Promise<any>> {
+  return (source) => {
+    return new Promise<any>((resolve, reject) => {
+      let asyncResult: any;
+      let isCompleted = false;
+      let isDone = false;
+      let iterator: Iterator<T>;
+      const ON_ABORT = () => {
+        ASYNC_COMPLETED(new AbortError((<any>signal).reason));
+      };
+      const ASYNC_COMPLETED = (err: any) => {
+        if (isCompleted) {
+          return;
+        }
+        isCompleted = true;
+
+        if (signal) {
+          signal.removeEventListener("abort", ON_ABORT);
+        }
+
+        if (!isDone && iterator && "function" === typeof iterator.return) {
+          // operation has been finished before
+          // the end of the sequence
+          iterator.return();
+        }
+
+        if (err) {
+          reject(err);
+        } else {
+          resolve(asyncResult);
+        }
+      };
+
+      try {
+        iterator = toIterable(source)[Symbol.iterator]();
+
+        let i = -1;
+        let prevVal = previousValue;
+        let val: any;
+        const NEXT_ITEM = () => {
+          if (isCompleted) {
+            return;
+          }
+
+          if (signal && signal.aborted) {
+            ON_ABORT();
+            return;
+          }
+
+          ++i;
+
+          const ITEM = iterator.next();
+          if (!ITEM || ITEM.done) {
+            isDone = true;
+
+            ASYNC_COMPLETED(null);
+            return;
+          }
+
+          const CTX: AsyncActionContext<T> = {
+            cancel: function (result?: any) {
+              if (arguments.length > 0) {
+                asyncResult = result;
+              }
+
+              ASYNC_COMPLETED(null);
+            },
+            index: i,
+            isFirst: 0 === i,
+            item: ITEM.value,
+            previousValue: prevVal,
+            reject: function (reason: any, result?: any) {
+              if (arguments.length > 1) {
+                asyncResult = result;
+              }
+
+              ASYNC_COMPLETED(reason);
+            },
+            resolve: function (nextValue?: any) {
+              prevVal = nextValue;
+
+              NEXT_ITEM();
+            },
+            result: undefined,
+            sequence: <any>source,
+            value: undefined,
+          };
+
+          // ctx.result
+          Object.defineProperty(CTX, "result", {
+            get: () => {
+              return asyncResult;
+            },
+            set: (newValue) => {
+              asyncResult = newValue;
+            },
+
+            enumerable: true,
+          });
+
+          // ctx.value
+          Object.defineProperty(CTX, "value", {
+            get: () => {
+              return val;
+            },
+            set: (newValue) => {
+              val = newValue;
+            },
+
+            enumerable: true,
+          });
+
+          try {
+            if (action) {
+              action(CTX);
+            } else {
+              CTX.resolve();
+            }
+          } catch (e) {
+            CTX.reject(e);
+          }
+        };
+
+        if (signal) {
+          signal.addEventListener("abort", ON_ABORT);
+        }
+
+        NEXT_ITEM();
+      } catch (e) {
+        ASYNC_COMPLETED(e);
+      }
+    });
+  };
+} // async()
+
+/** @see IEnumerable.average() */
+export function average<T>(
+  selector?: Selector<T, number>,
+): Operator<T, number | symbol> {
+  if (!selector) {
+    selector = (i) => <any>i;
+  }
+
+  return (source) => {
+    let count = 0;
+    let sum = 0.0;
+    for (let item of toIterable(source)) {
+      let n = selector(item);
+      if (!isNullOrUndefined(n)) {
+        if ("number" !== typeof n) {
+          n = parseFloat(toStringSafe(n).trim());
+        }
+      }
+
+      ++count;
+      sum += n;
+    }
+
+    return count > 0 ? sum / count : IS_EMPTY;
+  };
+} // average()
+
+/** @see IEnumerable.bottomBy() */
+export function bottomBy<T, U = T>(
+  count?: number,
+  selector?: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, Iterable<T>> {
+  if (isNullOrUndefined(count)) {
+    count = Infinity; // all items
+  } else if (Infinity !== Math.abs(count)) {
+    count = parseInt(toStringSafe(count).trim());
+    if (isNaN(count)) {
+      count = 1;
+    }
+  }
+
+  if (!selector) {
+    selector = selectItem;
+  }
+
+  const COMPARER = toComparerSafe(comparer);
+
+  return (source) => {
+    return createIterable(() =>
+      bottomByInner(toIterable(source), count, selector, COMPARER),
+    );
+  };
+} // bottomBy()
+
+/** @see IEnumerable.cast() */
+export function cast<T, U = any>(type?: string): Operator<T, Iterable<U>> {
+  type = toStringSafe(type).trim();
+
+  return select((x: any) => {
+    if ("" !== type) {
+      switch (type) {
+        case "bool":
+        case "boolean":
+          x = !!x;
+          break;
+
+        case "float":
+          x = parseFloat(toStringSafe(x).trim());
+          break;
+
+        case "func":
+        case "function":
+          if ("function" !== typeof x) {
+            const FUNC_RESULT = x;
+            x = function () {
+              return FUNC_RESULT;
+            };
+          }
+          break;
+
+        case "null":
+          x = null;
+          break;
+
+        case "number":
+          if ("number" !== typeof x) {
+            x = parseFloat(toStringSafe(x).trim());
+          }
+          break;
+
+        case "object":
+          if (!isNullOrUndefined(x)) {
+            if ("object" !== typeof x) {
+              x = JSON.parse(toStringSafe(x));
+            }
+          }
+          break;
+
+        case "int":
+        case "integer":
+          x = parseInt(toStringSafe(x).trim());
+          break;
+
+        case "string":
+          x = "" + x;
+          break;
+
+        case "symbol":
+          if ("symbol" !== typeof x) {
+            let desc = x;
+            if (!isNullOrUndefined(desc)) {
+              if ("number" !== typeof desc) {
+                desc = toStringSafe(desc);
+              }
+            }
+
+            x = Symbol(desc);
+          }
+          break;
+
+        case "undefined":
+          x = undefined;
+          break;
+
+        default:
+          throw "Not supported type " + type;
+      }
+    }
+
+    return <U>x;
+  });
+} // cast()
+
+/** @see IEnumerable.ceil() */
+export function ceil<T>(): Operator<T, Iterable<number>> {
+  return select((x: any) => {
+    return invokeForValidNumber(x, (y) => Math.ceil(y));
+  });
+} // ceil()
+
+/**
+ * @see IEnumerable.chunk()
+ *
+ * The chunks are arrays.
+ */
+export function chunk<T>(size?: number): Operator<T, Iterable<T[]>> {
+  size = parseInt(toStringSafe(size).trim());
+  if (isNaN(size)) {
+    size = 1;
+  }
+
+  return (source) => {
+    return createIterable(() => chunkInner(toIterable(source), size));
+  };
+} // chunk()
+
+/**
+ * @see IEnumerable.clone()
+ *
+ * The clones are arrays.
+ */
+export function clone<T, U = T>(
+  count?: number,
+  itemSelector?: Selector<T, U>,
+): Operator<T, Iterable<U[]>> {
+  count = parseInt(toStringSafe(count).trim());
+
+  return (source) => {
+    return createIterable(() =>
+      cloneInner(toIterable(source), count, itemSelector),
+    );
+  };
+} // clone()
+
+/** @see IEnumerable.collect() */
+export function collect<T, A, R = A>(
+  collector: Collector<T, A, R>,
+): Operator<T, R> {
+  return (source) => {
+    let container = collector.supplier();
+    for (let item of toIterable(source)) {
+      container = accumulateWith(collector, container, item);
+    }
+
+    return finishWith(collector, container);
+  };
+} // collect()
+
+/** @see IEnumerable.concat() */
+export function concat<T, U = T>(
+  ...args: Sequence<U>[]
+): Operator<T, Iterable<T | U>> {
+  return concatArray<T, U>(args);
+} // concat()
+
+/** @see IEnumerable.concatArray() */
+export function concatArray<T, U = T>(
+  sequences: ArrayLike<Sequence<U>>,
+): Operator<T, Iterable<T | U>> {
+  return (source) => {
+    return createIterable(() =>
+      concatArrayInner(toIterable(source), sequences),
+    );
+  };
+} // concatArray()
+
+/** @see IEnumerable.consume() */
+export function consume<T>(): <S extends Sequence<T>>(source: S) => S {
+  return (source) => {
+    for (let item of toIterable(source)) {
+    }
+
+    return source;
+  };
+} // consume()
+
+/** @see IEnumerable.contains() */
+export function contains<T, U>(
+  item: U,
+  comparer?: EqualityComparer<T, U> | true,
+): Operator<T, boolean> {
+  const INDEX_OF = indexOf<T, U>(item, comparer);
+
+  return (source) => INDEX_OF(source) > -1;
+} // contains()
+
+/** @see IEnumerable.cos() */
+export function cos<T>(handleAsInt?: boolean): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.cos(y), handleAsInt),
+  );
+} // cos()
+
+/** @see IEnumerable.cosH() */
+export function cosH<T>(handleAsInt?: boolean): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.cosh(y), handleAsInt),
+  );
+} // cosH()
+
+/** @see IEnumerable.count() */
+export function count<T>(predicate?: Predicate<T>): Operator<T, number> {
+  predicate = toPredicateSafe(predicate);
+
+  return (source) => {
+    let cnt = 0;
+    for (let item of toIterable(source)) {
+      if (predicate(item)) {
+        ++cnt;
+      }
+    }
+
+    return cnt;
+  };
+} // count()
+
+/** @see IEnumerable.defaultArrayIfEmpty() */
+export function defaultArrayIfEmpty<T>(
+  defaultSequence: Sequence<T>,
+): Operator<T, Iterable<T>> {
+  return defaultSequenceIfEmpty(defaultSequence);
+} // defaultArrayIfEmpty()
+
+/** @see IEnumerable.defaultIfEmpty() */
+export function defaultIfEmpty<T>(
+  ...defaultItems: Array<T>
+): Operator<T, Iterable<T>> {
+  return defaultSequenceIfEmpty(defaultItems);
+} // defaultIfEmpty()
+
+/** @see IEnumerable.defaultSequenceIfEmpty() */
+export function defaultSequenceIfEmpty<T>(
+  defaultSequence: Sequence<T>,
+): Operator<T, Iterable<T>> {
+  return (source) => {
+    return createIterable(() =>
+      defaultSequenceIfEmptyInner(toIterable(source), defaultSequence),
+    );
+  };
+} // defaultSequenceIfEmpty()
+
+/** @see IEnumerable.distinct() */
+export function distinct<T>(
+  comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+): Operator<T, Iterable<T>> {
+  return distinctBy((x) => x, comparer);
+} // distinct()
+
+/** @see IEnumerable.distinctBy() */
+export function distinctBy<T, U>(
+  selector: Selector<T, U>,
+  comparer?: EqualityComparer<U> | IEqualityComparer<U> | true,
+): Operator<T, Iterable<T>> {
+  if (!selector) {
+    selector = (i) => <any>i;
+  }
+
+  const COMPARER = toIEqualityComparerSafe(comparer);
+
+  return (source) => {
+    return createIterable(() =>
+      distinctByInner(toIterable(source), selector, COMPARER),
+    );
+  };
+} // distinctBy()
+
+/** @see IEnumerable.each() */
+export function each<T>(
+  action: EachAction<T>,
+): <S extends Sequence<T>>(source: S) => S {
+  return forEach(action);
+} // each()
+
+/** @see IEnumerable.eachAll() */
+export function eachAll<T>(
+  action: EachAction<T>,
+): <S extends Sequence<T>>(source: S) => S {
+  return forAll(action);
+} // eachAll()
+
+/** @see IEnumerable.elementAt() */
+export function elementAt<T>(index: number): Operator<T, T> {
+  const ELEMENT_NOT_FOUND = Symbol("ELEMENT_NOT_FOUND");
+
+  const ELEMENT_AT = elementAtOrDefault<T, symbol>(index, ELEMENT_NOT_FOUND);
+
+  return (source) => {
+    const ITEM = ELEMENT_AT(source);
+
+    if (ELEMENT_NOT_FOUND === ITEM) {
+      throw "Element not found";
+    }
+
+    return <T>ITEM;
+  };
+} // elementAt()
+
+/** @see IEnumerable.elementAtOrDefault() */
+export function elementAtOrDefault<T, U = symbol>(
+  index: number,
+  defaultValue?: U,
+): Operator<T, T | U> {
+  index = parseInt(toStringSafe(index).trim());
+
+  if (arguments.length < 2) {
+    defaultValue = <any>NOT_FOUND;
+  }
+
+  return (source) => {
+    let i = -1;
+    for (let item of toIterable(source)) {
+      if (++i === index) {
+        return item;
+      }
+    }
+
+    return defaultValue;
+  };
+} // elementAtOrDefault()
+
+/** @see IEnumerable.except() */
+export function except<T>(
+  second: Sequence<T>,
+  comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+): Operator<T, Iterable<T>> {
+  const COMPARER = toIEqualityComparerSafe(comparer);
+
+  return (source) => {
+    return createIterable(() =>
+      exceptInner(toIterable(source), second, COMPARER),
+    );
+  };
+} // except()
+
+/** @see IEnumerable.exp() */
+export function exp<T>(handleAsInt?: boolean): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.exp(y), handleAsInt),
+  );
+} // exp()
+
+/** @see IEnumerable.first() */
+export function first<T, U extends T>(
+  predicate: TypeGuard<T, U>,
+): Operator<T, U>;
+/** @see IEnumerable.first() */
+export function first<T>(predicate?: Predicate<T>): Operator<T, T>;
+export function first<T>(predicate?: Predicate<T>): Operator<T, T> {
+  const ELEMENT_NOT_FOUND = Symbol("ELEMENT_NOT_FOUND");
+
+  const FIRST = firstOrDefault<T, symbol>(
+    toPredicateSafe(predicate),
+    ELEMENT_NOT_FOUND,
+  );
+
+  return (source) => {
+    const RESULT = FIRST(source);
+
+    if (ELEMENT_NOT_FOUND === RESULT) {
+      throw "Element not found";
+    }
+
+    return <T>RESULT;
+  };
+} // first()
+
+/** @see IEnumerable.firstOrDefault() */
+export function firstOrDefault<T, U = symbol>(
+  predicateOrDefaultValue?: Predicate<T> | T,
+  defaultValue?: U,
+): Operator<T, T | U> {
+  const ARGS = getOrDefaultArguments(
+    predicateOrDefaultValue,
+    defaultValue,
+    arguments.length,
+  );
+
+  return (source) => {
+    for (let item of toIterable(source)) {
+      if (ARGS.predicate(item)) {
+        return item;
+      }
+    }
+
+    return ARGS.defaultValue;
+  };
+} // firstOrDefault()
+
+/** @see IEnumerable.flatten() */
+export function flatten<T, U = T>(): Operator<T, Iterable<U>> {
+  return selectMany((x: any) => {
+    if (!isSequence(x)) {
+      x = [x];
+    }
+
+    return x;
+  });
+} // flatten()
+
+/** @see IEnumerable.floor() */
+export function floor<T>(): Operator<T, Iterable<number>> {
+  return select((x: any) => {
+    return invokeForValidNumber(x, (y) => Math.floor(y));
+  });
+} // floor()
+
+/** @see IEnumerable.forAll() */
+export function forAll<T>(
+  action: EachAction<T>,
+): <S extends Sequence<T>>(source: S) => S {
+  return (source) => {
+    const ERRORS: any[] = [];
+
+    let i = -1;
+    for (let item of toIterable(source)) {
+      ++i;
+
+      try {
+        if (action) {
+          action(item, i);
+        }
+      } catch (e) {
+        ERRORS.push(new FunctionError(e, action, i));
+      }
+    }
+
+    if (ERRORS.length > 0) {
+      throw new AggregateError(ERRORS);
+    }
+
+    return source;
+  };
+} // forAll()
+
+/** @see IEnumerable.forEach() */
+export function forEach<T>(
+  action: EachAction<T>,
+): <S extends Sequence<T>>(source: S) => S {
+  return (source) => {
+    let i = -1;
+    for (let item of toIterable(source)) {
+      ++i;
+
+      if (action) {
+        action(item, i);
+      }
+    }
+
+    return source;
+  };
+} // forEach()
+
+/** @see IEnumerable.forEachParallel() */
+export function forEachParallel<T>(
+  action: AsyncEachAction<T>,
+  options?: ParallelOptions,
+): Operator<T, Promise<void>> {
+  if (!action) {
+    action = () => {};
+  }
+
+  const SELECT_PARALLEL = selectParallel<T, void>(
+    action,
+    Object.assign({}, options, {
+      preserveOrder: false,
+    }),
+  );
+
+  return async (source) => {
+    for await (let item of SELECT_PARALLEL(source)) {
+    }
+  };
+} // forEachParallel()
+
+/**
+ * @see IEnumerable.groupBy()
+ *
+ * The groups are objects with the key and an array of their items.
+ */
+export function groupBy<T, TKey>(
+  keySelector: Selector<T, TKey>,
+  keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+): Operator<T, Iterable<ItemGroup<TKey, T>>> {
+  if (!keySelector) {
+    keySelector = (i) => <any>i;
+  }
+
+  const KEY_EQUALITY_COMPARER = toIEqualityComparerSafe(keyEqualityComparer);
+
+  return (source) => {
+    return createIterable(() =>
+      groupByInner(toIterable(source), keySelector, KEY_EQUALITY_COMPARER),
+    );
+  };
+} // groupBy()
+
+/**
+ * @see IEnumerable.groupJoin()
+ *
+ * The inner items are submitted as array.
+ */
+export function groupJoin<
+  T,
+  TInner = T,
+  TOuterKey = any,
+  TInnerKey = any,
+  TResult = JoinedItems<T, TInner[]>,
+>(
+  inner: Sequence<TInner>,
+  outerKeySelector?: Selector<T, TOuterKey>,
+  innerKeySelector?: Selector<TInner, TInnerKey>,
+  resultSelector?: (outer: T, inner: TInner[]) => TResult,
+  keyEqualityComparer?:
+    | EqualityComparer<TOuterKey, TInnerKey>
+    | IEqualityComparer<TOuterKey | TInnerKey>
+    | true,
+): Operator<T, Iterable<TResult>> {
+  if (!outerKeySelector && !innerKeySelector) {
+    outerKeySelector = selectItem;
+    innerKeySelector = selectItem;
+  } else {
+    if (!outerKeySelector) {
+      outerKeySelector = <any>innerKeySelector;
+    } else if (!innerKeySelector) {
+      innerKeySelector = <any>outerKeySelector;
+    }
+  }
+
+  if (!resultSelector) {
+    resultSelector = (outer, inner) => {
+      // JoinedItems<T, TInner[]>
+      return <any>{
+        inner: inner,
+        outer: outer,
+      };
+    };
+  }
+
+  return (source) => {
+    return createIterable(() =>
+      groupJoinInner(
+        toIterable(source),
+        inner,
+        outerKeySelector,
+        innerKeySelector,
+        resultSelector,
+        keyEqualityComparer,
+      ),
+    );
+  };
+} // groupJoin()
+
+/** @see IEnumerable.indexOf() */
+export function indexOf<T, U>(
+  item: U,
+  comparer?: EqualityComparer<T, U> | true,
+): Operator<T, number> {
+  const COMPARER = toEqualityComparerSafe(comparer);
+
+  return (source) => {
+    let index = -1;
+
+    for (let sourceItem of toIterable(source)) {
+      ++index;
+
+      if (COMPARER(sourceItem, item)) {
+        return index;
+      }
+    }
+
+    return -1;
+  };
+} // indexOf()
+
+/** @see IEnumerable.intersect() */
+export function intersect<T>(
+  second: Sequence<T>,
+  comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+): Operator<T, Iterable<T>> {
+  const COMPARER = toIEqualityComparerSafe(comparer);
+
+  return (source) => {
+    return createIterable(() =>
+      intersectInner(toIterable(source), second, COMPARER),
+    );
+  };
+} // intersect()
+
+/** @see IEnumerable.intersperse() */
+export function intersperse<T, U = T>(
+  ...separators: U[]
+): Operator<T, Iterable<T | U>> {
+  return intersperseArray<T, U>(separators);
+} // intersperse()
+
+/** @see IEnumerable.intersperseArray() */
+export function intersperseArray<T, U = T>(
+  separators: Sequence<U>,
+): Operator<T, Iterable<T | U>> {
+  return (source) => {
+    return createIterable(() =>
+      intersperseInner(toIterable(source), toArray<U>()(separators)),
+    );
+  };
+} // intersperseArray()
+
+/** @see IEnumerable.isEmpty() */
+export function isEmpty<T>(): Operator<T, boolean> {
+  const LENGTH = length<T>();
+
+  return (source) => LENGTH(source) < 1;
+} // isEmpty()
+
+/** @see IEnumerable.join() */
+export function join<
+  T,
+  TInner = T,
+  TOuterKey = any,
+  TInnerKey = any,
+  TResult = JoinedItems<T, TInner>,
+>(
+  inner: Sequence<TInner>,
+  outerKeySelector?: Selector<T, TOuterKey>,
+  innerKeySelector?: Selector<TInner, TInnerKey>,
+  resultSelector?: (outer: T, inner: TInner) => TResult,
+  keyEqualityComparer?:
+    | EqualityComparer<TOuterKey, TInnerKey>
+    | IEqualityComparer<TOuterKey | TInnerKey>
+    | true,
+): Operator<T, Iterable<TResult>> {
+  if (!outerKeySelector && !innerKeySelector) {
+    outerKeySelector = selectItem;
+    innerKeySelector = selectItem;
+  } else {
+    if (!outerKeySelector) {
+      outerKeySelector = <any>innerKeySelector;
+    } else if (!innerKeySelector) {
+      innerKeySelector = <any>outerKeySelector;
+    }
+  }
+
+  if (!resultSelector) {
+    resultSelector = (outer, inner) => {
+      // JoinedItems<T, TInner>
+      return <any>{
+        inner: inner,
+        outer: outer,
+      };
+    };
+  }
+
+  return (source) => {
+    return createIterable(() =>
+      joinInner(
+        toIterable(source),
+        inner,
+        outerKeySelector,
+        innerKeySelector,
+        resultSelector,
+        keyEqualityComparer,
+      ),
+    );
+  };
+} // join()
+
+/** @see IEnumerable.joinToString() */
+export function joinToString<T>(separator?: any): Operator<T, string> {
+  return (source) => toArray<T>()(source).join(toStringSafe(separator));
+} // joinToString()
+
+/** @see IEnumerable.last() */
+export function last<T>(predicate?: Predicate<T>): Operator<T, T> {
+  const ELEMENT_NOT_FOUND = Symbol("ELEMENT_NOT_FOUND");
+
+  const LAST = lastOrDefault<T, symbol>(
+    toPredicateSafe(predicate),
+    ELEMENT_NOT_FOUND,
+  );
+
+  return (source) => {
+    const RESULT = LAST(source);
+
+    if (ELEMENT_NOT_FOUND === RESULT) {
+      throw "Element not found";
+    }
+
+    return <T>RESULT;
+  };
+} // last()
+
+/** @see IEnumerable.lastIndexOf() */
+export function lastIndexOf<T, U>(
+  item: U,
+  comparer?: EqualityComparer<T, U> | true,
+): Operator<T, number> {
+  const COMPARER = toEqualityComparerSafe(comparer);
+
+  return (source) => {
+    let index = -1;
+    let lastIndex = -1;
+
+    for (let sourceItem of toIterable(source)) {
+      ++index;
+
+      if (COMPARER(sourceItem, item)) {
+        lastIndex = index;
+      }
+    }
+
+    return lastIndex;
+  };
+} // lastIndexOf()
+
+/** @see IEnumerable.lastOrDefault() */
+export function lastOrDefault<T, U = symbol>(
+  predicateOrDefaultValue?: Predicate<T> | T,
+  defaultValue?: U,
+): Operator<T, T | U> {
+  const ARGS = getOrDefaultArguments(
+    predicateOrDefaultValue,
+    defaultValue,
+    arguments.length,
+  );
+
+  return (source) => {
+    const ELEMENT_NOT_FOUND = Symbol("ELEMENT_NOT_FOUND");
+
+    let result: any = ELEMENT_NOT_FOUND;
+
+    for (let item of toIterable(source)) {
+      if (ARGS.predicate(item)) {
+        result = item;
+      }
+    }
+
+    if (ELEMENT_NOT_FOUND !== result) {
+      return result;
+    }
+
+    return ARGS.defaultValue;
+  };
+} // lastOrDefault()
+
+/** @see IEnumerable.length() */
+export function length<T>(): Operator<T, number> {
+  return count<T>();
+} // length()
+
+/** @see IEnumerable.log() */
+export function log<T>(
+  base?: number,
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>> {
+  let logFunc: (n: number) => number;
+
+  base = parseFloat(toStringSafe(base).trim());
+  if (isNaN(base)) {
+    logFunc = (a) => Math.log(a);
+  } else {
+    logFunc = (a) => Math.log(a) / Math.log(base);
+  }
+
+  return select((x) => {
+    return invokeForValidNumber(x, (y) => logFunc(y), handleAsInt);
+  });
+} // log()
+
+/**
+ * @see IEnumerable.makeResettable()
+ *
+ * Returns an array, which can be iterated again and again.
+ */
+export function makeResettable<T>(): Operator<T, T[]> {
+  return (source) => {
+    if (Array.isArray(source)) {
+      return source;
+    }
+
+    return toArray<T>()(source);
+  };
+} // makeResettable()
+
+/** @see IEnumerable.max() */
+export function max<T, U = T>(
+  valueSelector?: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, T | symbol> {
+  if (!valueSelector) {
+    valueSelector = (i) => <any>i;
+  }
+
+  comparer = toComparerSafe(comparer);
+
+  return (source) => {
+    let result: any = IS_EMPTY;
+    let maxValue: U;
+
+    let isFirst = true;
+    for (let item of toIterable(source)) {
+      const VALUE = valueSelector(item);
+
+      const UPDATE_RESULT = () => {
+        result = item;
+        maxValue = VALUE;
+      };
+
+      if (!isFirst) {
+        if (comparer(VALUE, maxValue) > 0) {
+          UPDATE_RESULT();
+        }
+      } else {
+        isFirst = false;
+
+        UPDATE_RESULT();
+      }
+    }
+
+    return result;
+  };
+} // max()
+
+/** @see IEnumerable.memoize() */
+export function memoize<T>(): Operator<T, Iterable<T>> {
+  return (source) => {
+    const CACHE: T[] = [];
+
+    let isDone = false;
+    let iterator: Iterator<T>;
+
+    const LOAD = (index: number): boolean => {
+      while (!isDone && CACHE.length <= index) {
+        if (!iterator) {
+          iterator = toIterable(source)[Symbol.iterator]();
+        }
+
+        const ITEM = getNextIteratorResultSafe(iterator);
+        if (ITEM.done) {
+          isDone = true;
+        } else {
+          CACHE.push(ITEM.value);
+        }
+      }
+
+      return index < CACHE.length;
+    };
+
+    return createIterable(() => memoizeInner(CACHE, LOAD));
+  };
+} // memoize()
+
+/** @see IEnumerable.min() */
+export function min<T, U = T>(
+  valueSelector?: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, T | symbol> {
+  if (!valueSelector) {
+    valueSelector = (i) => <any>i;
+  }
+
+  comparer = toComparerSafe(comparer);
+
+  return (source) => {
+    let result: any = IS_EMPTY;
+    let minValue: U;
+
+    let isFirst = true;
+    for (let item of toIterable(source)) {
+      const VALUE = valueSelector(item);
+
+      const UPDATE_RESULT = () => {
+        result = item;
+        minValue = VALUE;
+      };
+
+      if (!isFirst) {
+        if (comparer(VALUE, minValue) < 0) {
+          UPDATE_RESULT();
+        }
+      } else {
+        isFirst = false;
+
+        UPDATE_RESULT();
+      }
+    }
+
+    return result;
+  };
+} // min()
+
+/** @see IEnumerable.noNAN() */
+export function noNAN<T>(checkForInt?: boolean): Operator<T, Iterable<T>> {
+  return where((x) => {
+    const STR = toStringSafe(x).trim();
+
+    return !isNaN(!checkForInt ? parseFloat(STR) : parseInt(STR));
+  });
+} // noNAN()
+
+/** @see IEnumerable.not() */
+export function not<T>(predicate?: Predicate<T>): Operator<T, Iterable<T>> {
+  let predicateToUse: Predicate<T>;
+  if (arguments.length < 1) {
+    predicateToUse = (x) => !x;
+  } else {
+    predicate = toPredicateSafe(predicate);
+
+    predicateToUse = (x) => !predicate(x);
+  }
+
+  return where((x) => predicateToUse(x));
+} // not()
+
+/** @see IEnumerable.notEmpty() */
+export function notEmpty<T>(): Operator<T, Iterable<T>> {
+  return where((x) => !!x);
+} // notEmpty()
+
+/** @see IEnumerable.ofType() */
+export function ofType<T, U = any>(type: string): Operator<T, Iterable<U>>;
+/** @see IEnumerable.ofType() */
+export function ofType<T, U>(
+  type: TypeConstructor<U>,
+): Operator<T, Iterable<U>>;
+export function ofType<T, U>(
+  type: string | TypeConstructor<U>,
+): Operator<T, Iterable<U>> {
+  if ("function" === typeof type) {
+    const CLASS = type;
+
+    return <any>where((x) => x instanceof CLASS);
+  }
+
+  const TYPE = toStringSafe(type).trim();
+
+  return <any>where((x) => {
+    return TYPE.toLowerCase() === typeof x || "" === TYPE;
+  });
+} // ofType()
+
+/** @see IEnumerable.order() */
+export function order<T>(
+  comparer?: Comparer<T>,
+): Operator<T, OrderedIterable<T>> {
+  return orderBy(selectItem, comparer);
+} // order()
+
+/** @see IEnumerable.orderBy() */
+export function orderBy<T, U>(
+  selector: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, OrderedIterable<T>> {
+  const LEVEL = createOrderLevel(selector, comparer);
+
+  return (source) => new OrderedIterable<T>(source, [LEVEL]);
+} // orderBy()
+
+/** @see IEnumerable.orderByDescending() */
+export function orderByDescending<T, U>(
+  selector: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, OrderedIterable<T>> {
+  comparer = toComparerSafe(comparer);
+
+  return orderBy(selector, (x, y) => {
+    return comparer(y, x);
+  });
+} // orderByDescending()
+
+/** @see IEnumerable.orderDescending() */
+export function orderDescending<T>(
+  comparer?: Comparer<T>,
+): Operator<T, OrderedIterable<T>> {
+  return orderByDescending((x: T) => x, comparer);
+} // orderDescending()
+
+/** @see IEnumerable.pairwise() */
+export function pairwise<T>(): Operator<T, Iterable<[T, T]>> {
+  return (source) => {
+    return createIterable(() => pairwiseInner(toIterable(source)));
+  };
+} // pairwise()
+
+/** @see IEnumerable.pow() */
+export function pow<T>(
+  exponent?: number,
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>> {
+  exponent = parseFloat(toStringSafe(exponent).trim());
+  if (isNaN(exponent)) {
+    exponent = 2;
+  }
+
+  return select((x: any) => {
+    return invokeForValidNumber(x, (y) => Math.pow(y, exponent), handleAsInt);
+  });
+} // pow()
+
+/** @see IEnumerable.prepend() */
+export function prepend<T, U = T>(
+  ...args: Sequence<U>[]
+): Operator<T, Iterable<T | U>> {
+  return prependArray<T, U>(args);
+} // prepend()
+
+/** @see IEnumerable.prependArray() */
+export function prependArray<T, U = T>(
+  sequences: ArrayLike<Sequence<U>>,
+): Operator<T, Iterable<T | U>> {
+  return (source) => {
+    return createIterable(() =>
+      prependArrayInner(toIterable(source), sequences),
+    );
+  };
+} // prependArray()
+
+/** @see IEnumerable.product() */
+export function product<T>(): Operator<T, T | symbol> {
+  return aggregate<T, any>(
+    (acc, x) => (IS_EMPTY !== acc ? acc * <any>x : x),
+    IS_EMPTY,
+  );
+} // product()
+
+/** @see IEnumerable.pushTo() */
+export function pushTo<T>(
+  stack: Stack<T>,
+): <S extends Sequence<T>>(source: S) => S {
+  return (source) => {
+    if (stack) {
+      collect(createStackCollector<T, Stack<T>>(stack))(source);
+    }
+
+    return source;
+  };
+} // pushTo()
+
+/** @see IEnumerable.rand() */
+export function rand<T>(
+  sortValueProvider?: () => any,
+): Operator<T, OrderedIterable<T>> {
+  if (!sortValueProvider) {
+    sortValueProvider = () => Math.random();
+  }
+
+  return orderBy(() => {
+    return sortValueProvider();
+  });
+} // rand()
+
+/** @see IEnumerable.reverse() */
+export function reverse<T>(): Operator<T, OrderedIterable<T>> {
+  let i = Number.MIN_SAFE_INTEGER;
+
+  return orderByDescending(() => {
+    return i++;
+  });
+} // reverse()
+
+/** @see IEnumerable.root() */
+export function root<T>(
+  power?: number,
+  handleAsInt?: boolean,
+): Operator<T, Iterable<number>> {
+  power = parseFloat(toStringSafe(power).trim());
+  if (isNaN(power)) {
+    power = 2;
+  }
+
+  return select((x) => {
+    return invokeForValidNumber(x, (y) => Math.pow(y, 1 / power), handleAsInt);
+  });
+} // root()
+
+/** @see IEnumerable.round() */
+export function round<T>(): Operator<T, Iterable<number>> {
+  return select((x: any) => {
+    return invokeForValidNumber(x, (y) => Math.round(y));
+  });
+} // round()
+
+/** @see IEnumerable.select() */
+export function select<T, U>(
+  selector: Selector<T, U>,
+): Operator<T, Iterable<U>> {
+  if (!selector) {
+    selector = selectItem;
+  }
+
+  return (source) => createFusedIterable(source, () => selector);
+} // select()
+
+/** @see IEnumerable.selectMany() */
+export function selectMany<T, U>(
+  selector: Selector<T, Sequence<U>>,
+): Operator<T, Iterable<U>> {
+  if (!selector) {
+    selector = (x) => [<any>x];
+  }
+
+  return (source) => {
+    return createIterable(() => selectManyInner(toIterable(source), selector));
+  };
+} // selectMany()
+
+/**
+ * @see IEnumerable.selectParallel()
+ *
+ * Returns an async iterable.
+ */
+export function selectParallel<T, U>(
+  selector: ParallelSelector<T, U>,
+  options?: ParallelOptions,
+): Operator<T, AsyncIterable<U>> {
+  return (source) => {
+    return createAsyncIterable(() =>
+      selectParallelItems(toAsyncInner(toIterable(source)), selector, options),
+    );
+  };
+} // selectParallel()
+
+/** @see IEnumerable.sequenceEqual() */
+export function sequenceEqual<T, U>(
+  other: Sequence<U>,
+  equalityComparer?: EqualityComparer<T, U> | true,
+): Operator<T, boolean> {
+  const EQUALITY_COMPARER = toEqualityComparerSafe(equalityComparer);
+
+  return (source) => {
+    const ITERATOR = toIterable(source)[Symbol.iterator]();
+    const OTHER_SEQ = toIterable(other)[Symbol.iterator]();
+
+    do {
+      const X = getNextIteratorResultSafe(ITERATOR);
+      if (X.done) {
+        break;
+      }
+
+      const Y = getNextIteratorResultSafe(OTHER_SEQ);
+      if (Y.done) {
+        return false;
+      }
+
+      if (!EQUALITY_COMPARER(X.value, Y.value)) {
+        return false;
+      }
+    } while (true);
+
+    if (!getNextIteratorResultSafe(OTHER_SEQ).done) {
+      return false;
+    }
+
+    return true;
+  };
+} // sequenceEqual()
+
+/** @see IEnumerable.shuffle() */
+export function shuffle<T>(
+  sortValueProvider?: () => any,
+): Operator<T, OrderedIterable<T>> {
+  return rand(sortValueProvider);
+} // shuffle()
+
+/** @see IEnumerable.sin() */
+export function sin<T>(handleAsInt?: boolean): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.sin(y), handleAsInt),
+  );
+} // sin()
+
+/** @see IEnumerable.sinH() */
+export function sinH<T>(handleAsInt?: boolean): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.sinh(y), handleAsInt),
+  );
+} // sinH()
+
+/** @see IEnumerable.single() */
+export function single<T, U extends T>(
+  predicate: TypeGuard<T, U>,
+): Operator<T, U>;
+/** @see IEnumerable.single() */
+export function single<T>(predicate?: Predicate<T>): Operator<T, T>;
+export function single<T>(predicate?: Predicate<T>): Operator<T, T> {
+  const ELEMENT_NOT_FOUND = Symbol("ELEMENT_NOT_FOUND");
+
+  const SINGLE = singleOrDefault<T, symbol>(
+    toPredicateSafe(predicate),
+    ELEMENT_NOT_FOUND,
+  );
+
+  return (source) => {
+    const ITEM = SINGLE(source);
+
+    if (ELEMENT_NOT_FOUND === ITEM) {
+      throw "Element not found";
+    }
+
+    return <T>ITEM;
+  };
+} // single()
+
+/** @see IEnumerable.singleOrDefault() */
+export function singleOrDefault<T, U = symbol>(
+  predicateOrDefaultValue?: Predicate<T> | T,
+  defaultValue?: U,
+): Operator<T, T | U> {
+  const ARGS = getOrDefaultArguments(
+    predicateOrDefaultValue,
+    defaultValue,
+    arguments.length,
+  );
+
+  return (source) => {
+    const ELEMENT_NOT_FOUND = Symbol("ELEMENT_NOT_FOUND");
+
+    let result: any = ELEMENT_NOT_FOUND;
+
+    for (let item of toIterable(source)) {
+      if (!ARGS.predicate(item)) {
+        continue;
+      }
+
+      if (ELEMENT_NOT_FOUND !== result) {
+        throw "Sequence contains more that one matching element";
+      }
+
+      result = item;
+    }
+
+    if (ELEMENT_NOT_FOUND !== result) {
+      return result;
+    }
+
+    return ARGS.defaultValue;
+  };
+} // singleOrDefault()
+
+/** @see IEnumerable.skip() */
+export function skip<T>(count?: number): Operator<T, Iterable<T>> {
+  count = parseInt(toStringSafe(count).trim());
+  if (isNaN(count)) {
+    count = 1;
+  }
+
+  return (source) => {
+    return createFusedIterable(source, () => {
+      // the counter is created for each iteration,
+      // so a re-iterable sequence can be replayed
+      let remaining = count;
+
+      return (x) => (remaining-- > 0 ? SKIP_ITEM : x);
+    });
+  };
+} // skip()
+
+/** @see IEnumerable.skipLast() */
+export function skipLast<T>(): Operator<T, Iterable<T>> {
+  return (source) => {
+    return createIterable(() => skipLastInner(toIterable(source)));
+  };
+} // skipLast()
+
+/** @see IEnumerable.skipWhile() */
+export function skipWhile<T>(
+  predicate: Predicate<T>,
+): Operator<T, Iterable<T>> {
+  predicate = toPredicateSafe(predicate);
+
+  return (source) => {
+    return createIterable(() => skipWhileInner(toIterable(source), predicate));
+  };
+} // skipWhile()
+
+/** @see IEnumerable.sqrt() */
+export function sqrt<T>(handleAsInt?: boolean): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.sqrt(y), handleAsInt),
+  );
+} // sqrt()
+
+/** @see IEnumerable.sum() */
+export function sum<T>(): Operator<T, T | symbol> {
+  return aggregate<T, any>(
+    (acc, x) => (IS_EMPTY !== acc ? acc + x : x),
+    IS_EMPTY,
+  );
+} // sum()
+
+/** @see IEnumerable.take() */
+export function take<T>(count?: number): Operator<T, Iterable<T>> {
+  count = parseInt(toStringSafe(count).trim());
+  if (isNaN(count)) {
+    count = 1;
+  }
+
+  return (source) => {
+    return createFusedIterable(source, (stop) => {
+      let remaining = count;
+      if (remaining < 1) {
+        stop();
+      }
+
+      // stop after the last item, without reading another one
+      return (x) => {
+        if (--remaining < 1) {
+          stop();
+        }
+
+        return x;
+      };
+    });
+  };
+} // take()
+
+/** @see IEnumerable.takeWhile() */
+export function takeWhile<T>(
+  predicate: Predicate<T>,
+): Operator<T, Iterable<T>> {
+  predicate = toPredicateSafe(predicate);
+
+  return (source) => {
+    return createIterable(() => takeWhileInner(toIterable(source), predicate));
+  };
+} // takeWhile()
+
+/** @see IEnumerable.tan() */
+export function tan<T>(handleAsInt?: boolean): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.tan(y), handleAsInt),
+  );
+} // tan()
+
+/** @see IEnumerable.tanH() */
+export function tanH<T>(handleAsInt?: boolean): Operator<T, Iterable<number>> {
+  return select((x) =>
+    invokeForValidNumber(x, (y) => Math.tanh(y), handleAsInt),
+  );
+} // tanH()
+
+/**
+ * @see IEnumerable.tee()
+ *
+ * The sequences are iterators, which can only be iterated once.
+ */
+export function tee<T>(count?: number): Operator<T, IterableIterator<T>[]> {
+  count = parseInt(toStringSafe(count).trim());
+  if (isNaN(count)) {
+    count = 2;
+  }
+
+  return (source) => {
+    const BUFFER: T[] = [];
+    const POSITIONS: number[] = [];
+
+    let bufferStart = 0; // position of the first item in BUFFER
+    let isDone = false;
+    let iterator: Iterator<T>;
+
+    const NEXT_ITEM = (reader: number): IteratorResult<T> => {
+      const INDEX = POSITIONS[reader] - bufferStart;
+
+      if (INDEX >= BUFFER.length) {
+        if (isDone) {
+          return {
+            done: true,
+            value: undefined,
+          };
+        }
+
+        if (!iterator) {
+          iterator = toIterable(source)[Symbol.iterator]();
+        }
+
+        const ITEM = getNextIteratorResultSafe(iterator);
+        if (ITEM.done) {
+          isDone = true;
+          return ITEM;
+        }
+
+        BUFFER.push(ITEM.value);
+      }
+
+      const VALUE = BUFFER[INDEX];
+      ++POSITIONS[reader];
+
+      // remove the items, which have been read by all sequences
+      const MIN_POSITION = Math.min(...POSITIONS);
+      while (bufferStart < MIN_POSITION) {
+        BUFFER.shift();
+        ++bufferStart;
+      }
+
+      return {
+        done: false,
+        value: VALUE,
+      };
+    };
+
+    const SEQUENCES: IterableIterator<T>[] = [];
+    for (let i = 0; i < count; i++) {
+      POSITIONS.push(0);
+      SEQUENCES.push(teeInner(i, NEXT_ITEM));
+    }
+
+    return SEQUENCES;
+  };
+} // tee()
+
+/** @see IOrderedEnumerable.thenBy() */
+export function thenBy<T, U>(
+  selector: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, OrderedIterable<T>, OrderedIterable<T>> {
+  const LEVEL = createOrderLevel(selector, comparer);
+
+  return (source) => {
+    return new OrderedIterable<T>(source.source, source.levels.concat([LEVEL]));
+  };
+} // thenBy()
+
+/** @see IOrderedEnumerable.thenByDescending() */
+export function thenByDescending<T, U>(
+  selector: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, OrderedIterable<T>, OrderedIterable<T>> {
+  comparer = toComparerSafe(comparer);
+
+  return thenBy(selector, (x, y) => comparer(y, x));
+} // thenByDescending()
+
+/** @see IOrderedEnumerable.thenDescending() */
+export function thenDescending<T>(
+  comparer?: Comparer<T>,
+): Operator<T, OrderedIterable<T>, OrderedIterable<T>> {
+  return thenByDescending(selectItem, comparer);
+} // thenDescending()
+
+/** @see IEnumerable.toArray() */
+export function toArray<T>(): Operator<T, Array<T>> {
+  return (source) => {
+    const ARR: Array<T> = [];
+
+    for (let i of toIterable(source)) {
+      ARR.push(i);
+    }
+
+    return ARR;
+  };
+} // toArray()
+
+/**
+ * @see IEnumerable.toAsync()
+ *
+ * Returns an async iterable.
+ */
+export function toAsync<T>(): Operator<T, AsyncIterable<T>> {
+  return (source) => {
+    return createAsyncIterable(() => toAsyncInner(toIterable(source)));
+  };
+} // toAsync()
+
+/**
+ * @see IEnumerable.toLookup()
+ *
+ * The items of a key are returned as array.
+ */
+export function toLookup<T, TKey>(
+  keySelector: Selector<T, TKey>,
+  keyEqualityComparer?: EqualityComparer<TKey> | IEqualityComparer<TKey>,
+): Operator<T, ItemLookup<TKey, T>> {
+  const COMPARER: IEqualityComparer<TKey> = keyEqualityComparer
+    ? toIEqualityComparerSafe(keyEqualityComparer)
+    : {
+        // same as the keys of a Map
+        equals: (x, y) => x === y || (x !== x && y !== y),
+        getHashCode: (obj) => obj,
+      };
+
+  return (source) => {
+    const GROUPS = new EqualityMap<TKey, T[]>(COMPARER);
+    for (let item of toIterable(source)) {
+      GROUPS.getOrAdd(keySelector(item), () => []).push(item);
+    }
+
+    return GROUPS;
+  };
+} // toLookup()
+
+/** @see IEnumerable.toMap() */
+export function toMap<T, TKey, TValue = T>(
+  keySelector: Selector<T, TKey>,
+  valueSelector?: Selector<T, TValue>,
+  options?: DuplicateKeyOptions<TValue, TKey>,
+): Operator<T, Map<TKey, TValue>> {
+  return collect(
+    createDictionaryCollector(keySelector, valueSelector, options, selectItem),
+  );
+} // toMap()
+
+/** @see IEnumerable.toObject() */
+export function toObject<T, TResult = any, TKey extends PropertyKey = number>(
+  keySelector?: (item: T, index: number) => TKey,
+): Operator<T, TResult> {
+  if (!keySelector) {
+    keySelector = (item, index) => <any>index;
+  }
+
+  return (source) => {
+    const OBJ: any = {};
+
+    let i = -1;
+    for (let item of toIterable(source)) {
+      ++i;
+
+      OBJ[keySelector(item, i)] = item;
+    }
+
+    return OBJ;
+  };
+} // toObject()
+
+/** @see IEnumerable.toRecord() */
+export function toRecord<T, TKey extends PropertyKey, TValue = T>(
+  keySelector: Selector<T, TKey>,
+  valueSelector?: Selector<T, TValue>,
+  options?: DuplicateKeyOptions<TValue, TKey>,
+): Operator<T, Record<TKey, TValue>> {
+  const COLLECT = collect(
+    createDictionaryCollector(keySelector, valueSelector, options, (key) =>
+      "symbol" === typeof key ? key : String(key),
+    ),
+  );
+
+  return (source) => {
+    const RECORD: any = {};
+    COLLECT(source).forEach((value, key) => {
+      // 'defineProperty()' also handles keys like '__proto__'
+      Object.defineProperty(RECORD, key, {
+        configurable: true,
+        enumerable: true,
+        value: value,
+        writable: true,
+      });
+    });
+
+    return RECORD;
+  };
+} // toRecord()
+
+/** @see IEnumerable.toSet() */
+export function toSet<T>(): Operator<T, Set<T>> {
+  return (source) => {
+    const SET = new Set<T>();
+    for (let item of toIterable(source)) {
+      SET.add(item);
+    }
+
+    return SET;
+  };
+} // toSet()
+
+/** @see IEnumerable.topBy() */
+export function topBy<T, U = T>(
+  count?: number,
+  selector?: Selector<T, U>,
+  comparer?: Comparer<U>,
+): Operator<T, Iterable<T>> {
+  const COMPARER = toComparerSafe(comparer);
+
+  return bottomBy(count, selector, (x, y) => COMPARER(y, x));
+} // topBy()
+
+/** @see IEnumerable.trace() */
+export function trace<T>(
+  formatter?: Selector<T, any>,
+): Operator<T, Iterable<T>> {
+  if (!formatter) {
+    formatter = (item) => {
+      if (isNullOrUndefined(item)) {
+        return item;
+      }
+
+      return "" + item;
+    };
+  }
+
+  return (source) => {
+    return createIterable(() => traceInner(toIterable(source), formatter));
+  };
+} // trace()
+
+/**
+ * @see IEnumerable.tryGetNonEnumeratedCount()
+ *
+ * Only the length of an array or a string is known.
+ */
+export function tryGetNonEnumeratedCount<T>(): Operator<T, number | false> {
+  return (source) => {
+    if (Array.isArray(source) || "string" === typeof source) {
+      return source.length;
+    }
+
+    return false;
+  };
+} // tryGetNonEnumeratedCount()
+
+/** @see IEnumerable.union() */
+export function union<T>(
+  second: Sequence<T>,
+  comparer?: EqualityComparer<T> | IEqualityComparer<T> | true,
+): Operator<T, Iterable<T>> {
+  const CONCAT = concat<T>(second);
+  const DISTINCT = distinct<T>(comparer);
+
+  return (source) => DISTINCT(CONCAT(source));
+} // union()
+
+/** @see IEnumerable.where() */
+export function where<T, U extends T>(
+  predicate: TypeGuard<T, U>,
+): Operator<T, Iterable<U>>;
+/** @see IEnumerable.where() */
+export function where<T>(predicate: Predicate<T>): Operator<T, Iterable<T>>;
+export function where<T>(predicate: Predicate<T>): Operator<T, Iterable<T>> {
+  predicate = toPredicateSafe(predicate);
+
+  return (source) => {
+    return createFusedIterable(source, () => {
+      return (x) => (predicate(x) ? x : SKIP_ITEM);
+    });
+  };
+} // where()
+
+/**
+ * @see IEnumerable.windowed()
+ *
+ * The windows are arrays.
+ */
+export function windowed<T>(
+  size: number,
+  step?: number,
+  options?: WindowedOptions,
+): Operator<T, Iterable<T[]>> {
+  size = parseInt(toStringSafe(size).trim());
+  if (isNaN(size)) {
+    size = 1;
+  }
+
+  step = parseInt(toStringSafe(step).trim());
+  if (isNaN(step)) {
+    step = 1;
+  }
+
+  if (size < 1) {
+    throw new RangeError(`Window size ${size} is less than 1`);
+  }
+  if (step < 1) {
+    throw new RangeError(`Step ${step} is less than 1`);
+  }
+
+  const PARTIAL = !!(options && options.partial);
+
+  return (source) => {
+    return createIterable(() =>
+      windowedInner(toIterable(source), size, step, PARTIAL),
+    );
+  };
+} // windowed()
+
+/** @see IEnumerable.zip() */
+export function zip<T, U = T, TResult = any>(
+  second: Sequence<U>,
+  resultSelector: ZipSelector<T, U, TResult>,
+): Operator<T, Iterable<TResult>> {
+  if (!resultSelector) {
+    resultSelector = (x: any, y: any) => x + y;
+  }
+
+  return (source) => {
+    return createIterable(() =>
+      zipInner(toIterable(source), toIterable(second), resultSelector),
+    );
+  };
+} // zip()
+
+function* bottomByInner<T, U>(
+  items: Iterable<T>,
+  count: number,
+  selector: Selector<T, U>,
+  comparer: Comparer<U>,
+) {
+  yield* selectFirstItems(items, count, selector, comparer);
+}
+
+function* chunkInner<T>(items: Iterable<T>, size: number) {
+  const ITERATOR = items[Symbol.iterator]();
+
+  while (true) {
+    const ARR: T[] = [];
+
+    do {
+      const ITEM = getNextIteratorResultSafe(ITERATOR);
+      if (ITEM.done) {
+        break;
+      }
+
+      ARR.push(ITEM.value);
+    } while (ARR.length < size);
+
+    if (ARR.length > 0) {
+      yield ARR;
+    } else {
+      break;
+    }
+  }
+}
+
+function* cloneInner<T, U>(
+  items: Iterable<T>,
+  count: number,
+  itemSelector: Selector<T, U>,
+) {
+  const ITEMS = toArray<T>()(items);
+
+  while (true) {
+    if (!isNaN(count)) {
+      if (count-- < 1) {
+        break;
+      }
+    }
+
+    yield itemSelector
+      ? ITEMS.map((x) => itemSelector(x))
+      : <U[]>(<any>ITEMS.slice());
+  }
+}
+
+function* concatArrayInner<T, U>(
+  items: Iterable<T>,
+  sequences: ArrayLike<Sequence<U>>,
+): IterableIterator<T | U> {
+  for (let item of items) {
+    yield item;
+  }
+
+  if (sequences) {
+    for (let i = 0; i < sequences.length; i++) {
+      const SEQ = sequences[i];
+
+      for (let item of toIterable(SEQ)) {
+        yield item;
+      }
+    }
+  }
+}
+
+function createAsyncIterable<T>(
+  factory: () => AsyncIterator<T>,
+): AsyncIterable<T> {
+  return {
+    [Symbol.asyncIterator]: factory,
+  };
+}
+
+function createFusedIterable<T>(
+  source: Sequence<any>,
+  stage: FusedStage,
+): Iterable<T> {
+  if (source instanceof FusedIterable) {
+    // run the stages of the previous operators in the same loop
+    return new FusedIterable<T>(source.source, source.stages.concat([stage]));
+  }
+
+  return new FusedIterable<T>(toIterable(source), [stage]);
+}
+
+function createIterable<T>(factory: () => Iterator<T>): Iterable<T> {
+  return {
+    [Symbol.iterator]: factory,
+  };
+}
+
+function createOrderLevel<T, U>(
+  selector: Selector<T, U>,
+  comparer: Comparer<U>,
+): OrderLevel<T> {
+  if (!selector) {
+    selector = selectItem;
+  }
+
+  return {
+    comparer: toComparerSafe(comparer),
+    selector: selector,
+  };
+}
+
+function* defaultSequenceIfEmptyInner<T>(
+  items: Iterable<T>,
+  defaultSequence: Sequence<T>,
+) {
+  let hasItems = false;
+  for (let item of items) {
+    hasItems = true;
+
+    yield item;
+  }
+
+  if (!hasItems) {
+    for (let item of toIterable(defaultSequence)) {
+      yield item;
+    }
+  }
+}
+
+function* distinctByInner<T, U>(
+  items: Iterable<T>,
+  selector: Selector<T, U>,
+  comparer: IEqualityComparer<U>,
+) {
+  const KEYS = new EqualityMap<U, boolean>(comparer);
+
+  for (let item of items) {
+    if (KEYS.tryAdd(selector(item), true)) {
+      yield item;
+    }
+  }
+}
+
+function* exceptInner<T>(
+  items: Iterable<T>,
+  second: Sequence<T>,
+  comparer: IEqualityComparer<T>,
+) {
+  const SECOND = new EqualityMap<T, boolean>(comparer);
+  for (let secondItem of toIterable(second)) {
+    SECOND.tryAdd(secondItem, true);
+  }
+
+  for (let item of items) {
+    if (!SECOND.has(item)) {
+      yield item;
+    }
+  }
+}
+
+function* groupByInner<T, TKey>(
+  items: Iterable<T>,
+  keySelector: Selector<T, TKey>,
+  keyEqualityComparer: IEqualityComparer<TKey>,
+) {
+  yield* groupItems(items, keySelector, keyEqualityComparer);
+}
+
+function* groupJoinInner<T, TInner, TOuterKey, TInnerKey, TResult>(
+  items: Iterable<T>,
+  inner: Sequence<TInner>,
+  outerKeySelector: Selector<T, TOuterKey>,
+  innerKeySelector: Selector<TInner, TInnerKey>,
+  resultSelector: (outer: T, inner: TInner[]) => TResult,
+  keyEqualityComparer:
+    | EqualityComparer<TOuterKey, TInnerKey>
+    | IEqualityComparer<TOuterKey | TInnerKey>
+    | true,
+) {
+  const GROUPS = joinGroups(
+    items,
+    inner,
+    outerKeySelector,
+    innerKeySelector,
+    keyEqualityComparer,
+  );
+
+  for (let grp of GROUPS) {
+    for (let outerItem of grp.outer) {
+      yield resultSelector(outerItem, grp.inner);
+    }
+  }
+}
+
+function* intersectInner<T>(
+  items: Iterable<T>,
+  second: Sequence<T>,
+  comparer: IEqualityComparer<T>,
+) {
+  const SECOND = new EqualityMap<T, boolean>(comparer);
+  for (let secondItem of toIterable(second)) {
+    SECOND.tryAdd(secondItem, true);
+  }
+
+  for (let item of items) {
+    if (SECOND.has(item)) {
+      yield item;
+    }
+  }
+}
+
+function* intersperseInner<T, U>(
+  items: Iterable<T>,
+  separators: U[],
+): Iterator<T | U> {
+  let isFirst = true;
+  for (let item of items) {
+    // separator(s)
+    if (!isFirst) {
+      for (let s of separators) {
+        yield s;
+      }
+    } else {
+      isFirst = false;
+    }
+
+    yield item;
+  }
+}
+
+function* joinInner<T, TInner, TOuterKey, TInnerKey, TResult>(
+  items: Iterable<T>,
+  inner: Sequence<TInner>,
+  outerKeySelector: Selector<T, TOuterKey>,
+  innerKeySelector: Selector<TInner, TInnerKey>,
+  resultSelector: (outer: T, inner: TInner) => TResult,
+  keyEqualityComparer:
+    | EqualityComparer<TOuterKey, TInnerKey>
+    | IEqualityComparer<TOuterKey | TInnerKey>
+    | true,
+) {
+  const GROUPS = joinGroups(
+    items,
+    inner,
+    outerKeySelector,
+    innerKeySelector,
+    keyEqualityComparer,
+  );
+
+  for (let grp of GROUPS) {
+    for (let outerItem of grp.outer) {
+      for (let innerItem of grp.inner) {
+        yield resultSelector(outerItem, innerItem);
+      }
+    }
+  }
+}
+
+function* memoizeInner<T>(cache: T[], load: (index: number) => boolean) {
+  for (let i = 0; load(i); i++) {
+    yield cache[i];
+  }
+}
+
+function* pairwiseInner<T>(items: Iterable<T>): Iterator<[T, T]> {
+  let hasPrevious = false;
+  let previous: T;
+
+  for (let item of items) {
+    if (hasPrevious) {
+      yield [previous, item];
+    }
+
+    hasPrevious = true;
+    previous = item;
+  }
+}
+
+function* prependArrayInner<T, U>(
+  items: Iterable<T>,
+  sequences: ArrayLike<Sequence<U>>,
+): IterableIterator<T | U> {
+  if (sequences) {
+    for (let i = 0; i < sequences.length; i++) {
+      const SEQ = sequences[i];
+
+      for (let item of toIterable(SEQ)) {
+        yield item;
+      }
+    }
+  }
+
+  for (let item of items) {
+    yield item;
+  }
+}
+
+function* selectManyInner<T, U>(
+  items: Iterable<T>,
+  selector: Selector<T, Sequence<U>>,
+): IterableIterator<U> {
+  for (let s of items) {
+    for (let item of toIterable(selector(s))) {
+      yield item;
+    }
+  }
+}
+
+function* skipLastInner<T>(items: Iterable<T>) {
+  const ITERATOR = items[Symbol.iterator]();
+
+  let hasRemainingItems;
+  let isFirst = true;
+  let item: T;
+
+  do {
+    const ITERATOR_ITEM = ITERATOR.next();
+
+    hasRemainingItems = ITERATOR_ITEM && !ITERATOR_ITEM.done;
+    if (!hasRemainingItems) {
+      continue;
+    }
+
+    if (!isFirst) {
+      yield item;
+    } else {
+      isFirst = false;
+    }
+
+    item = ITERATOR_ITEM.value;
+  } while (hasRemainingItems);
+}
+
+function* skipWhileInner<T>(items: Iterable<T>, predicate: Predicate<T>) {
+  let returnItem = false;
+  for (let item of items) {
+    if (!returnItem && !predicate(item)) {
+      returnItem = true;
+    }
+
+    if (returnItem) {
+      yield item;
+    }
+  }
+}
+
+function* takeWhileInner<T>(items: Iterable<T>, predicate: Predicate<T>) {
+  for (let item of items) {
+    if (predicate(item)) {
+      yield item;
+    } else {
+      break;
+    }
+  }
+}
+
+function* teeInner<T>(
+  reader: number,
+  nextItem: (reader: number) => IteratorResult<T>,
+) {
+  while (true) {
+    const ITEM = nextItem(reader);
+    if (ITEM.done) {
+      break;
+    }
+
+    yield ITEM.value;
+  }
+}
+
+async function* toAsyncInner<T>(items: Iterable<T>) {
+  for (let item of items) {
+    yield item;
+  }
+}
+
+function* traceInner<T>(items: Iterable<T>, formatter: Selector<T, any>) {
+  for (let item of items) {
+    console.trace(formatter(item));
+
+    yield item;
+  }
+}
+
+function* windowedInner<T>(
+  items: Iterable<T>,
+  size: number,
+  step: number,
+  partial: boolean,
+): Iterator<T[]> {
+  const ITERATOR = items[Symbol.iterator]();
+  const WINDOW = new RingBuffer<T>();
+
+  let isDone = false;
+  let itemsToSkip = 0; // if 'step' is greater than 'size'
+
+  while (true) {
+    // only read the items, which are required for the next window
+    while (!isDone && WINDOW.size < size) {
+      const ITEM = getNextIteratorResultSafe(ITERATOR);
+      if (ITEM.done) {
+        isDone = true;
+      } else if (itemsToSkip > 0) {
+        --itemsToSkip;
+      } else {
+        WINDOW.pushBack(ITEM.value);
+      }
+    }
+
+    if (WINDOW.size < 1 || (WINDOW.size < size && !partial)) {
+      break;
+    }
+
+    yield WINDOW.toArray();
+
+    for (let i = 0; i < step; i++) {
+      if (WINDOW.size > 0) {
+        WINDOW.popFront();
+      } else {
+        ++itemsToSkip;
+      }
+    }
+  }
+}
+
+function* zipInner<T, U, TResult>(
+  items: Iterable<T>,
+  second: Iterable<U>,
+  resultSelector: ZipSelector<T, U, TResult>,
+) {
+  const ITERATOR = items[Symbol.iterator]();
+  const SECOND = second[Symbol.iterator]();
+
+  let i = -1;
+  do {
+    const ITEM = getNextIteratorResultSafe(ITERATOR);
+    if (ITEM.done) {
+      break;
+    }
+
+    const ITEM_SECOND = getNextIteratorResultSafe(SECOND);
+    if (ITEM_SECOND.done) {
+      break;
+    }
+
+    yield resultSelector(ITEM.value, ITEM_SECOND.value, ++i);
+  } while (true);
+}
@@ -0,0 +1,54 @@
+/// <reference types="node" />
+/**
+ * node-enumerable (https://github.com/mkloubert/node-enumerable)
+ *
+ * Interop between sequences and Node.js streams. It is not part of the main module,
+ * so the typings of that one do not depend on the ones of Node.js:
+ *
+ * import { fromReadable, toReadable } from "node-enumerable/streams";
+ */
+import Enumerable = require("./index");
+import Stream = require("stream");
+import IAsyncEnumerable = Enumerable.IAsyncEnumerable;
+import Sequence = Enumerable.Sequence;
+/**
+ * Options for 'toReadable()'.
+ */
+export interface ToReadableOptions {
+  /**
+   * The maximum number of items (object mode) or bytes to store
+   * in the internal buffer of the stream.
+   */
+  highWaterMark?: number;
+  /**
+   * Create a stream in object mode or not. Default: (true)
+   */
+  objectMode?: boolean;
+}
+/**
+ * Creates a new async sequence from a Node.js stream.
+ * Data is only read from the stream, if it is requested by the sequence.
+ *
+ * @param {Stream.Readable} stream The stream.
+ *
+ * @return {IAsyncEnumerable<T>} The new async sequence.
+ */
+export declare function fromReadable<T = any>(
+  stream: Stream.Readable,
+): IAsyncEnumerable<T>;
+/**
+ * Returns a Node.js stream, which reads the items of a sequence
+ * only if they are requested by the consumer of the stream.
+ *
+ * (null) items are skipped: a stream uses (null) to mark its end,
+ * so they cannot be pushed, not even in object mode.
+ *
+ * @param {Sequence<T>|IAsyncEnumerable<T>} source The sync or async sequence.
+ * @param {ToReadableOptions} [options] Custom options.
+ *
+ * @return {Stream.Readable} The new stream.
+ */
+export declare function toReadable<T = any>(
+  source: Sequence<T> | IAsyncEnumerable<T>,
+  options?: ToReadableOptions,
+): Stream.Readable;
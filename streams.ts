@@ -0,0 +1,186 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+/**
+ * node-enumerable (https://github.com/mkloubert/node-enumerable)
+ *
+ * Interop between sequences and Node.js streams. It is not part of the main module,
+ * so the typings of that one do not depend on the ones of Node.js:
+ *
+ * import { fromReadable, toReadable } from "node-enumerable/streams";
+ */
+import Enumerable = require("./index");
+import Stream = require("stream");
+
+import IAsyncEnumerable = Enumerable.IAsyncEnumerable;
+import IEnumerable = Enumerable.IEnumerable;
+import Sequence = Enumerable.Sequence;
+
+/**
+ * Options for 'toReadable()'.
+ */
+export interface ToReadableOptions {
+  /**
+   * The maximum number of items (object mode) or bytes to store
+   * in the internal buffer of the stream.
+   */
+  highWaterMark?: number;
+  /**
+   * Create a stream in object mode or not. Default: (true)
+   */
+  objectMode?: boolean;
+} // ToReadableOptions
+
+/**
+ * Creates a new async sequence from a Node.js stream.
+ * Data is only read from the stream, if it is requested by the sequence.
+ *
+ * @param {Stream.Readable} stream The stream.
+ *
+ * @return {IAsyncEnumerable<T>} The new async sequence.
+ */
+export function fromReadable<T = any>(
+  stream: Stream.Readable,
+): IAsyncEnumerable<T> {
+  if (isNullOrUndefined(stream)) {
+    return Enumerable.fromAsync<T>();
+  }
+
+  return Enumerable.fromAsync<T>(stream[Symbol.asyncIterator]());
+} // fromReadable<T>()
+
+/**
+ * Returns a Node.js stream, which reads the items of a sequence
+ * only if they are requested by the consumer of the stream.
+ *
+ * (null) items are skipped: a stream uses (null) to mark its end,
+ * so they cannot be pushed, not even in object mode.
+ *
+ * @param {Sequence<T>|IAsyncEnumerable<T>} source The sync or async sequence.
+ * @param {ToReadableOptions} [options] Custom options.
+ *
+ * @return {Stream.Readable} The new stream.
+ */
+export function toReadable<T = any>(
+  source: Sequence<T> | IAsyncEnumerable<T>,
+  options?: ToReadableOptions,
+): Stream.Readable {
+  if (Enumerable.isAsyncEnumerable<T>(source)) {
+    return toReadableFromAsync(source, options);
+  }
+
+  const SEQ: IEnumerable<T> = Enumerable.from(<Sequence<T>>source);
+
+  return new Stream.Readable(
+    toReadableOptionsSafe(options, function () {
+      try {
+        while (true) {
+          const ITEM = SEQ.next();
+          if (!ITEM || ITEM.done) {
+            this.push(null);
+            break;
+          }
+
+          if (null === ITEM.value) {
+            continue;
+          }
+
+          if (!this.push(ITEM.value)) {
+            break; // wait for next read() call
+          }
+        }
+      } catch (e) {
+        this.destroy(e);
+      }
+    }),
+  );
+} // toReadable<T>()
+
+function isNullOrUndefined(val: any): boolean {
+  return null === val || "undefined" === typeof val;
+}
+
+function toReadableFromAsync<T>(
+  seq: IAsyncEnumerable<T>,
+  options: ToReadableOptions,
+): Stream.Readable {
+  let isReading = false;
+
+  return new Stream.Readable(
+    toReadableOptionsSafe(options, function () {
+      if (isReading) {
+        return;
+      }
+      isReading = true;
+
+      (async () => {
+        try {
+          while (true) {
+            const ITEM = await seq.next();
+            if (!ITEM || ITEM.done) {
+              this.push(null);
+              break;
+            }
+
+            if (null === ITEM.value) {
+              continue;
+            }
+
+            if (!this.push(ITEM.value)) {
+              break; // wait for next read() call
+            }
+          }
+        } catch (e) {
+          this.destroy(e);
+        } finally {
+          isReading = false;
+        }
+      })();
+    }),
+  );
+}
+
+function toReadableOptionsSafe(
+  options: ToReadableOptions,
+  read: (this: Stream.Readable) => void,
+): Stream.ReadableOptions {
+  if (!options) {
+    options = {};
+  }
+
+  let objectMode = options.objectMode;
+  if (isNullOrUndefined(objectMode)) {
+    objectMode = true;
+  }
+
+  const OPTS: Stream.ReadableOptions = {
+    objectMode: !!objectMode,
+    read: read,
+  };
+
+  if (!isNullOrUndefined(options.highWaterMark)) {
+    OPTS.highWaterMark = parseInt(String(options.highWaterMark).trim());
+  }
+
+  return OPTS;
+}
@@ -0,0 +1,79 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing both ends...", (ctx) => {
+  const DEQUE = new Enumerable.Deque([3, 4]);
+
+  DEQUE.pushFront(1, 2).pushBack(5, 6);
+  Assert.deepStrictEqual(DEQUE.toArray(), [1, 2, 3, 4, 5, 6]);
+  Assert.strictEqual(DEQUE.peekFront(), 1);
+  Assert.strictEqual(DEQUE.peekBack(), 6);
+
+  Assert.strictEqual(DEQUE.popFront(), 1);
+  Assert.strictEqual(DEQUE.popBack(), 6);
+  Assert.strictEqual(DEQUE.length(), 4);
+  Assert.deepStrictEqual(DEQUE.toArray(), [2, 3, 4, 5]);
+
+  DEQUE.clear();
+  Assert.strictEqual(DEQUE.popFront(), undefined);
+  Assert.strictEqual(DEQUE.popBack(), undefined);
+  Assert.strictEqual(DEQUE.peekFront(), undefined);
+  Assert.strictEqual(DEQUE.peekBack(), undefined);
+
+  // grows, while items are added to both ends
+  for (let i = 0; i < 50; i++) {
+    DEQUE.pushFront(-i - 1).pushBack(i);
+  }
+  Assert.deepStrictEqual(DEQUE.toArray(), Enumerable.range(-50, 100).toArray());
+
+  let sum = 0;
+  while (DEQUE.length() > 0) {
+    sum += DEQUE.popBack() + DEQUE.popFront();
+  }
+  Assert.strictEqual(sum, -50);
+});
+
+Helpers.execute("Testing snapshots and drain()...", (ctx) => {
+  const DEQUE = new Enumerable.Deque([1, 2, 3]);
+
+  Assert.strictEqual(DEQUE.sum(), 6);
+  Assert.strictEqual(DEQUE.sum(), 6);
+  Assert.deepStrictEqual(DEQUE.reverse().toArray(), [3, 2, 1]);
+  Assert.strictEqual(DEQUE.length(), 3);
+
+  // 0-1 BFS style: cheap items are handled first
+  const ACTUAL = DEQUE.drain()
+    .pipe((x) => {
+      if (x < 3) {
+        DEQUE.pushFront(x * 10);
+      }
+    })
+    .toArray();
+
+  Assert.deepStrictEqual(ACTUAL, [1, 10, 2, 20, 3]);
+  Assert.strictEqual(DEQUE.length(), 0);
+});
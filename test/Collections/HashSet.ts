@@ -0,0 +1,124 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing modifications...", (ctx) => {
+  const SET = new Enumerable.HashSet([3, 1, 3, 2, 1]);
+
+  Assert.deepStrictEqual(SET.toArray(), [3, 1, 2]);
+  Assert.strictEqual(SET.length(), 3);
+
+  Assert.strictEqual(SET.add(4), true);
+  Assert.strictEqual(SET.add(4), false);
+  Assert.ok(SET.has(4));
+  Assert.ok(SET.contains(4));
+
+  Assert.strictEqual(SET.remove(3), true);
+  Assert.strictEqual(SET.remove(3), false);
+  Assert.ok(!SET.has(3));
+
+  // added items are enumerated last
+  SET.add(3);
+  Assert.deepStrictEqual(SET.toArray(), [1, 2, 4, 3]);
+
+  SET.clear();
+  Assert.strictEqual(SET.length(), 0);
+  Assert.ok(SET.add(1));
+});
+
+Helpers.execute("Testing set operations...", (ctx) => {
+  const SET = new Enumerable.HashSet([1, 2, 3, 4]);
+
+  SET.unionWith([3, 4, 5, 6]);
+  Assert.deepStrictEqual(SET.toArray(), [1, 2, 3, 4, 5, 6]);
+
+  SET.intersectWith(Enumerable.range(2, 4));
+  Assert.deepStrictEqual(SET.toArray(), [2, 3, 4, 5]);
+
+  SET.exceptWith([3, 5, 7]);
+  Assert.deepStrictEqual(SET.toArray(), [2, 4]);
+
+  Assert.ok(SET.isSubsetOf([1, 2, 3, 4]));
+  Assert.ok(SET.isSubsetOf([4, 2]));
+  Assert.ok(!SET.isSubsetOf([2, 3]));
+  Assert.ok(new Enumerable.HashSet().isSubsetOf([]));
+
+  SET.exceptWith(SET);
+  Assert.strictEqual(SET.length(), 0);
+});
+
+Helpers.execute("Testing comparers...", (ctx) => {
+  const IGNORE_CASE = {
+    equals: (x: string, y: string) => x.toLowerCase() === y.toLowerCase(),
+    getHashCode: (x: string) => x.toLowerCase(),
+  };
+
+  const SET = new Enumerable.HashSet(["Tanja", "Marcel"], IGNORE_CASE);
+
+  Assert.strictEqual(SET.add("TANJA"), false);
+  Assert.ok(SET.has("marcel"));
+  Assert.ok(SET.contains("marcel"));
+  Assert.ok(!SET.contains("marcel", true));
+  Assert.ok(SET.isSubsetOf(["MARCEL", "tanja"]));
+
+  SET.exceptWith(["marcel"]);
+  Assert.deepStrictEqual(SET.toArray(), ["Tanja"]);
+
+  // only an equality function
+  const MOD_SET = new Enumerable.HashSet(
+    [1, 2, 3, 4],
+    (x: number, y: number) => x % 3 === y % 3,
+  );
+  Assert.deepStrictEqual(MOD_SET.toArray(), [1, 2, 3]);
+
+  // same default comparer as 'distinct()'
+  Assert.strictEqual(
+    new Enumerable.HashSet([1, "1", { id: 1 }, { id: 1 }]).length(),
+    2,
+  );
+  Assert.strictEqual(new Enumerable.HashSet([1, "1"], true).length(), 2);
+});
+
+Helpers.execute("Testing operators...", (ctx) => {
+  const SET = new Enumerable.HashSet<number>();
+  const DOUBLED = SET.select((x) => x * 2);
+
+  SET.unionWith([1, 2, 3]);
+  Assert.deepStrictEqual(DOUBLED.toArray(), [2, 4, 6]);
+  Assert.deepStrictEqual(DOUBLED.toArray(), [2, 4, 6]);
+
+  Assert.strictEqual(SET.count(), 3);
+  Assert.strictEqual(SET.count(), 3);
+  Assert.deepStrictEqual(SET.orderByDescending((x) => x).toArray(), [3, 2, 1]);
+  Assert.deepStrictEqual(SET.union([4, 1]).toArray(), [1, 2, 3, 4]);
+
+  // next() and tryGetNonEnumeratedCount()
+  Assert.strictEqual(SET.tryGetNonEnumeratedCount(), 3);
+  Assert.strictEqual(SET.next().value, 1);
+  Assert.strictEqual(SET.tryGetNonEnumeratedCount(), 3);
+  Assert.strictEqual(SET.count(), 3);
+  Assert.deepStrictEqual(SET.toArray(), [1, 2, 3]);
+});
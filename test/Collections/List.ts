@@ -0,0 +1,117 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing modifications...", (ctx) => {
+  const LIST = new Enumerable.List([1, 2, 3]);
+
+  LIST.add(4, 5).addRange(Enumerable.range(6, 2));
+  Assert.deepStrictEqual(LIST.toArray(), [1, 2, 3, 4, 5, 6, 7]);
+  Assert.strictEqual(LIST.length(), 7);
+
+  LIST.insert(0, -1, 0).insert(LIST.length(), 8);
+  Assert.deepStrictEqual(LIST.toArray(), [-1, 0, 1, 2, 3, 4, 5, 6, 7, 8]);
+
+  Assert.strictEqual(LIST.removeAt(0), -1);
+  Assert.strictEqual(LIST.remove(8), true);
+  Assert.strictEqual(LIST.remove(42), false);
+  Assert.strictEqual(
+    LIST.removeAll((x) => x % 2 === 1),
+    4,
+  );
+  Assert.deepStrictEqual(LIST.toArray(), [0, 2, 4, 6]);
+
+  LIST.set(0, 10);
+  Assert.strictEqual(LIST.get(0), 10);
+  Assert.strictEqual(LIST.get(3), 6);
+
+  for (const INDEX of [-1, 4, 1.5, NaN]) {
+    Assert.throws(() => LIST.get(INDEX), RangeError);
+    Assert.throws(() => LIST.removeAt(INDEX), RangeError);
+  }
+  Assert.throws(() => LIST.insert(5, 1), RangeError);
+
+  LIST.clear();
+  Assert.strictEqual(LIST.length(), 0);
+  Assert.deepStrictEqual(LIST.toArray(), []);
+});
+
+Helpers.execute("Testing sort() and binarySearch()...", (ctx) => {
+  const LIST = new Enumerable.List([5, 1, 4, 2, 3]);
+
+  LIST.sort();
+  Assert.deepStrictEqual(LIST.toArray(), [1, 2, 3, 4, 5]);
+
+  Assert.strictEqual(LIST.binarySearch(1), 0);
+  Assert.strictEqual(LIST.binarySearch(4), 3);
+  Assert.strictEqual(LIST.binarySearch(0), ~0);
+  Assert.strictEqual(LIST.binarySearch(6), ~5);
+
+  const INSERT_AT = ~new Enumerable.List([1, 3, 5]).binarySearch(4);
+  Assert.strictEqual(INSERT_AT, 2);
+
+  const DESC = (x: number, y: number) => y - x;
+  LIST.sort(DESC);
+  Assert.deepStrictEqual(LIST.toArray(), [5, 4, 3, 2, 1]);
+  Assert.strictEqual(LIST.binarySearch(2, DESC), 3);
+
+  // stable
+  const PERSONS = new Enumerable.List([
+    { name: "a", age: 2 },
+    { name: "b", age: 1 },
+    { name: "c", age: 2 },
+    { name: "d", age: 1 },
+  ]).sort((x, y) => x.age - y.age);
+  Assert.strictEqual(PERSONS.select((x) => x.name).joinToString(""), "bdac");
+});
+
+Helpers.execute("Testing operators...", (ctx) => {
+  const LIST = new Enumerable.List<number>();
+  const EVENS = LIST.where((x) => x % 2 === 0).select((x) => x * 10);
+
+  Assert.deepStrictEqual(EVENS.toArray(), []);
+
+  LIST.add(1, 2, 3, 4);
+  Assert.deepStrictEqual(EVENS.toArray(), [20, 40]);
+  Assert.deepStrictEqual(EVENS.toArray(), [20, 40]);
+
+  // re-enumerable
+  Assert.strictEqual(LIST.sum(), 10);
+  Assert.strictEqual(LIST.sum(), 10);
+  Assert.deepStrictEqual(Array.from(LIST), [1, 2, 3, 4]);
+  Assert.deepStrictEqual(
+    LIST.orderByDescending((x) => x).toArray(),
+    [4, 3, 2, 1],
+  );
+  Assert.strictEqual(Enumerable.from(LIST), LIST);
+
+  // next() and tryGetNonEnumeratedCount()
+  Assert.strictEqual(LIST.tryGetNonEnumeratedCount(), 4);
+  Assert.strictEqual(LIST.next().value, 1);
+  Assert.strictEqual(LIST.tryGetNonEnumeratedCount(), 4);
+  Assert.strictEqual(LIST.count(), 4);
+  Assert.deepStrictEqual(LIST.reset().take(2).toArray(), [1, 2]);
+});
@@ -0,0 +1,113 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing enqueue() and dequeue()...", (ctx) => {
+  const QUEUE = new Enumerable.PriorityQueue([5, 1, 4]);
+
+  QUEUE.enqueue(3, 2);
+  Assert.strictEqual(QUEUE.length(), 5);
+  Assert.strictEqual(QUEUE.peek(), 1);
+  Assert.strictEqual(QUEUE.dequeue(), 1);
+  Assert.strictEqual(QUEUE.dequeue(), 2);
+  Assert.deepStrictEqual(QUEUE.toArray(), [3, 4, 5]);
+
+  QUEUE.clear();
+  Assert.strictEqual(QUEUE.peek(), undefined);
+  Assert.strictEqual(QUEUE.dequeue(), undefined);
+
+  const RANDOM = Enumerable.random(1000).toArray();
+  QUEUE.enqueue(...RANDOM);
+  Assert.deepStrictEqual(
+    QUEUE.drain().toArray(),
+    RANDOM.slice().sort((x, y) => x - y),
+  );
+});
+
+Helpers.execute("Testing comparer and equal items...", (ctx) => {
+  const TASKS = new Enumerable.PriorityQueue(
+    [
+      { name: "a", priority: 1 },
+      { name: "b", priority: 3 },
+      { name: "c", priority: 1 },
+      { name: "d", priority: 2 },
+      { name: "e", priority: 3 },
+    ],
+    (x, y) => y.priority - x.priority,
+  );
+
+  // snapshot, in the order of the queue
+  const NAMES = TASKS.select((x) => x.name);
+  Assert.strictEqual(NAMES.joinToString(""), "bedac");
+  Assert.strictEqual(NAMES.joinToString(""), "bedac");
+  Assert.strictEqual(TASKS.length(), 5);
+
+  Assert.strictEqual(TASKS.dequeue().name, "b");
+  TASKS.enqueue({ name: "f", priority: 3 });
+  Assert.strictEqual(
+    TASKS.drain()
+      .select((x) => x.name)
+      .joinToString(""),
+    "efdac",
+  );
+});
+
+Helpers.execute("Testing worklist...", (ctx) => {
+  // Dijkstra
+  const GRAPH: { [node: string]: { [node: string]: number } } = {
+    a: { b: 7, c: 9, f: 14 },
+    b: { c: 10, d: 15 },
+    c: { d: 11, f: 2 },
+    d: { e: 6 },
+    f: { e: 9 },
+  };
+
+  const DISTANCES = new Map<string, number>();
+  const QUEUE = new Enumerable.PriorityQueue(
+    [{ distance: 0, node: "a" }],
+    (x, y) => x.distance - y.distance,
+  );
+
+  QUEUE.drain()
+    .where((x) => !DISTANCES.has(x.node))
+    .forEach((x) => {
+      DISTANCES.set(x.node, x.distance);
+
+      const EDGES = GRAPH[x.node] || {};
+      for (const NODE of Object.keys(EDGES)) {
+        QUEUE.enqueue({ distance: x.distance + EDGES[NODE], node: NODE });
+      }
+    });
+
+  Assert.deepStrictEqual(Array.from(DISTANCES.entries()), [
+    ["a", 0],
+    ["b", 7],
+    ["c", 9],
+    ["f", 11],
+    ["d", 20],
+    ["e", 20],
+  ]);
+});
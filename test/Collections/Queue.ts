@@ -0,0 +1,94 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing enqueue() and dequeue()...", (ctx) => {
+  const QUEUE = new Enumerable.Queue([1, 2]);
+
+  QUEUE.enqueue(3, 4);
+  Assert.strictEqual(QUEUE.length(), 4);
+  Assert.strictEqual(QUEUE.peek(), 1);
+  Assert.strictEqual(QUEUE.dequeue(), 1);
+  Assert.strictEqual(QUEUE.dequeue(), 2);
+  Assert.deepStrictEqual(QUEUE.toArray(), [3, 4]);
+
+  QUEUE.clear();
+  Assert.strictEqual(QUEUE.length(), 0);
+  Assert.strictEqual(QUEUE.peek(), undefined);
+  Assert.strictEqual(QUEUE.dequeue(), undefined);
+
+  // grows over its initial capacity, while wrapping around
+  for (let i = 0; i < 100; i++) {
+    QUEUE.enqueue(i, i + 0.5);
+    Assert.strictEqual(QUEUE.dequeue(), i / 2);
+  }
+  Assert.strictEqual(QUEUE.length(), 100);
+  Assert.deepStrictEqual(
+    QUEUE.toArray(),
+    Enumerable.range(100, 100)
+      .select((x) => x / 2)
+      .toArray(),
+  );
+});
+
+Helpers.execute("Testing snapshots and drain()...", (ctx) => {
+  const QUEUE = new Enumerable.Queue(["a", "b", "c"]);
+
+  Assert.strictEqual(QUEUE.joinToString(), "abc");
+  Assert.strictEqual(QUEUE.joinToString(), "abc");
+  Assert.strictEqual(QUEUE.length(), 3);
+
+  // snapshot
+  const ACTUAL: string[] = [];
+  for (const ITEM of QUEUE) {
+    QUEUE.enqueue(ITEM.toUpperCase());
+    ACTUAL.push(ITEM);
+  }
+  Assert.deepStrictEqual(ACTUAL, ["a", "b", "c"]);
+  Assert.strictEqual(QUEUE.length(), 6);
+
+  Assert.deepStrictEqual(QUEUE.drain().take(2).toArray(), ["a", "b"]);
+  Assert.strictEqual(QUEUE.length(), 4);
+  Assert.deepStrictEqual(QUEUE.drain().toArray(), ["c", "A", "B", "C"]);
+  Assert.strictEqual(QUEUE.length(), 0);
+});
+
+Helpers.execute("Testing worklist...", (ctx) => {
+  const TREE: { [key: string]: string[] } = {
+    root: ["a", "b"],
+    a: ["a1", "a2"],
+    b: ["b1"],
+    a2: ["a21"],
+  };
+
+  // breadth-first
+  const QUEUE = new Enumerable.Queue(["root"]);
+  const VISITED = QUEUE.drain()
+    .pipe((x) => QUEUE.enqueue(...(TREE[x] || [])))
+    .toArray();
+
+  Assert.deepStrictEqual(VISITED, ["root", "a", "b", "a1", "a2", "b1", "a21"]);
+});
@@ -0,0 +1,121 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+interface Person {
+  age: number;
+  name: string;
+}
+
+const PERSONS: Person[] = [
+  { age: 30, name: "Tanja" },
+  { age: 20, name: "Marcel" },
+  { age: 40, name: "Jana" },
+  { age: 20, name: "Bill" },
+];
+
+Helpers.execute("Testing modifications...", (ctx) => {
+  const LIST = new Enumerable.SortedList((x: Person) => x.age, PERSONS);
+
+  // stable for equal keys
+  Assert.deepStrictEqual(LIST.select((x) => x.name).toArray(), [
+    "Marcel",
+    "Bill",
+    "Tanja",
+    "Jana",
+  ]);
+
+  const ANNA = { age: 20, name: "Anna" };
+  LIST.add(ANNA, { age: 50, name: "Konrad" });
+  Assert.strictEqual(LIST.length(), 6);
+  Assert.strictEqual(LIST.get(2), ANNA);
+  Assert.ok(LIST.containsKey(50));
+  Assert.ok(!LIST.containsKey(25));
+
+  Assert.strictEqual(LIST.remove(ANNA), true);
+  Assert.strictEqual(LIST.remove(ANNA), false);
+  Assert.strictEqual(LIST.remove({ age: 20, name: "Bill" }), false);
+
+  Assert.strictEqual(LIST.removeKey(20), 2);
+  Assert.strictEqual(LIST.removeKey(20), 0);
+  Assert.strictEqual(LIST.removeAt(0).name, "Tanja");
+  Assert.deepStrictEqual(LIST.select((x) => x.name).toArray(), [
+    "Jana",
+    "Konrad",
+  ]);
+});
+
+Helpers.execute("Testing queries...", (ctx) => {
+  const LIST = new Enumerable.SortedList((x: Person) => x.age, PERSONS);
+
+  Assert.deepStrictEqual(
+    LIST.range(20, 30)
+      .select((x) => x.name)
+      .toArray(),
+    ["Marcel", "Bill", "Tanja"],
+  );
+  Assert.strictEqual(LIST.floor(25).name, "Bill");
+  Assert.strictEqual(LIST.ceiling(20).name, "Marcel");
+  Assert.strictEqual(LIST.ceiling(21).name, "Tanja");
+  Assert.strictEqual(LIST.floor(10), undefined);
+  Assert.strictEqual(LIST.rank(30), 2);
+
+  // ordered sequence
+  Assert.deepStrictEqual(
+    LIST.range(20, 30)
+      .thenBy((x) => x.name)
+      .select((x) => x.name)
+      .toArray(),
+    ["Bill", "Marcel", "Tanja"],
+  );
+  Assert.deepStrictEqual(
+    LIST.thenByDescending((x) => x.name)
+      .select((x) => x.name)
+      .toArray(),
+    ["Marcel", "Bill", "Tanja", "Jana"],
+  );
+});
+
+Helpers.execute("Testing key comparer...", (ctx) => {
+  const LIST = new Enumerable.SortedList(
+    (x: Person) => x.name,
+    PERSONS,
+    (x, y) => y.localeCompare(x),
+  );
+
+  Assert.deepStrictEqual(LIST.select((x) => x.name).toArray(), [
+    "Tanja",
+    "Marcel",
+    "Jana",
+    "Bill",
+  ]);
+  Assert.deepStrictEqual(
+    LIST.range("Tanja", "Jana")
+      .select((x) => x.age)
+      .toArray(),
+    [30, 20, 40],
+  );
+});
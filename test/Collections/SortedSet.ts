@@ -0,0 +1,132 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing modifications...", (ctx) => {
+  const SET = new Enumerable.SortedSet([5, 1, 9, 3, 5, 7]);
+
+  Assert.deepStrictEqual(SET.toArray(), [1, 3, 5, 7, 9]);
+  Assert.strictEqual(SET.length(), 5);
+
+  Assert.strictEqual(SET.add(4), true);
+  Assert.strictEqual(SET.add(4), false);
+  Assert.ok(SET.has(4));
+  Assert.ok(!SET.has(2));
+
+  Assert.strictEqual(SET.remove(1), true);
+  Assert.strictEqual(SET.remove(1), false);
+  Assert.strictEqual(SET.removeAt(0), 3);
+  Assert.deepStrictEqual(SET.toArray(), [4, 5, 7, 9]);
+  Assert.strictEqual(SET.get(1), 5);
+  Assert.throws(() => SET.get(4), RangeError);
+
+  // next() and tryGetNonEnumeratedCount()
+  Assert.strictEqual(SET.next().value, 4);
+  Assert.strictEqual(SET.tryGetNonEnumeratedCount(), 4);
+  Assert.strictEqual(SET.count(), 4);
+
+  SET.clear();
+  Assert.strictEqual(SET.length(), 0);
+});
+
+Helpers.execute("Testing queries...", (ctx) => {
+  const SET = new Enumerable.SortedSet([10, 20, 30, 40, 50]);
+
+  Assert.deepStrictEqual(SET.range(20, 40).toArray(), [20, 30, 40]);
+  Assert.deepStrictEqual(SET.range(15, 45).toArray(), [20, 30, 40]);
+  Assert.deepStrictEqual(SET.range(41, 49).toArray(), []);
+  Assert.deepStrictEqual(SET.range(40, 20).toArray(), []);
+
+  Assert.strictEqual(SET.floor(35), 30);
+  Assert.strictEqual(SET.floor(30), 30);
+  Assert.strictEqual(SET.floor(5), undefined);
+  Assert.strictEqual(SET.ceiling(35), 40);
+  Assert.strictEqual(SET.ceiling(40), 40);
+  Assert.strictEqual(SET.ceiling(55), undefined);
+
+  // without a key, the items are rounded
+  Assert.deepStrictEqual(
+    new Enumerable.SortedSet([2.5, 1.5]).floor().toArray(),
+    [1, 2],
+  );
+
+  Assert.strictEqual(SET.rank(10), 0);
+  Assert.strictEqual(SET.rank(30), 2);
+  Assert.strictEqual(SET.rank(35), 3);
+  Assert.strictEqual(SET.rank(99), 5);
+
+  // ranges read the current items
+  const RANGE = SET.range(20, 40);
+  SET.add(25);
+  SET.remove(40);
+  Assert.deepStrictEqual(RANGE.toArray(), [20, 25, 30]);
+});
+
+Helpers.execute("Testing comparer and ordered operations...", (ctx) => {
+  const SET = new Enumerable.SortedSet(
+    ["ccc", "a", "bb", "dd", "A"],
+    (x, y) => x.length - y.length,
+  );
+
+  // same length => same item
+  Assert.deepStrictEqual(SET.toArray(), ["a", "bb", "ccc"]);
+
+  const WORDS = new Enumerable.SortedSet(
+    ["Bill", "albert", "marcel", "Anna"],
+    (x, y) => x.toLowerCase().localeCompare(y.toLowerCase()),
+  );
+  Assert.deepStrictEqual(WORDS.thenBy((x) => x).toArray(), [
+    "albert",
+    "Anna",
+    "Bill",
+    "marcel",
+  ]);
+
+  const PERSONS = new Enumerable.SortedSet(
+    [
+      { age: 30, name: "b" },
+      { age: 20, name: "a" },
+      { age: 30, name: "a" },
+    ],
+    (x, y) => x.age - y.age || x.name.localeCompare(y.name),
+  );
+  Assert.deepStrictEqual(PERSONS.select((x) => x.name + x.age).toArray(), [
+    "a20",
+    "a30",
+    "b30",
+  ]);
+
+  // re-enumerable
+  const NUMBERS = new Enumerable.SortedSet([3, 1, 2]);
+  const EVENS = NUMBERS.where((x) => x % 2 === 0);
+  NUMBERS.add(4);
+  Assert.deepStrictEqual(EVENS.toArray(), [2, 4]);
+  Assert.deepStrictEqual(NUMBERS.take(2).toArray(), [1, 2]);
+  Assert.deepStrictEqual(NUMBERS.take(2).toArray(), [1, 2]);
+  Assert.strictEqual(NUMBERS.sum(), 10);
+  Assert.strictEqual(NUMBERS.sum(), 10);
+  Assert.deepStrictEqual(NUMBERS.thenDescending().toArray(), [1, 2, 3, 4]);
+});
@@ -84,3 +84,27 @@ Helpers.execute(
             }
         }
     });
+
+Helpers.execute(
+    'Testing abort signal...',
+    (ctx) => {
+        const CONTROLLER = new AbortController();
+
+        let arr: any[] = [];
+        let err: any;
+        try {
+            for (let item of Enumerable.build((cancel, index) => index, undefined, CONTROLLER.signal)) {
+                arr.push(item);
+
+                if (4 === item) {
+                    CONTROLLER.abort();
+                }
+            }
+        }
+        catch (e) {
+            err = e;
+        }
+
+        Assert.ok(err instanceof Enumerable.AbortError);
+        Assert.deepStrictEqual(arr, [ 0, 1, 2, 3, 4 ]);
+    });
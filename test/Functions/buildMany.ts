@@ -80,3 +80,30 @@ Helpers.execute("Testing numbers...", (ctx) => {
     }
   }
 });
+
+Helpers.execute("Testing abort signal...", (ctx) => {
+  const CONTROLLER = new AbortController();
+
+  let arr: any[] = [];
+  let err: any;
+  try {
+    const SEQ = Enumerable.buildMany(
+      (cancel, index) => [index, index],
+      undefined,
+      CONTROLLER.signal,
+    );
+
+    for (let item of SEQ) {
+      arr.push(item);
+
+      if (2 === item) {
+        CONTROLLER.abort();
+      }
+    }
+  } catch (e) {
+    err = e;
+  }
+
+  Assert.ok(err instanceof Enumerable.AbortError);
+  Assert.deepStrictEqual(arr, [0, 0, 1, 1, 2]);
+});
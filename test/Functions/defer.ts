@@ -0,0 +1,122 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+function toArray<T>(seq: Iterable<T>): T[] {
+  let arr: T[] = [];
+  for (let item of seq) {
+    arr.push(item);
+  }
+
+  return arr;
+}
+
+Helpers.execute("Testing factory...", (ctx) => {
+  let calls = 0;
+  let seq = Enumerable.defer(() => {
+    ++calls;
+
+    return [1, 2, 3];
+  });
+
+  Assert.strictEqual(calls, 0);
+
+  for (let i = 0; i < 3; i++) {
+    Assert.deepStrictEqual(toArray(seq), [1, 2, 3]);
+    Assert.deepStrictEqual(seq.toArray(), [1, 2, 3]);
+  }
+
+  Assert.strictEqual(calls, 6);
+});
+
+Helpers.execute("Testing pipelines...", (ctx) => {
+  let arr = [1, 2, 3, 4, 5, 6];
+  let seq = Enumerable.defer(() => arr);
+
+  let query = seq
+    .where((x) => x % 2 === 0)
+    .select((x) => x * 10)
+    .skip(1)
+    .take(5);
+
+  for (let i = 0; i < 3; i++) {
+    Assert.deepStrictEqual(toArray(query), [40, 60]);
+    Assert.strictEqual(query.count(), 2);
+    Assert.ok(query.sequenceEqual([40, 60]));
+  }
+
+  // the source is read again on each iteration
+  arr = [8, 10, 12];
+  Assert.deepStrictEqual(query.toArray(), [100, 120]);
+});
+
+Helpers.execute("Testing operators...", (ctx) => {
+  let seq = Enumerable.defer(() => Enumerable.range(0, 5));
+
+  let queries: [Enumerable.IEnumerable<any>, any[]][] = [
+    [seq.chunk(2).select((x) => x.toArray()), [[0, 1], [2, 3], [4]]],
+    [seq.concat([5, 6]), [0, 1, 2, 3, 4, 5, 6]],
+    [seq.distinct(), [0, 1, 2, 3, 4]],
+    [seq.except([1, 3]), [0, 2, 4]],
+    [seq.groupBy((x) => x % 2).select((x) => x.key), [0, 1]],
+    [
+      seq.join(
+        [1, 2],
+        (x) => x,
+        (y) => y,
+        (x, y) => x + y,
+      ),
+      [2, 4],
+    ],
+    [seq.orderByDescending((x) => x).thenBy((x) => x), [4, 3, 2, 1, 0]],
+    [seq.reverse(), [4, 3, 2, 1, 0]],
+    [seq.skipLast(), [0, 1, 2, 3]],
+    [seq.zip(seq.skip(1), (x, y) => x + y), [1, 3, 5, 7]],
+  ];
+
+  for (let [query, expected] of queries) {
+    for (let i = 0; i < 3; i++) {
+      Assert.deepStrictEqual(query.toArray(), expected);
+    }
+  }
+});
+
+Helpers.execute("Testing next() and reset()...", (ctx) => {
+  let seq = Enumerable.defer(() => [1, 2]);
+
+  Assert.strictEqual(seq.next().value, 1);
+  Assert.strictEqual(seq.next().value, 2);
+  Assert.ok(seq.next().done);
+  Assert.strictEqual(seq.index, 1);
+
+  seq.reset();
+
+  Assert.strictEqual(seq.index, -1);
+  Assert.strictEqual(seq.next().value, 1);
+
+  Assert.ok(seq.canReset);
+  Assert.strictEqual(seq.makeResettable(), seq);
+});
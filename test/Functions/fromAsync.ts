@@ -0,0 +1,91 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+const MAX_ARRAY_SIZE = 100;
+
+async function* createAsyncGenerator(count: number) {
+  for (let i = 0; i < count; i++) {
+    yield i;
+  }
+}
+
+Helpers.execute("Testing async generators...", async (ctx) => {
+  for (let i = 0; i < MAX_ARRAY_SIZE; i++) {
+    if (0 === i % 10) {
+      ctx.log(`Testing with ${i} elements...`);
+    }
+
+    let seq = Enumerable.fromAsync(createAsyncGenerator(i));
+    Assert.ok(Enumerable.isAsyncEnumerable(seq));
+    Assert.ok(!Enumerable.isEnumerable(seq));
+
+    let arr: number[] = [];
+    for await (let item of seq) {
+      Assert.strictEqual(item, arr.length);
+      Assert.strictEqual(seq.index, arr.length);
+
+      arr.push(item);
+    }
+
+    Assert.strictEqual(arr.length, i);
+  }
+});
+
+Helpers.execute("Testing sync sequences...", async (ctx) => {
+  for (let i = 0; i < MAX_ARRAY_SIZE; i++) {
+    if (0 === i % 10) {
+      ctx.log(`Testing with ${i} elements...`);
+    }
+
+    let arr: number[] = [];
+    for (let j = 0; j < i; j++) {
+      arr.push(j);
+    }
+
+    for (let seq of Helpers.createSequences(arr)) {
+      let result = await Enumerable.fromAsync(seq).toArray();
+
+      Assert.deepStrictEqual(result, arr);
+    }
+  }
+});
+
+Helpers.execute("Testing promises...", async (ctx) => {
+  let result = await Enumerable.fromAsync([
+    Promise.resolve(1),
+    2,
+    Promise.resolve(3),
+  ]).toArray();
+
+  Assert.deepStrictEqual(result, [1, 2, 3]);
+});
+
+Helpers.execute("Testing empty values...", async (ctx) => {
+  for (let val of <any[]>[null, undefined]) {
+    Assert.deepStrictEqual(await Enumerable.fromAsync(val).toArray(), []);
+  }
+});
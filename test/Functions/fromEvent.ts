@@ -0,0 +1,154 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Events = require("events");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing events...", async (ctx) => {
+  let emitter = new Events.EventEmitter();
+  let seq = Enumerable.fromEvent<number>(emitter, "data", {
+    endEvent: "end",
+  });
+
+  emitter.emit("data", 1);
+  emitter.emit("data", 2);
+  setTimeout(() => {
+    emitter.emit("data", 3);
+    emitter.emit("end");
+  }, 10);
+
+  Assert.deepStrictEqual(await seq.toArray(), [1, 2, 3]);
+  Assert.strictEqual(emitter.listenerCount("data"), 0);
+  Assert.strictEqual(emitter.listenerCount("end"), 0);
+  Assert.strictEqual(emitter.listenerCount("error"), 0);
+});
+
+Helpers.execute("Testing error event...", async (ctx) => {
+  let emitter = new Events.EventEmitter();
+  let seq = Enumerable.fromEvent<number>(emitter, "data");
+
+  emitter.emit("data", 1);
+  emitter.emit("error", new Error("Test error"));
+
+  let items: number[] = [];
+  let err: any;
+  try {
+    for await (const item of seq) {
+      items.push(item);
+    }
+  } catch (e) {
+    err = e;
+  }
+
+  Assert.deepStrictEqual(items, [1]);
+  Assert.ok(err instanceof Error);
+  Assert.strictEqual(err.message, "Test error");
+  Assert.strictEqual(emitter.listenerCount("data"), 0);
+});
+
+Helpers.execute("Testing overflow...", async (ctx) => {
+  for (const overflow of <Enumerable.BufferOverflowStrategy[]>[
+    "drop-newest",
+    "drop-oldest",
+  ]) {
+    let emitter = new Events.EventEmitter();
+    let seq = Enumerable.fromEvent<number>(emitter, "data", {
+      bufferSize: 2,
+      endEvent: "end",
+      overflow: overflow,
+    });
+
+    for (let i = 0; i < 5; i++) {
+      emitter.emit("data", i);
+    }
+    emitter.emit("end");
+
+    Assert.deepStrictEqual(
+      await seq.toArray(),
+      "drop-newest" === overflow ? [0, 1] : [3, 4],
+    );
+  }
+
+  let emitter = new Events.EventEmitter();
+  let seq = Enumerable.fromEvent<number>(emitter, "data", {
+    bufferSize: 2,
+  });
+
+  for (let i = 0; i < 5; i++) {
+    emitter.emit("data", i);
+  }
+
+  let err: any;
+  try {
+    await seq.toArray();
+  } catch (e) {
+    err = e;
+  }
+
+  Assert.ok(err instanceof RangeError);
+  Assert.strictEqual(err.message, "Buffer size 2 is exceeded");
+  Assert.strictEqual(emitter.listenerCount("data"), 0);
+});
+
+Helpers.execute("Testing concurrent readers...", async (ctx) => {
+  let emitter = new Events.EventEmitter();
+  let seq = Enumerable.fromEvent<number>(emitter, "data", {
+    endEvent: "end",
+  });
+
+  let results = [seq.next(), seq.next(), seq.next(), seq.next()];
+
+  emitter.emit("data", 1);
+  emitter.emit("data", 2);
+  emitter.emit("end");
+
+  Assert.deepStrictEqual(await Promise.all(results), [
+    { done: false, value: 1 },
+    { done: false, value: 2 },
+    { done: true, value: undefined },
+    { done: true, value: undefined },
+  ]);
+});
+
+Helpers.execute("Testing early exit...", async (ctx) => {
+  let emitter = new Events.EventEmitter();
+  let seq = Enumerable.fromEvent<number>(emitter, "data");
+
+  setTimeout(() => {
+    for (let i = 0; i < 5; i++) {
+      emitter.emit("data", i);
+    }
+  }, 10);
+
+  Assert.deepStrictEqual(await seq.take(2).toArray(), [0, 1]);
+
+  // 'take()' does not pull more than 2 items,
+  // so leave the sequence explicitly
+  for await (const item of seq) {
+    break;
+  }
+
+  Assert.strictEqual(emitter.listenerCount("data"), 0);
+});
@@ -0,0 +1,95 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+import Stream = require("stream");
+import Streams = require("../../streams");
+
+const MAX_ARRAY_SIZE = 100;
+
+Helpers.execute("Testing objects...", async (ctx) => {
+  for (let i = 0; i < MAX_ARRAY_SIZE; i++) {
+    if (0 === i % 10) {
+      ctx.log(`Testing with ${i} elements...`);
+    }
+
+    let arr: any[] = [];
+    for (let j = 0; j < i; j++) {
+      arr.push({ index: j });
+    }
+
+    let seq = Streams.fromReadable(Stream.Readable.from(arr));
+
+    Assert.deepStrictEqual(await seq.toArray(), arr);
+  }
+});
+
+Helpers.execute("Testing strings...", async (ctx) => {
+  let stream = new Stream.PassThrough();
+  stream.end("Marcel K! Marcel K! Marcel K!");
+
+  let chunks = await Streams.fromReadable<Buffer>(stream).toArray();
+
+  Assert.strictEqual(
+    Buffer.concat(chunks).toString("utf8"),
+    "Marcel K! Marcel K! Marcel K!",
+  );
+});
+
+Helpers.execute("Testing backpressure...", async (ctx) => {
+  let pulled = 0;
+  let stream = new Stream.Readable({
+    highWaterMark: 1,
+    objectMode: true,
+    read: function () {
+      this.push(pulled++);
+    },
+  });
+
+  Assert.deepStrictEqual(
+    await Streams.fromReadable(stream).take(3).toArray(),
+    [0, 1, 2],
+  );
+  Assert.ok(pulled < 10);
+});
+
+Helpers.execute("Testing errors...", async (ctx) => {
+  let stream = new Stream.Readable({
+    objectMode: true,
+    read: function () {
+      this.destroy(new Error("Test error"));
+    },
+  });
+
+  let err: any;
+  try {
+    await Streams.fromReadable(stream).toArray();
+  } catch (e) {
+    err = e;
+  }
+
+  Assert.ok(err instanceof Error);
+  Assert.strictEqual(err.message, "Test error");
+});
@@ -0,0 +1,114 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+import Operators = require("../../operators");
+
+const {
+  count,
+  firstOrDefault,
+  orderBy,
+  pipe,
+  select,
+  skip,
+  thenBy,
+  toArray,
+  where,
+} = Operators;
+
+Helpers.execute("Testing operators...", (ctx) => {
+  const ACTUAL = pipe(
+    [1, 2, 3, 4, 5, 6],
+    where((x) => x % 2 === 0),
+    select((x) => x * 10),
+    skip(1),
+    toArray(),
+  );
+
+  Assert.deepStrictEqual(ACTUAL, [40, 60]);
+
+  Assert.strictEqual(
+    pipe(
+      Enumerable.range(0, 10),
+      where((x) => x > 6),
+      count(),
+    ),
+    3,
+  );
+});
+
+Helpers.execute("Testing sequences...", (ctx) => {
+  const GENERATOR = function* () {
+    yield "b";
+    yield "a";
+  };
+
+  Assert.deepStrictEqual(pipe(GENERATOR(), toArray()), ["b", "a"]);
+  Assert.deepStrictEqual(
+    pipe(
+      "ab",
+      select((x) => x.toUpperCase()),
+      toArray(),
+    ),
+    ["A", "B"],
+  );
+});
+
+Helpers.execute("Testing plain iterables...", (ctx) => {
+  let calls = 0;
+
+  const SEQ = pipe(
+    [1, 2, 3],
+    select((x) => {
+      ++calls;
+      return x * 2;
+    }),
+  );
+
+  Assert.strictEqual(calls, 0);
+  Assert.deepStrictEqual(Array.from(SEQ), [2, 4, 6]);
+  Assert.deepStrictEqual(Array.from(SEQ), [2, 4, 6]);
+  Assert.strictEqual(calls, 6);
+});
+
+Helpers.execute("Testing ordered sequences...", (ctx) => {
+  const ACTUAL = pipe(
+    ["ccc", "b", "aa", "a", "bb"],
+    orderBy((x) => x.length),
+    thenBy((x) => x),
+    toArray(),
+  );
+
+  Assert.deepStrictEqual(ACTUAL, ["a", "b", "aa", "bb", "ccc"]);
+});
+
+Helpers.execute("Testing same arguments as methods...", (ctx) => {
+  Assert.strictEqual(
+    pipe([], firstOrDefault()),
+    Enumerable.from([]).firstOrDefault(),
+  );
+  Assert.strictEqual(pipe([], firstOrDefault()), Enumerable.NOT_FOUND);
+  Assert.strictEqual(pipe([], firstOrDefault(<any>undefined)), undefined);
+});
@@ -59,3 +59,25 @@ Helpers.execute(
             }
         }
     });
+
+Helpers.execute(
+    'Testing abort signal...',
+    (ctx) => {
+        const CONTROLLER = new AbortController();
+
+        let count = 0;
+        let err: any;
+        try {
+            for (let item of Enumerable.random(undefined, undefined, CONTROLLER.signal)) {
+                if (++count === MAX_SIZE) {
+                    CONTROLLER.abort();
+                }
+            }
+        }
+        catch (e) {
+            err = e;
+        }
+
+        Assert.ok(err instanceof Enumerable.AbortError);
+        Assert.strictEqual(count, MAX_SIZE);
+    });
@@ -0,0 +1,118 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+declare module "../../" {
+  interface IEnumerable<T> {
+    evens(): IEnumerable<T>;
+    sumBy(selector: (item: T) => number): number;
+  }
+}
+
+Enumerable.registerOperator("evens", function () {
+  return this.where((x: number) => x % 2 === 0);
+});
+Enumerable.registerOperator("sumBy", function (selector) {
+  return this.select(selector).sum();
+});
+
+Helpers.execute("Testing registered operators...", (ctx) => {
+  Assert.deepStrictEqual(
+    Enumerable.from([1, 2, 3, 4]).evens().toArray(),
+    [2, 4],
+  );
+  Assert.deepStrictEqual(
+    Enumerable.range(0, 7).evens().toArray(),
+    [0, 2, 4, 6],
+  );
+  Assert.deepStrictEqual(
+    Enumerable.from(
+      (function* () {
+        yield* [5, 6, 7, 8];
+      })(),
+    )
+      .evens()
+      .toArray(),
+    [6, 8],
+  );
+  Assert.deepStrictEqual(
+    Enumerable.from([4, 1, 3, 2])
+      .orderBy((x) => x)
+      .evens()
+      .toArray(),
+    [2, 4],
+  );
+  Assert.deepStrictEqual(
+    Enumerable.from([4, 1, 3, 2])
+      .orderBy((x) => x)
+      .take(3)
+      .evens()
+      .toArray(),
+    [2],
+  );
+  Assert.deepStrictEqual(
+    Enumerable.from([1, 2, 3, 4])
+      .groupBy((x) => x % 2)
+      .select((g) => g.evens().count())
+      .toArray(),
+    [0, 2],
+  );
+
+  const WORDS = ["a", "bb", "ccc"];
+  Assert.strictEqual(
+    Enumerable.from(WORDS).sumBy((x) => x.length),
+    6,
+  );
+  Assert.strictEqual(
+    Enumerable.defer(() => WORDS).sumBy((x) => x.length),
+    6,
+  );
+});
+
+Helpers.execute("Testing clashing operators...", (ctx) => {
+  for (const NAME of ["where", "thenBy", "key", "toString", "evens"]) {
+    Assert.throws(
+      () => Enumerable.registerOperator(NAME, function () {}),
+      (err: any) => {
+        return (
+          err instanceof Enumerable.OperatorClashError &&
+          err.operatorName === NAME
+        );
+      },
+    );
+  }
+
+  Assert.throws(() => Enumerable.registerOperator("", function () {}));
+  Assert.throws(() => Enumerable.registerOperator("foo", <any>null));
+
+  // built-in operators are still intact
+  Assert.deepStrictEqual(
+    Enumerable.from([1, 2, 3])
+      .where((x) => x > 1)
+      .toArray(),
+    [2, 3],
+  );
+});
@@ -0,0 +1,157 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+import Stream = require("stream");
+import Streams = require("../../streams");
+
+const MAX_ARRAY_SIZE = 100;
+
+async function readAll(stream: Stream.Readable) {
+  let items: any[] = [];
+  for await (let item of stream) {
+    items.push(item);
+  }
+
+  return items;
+}
+
+async function* createAsyncGenerator(counter: { pulled: number }) {
+  while (true) {
+    yield counter.pulled++;
+  }
+}
+
+Helpers.execute("Testing numbers...", async (ctx) => {
+  for (let i = 0; i < MAX_ARRAY_SIZE; i++) {
+    if (0 === i % 10) {
+      ctx.log(`Testing with ${i} elements...`);
+    }
+
+    let arr: number[] = [];
+    for (let j = 0; j < i; j++) {
+      arr.push(j);
+    }
+
+    for (let seq of Helpers.createSequences(arr)) {
+      Assert.deepStrictEqual(await readAll(Streams.toReadable(seq)), arr);
+    }
+  }
+});
+
+Helpers.execute("Testing (null) values...", async (ctx) => {
+  Assert.deepStrictEqual(
+    await readAll(
+      Streams.toReadable(Enumerable.create(1, null, 2, undefined, 3)),
+    ),
+    [1, 2, undefined, 3],
+  );
+});
+
+Helpers.execute("Testing strings (no object mode)...", async (ctx) => {
+  let chunks: Buffer[] = await readAll(
+    Streams.toReadable(["Marcel", " ", "K!"], { objectMode: false }),
+  );
+
+  Assert.strictEqual(Buffer.concat(chunks).toString("utf8"), "Marcel K!");
+});
+
+Helpers.execute("Testing infinite sequences...", async (ctx) => {
+  let pulled = 0;
+  let stream = Streams.toReadable(
+    Enumerable.build(() => pulled++),
+    { highWaterMark: 2 },
+  );
+
+  let items: number[] = [];
+  for await (let item of stream) {
+    items.push(item);
+
+    if (items.length >= 5) {
+      break;
+    }
+  }
+
+  Assert.deepStrictEqual(items, [0, 1, 2, 3, 4]);
+  Assert.ok(pulled < 10);
+});
+
+Helpers.execute("Testing errors...", async (ctx) => {
+  let stream = Streams.toReadable(
+    Enumerable.build((cancel, index) => {
+      if (index > 2) {
+        throw new Error("Test error");
+      }
+
+      return index;
+    }),
+  );
+
+  let items: number[] = [];
+  let err: any;
+  try {
+    for await (let item of stream) {
+      items.push(item);
+    }
+  } catch (e) {
+    err = e;
+  }
+
+  Assert.ok(err instanceof Error);
+  Assert.strictEqual(err.message, "Test error");
+});
+
+Helpers.execute("Testing async sequences...", async (ctx) => {
+  let counter = { pulled: 0 };
+  let stream = Streams.toReadable(
+    Enumerable.fromAsync(createAsyncGenerator(counter)).where(
+      (x) => 0 === x % 2,
+    ),
+    { highWaterMark: 2 },
+  );
+
+  let items: number[] = [];
+  for await (let item of stream) {
+    items.push(item);
+
+    if (items.length >= 5) {
+      break;
+    }
+  }
+
+  Assert.deepStrictEqual(items, [0, 2, 4, 6, 8]);
+  Assert.ok(counter.pulled < 20);
+});
+
+Helpers.execute("Testing round trip...", async (ctx) => {
+  let arr = [1, null, 2, 3];
+
+  Assert.deepStrictEqual(
+    await Streams.fromReadable(Streams.toReadable(Enumerable.fromAsync(arr)))
+      .select((x) => x * 10)
+      .toArray(),
+    [10, 20, 30],
+  );
+});
@@ -0,0 +1,228 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+import { EventEmitter } from "events";
+
+const XF = Enumerable.transducer<number>()
+  .where((x) => x % 2 === 0)
+  .select((x) => x * 10)
+  .take(3);
+
+async function* createAsyncGenerator(count: number) {
+  for (let i = 0; i < count; i++) {
+    yield i;
+  }
+}
+
+Helpers.execute("Testing applyTo()...", (ctx) => {
+  const ARR = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+  Assert.deepStrictEqual(XF.applyTo(ARR).toArray(), [20, 40, 60]);
+  Assert.deepStrictEqual(
+    XF.applyTo(Enumerable.range(0, 100)).toArray(),
+    [0, 20, 40],
+  );
+  Assert.deepStrictEqual(XF.applyTo([]).toArray(), []);
+
+  // re-iterable, because arrays are
+  const SEQ = XF.applyTo(ARR);
+  Assert.deepStrictEqual(SEQ.toArray(), [20, 40, 60]);
+  Assert.deepStrictEqual(SEQ.toArray(), [20, 40, 60]);
+});
+
+Helpers.execute("Testing aggregate()...", (ctx) => {
+  let pulled = 0;
+
+  const SUM = Enumerable.range(1, 100)
+    .pipe(() => ++pulled)
+    .aggregate(
+      XF.reducer((acc: number, x) => acc + x),
+      0,
+    );
+
+  Assert.strictEqual(SUM, 120);
+  Assert.strictEqual(pulled, 6);
+
+  const ARR = Enumerable.range(1, 10).aggregate(
+    XF.reducer((acc: number[], x) => {
+      acc.push(x);
+
+      return acc;
+    }),
+    [],
+  );
+  Assert.deepStrictEqual(ARR, [20, 40, 60]);
+});
+
+Helpers.execute("Testing applyToAsync()...", async (ctx) => {
+  const ARR: number[] = [];
+  for await (let item of XF.applyToAsync(createAsyncGenerator(100))) {
+    ARR.push(item);
+  }
+
+  Assert.deepStrictEqual(ARR, [0, 20, 40]);
+  Assert.deepStrictEqual(
+    await XF.applyToAsync([1, 2, 3, 4]).toArray(),
+    [20, 40],
+  );
+});
+
+Helpers.execute("Testing observe()...", (ctx) => {
+  const EMITTER = new EventEmitter();
+  const RECEIVED: number[] = [];
+
+  const ON_DATA = XF.observe((x) => RECEIVED.push(x));
+  const LISTENER = (x: number) => {
+    if (!ON_DATA(x)) {
+      EMITTER.off("data", LISTENER);
+    }
+  };
+  EMITTER.on("data", LISTENER);
+
+  for (let i = 1; i <= 10; i++) {
+    EMITTER.emit("data", i);
+  }
+
+  Assert.deepStrictEqual(RECEIVED, [20, 40, 60]);
+  Assert.strictEqual(EMITTER.listenerCount("data"), 0);
+  Assert.strictEqual(ON_DATA(8), false);
+  Assert.deepStrictEqual(RECEIVED, [20, 40, 60]);
+});
+
+Helpers.execute("Testing state per application...", (ctx) => {
+  const SKIP_TAKE = Enumerable.transducer<number>().skip(2).take(2);
+
+  Assert.deepStrictEqual(SKIP_TAKE.applyTo([1, 2, 3, 4, 5]).toArray(), [3, 4]);
+  Assert.deepStrictEqual(SKIP_TAKE.applyTo([1, 2, 3, 4, 5]).toArray(), [3, 4]);
+  Assert.strictEqual(
+    Enumerable.range(1, 5).aggregate(
+      SKIP_TAKE.reducer((acc: number, x) => acc + x),
+      0,
+    ),
+    7,
+  );
+  // a new reducer for each 'aggregate()' call
+  Assert.strictEqual(
+    Enumerable.range(1, 5).aggregate(
+      SKIP_TAKE.reducer((acc: number, x) => acc + x),
+      0,
+    ),
+    7,
+  );
+
+  // builders are immutable
+  const BASE = Enumerable.transducer<number>().where((x) => x > 2);
+  const DOUBLED = BASE.select((x) => x * 2);
+  Assert.deepStrictEqual(BASE.applyTo([1, 2, 3]).toArray(), [3]);
+  Assert.deepStrictEqual(DOUBLED.applyTo([1, 2, 3]).toArray(), [6]);
+});
+
+Helpers.execute("Testing operators...", (ctx) => {
+  Assert.deepStrictEqual(
+    Enumerable.transducer<number>()
+      .selectMany((x) => [x, x])
+      .take(5)
+      .applyTo([1, 2, 3, 4])
+      .toArray(),
+    [1, 1, 2, 2, 3],
+  );
+  Assert.deepStrictEqual(
+    Enumerable.transducer<number>()
+      .skipWhile((x) => x < 3)
+      .takeWhile((x) => x < 6)
+      .applyTo([1, 2, 3, 4, 5, 6, 1, 2])
+      .toArray(),
+    [3, 4, 5],
+  );
+  Assert.deepStrictEqual(
+    Enumerable.transducer<any>()
+      .where((x): x is string => "string" === typeof x)
+      .select((x) => x.toUpperCase())
+      .applyTo([1, "a", null, "b"])
+      .toArray(),
+    ["A", "B"],
+  );
+  Assert.deepStrictEqual(
+    Enumerable.transducer<number>().take(0).applyTo([1, 2]).toArray(),
+    [],
+  );
+});
+
+Helpers.execute("Testing take(0)...", async (ctx) => {
+  let pulled = 0;
+  const NONE = Enumerable.transducer<number>()
+    .take(0)
+    .select((x) => x * 10);
+
+  Assert.deepStrictEqual(
+    NONE.applyTo(Enumerable.range(1, 10).pipe(() => ++pulled)).toArray(),
+    [],
+  );
+  Assert.deepStrictEqual(
+    await NONE.applyToAsync(
+      Enumerable.range(1, 10).pipe(() => ++pulled),
+    ).toArray(),
+    [],
+  );
+  Assert.strictEqual(pulled, 0);
+
+  Assert.strictEqual(NONE.observe(() => ++pulled)(1), false);
+  Assert.strictEqual(pulled, 0);
+});
+
+Helpers.execute("Testing compose()...", (ctx) => {
+  const pairwiseSum: Enumerable.Transducer<number, number> = (reducer) => {
+    let previous: number;
+    let hasPrevious = false;
+
+    return (acc, item) => {
+      const RESULT = hasPrevious ? reducer(acc, previous + item) : acc;
+
+      previous = item;
+      hasPrevious = true;
+
+      return RESULT;
+    };
+  };
+
+  Assert.deepStrictEqual(
+    Enumerable.transducer<number>()
+      .compose(pairwiseSum)
+      .take(2)
+      .applyTo([1, 2, 3, 4])
+      .toArray(),
+    [3, 5],
+  );
+
+  const XF2 = Enumerable.transducer<number>()
+    .select((x) => x + 1)
+    .compile();
+  Assert.strictEqual(
+    [1, 2, 3].reduce(<any>XF2((acc: number, x) => acc + x), 0),
+    9,
+  );
+});
@@ -0,0 +1,121 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+async function* createAsyncGenerator(
+  count: number,
+  counter: { pulled: number },
+) {
+  for (let i = 0; i < count; i++) {
+    ++counter.pulled;
+    yield i;
+  }
+}
+
+function flush(): Promise<void> {
+  return new Promise<void>((resolve) => setImmediate(resolve));
+}
+
+Helpers.execute("Testing items...", async (ctx) => {
+  let scheduler = new Enumerable.VirtualScheduler();
+  let seq = Helpers.createTimedSequence(
+    scheduler,
+    [
+      [1, 1],
+      [3, 2],
+      [12, 3],
+      [35, 4],
+      [36, 5],
+      [41, 6],
+    ],
+    45,
+  );
+
+  let result = seq
+    .bufferTime(10, undefined, scheduler)
+    .select((x) => [scheduler.now(), x])
+    .toArray();
+
+  await scheduler.advanceBy(100);
+
+  Assert.deepStrictEqual(await result, [
+    [10, [1, 2]],
+    [20, [3]],
+    [40, [4, 5]],
+    [45, [6]],
+  ]);
+});
+
+Helpers.execute("Testing max size...", async (ctx) => {
+  let scheduler = new Enumerable.VirtualScheduler();
+  let seq = Helpers.createTimedSequence(
+    scheduler,
+    [
+      [1, 1],
+      [2, 2],
+      [3, 3],
+      [13, 4],
+    ],
+    20,
+  );
+
+  let result = seq
+    .bufferTime(10, 2, scheduler)
+    .select((x) => [scheduler.now(), x])
+    .toArray();
+
+  await scheduler.advanceBy(100);
+
+  Assert.deepStrictEqual(await result, [
+    [2, [1, 2]],
+    [12, [3]],
+    [20, [4]],
+  ]);
+});
+
+Helpers.execute("Testing bounded buffer...", async (ctx) => {
+  let scheduler = new Enumerable.VirtualScheduler();
+  let counter = { pulled: 0 };
+  let seq = Enumerable.fromAsync(createAsyncGenerator(100, counter)).bufferTime(
+    10,
+    1,
+    scheduler,
+  );
+
+  await flush();
+  Assert.strictEqual(counter.pulled, 0);
+
+  Assert.deepStrictEqual(await seq.next(), { done: false, value: [0] });
+  await flush();
+  // the next buffer has been emitted, but not read yet
+  Assert.strictEqual(counter.pulled, 2);
+
+  Assert.deepStrictEqual(await seq.next(), { done: false, value: [1] });
+  await flush();
+  Assert.strictEqual(counter.pulled, 3);
+
+  await seq.return();
+});
@@ -0,0 +1,53 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing numbers...", async (ctx) => {
+  let arr = [1, 2, 3, 4, 5];
+
+  Assert.strictEqual(await Enumerable.fromAsync(arr).first(), 1);
+  Assert.strictEqual(await Enumerable.fromAsync(arr).first((x) => x > 2), 3);
+  Assert.strictEqual(
+    await Enumerable.fromAsync(arr).first(async (x) => x > 3),
+    4,
+  );
+});
+
+Helpers.execute("Testing empty sequences...", async (ctx) => {
+  for (let seq of [
+    Enumerable.fromAsync([]),
+    Enumerable.fromAsync([1, 2, 3]).where((x) => x > 3),
+  ]) {
+    let err: any;
+    try {
+      await seq.first();
+    } catch (e) {
+      err = e;
+    }
+
+    Assert.strictEqual(err, "Element not found");
+  }
+});
@@ -0,0 +1,63 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing strings...", async (ctx) => {
+  let arr = ["grape", "Banana", "apple", "blueberry", "Apricot", "avocado"];
+
+  let groups = await Enumerable.fromAsync(arr)
+    .groupBy(async (x) => x[0].toLowerCase())
+    .toArray();
+
+  Assert.strictEqual(groups.length, 3);
+
+  Assert.strictEqual(groups[0].key, "g");
+  Assert.deepStrictEqual(groups[0].toArray(), ["grape"]);
+
+  Assert.strictEqual(groups[1].key, "b");
+  Assert.deepStrictEqual(groups[1].toArray(), ["Banana", "blueberry"]);
+
+  Assert.strictEqual(groups[2].key, "a");
+  Assert.deepStrictEqual(groups[2].toArray(), ["apple", "Apricot", "avocado"]);
+});
+
+Helpers.execute("Testing numbers (with equality comparer)...", async (ctx) => {
+  let arr: any[] = [1, "1", 2, "2", 1];
+
+  let groups = await Enumerable.fromAsync(arr)
+    .groupBy(
+      (x) => x,
+      (x, y) => x === y,
+    )
+    .toArray();
+
+  Assert.strictEqual(groups.length, 4);
+  Assert.deepStrictEqual(
+    groups.map((g) => g.key),
+    [1, "1", 2, "2"],
+  );
+  Assert.deepStrictEqual(groups[0].toArray(), [1, 1]);
+});
@@ -0,0 +1,65 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing numbers...", async (ctx) => {
+  let arr = [5, 3, 1, 4, 2];
+
+  Assert.deepStrictEqual(
+    await Enumerable.fromAsync(arr)
+      .orderBy(async (x) => x)
+      .toArray(),
+    [1, 2, 3, 4, 5],
+  );
+  Assert.deepStrictEqual(
+    await Enumerable.fromAsync(arr)
+      .orderByDescending((x) => x)
+      .toArray(),
+    [5, 4, 3, 2, 1],
+  );
+});
+
+Helpers.execute("Testing objects (with comparer)...", async (ctx) => {
+  let arr = [{ name: "Tanja" }, { name: "marcel" }, { name: "Yvonne" }];
+
+  let comparer = (x: string, y: string) =>
+    x.toLowerCase().localeCompare(y.toLowerCase());
+
+  Assert.deepStrictEqual(
+    await Enumerable.fromAsync(arr)
+      .orderBy((x) => x.name, comparer)
+      .select((x) => x.name)
+      .toArray(),
+    ["marcel", "Tanja", "Yvonne"],
+  );
+  Assert.deepStrictEqual(
+    await Enumerable.fromAsync(arr)
+      .orderByDescending((x) => x.name, comparer)
+      .select((x) => x.name)
+      .toArray(),
+    ["Yvonne", "Tanja", "marcel"],
+  );
+});
@@ -0,0 +1,54 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+async function* createAsyncGenerator(item: number) {
+  yield item;
+  yield item * 10;
+}
+
+Helpers.execute("Testing numbers...", async (ctx) => {
+  let arr = [1, 2, 3];
+
+  Assert.deepStrictEqual(
+    await Enumerable.fromAsync(arr)
+      .selectMany((x) => [x, x * 10])
+      .toArray(),
+    [1, 10, 2, 20, 3, 30],
+  );
+  Assert.deepStrictEqual(
+    await Enumerable.fromAsync(arr)
+      .selectMany(async (x) => createAsyncGenerator(x))
+      .toArray(),
+    [1, 10, 2, 20, 3, 30],
+  );
+  Assert.deepStrictEqual(
+    await Enumerable.fromAsync(arr)
+      .selectMany((x) => Enumerable.range(x, x))
+      .toArray(),
+    [1, 2, 3, 3, 4, 5],
+  );
+});
@@ -0,0 +1,77 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing items...", async (ctx) => {
+  let scheduler = new Enumerable.VirtualScheduler();
+  let seq = Helpers.createTimedSequence(
+    scheduler,
+    [
+      [0, 1],
+      [5, 2],
+      [12, 3],
+    ],
+    20,
+  );
+
+  let result = seq.timeout(10, scheduler).toArray();
+
+  await scheduler.advanceBy(100);
+
+  Assert.deepStrictEqual(await result, [1, 2, 3]);
+});
+
+Helpers.execute("Testing timeout...", async (ctx) => {
+  let scheduler = new Enumerable.VirtualScheduler();
+  let seq = Helpers.createTimedSequence(
+    scheduler,
+    [
+      [0, 1],
+      [5, 2],
+      [30, 3],
+    ],
+    40,
+  );
+
+  let items: number[] = [];
+  let result = (async () => {
+    for await (let item of seq.timeout(10, scheduler)) {
+      items.push(item);
+    }
+  })().then(
+    () => null,
+    (err) => [scheduler.now(), err],
+  );
+
+  await scheduler.advanceBy(100);
+
+  let [time, err] = await result;
+
+  Assert.deepStrictEqual(items, [1, 2]);
+  Assert.strictEqual(time, 15);
+  Assert.ok(err instanceof Enumerable.TimeoutError);
+  Assert.strictEqual(err.dueTime, 10);
+});
@@ -67,3 +67,20 @@ Helpers.execute(
             Assert.equal('' + sum2a, expectedValue2);
         }
     });
+
+Helpers.execute(
+    'Testing reduced values...',
+    (ctx) => {
+        let pulled = 0;
+
+        let sum = Enumerable.range(1, 10)
+                            .pipe(() => ++pulled)
+                            .aggregate((result: number, x) => {
+                                result += x;
+
+                                return result >= 10 ? Enumerable.reduced(result) : result;
+                            }, 0);
+
+        Assert.strictEqual(sum, 10);
+        Assert.strictEqual(pulled, 4);
+    });
@@ -65,3 +65,15 @@ Helpers.execute(
         Assert.notStrictEqual(result3d, 1);
         Assert.equal(result3d, 1);
     });
+
+Helpers.execute(
+    'Testing type guards...',
+    (ctx) => {
+        const isNumber = (x: any): x is number => typeof x === 'number';
+
+        const SEQ: Enumerable.IEnumerable<number | string> = Enumerable.from([1, 2, 3]);
+        const RESULT: boolean = SEQ.all(isNumber);
+
+        Assert.strictEqual(RESULT, true);
+        Assert.strictEqual(Enumerable.from([1, 'a']).all(isNumber), false);
+    });
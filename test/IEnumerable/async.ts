@@ -77,3 +77,62 @@ Helpers.execute(
             });
         }
     });
+
+Helpers.execute(
+    'Testing abort signal...',
+    (ctx) => {
+        let isClosed = false;
+        function* createGenerator() {
+            try {
+                let i = 0;
+                while (true) {
+                    yield i++;
+                }
+            }
+            finally {
+                isClosed = true;
+            }
+        }
+
+        const CONTROLLER = new AbortController();
+
+        let count = 0;
+        Enumerable.from(createGenerator()).async((ctx) => {
+            ++count;
+
+            if (3 === ctx.index) {
+                // abort from "outside"
+                setTimeout(() => CONTROLLER.abort(), 1);
+                return;
+            }
+
+            setTimeout(() => ctx.resolve(), 1);
+        }, undefined, CONTROLLER.signal).then(() => {
+            Assert.fail('Operation should have been aborted');
+        }, (err) => {
+            Assert.ok(err instanceof Enumerable.AbortError);
+            Assert.strictEqual(err.name, 'AbortError');
+            Assert.strictEqual(count, 4);
+            Assert.strictEqual(isClosed, true);
+        });
+    });
+
+Helpers.execute(
+    'Testing aborted signal...',
+    (ctx) => {
+        const CONTROLLER = new AbortController();
+        (<any>CONTROLLER).abort('Test reason');
+
+        let count = 0;
+        Enumerable.range(0, 10).async((ctx) => {
+            ++count;
+
+            ctx.resolve();
+        }, undefined, CONTROLLER.signal).then(() => {
+            Assert.fail('Operation should have been aborted');
+        }, (err) => {
+            Assert.ok(err instanceof Enumerable.AbortError);
+            Assert.strictEqual(err.reason, 'Test reason');
+            Assert.strictEqual(count, 0);
+        });
+    });
@@ -0,0 +1,86 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing numbers...", (ctx) => {
+  const ARR = [5, 3, 9, 1, 7, 3, 8];
+
+  Assert.deepStrictEqual(Enumerable.from(ARR).bottomBy(3).toArray(), [1, 3, 3]);
+  Assert.deepStrictEqual(Enumerable.from(ARR).bottomBy(0).toArray(), []);
+  Assert.deepStrictEqual(
+    Enumerable.from(ARR).bottomBy(100).toArray(),
+    Enumerable.from(ARR).order().toArray(),
+  );
+});
+
+Helpers.execute("Testing missing and infinite counts...", (ctx) => {
+  const ARR = [5, 3, 9, 1, 7, 3, 8];
+  const EXPECTED = [1, 3, 3, 5, 7, 8, 9];
+
+  Assert.deepStrictEqual(Enumerable.from(ARR).bottomBy().toArray(), EXPECTED);
+  Assert.deepStrictEqual(
+    Enumerable.from(ARR).bottomBy(Infinity).toArray(),
+    EXPECTED,
+  );
+});
+
+Helpers.execute("Testing stable ties...", (ctx) => {
+  const ARR = [
+    { name: "a", score: 2 },
+    { name: "b", score: 1 },
+    { name: "c", score: 2 },
+    { name: "d", score: 1 },
+    { name: "e", score: 2 },
+  ];
+
+  const ACTUAL = Enumerable.from(ARR)
+    .bottomBy(4, (x) => x.score)
+    .select((x) => x.name)
+    .joinToString("");
+
+  Assert.strictEqual(ACTUAL, "bdac");
+});
+
+Helpers.execute("Testing same result as orderBy().take()...", (ctx) => {
+  const ARR = Enumerable.range(0, 1000)
+    .select((x) => (x * 7919) % 101)
+    .toArray();
+  const COMPARER = (x: number, y: number) => (x % 10) - (y % 10);
+
+  for (let count of [1, 10, 50, 1000]) {
+    Assert.deepStrictEqual(
+      Enumerable.from(ARR)
+        .bottomBy(count, (x) => x, COMPARER)
+        .toArray(),
+      Enumerable.from(ARR)
+        .toArray()
+        .map((x, i) => [x, i])
+        .sort((x, y) => COMPARER(x[0], y[0]) || x[1] - y[1])
+        .slice(0, count)
+        .map((x) => x[0]),
+    );
+  }
+});
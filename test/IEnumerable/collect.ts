@@ -0,0 +1,294 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+const Collectors = Enumerable.Collectors;
+
+interface Person {
+  age: number;
+  city: string;
+  name: string;
+}
+
+const PERSONS: Person[] = [
+  { age: 31, city: "Berlin", name: "Tanja" },
+  { age: 18, city: "Hamburg", name: "Marcel" },
+  { age: 45, city: "Berlin", name: "Ines" },
+  { age: 27, city: "Hamburg", name: "Bill" },
+  { age: 64, city: "Munich", name: "Jina" },
+];
+
+Helpers.execute("Testing custom collector...", (ctx) => {
+  const LONGEST: Enumerable.Collector<string, string[], string> = {
+    accumulator: (container, item) => {
+      if (!container.length || item.length > container[0].length) {
+        container[0] = item;
+      }
+    },
+    finisher: (container) => container[0],
+    supplier: () => [],
+  };
+
+  Assert.strictEqual(
+    Enumerable.create("a", "abc", "ab", "xyz").collect(LONGEST),
+    "abc",
+  );
+  Assert.strictEqual(Enumerable.empty<string>().collect(LONGEST), undefined);
+});
+
+Helpers.execute("Testing immutable container...", (ctx) => {
+  const SUM: Enumerable.Collector<number, number> = {
+    accumulator: (sum, item) => sum + item,
+    supplier: () => 0,
+  };
+
+  Assert.strictEqual(Enumerable.range(1, 4).collect(SUM), 10);
+  Assert.strictEqual(Enumerable.empty<number>().collect(SUM), 0);
+});
+
+Helpers.execute("Testing single pass...", (ctx) => {
+  let pulled = 0;
+
+  const SEQ = Enumerable.range(0, 5).pipe(() => ++pulled);
+
+  Assert.deepStrictEqual(SEQ.collect(Collectors.toArray()), [0, 1, 2, 3, 4]);
+  Assert.strictEqual(pulled, 5);
+});
+
+Helpers.execute("Testing toArray(), toSet() and toMap()...", (ctx) => {
+  Assert.deepStrictEqual(
+    Enumerable.from(PERSONS)
+      .select((p) => p.name)
+      .collect(Collectors.toArray()),
+    ["Tanja", "Marcel", "Ines", "Bill", "Jina"],
+  );
+
+  const SET = Enumerable.from(PERSONS)
+    .select((p) => p.city)
+    .collect(Collectors.toSet());
+  Assert.ok(SET instanceof Set);
+  Assert.deepStrictEqual(Array.from(SET), ["Berlin", "Hamburg", "Munich"]);
+
+  const MAP = Enumerable.from(PERSONS).collect(
+    Collectors.toMap(
+      (p) => p.name,
+      (p) => p.age,
+    ),
+  );
+  Assert.ok(MAP instanceof Map);
+  Assert.strictEqual(MAP.get("Ines"), 45);
+  Assert.strictEqual(MAP.size, 5);
+
+  Assert.throws(
+    () => Enumerable.from(PERSONS).collect(Collectors.toMap((p) => p.city)),
+    Enumerable.DuplicateKeyError,
+  );
+  Assert.strictEqual(
+    Enumerable.from(PERSONS)
+      .collect(
+        Collectors.toMap((p) => p.city, undefined, { onDuplicate: "last" }),
+      )
+      .get("Berlin").name,
+    "Ines",
+  );
+});
+
+Helpers.execute("Testing joining()...", (ctx) => {
+  Assert.strictEqual(
+    Enumerable.range(1, 3).collect(Collectors.joining()),
+    "123",
+  );
+  Assert.strictEqual(
+    Enumerable.create<any>(1, null, "a").collect(
+      Collectors.joining(", ", "[", "]"),
+    ),
+    "[1, , a]",
+  );
+  Assert.strictEqual(
+    Enumerable.empty().collect(Collectors.joining(", ", "[", "]")),
+    "[]",
+  );
+});
+
+Helpers.execute("Testing counting()...", (ctx) => {
+  Assert.strictEqual(Enumerable.range(0, 7).collect(Collectors.counting()), 7);
+  Assert.strictEqual(Enumerable.empty().collect(Collectors.counting()), 0);
+});
+
+Helpers.execute("Testing groupingBy()...", (ctx) => {
+  const BY_CITY = Enumerable.from(PERSONS).collect(
+    Collectors.groupingBy((p) => p.city),
+  );
+  Assert.ok(BY_CITY instanceof Map);
+  Assert.deepStrictEqual(Array.from(BY_CITY.keys()), [
+    "Berlin",
+    "Hamburg",
+    "Munich",
+  ]);
+  Assert.deepStrictEqual(
+    BY_CITY.get("Hamburg").map((p) => p.name),
+    ["Marcel", "Bill"],
+  );
+
+  const COUNT_BY_CITY = Enumerable.from(PERSONS).collect(
+    Collectors.groupingBy((p) => p.city, Collectors.counting()),
+  );
+  Assert.deepStrictEqual(Array.from(COUNT_BY_CITY), [
+    ["Berlin", 2],
+    ["Hamburg", 2],
+    ["Munich", 1],
+  ]);
+
+  const AGES_BY_CITY = Enumerable.from(PERSONS).collect(
+    Collectors.groupingBy(
+      (p) => p.city,
+      Collectors.summarizing((p: Person) => p.age),
+    ),
+  );
+  Assert.strictEqual(AGES_BY_CITY.get("Berlin").average, 38);
+  Assert.strictEqual(AGES_BY_CITY.get("Hamburg").max, 27);
+});
+
+Helpers.execute("Testing partitioningBy()...", (ctx) => {
+  const [EVEN, ODD] = Enumerable.range(0, 7).collect(
+    Collectors.partitioningBy((x) => x % 2 === 0),
+  );
+
+  Assert.deepStrictEqual(EVEN, [0, 2, 4, 6]);
+  Assert.deepStrictEqual(ODD, [1, 3, 5]);
+
+  Assert.deepStrictEqual(
+    Enumerable.from(PERSONS).collect(
+      Collectors.partitioningBy((p) => p.age >= 30, Collectors.counting()),
+    ),
+    [3, 2],
+  );
+  Assert.deepStrictEqual(
+    Enumerable.empty().collect(Collectors.partitioningBy(() => true)),
+    [[], []],
+  );
+});
+
+Helpers.execute("Testing summarizing()...", (ctx) => {
+  Assert.deepStrictEqual(
+    Enumerable.create(4, 1, 7).collect(Collectors.summarizing()),
+    { average: 4, count: 3, max: 7, min: 1, sum: 12 },
+  );
+
+  const AGES = Enumerable.from(PERSONS).collect(
+    Collectors.summarizing((p) => p.age),
+  );
+  Assert.strictEqual(AGES.count, 5);
+  Assert.strictEqual(AGES.min, 18);
+  Assert.strictEqual(AGES.max, 64);
+  Assert.strictEqual(AGES.sum, 185);
+  Assert.strictEqual(AGES.average, 37);
+
+  const EMPTY = Enumerable.empty<number>().collect(Collectors.summarizing());
+  Assert.strictEqual(EMPTY.count, 0);
+  Assert.strictEqual(EMPTY.sum, 0);
+  Assert.ok(isNaN(EMPTY.average));
+  Assert.ok(isNaN(EMPTY.min));
+  Assert.ok(isNaN(EMPTY.max));
+});
+
+Helpers.execute("Testing combiner...", (ctx) => {
+  const collectParts = <A, R>(
+    collector: Enumerable.Collector<number, A, R>,
+  ): R => {
+    const LEFT = Enumerable.range(0, 3).collect({
+      ...collector,
+      finisher: undefined,
+    });
+    const RIGHT = Enumerable.range(3, 4).collect({
+      ...collector,
+      finisher: undefined,
+    });
+
+    return collector.finisher
+      ? collector.finisher(collector.combiner(LEFT, RIGHT))
+      : <any>collector.combiner(LEFT, RIGHT);
+  };
+
+  Assert.deepStrictEqual(
+    collectParts(Collectors.toArray()),
+    [0, 1, 2, 3, 4, 5, 6],
+  );
+  Assert.strictEqual(collectParts(Collectors.counting()), 7);
+  Assert.strictEqual(collectParts(Collectors.joining("-")), "0-1-2-3-4-5-6");
+  Assert.deepStrictEqual(collectParts(Collectors.summarizing()), {
+    average: 3,
+    count: 7,
+    max: 6,
+    min: 0,
+    sum: 21,
+  });
+  Assert.deepStrictEqual(
+    Array.from(
+      collectParts(Collectors.groupingBy((x) => x % 3, Collectors.counting())),
+    ),
+    [
+      [0, 3],
+      [1, 2],
+      [2, 2],
+    ],
+  );
+  Assert.deepStrictEqual(
+    collectParts(Collectors.partitioningBy((x) => x > 4)),
+    [
+      [5, 6],
+      [0, 1, 2, 3, 4],
+    ],
+  );
+
+  // the container of 'toStack()' is the stack itself
+  Assert.throws(
+    () =>
+      collectParts(Collectors.groupingBy((x) => x % 3, Collectors.toStack([]))),
+    (err: any) =>
+      err instanceof Error &&
+      err.message === "Collector does not support combining",
+  );
+});
+
+Helpers.execute("Testing toStack()...", (ctx) => {
+  const STACK = [1, 2];
+
+  Assert.strictEqual(
+    Enumerable.range(3, 3).collect(Collectors.toStack(STACK)),
+    STACK,
+  );
+  Assert.deepStrictEqual(STACK, [1, 2, 3, 4, 5]);
+
+  // with a custom stack, like 'pushTo()'
+  const PUSHED: string[] = [];
+  Enumerable.create("a", "b").collect(
+    Collectors.toStack({
+      push: (...items: string[]) => PUSHED.push(...items),
+    }),
+  );
+  Assert.deepStrictEqual(PUSHED, ["a", "b"]);
+});
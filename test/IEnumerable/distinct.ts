@@ -85,3 +85,99 @@ Helpers.execute(
             Assert.equal('' + cnt, '' + expected.length);
         });
     });
+
+Helpers.execute(
+    'Testing numbers (with IEqualityComparer)...',
+    (ctx) => {
+        let arr: any[] = [ 1.1, 1.9, 2.5, 3.2, 2.1, 4.0, 3.9 ];
+        let expected: any[] = [ 1.1, 2.5, 3.2, 4.0 ];
+
+        let hashCodes = 0;
+        let e = Enumerable.from(arr).distinct({
+            equals: (x: number, y: number) => Math.floor(x) === Math.floor(y),
+            getHashCode: (x: number) => {
+                ++hashCodes;
+
+                return Math.floor(x);
+            },
+        });
+
+        let actual = e.toArray();
+
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+
+        Assert.strictEqual(hashCodes, arr.length);
+    });
+
+Helpers.execute(
+    'Testing objects and arrays (by value)...',
+    (ctx) => {
+        let arr: any[] = [
+            { a: 1, b: [ 1, 2 ] },
+            { b: [ 1, 2 ], a: 1 },
+            { a: 1, b: [ 2, 1 ] },
+            [ 1, 'x' ],
+            [ 1, 'x' ],
+            [ '1', 'x' ],
+            new Date(1000),
+            new Date(1000),
+            null,
+            undefined,
+        ];
+        let expected: any[] = [ arr[0], arr[2], arr[3], arr[5], arr[6], arr[8] ];
+
+        let actual = Enumerable.from(arr).distinct().toArray();
+
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+    });
+
+Helpers.execute(
+    'Testing cyclic objects...',
+    (ctx) => {
+        let a: any = { name: 'a' };
+        a.self = a;
+        let b: any = { name: 'a' };
+        b.self = b;
+        let c: any = [ 1 ];
+        c.push(c);
+
+        let arr: any[] = [ a, a, b, { child: a }, { child: a }, c, c ];
+        let expected: any[] = [ arr[0], arr[2], arr[3], arr[5] ];
+
+        let actual = Enumerable.from(arr).distinct().toArray();
+
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+    });
+
+Helpers.execute(
+    'Testing symbols inside of arrays...',
+    (ctx) => {
+        let sym = Symbol('a');
+
+        let arr: any[] = [
+            [ sym ],
+            [ sym ],
+            [ Symbol('a') ],
+            [ Symbol.for('b') ],
+            [ Symbol.for('b') ],
+            [ Symbol.iterator ],
+            [ Symbol.iterator ],
+        ];
+        let expected: any[] = [ arr[0], arr[2], arr[3], arr[5] ];
+
+        let actual = Enumerable.from(arr).distinct().toArray();
+
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+    });
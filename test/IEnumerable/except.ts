@@ -86,3 +86,20 @@ Helpers.execute(
             Assert.equal(cntOdd, arrOdd.length);
         }
     });
+
+Helpers.execute(
+    'Testing IEqualityComparer...',
+    (ctx) => {
+        let arr: any[] = [ 'a', 'B', 'b', 'C', 'd', 'A' ];
+        let expected: any[] = [ 'B', 'b', 'd' ];
+
+        let actual = Enumerable.from(arr).except([ 'A', 'c' ], {
+            equals: (x: string, y: string) => x.toLowerCase() === y.toLowerCase(),
+            getHashCode: (x: string) => x.toLowerCase(),
+        }).toArray();
+
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+    });
@@ -61,3 +61,18 @@ Helpers.execute(
             }
         }
     });
+
+Helpers.execute(
+    'Testing type guards...',
+    (ctx) => {
+        const ITEMS: (number | string)[] = [1, 'a', 2, 'b'];
+
+        const FIRST: string = Enumerable.from(ITEMS)
+            .first((x): x is string => typeof x === 'string');
+
+        Assert.strictEqual(FIRST.toUpperCase(), 'A');
+        Assert.throws(() => {
+            Enumerable.from(ITEMS)
+                .first((x): x is never => false);
+        });
+    });
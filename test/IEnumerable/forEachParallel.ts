@@ -0,0 +1,95 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+const MAX_ARRAY_SIZE = 50;
+
+function waitFor(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+Helpers.execute("Testing numbers...", async (ctx) => {
+  for (let concurrency = 1; concurrency <= 8; concurrency *= 2) {
+    ctx.log(`Testing with concurrency of ${concurrency}...`);
+
+    let running = 0;
+    let maxRunning = 0;
+    let handled: number[] = [];
+
+    await Enumerable.range(0, MAX_ARRAY_SIZE).forEachParallel(
+      async (x, index) => {
+        Assert.strictEqual(x, index);
+
+        maxRunning = Math.max(maxRunning, ++running);
+        try {
+          await waitFor(Math.random() * 3);
+
+          handled.push(x);
+        } finally {
+          --running;
+        }
+      },
+      { concurrency },
+    );
+
+    Assert.strictEqual(handled.length, MAX_ARRAY_SIZE);
+    Assert.deepStrictEqual(
+      handled.sort((x, y) => x - y),
+      Enumerable.range(0, MAX_ARRAY_SIZE).toArray(),
+    );
+    Assert.ok(maxRunning <= concurrency);
+  }
+});
+
+Helpers.execute("Testing errors...", async (ctx) => {
+  let err: any;
+  let handled = 0;
+  try {
+    await Enumerable.range(0, 10).forEachParallel(
+      async (x) => {
+        await waitFor(1);
+
+        if (x > 7) {
+          throw new Error("Error #" + x);
+        }
+
+        ++handled;
+      },
+      { concurrency: 4 },
+    );
+  } catch (e) {
+    err = e;
+  }
+
+  Assert.strictEqual(handled, 8);
+
+  Assert.ok(err instanceof Enumerable.AggregateError);
+  Assert.deepStrictEqual(
+    err.errors.map((e: any) => e.index),
+    [8, 9],
+  );
+  Assert.ok(err.errors[0] instanceof Enumerable.FunctionError);
+});
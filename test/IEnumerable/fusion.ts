@@ -0,0 +1,91 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing fused stages...", (ctx) => {
+  let pulled = 0;
+  const SOURCE = Enumerable.range(0, 20).select((x) => {
+    ++pulled;
+    return x;
+  });
+
+  const ACTUAL = SOURCE.where((x) => x % 2 === 0)
+    .skip(2)
+    .select((x) => x * 10)
+    .take(3)
+    .toArray();
+
+  Assert.deepStrictEqual(ACTUAL, [40, 60, 80]);
+  Assert.strictEqual(pulled, 9); // take() stops after its last item
+});
+
+Helpers.execute("Testing re-iterable sequence...", (ctx) => {
+  const SEQ = Enumerable.defer(() => [1, 2, 3, 4, 5, 6])
+    .skip(1)
+    .where((x) => x % 2 === 1)
+    .take(2);
+
+  Assert.deepStrictEqual(SEQ.toArray(), [3, 5]);
+  Assert.deepStrictEqual(SEQ.toArray(), [3, 5]);
+});
+
+Helpers.execute("Testing started sequence...", (ctx) => {
+  const SEQ = Enumerable.from([1, 2, 3, 4, 5]).select((x) => x * 2);
+  SEQ.next();
+
+  Assert.deepStrictEqual(SEQ.where((x) => x > 4).toArray(), [6, 8, 10]);
+});
+
+Helpers.execute("Testing long chains...", (ctx) => {
+  const COUNT = 1000;
+  const STAGES = 8;
+
+  let pulled = 0;
+  let selected = 0;
+
+  let seq = Enumerable.range(0, COUNT).pipe(() => ++pulled);
+  for (let i = 0; i < STAGES; i++) {
+    seq = seq
+      .where((x) => x % 7 !== i)
+      .select((x) => {
+        ++selected;
+        return x + 1;
+      });
+  }
+
+  let expected = Enumerable.range(0, COUNT).toArray();
+  let expectedSelected = 0;
+  for (let i = 0; i < STAGES; i++) {
+    expected = expected.filter((x) => x % 7 !== i).map((x) => x + 1);
+    expectedSelected += expected.length;
+  }
+
+  // each source item is read once and each selector is invoked
+  // once per item, that passes the predicate before it
+  Assert.deepStrictEqual(seq.toArray(), expected);
+  Assert.strictEqual(pulled, COUNT);
+  Assert.strictEqual(selected, expectedSelected);
+});
@@ -104,3 +104,48 @@ Helpers.execute(
             }
         }
     });
+
+Helpers.execute(
+    'Testing composite keys...',
+    (ctx) => {
+        let arr: any[] = [
+            { city: 'Berlin', year: 2017, value: 1 },
+            { city: 'Hamburg', year: 2017, value: 2 },
+            { city: 'Berlin', year: 2018, value: 3 },
+            { city: 'Berlin', year: 2017, value: 4 },
+            { city: 'Hamburg', year: 2017, value: 5 },
+        ];
+
+        let actual = Enumerable.from(arr).groupBy((x) => {
+            return { city: x.city, year: x.year };
+        }).select((grp) => {
+            return grp.key.city + ' ' + grp.key.year + ': ' +
+                   grp.select((x) => x.value).joinToString(',');
+        }).toArray();
+
+        let expected = [ 'Berlin 2017: 1,4', 'Hamburg 2017: 2,5', 'Berlin 2018: 3' ];
+
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+    });
+
+Helpers.execute(
+    'Testing IEqualityComparer...',
+    (ctx) => {
+        let arr: any[] = [ 'a', 'B', 'b', 'A', 'c' ];
+
+        let actual = Enumerable.from(arr).groupBy((x) => x, {
+            equals: (x: string, y: string) => x.toLowerCase() === y.toLowerCase(),
+            getHashCode: (x: string) => x.toLowerCase(),
+        }).select((grp) => grp.key + '=' + grp.joinToString(''))
+          .toArray();
+
+        let expected = [ 'a=aA', 'B=Bb', 'c=c' ];
+
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+    });
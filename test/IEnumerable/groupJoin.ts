@@ -101,3 +101,25 @@ Helpers.execute(
             Assert.equal('' + a, '' + e);
         }
     });
+
+Helpers.execute(
+    'Testing ordered sequences (merge join)...',
+    (ctx) => {
+        let outer: number[] = [ 5, 1, 3, 9, 3, 7, 1 ];
+        let inner: number[] = [ 3, 2, 1, 3, 9, 5, 4, 3, 11 ];
+
+        let byValue = (x: number) => x;
+        let toResult = (o: number, i: Enumerable.IEnumerable<number>) => o + ':' + i.joinToString(',');
+
+        let actual = Enumerable.from(outer).orderBy(byValue)
+                               .groupJoin(Enumerable.from(inner).orderBy(byValue),
+                                          byValue, byValue, toResult)
+                               .toArray();
+
+        let expected = [ '1:1', '1:1', '3:3,3,3', '3:3,3,3', '5:5', '9:9' ];
+
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+    });
@@ -103,3 +103,65 @@ Helpers.execute(
             Assert.equal('' + a, '' + e);
         }
     });
+
+Helpers.execute(
+    'Testing ordered sequences (merge join)...',
+    (ctx) => {
+        let outer: number[] = [ 5, 1, 3, 9, 3, 7, 1 ];
+        let inner: any[] = [ '3', 2, 1, 3, 9, 5, 4, 3, 11 ];
+
+        let byValue = (x: any) => parseInt(x);
+        let toResult = (o: number, i: any) => `${o}:${typeof i}:${i}`;
+
+        let actual = Enumerable.from(outer).orderBy(byValue)
+                               .join(Enumerable.from(inner).orderBy(byValue),
+                                     byValue, byValue, toResult)
+                               .toArray();
+
+        // same items, but without IOrderedEnumerable
+        let expected: any[] = Enumerable.from(outer).orderBy(byValue).toArray();
+        expected = Enumerable.from(expected)
+                             .join(Enumerable.from(inner).orderBy(byValue).toArray(),
+                                   byValue, byValue, toResult)
+                             .toArray();
+
+        Assert.strictEqual(actual.length, 10);
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+    });
+
+Helpers.execute(
+    'Testing IEqualityComparer...',
+    (ctx) => {
+        let outer: string[] = [ 'a', 'B', 'c', 'A' ];
+        let inner: string[] = [ 'b', 'A', 'd', 'a' ];
+
+        let actual = Enumerable.from(outer)
+                               .join(inner, null, null, (o, i) => o + i, {
+                                   equals: (x: string, y: string) => x.toLowerCase() === y.toLowerCase(),
+                                   getHashCode: (x: string) => x.toLowerCase(),
+                               })
+                               .toArray();
+
+        let expected = [ 'aA', 'aa', 'AA', 'Aa', 'Bb' ];
+
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+    });
+
+Helpers.execute(
+    'Testing large sequences...',
+    (ctx) => {
+        let outer = Enumerable.range(0, 50000).toArray();
+        let inner = Enumerable.range(0, 50000).reverse().toArray();
+
+        let count = Enumerable.from(outer)
+                              .join(inner, (x) => x, (x) => x * 2)
+                              .count();
+
+        Assert.strictEqual(count, 25000);
+    });
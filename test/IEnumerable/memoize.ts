@@ -0,0 +1,76 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing lazy caching...", (ctx) => {
+  let pulled = 0;
+  let seq = Enumerable.range(0)
+    .pipe(() => ++pulled)
+    .memoize();
+
+  Assert.strictEqual(pulled, 0);
+
+  Assert.deepStrictEqual(seq.take(3).toArray(), [0, 1, 2]);
+  Assert.strictEqual(pulled, 3);
+
+  Assert.deepStrictEqual(seq.take(2).toArray(), [0, 1]);
+  Assert.strictEqual(pulled, 3);
+
+  Assert.deepStrictEqual(seq.skip(2).take(5).toArray(), [2, 3, 4, 5, 6]);
+  Assert.strictEqual(pulled, 7);
+});
+
+Helpers.execute("Testing multiple consumers...", (ctx) => {
+  for (let i = 0; i < 20; i++) {
+    let arr = Enumerable.range(0, i).toArray();
+
+    let pulled = 0;
+    let seq = Enumerable.from(arr)
+      .pipe(() => ++pulled)
+      .memoize();
+
+    let iterator1 = seq[Symbol.iterator]();
+    let iterator2 = seq[Symbol.iterator]();
+
+    let items1: number[] = [];
+    let items2: number[] = [];
+    while (true) {
+      let item1 = iterator1.next();
+      let item2 = iterator2.next();
+      if (item1.done && item2.done) {
+        break;
+      }
+
+      items1.push(item1.value);
+      items2.push(item2.value);
+    }
+
+    Assert.deepStrictEqual(items1, arr);
+    Assert.deepStrictEqual(items2, arr);
+    Assert.deepStrictEqual(seq.toArray(), arr);
+    Assert.strictEqual(pulled, i);
+  }
+});
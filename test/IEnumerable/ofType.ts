@@ -119,3 +119,35 @@ Helpers.execute(
             }
         }
     });
+
+class Animal {
+    constructor(public name: string) { }
+}
+
+class Cat extends Animal {
+    meow() {
+        return this.name + ' says meow';
+    }
+}
+
+class Dog extends Animal {
+}
+
+Helpers.execute(
+    'Testing classes...',
+    (ctx) => {
+        const TOM = new Cat('Tom');
+        const ITEMS: any[] = [new Dog('Rex'), TOM, 'Tom', null, undefined, 42, new Animal('Bob'), new Cat('Kitty')];
+
+        const CATS: Cat[] = Enumerable.from(ITEMS).ofType(Cat).toArray();
+        Assert.strictEqual(CATS.length, 2);
+        Assert.strictEqual(CATS[0], TOM);
+        Assert.strictEqual(CATS[1].meow(), 'Kitty says meow');
+
+        Assert.strictEqual(Enumerable.from(ITEMS).ofType(Animal).count(), 4);
+        Assert.strictEqual(Enumerable.from(ITEMS).ofType(Date).count(), 0);
+
+        // 'instanceof' is used, so primitives are no instances of their wrappers
+        Assert.strictEqual(Enumerable.from(ITEMS).ofType(Number).count(), 0);
+        Assert.strictEqual(Enumerable.from(ITEMS).ofType('number').count(), 1);
+    });
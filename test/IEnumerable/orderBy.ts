@@ -85,3 +85,29 @@ Helpers.execute(
             Assert.strictEqual(A, '' + E);
         }
     });
+
+Helpers.execute(
+    'Testing deferred sorting...',
+    (ctx) => {
+        let arr: number[] = [ 3, 1, 2 ];
+
+        let selectorCalls = 0;
+        let e = Enumerable.from(arr).orderBy((x) => {
+            ++selectorCalls;
+
+            return x;
+        });
+
+        arr.push(0);  // sequence is not loaded, yet
+
+        Assert.strictEqual(selectorCalls, 0);
+
+        let actual = e.toArray();
+        let expected = [ 0, 1, 2, 3 ];
+
+        Assert.strictEqual(selectorCalls, expected.length);
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+    });
@@ -0,0 +1,59 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing items...", (ctx) => {
+  Assert.deepStrictEqual(Enumerable.create(1, 2, 4, 7).pairwise().toArray(), [
+    [1, 2],
+    [2, 4],
+    [4, 7],
+  ]);
+  Assert.deepStrictEqual(Enumerable.create(1).pairwise().toArray(), []);
+  Assert.deepStrictEqual(Enumerable.empty().pairwise().toArray(), []);
+  Assert.deepStrictEqual(
+    Enumerable.create(1, 2, 4, 7)
+      .pairwise()
+      .select(([prev, current]) => current - prev)
+      .toArray(),
+    [1, 2, 3],
+  );
+});
+
+Helpers.execute("Testing infinite sequences...", (ctx) => {
+  let pulled = 0;
+
+  const PAIRS = Enumerable.range(0, Infinity)
+    .pipe(() => ++pulled)
+    .pairwise()
+    .take(2)
+    .toArray();
+
+  Assert.deepStrictEqual(PAIRS, [
+    [0, 1],
+    [1, 2],
+  ]);
+  Assert.strictEqual(pulled, 3);
+});
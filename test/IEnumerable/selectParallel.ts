@@ -0,0 +1,119 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+const MAX_ARRAY_SIZE = 50;
+
+function waitFor(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+Helpers.execute("Testing numbers...", async (ctx) => {
+  for (let concurrency = 1; concurrency <= 8; concurrency *= 2) {
+    ctx.log(`Testing with concurrency of ${concurrency}...`);
+
+    let arr: number[] = [];
+    for (let j = 0; j < MAX_ARRAY_SIZE; j++) {
+      arr.push(j);
+    }
+
+    let running = 0;
+    let maxRunning = 0;
+
+    let result = await Enumerable.from(arr)
+      .selectParallel(
+        async (x, index) => {
+          Assert.strictEqual(x, index);
+
+          maxRunning = Math.max(maxRunning, ++running);
+          try {
+            await waitFor(Math.random() * 3);
+
+            return x * 2;
+          } finally {
+            --running;
+          }
+        },
+        { concurrency },
+      )
+      .toArray();
+
+    Assert.deepStrictEqual(
+      result,
+      arr.map((x) => x * 2),
+    );
+    Assert.ok(maxRunning <= concurrency);
+    Assert.ok(maxRunning > 0);
+  }
+});
+
+Helpers.execute("Testing completion order...", async (ctx) => {
+  let result = await Enumerable.create(30, 1, 20, 10)
+    .selectParallel(
+      async (x) => {
+        await waitFor(x * 10);
+
+        return x;
+      },
+      { concurrency: 4, preserveOrder: false },
+    )
+    .toArray();
+
+  Assert.deepStrictEqual(result, [1, 10, 20, 30]);
+});
+
+Helpers.execute("Testing errors...", async (ctx) => {
+  let err: any;
+  let result: number[] = [];
+  try {
+    for await (let item of Enumerable.range(0, 10).selectParallel(
+      (x) => {
+        if (0 === x % 3) {
+          throw "Error #" + x;
+        }
+
+        return x;
+      },
+      { concurrency: 3 },
+    )) {
+      result.push(item);
+    }
+  } catch (e) {
+    err = e;
+  }
+
+  Assert.deepStrictEqual(result, [1, 2, 4, 5, 7, 8]);
+
+  Assert.ok(err instanceof Enumerable.AggregateError);
+  Assert.deepStrictEqual(
+    err.errors.map((e: any) => e.index),
+    [0, 3, 6, 9],
+  );
+  for (let e of err.errors) {
+    Assert.ok(e instanceof Enumerable.FunctionError);
+    Assert.strictEqual(e.innerError, "Error #" + e.index);
+  }
+});
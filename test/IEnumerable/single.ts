@@ -59,3 +59,18 @@ Helpers.execute(
             Assert.strictEqual(exceptionThrown, expectException);
         }
     });
+
+Helpers.execute(
+    'Testing type guards...',
+    (ctx) => {
+        const ITEMS: (number | string)[] = [1, 'a', 2];
+
+        const SINGLE: string = Enumerable.from(ITEMS)
+            .single((x): x is string => typeof x === 'string');
+
+        Assert.strictEqual(SINGLE.toUpperCase(), 'A');
+        Assert.throws(() => {
+            Enumerable.from(ITEMS)
+                .single((x): x is number => typeof x === 'number');
+        });
+    });
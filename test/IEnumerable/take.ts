@@ -61,3 +61,68 @@ Helpers.execute(
             }
         }
     });
+
+Helpers.execute(
+    'Testing ordered sequence...',
+    (ctx) => {
+        let arr: number[] = [ 5, 1, 4, 1, 3, 9, 2, 6 ];
+
+        let ordered = Enumerable.from(arr).orderBy(x => x);
+
+        let actual = ordered.take(3).toArray();
+        let expected = [ 1, 1, 2 ];
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+
+        actual = Enumerable.from(arr).orderByDescending(x => x)
+                                     .thenBy(x => x)
+                                     .take(2)
+                                     .toArray();
+        expected = [ 9, 6 ];
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+
+        // enumeration has already been started
+        ordered.next();
+        actual = ordered.take(2).toArray();
+        expected = [ 1, 2 ];
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+    });
+
+Helpers.execute(
+    'Testing number of read items...',
+    (ctx) => {
+        let readItems = 0;
+        let createItems = function* () {
+            for (let i = 0; i < 10; i++) {
+                ++readItems;
+                yield i;
+            }
+        };
+
+        let actual = Enumerable.from(createItems()).take(3).toArray();
+        Assert.deepStrictEqual(actual, [ 0, 1, 2 ]);
+        Assert.strictEqual(readItems, 3);
+
+        readItems = 0;
+        actual = Enumerable.from(createItems()).take(0).toArray();
+        Assert.deepStrictEqual(actual, [ ]);
+        Assert.strictEqual(readItems, 0);
+
+        readItems = 0;
+        actual = Enumerable.from(createItems()).take(3).where(x => x % 2 === 0).toArray();
+        Assert.deepStrictEqual(actual, [ 0, 2 ]);
+        Assert.strictEqual(readItems, 3);
+
+        readItems = 0;
+        actual = Enumerable.from(createItems()).where(x => x % 2 === 1).take(2).toArray();
+        Assert.deepStrictEqual(actual, [ 1, 3 ]);
+        Assert.strictEqual(readItems, 4);
+    });
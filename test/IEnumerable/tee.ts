@@ -0,0 +1,65 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing items...", (ctx) => {
+  for (let i = 0; i < 20; i++) {
+    let arr = Enumerable.range(0, i).toArray();
+
+    for (let count = 0; count < 4; count++) {
+      let sequences = Enumerable.from(arr).tee(count);
+
+      Assert.strictEqual(sequences.length, count);
+      for (let seq of sequences) {
+        Assert.deepStrictEqual(seq.toArray(), arr);
+      }
+    }
+
+    Assert.strictEqual(Enumerable.from(arr).tee().length, 2);
+  }
+});
+
+Helpers.execute("Testing infinite sequences...", (ctx) => {
+  let pulled = 0;
+  let [seq1, seq2, seq3] = Enumerable.build((cancel, index) => {
+    ++pulled;
+
+    return index * 10;
+  }).tee(3);
+
+  Assert.deepStrictEqual(seq1.take(3).toArray(), [0, 10, 20]);
+  Assert.strictEqual(pulled, 3);
+
+  Assert.deepStrictEqual(seq2.take(2).toArray(), [0, 10]);
+  Assert.strictEqual(pulled, 3);
+
+  Assert.deepStrictEqual(seq3.take(5).toArray(), [0, 10, 20, 30, 40]);
+  Assert.strictEqual(pulled, 5);
+
+  // the sequences continue where they have been stopped
+  Assert.deepStrictEqual(seq1.take(2).toArray(), [30, 40]);
+  Assert.deepStrictEqual(seq2.take(2).toArray(), [20, 30]);
+});
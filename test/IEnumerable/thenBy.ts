@@ -112,3 +112,49 @@ Helpers.execute(
             Assert.strictEqual('' + actual.length, '' + expected.length);
         }
     });
+
+Helpers.execute(
+    'Testing multiple levels (one sort)...',
+    (ctx) => {
+        let arr: any[] = [
+            { a: 2, b: 'x', c: 1 },
+            { a: 1, b: 'y', c: 2 },
+            { a: 2, b: 'x', c: 3 },
+            { a: 1, b: 'x', c: 4 },
+            { a: 2, b: 'w', c: 5 },
+        ];
+
+        let keyCalls = 0;
+        let byA = (x: any) => {
+            ++keyCalls;
+            return x.a;
+        };
+        let byB = (x: any) => {
+            ++keyCalls;
+            return x.b;
+        };
+
+        let ordered = Enumerable.from(arr).orderBy(byA);
+        let actual = ordered.thenBy(byB)
+                            .select(x => x.c)
+                            .toArray();
+
+        // each key once per item and level, stable for equal keys
+        let expected = [ 4, 2, 5, 1, 3 ];
+
+        Assert.strictEqual(keyCalls, arr.length * 2);
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+
+        // first level still works with the loaded items
+        actual = ordered.select(x => x.c)
+                        .toArray();
+        expected = [ 2, 4, 1, 3, 5 ];
+
+        Assert.strictEqual(actual.length, expected.length);
+        for (let i = 0; i < actual.length; i++) {
+            Assert.strictEqual(actual[i], expected[i]);
+        }
+    });
@@ -61,9 +61,7 @@ Helpers.execute(
         ];
 
         let actual: Group[] = [];
-        for (let k in lu) {
-            let grouping = lu[k];
-
+        for (let grouping of lu) {
             let g: Group = {
                 key: grouping.key,
                 values: [],
@@ -104,10 +102,9 @@ Helpers.execute(
             }
         }
 
-        let l: any = lu;
         for (let i = 0; i < expected.length; i++) {
             let e = expected[i];
-            let a = l[e.key];
+            let a = lu.get(<any>e.key);
 
             Assert.notStrictEqual(a, undefined);
             Assert.notEqual(a, undefined);
@@ -132,3 +129,67 @@ Helpers.execute(
             Assert.equal(actual2.length, e.values.length);
         }
     });
+
+Helpers.execute(
+    'Testing keys...',
+    (ctx) => {
+        const OBJ1 = { id: 1 };
+        const OBJ2 = { id: 1 };
+
+        let lu = Enumerable.create<any>(1, '1', OBJ1, OBJ2, OBJ1, NaN, NaN)
+                           .toLookup(x => x);
+
+        Assert.strictEqual(lu.count(), 5);
+        // count() does not consume the lookup
+        Assert.strictEqual(lu.count(), 5);
+        Assert.strictEqual(lu.select(g => g.key).toArray().length, 5);
+        Assert.strictEqual(lu.reset().count(g => g.count() > 1), 2);
+        Assert.deepStrictEqual(lu.get(1).toArray(), [1]);
+        Assert.deepStrictEqual(lu.get('1').toArray(), ['1']);
+        Assert.deepStrictEqual(lu.get(OBJ1).toArray(), [OBJ1, OBJ1]);
+        Assert.deepStrictEqual(lu.get(OBJ2).toArray(), [OBJ2]);
+        Assert.strictEqual(lu.get(NaN).count(), 2);
+
+        Assert.ok(lu.has(OBJ2));
+        Assert.ok(!lu.has({ id: 1 }));
+        Assert.ok(!lu.has(2));
+        Assert.deepStrictEqual(lu.get(2).toArray(), []);
+
+        // get() returns a new sequence each time
+        Assert.strictEqual(lu.get(OBJ1).count(), 2);
+        Assert.strictEqual(lu.get(OBJ1).count(), 2);
+    });
+
+Helpers.execute(
+    'Testing groupings...',
+    (ctx) => {
+        let lu = Enumerable.create('Bill', 'Marcel', 'barney', 'Albert')
+                           .toLookup(x => x[0].toUpperCase());
+
+        let keys = lu.select(g => g.key + ':' + g.count()).toArray();
+        Assert.deepStrictEqual(keys, ['B:2', 'M:1', 'A:1']);
+
+        // groupings can be enumerated again, after a reset
+        keys = lu.reset().select(g => g.key + ':' + g.joinToString(',')).toArray();
+        Assert.deepStrictEqual(keys, ['B:Bill,barney', 'M:Marcel', 'A:Albert']);
+    });
+
+Helpers.execute(
+    'Testing comparer...',
+    (ctx) => {
+        let lu = Enumerable.create('Bill', 'Marcel', 'barney')
+                           .toLookup(x => x[0], {
+                               equals: (x, y) => x.toUpperCase() === y.toUpperCase(),
+                               getHashCode: (x) => x.toUpperCase(),
+                           });
+
+        Assert.strictEqual(lu.count(), 2);
+        Assert.deepStrictEqual(lu.get('b').toArray(), ['Bill', 'barney']);
+        Assert.ok(lu.has('m'));
+
+        let lu2 = Enumerable.create(1, 2, 3, 4)
+                            .toLookup(x => x, (x, y) => x % 2 === y % 2);
+
+        Assert.deepStrictEqual(lu2.select(g => g.key).toArray(), [1, 2]);
+        Assert.deepStrictEqual(lu2.get(5).toArray(), [1, 3]);
+    });
@@ -0,0 +1,103 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+const PERSONS = [
+  { name: "Tanja", city: "Berlin" },
+  { name: "Marcel", city: "Berlin" },
+  { name: "Jana", city: "Hamburg" },
+];
+
+Helpers.execute("Testing keys and values...", (ctx) => {
+  const MAP = Enumerable.from(PERSONS).toMap(
+    (x) => x.name,
+    (x) => x.city,
+  );
+
+  Assert.ok(MAP instanceof Map);
+  Assert.deepStrictEqual(Array.from(MAP.entries()), [
+    ["Tanja", "Berlin"],
+    ["Marcel", "Berlin"],
+    ["Jana", "Hamburg"],
+  ]);
+
+  const BY_ITEM = Enumerable.from(PERSONS).toMap((x) => x);
+  Assert.strictEqual(BY_ITEM.size, 3);
+  Assert.strictEqual(BY_ITEM.get(PERSONS[1]), PERSONS[1]);
+
+  // 1 and '1' are different keys
+  const MIXED = Enumerable.create<any>(1, "1").toMap((x) => x);
+  Assert.strictEqual(MIXED.size, 2);
+});
+
+Helpers.execute("Testing duplicate keys...", (ctx) => {
+  const SEQ = Enumerable.from(PERSONS);
+
+  Assert.throws(
+    () => SEQ.reset().toMap((x) => x.city),
+    (err: any) => {
+      return (
+        err instanceof Enumerable.DuplicateKeyError &&
+        err.key === "Berlin" &&
+        err.message.indexOf("Berlin") > -1
+      );
+    },
+  );
+  Assert.throws(
+    () => SEQ.reset().toMap((x) => x.city, null, { onDuplicate: "throw" }),
+    Enumerable.DuplicateKeyError,
+  );
+
+  const FIRST = SEQ.reset().toMap(
+    (x) => x.city,
+    (x) => x.name,
+    { onDuplicate: "first" },
+  );
+  Assert.strictEqual(FIRST.get("Berlin"), "Tanja");
+
+  const LAST = SEQ.reset().toMap(
+    (x) => x.city,
+    (x) => x.name,
+    { onDuplicate: "last" },
+  );
+  Assert.strictEqual(LAST.get("Berlin"), "Marcel");
+
+  const KEYS: string[] = [];
+  const MERGED = SEQ.reset().toMap(
+    (x) => x.city,
+    (x) => [x.name],
+    {
+      onDuplicate: (existingValue, newValue, key) => {
+        KEYS.push(key);
+
+        return existingValue.concat(newValue);
+      },
+    },
+  );
+  Assert.deepStrictEqual(MERGED.get("Berlin"), ["Tanja", "Marcel"]);
+  Assert.deepStrictEqual(MERGED.get("Hamburg"), ["Jana"]);
+  Assert.deepStrictEqual(KEYS, ["Berlin"]);
+});
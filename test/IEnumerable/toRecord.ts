@@ -0,0 +1,86 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing keys and values...", (ctx) => {
+  const RECORD = Enumerable.create("a", "bb", "ccc").toRecord(
+    (x) => x.length,
+    (x) => x.toUpperCase(),
+  );
+
+  Assert.deepStrictEqual(RECORD, { 1: "A", 2: "BB", 3: "CCC" });
+
+  const SYM = Symbol("sym");
+  const WITH_SYMBOL = Enumerable.create<PropertyKey>(SYM, "x").toRecord(
+    (x) => x,
+    () => true,
+  );
+  Assert.strictEqual(WITH_SYMBOL[SYM], true);
+  Assert.strictEqual(WITH_SYMBOL["x"], true);
+
+  // no prototype pollution
+  const PROTO = Enumerable.create("__proto__").toRecord(
+    (x) => x,
+    () => 1,
+  );
+  Assert.strictEqual(Object.getPrototypeOf(PROTO), Object.prototype);
+  Assert.deepStrictEqual(Object.keys(PROTO), ["__proto__"]);
+});
+
+Helpers.execute("Testing duplicate keys...", (ctx) => {
+  // 1 and '1' are the same property
+  Assert.throws(
+    () => Enumerable.create<any>(1, "1").toRecord((x) => x),
+    (err: any) => {
+      return err instanceof Enumerable.DuplicateKeyError && err.key === "1";
+    },
+  );
+
+  Assert.deepStrictEqual(
+    Enumerable.create(1, 2, 3, 4).toRecord(
+      (x) => (x % 2 ? "odd" : "even"),
+      (x) => x,
+      { onDuplicate: "first" },
+    ),
+    { odd: 1, even: 2 },
+  );
+  Assert.deepStrictEqual(
+    Enumerable.create(1, 2, 3, 4).toRecord(
+      (x) => (x % 2 ? "odd" : "even"),
+      (x) => x,
+      { onDuplicate: "last" },
+    ),
+    { odd: 3, even: 4 },
+  );
+  Assert.deepStrictEqual(
+    Enumerable.create(1, 2, 3, 4).toRecord(
+      (x) => (x % 2 ? "odd" : "even"),
+      (x) => x,
+      { onDuplicate: (x, y) => x + y },
+    ),
+    { odd: 4, even: 6 },
+  );
+});
@@ -0,0 +1,97 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing numbers...", (ctx) => {
+  const ARR = [5, 3, 9, 1, 7, 3, 8];
+
+  Assert.deepStrictEqual(Enumerable.from(ARR).topBy(3).toArray(), [9, 8, 7]);
+  Assert.deepStrictEqual(Enumerable.from(ARR).topBy(-1).toArray(), []);
+});
+
+Helpers.execute("Testing missing and infinite counts...", (ctx) => {
+  const ARR = [5, 3, 9, 1, 7, 3, 8];
+  const EXPECTED = [9, 8, 7, 5, 3, 3, 1];
+
+  Assert.deepStrictEqual(Enumerable.from(ARR).topBy().toArray(), EXPECTED);
+  Assert.deepStrictEqual(
+    Enumerable.from(ARR)
+      .topBy(undefined, (x) => x)
+      .toArray(),
+    EXPECTED,
+  );
+  Assert.deepStrictEqual(Enumerable.from(ARR).topBy(null).toArray(), EXPECTED);
+  Assert.deepStrictEqual(
+    Enumerable.from(ARR).topBy(Infinity).toArray(),
+    EXPECTED,
+  );
+  Assert.deepStrictEqual(Enumerable.from(ARR).topBy(-Infinity).toArray(), []);
+});
+
+Helpers.execute("Testing stable ties...", (ctx) => {
+  const ARR = [
+    { name: "a", score: 2 },
+    { name: "b", score: 1 },
+    { name: "c", score: 2 },
+    { name: "d", score: 1 },
+    { name: "e", score: 2 },
+  ];
+
+  const ACTUAL = Enumerable.from(ARR)
+    .topBy(4, (x) => x.score)
+    .select((x) => x.name)
+    .joinToString("");
+
+  Assert.strictEqual(ACTUAL, "aceb");
+});
+
+Helpers.execute("Testing comparer...", (ctx) => {
+  const ARR = ["ccc", "a", "dddd", "bb"];
+
+  const ACTUAL = Enumerable.from(ARR)
+    .topBy(
+      2,
+      (x) => x,
+      (x, y) => x.length - y.length,
+    )
+    .toArray();
+
+  Assert.deepStrictEqual(ACTUAL, ["dddd", "ccc"]);
+});
+
+Helpers.execute("Testing large sequence...", (ctx) => {
+  let keys = 0;
+
+  const ACTUAL = Enumerable.range(0, 100000)
+    .topBy(5, (x) => {
+      ++keys;
+      return x % 1000;
+    })
+    .toArray();
+
+  Assert.deepStrictEqual(ACTUAL, [999, 1999, 2999, 3999, 4999]);
+  Assert.strictEqual(keys, 100000);
+});
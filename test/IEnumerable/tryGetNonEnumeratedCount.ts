@@ -0,0 +1,95 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+Helpers.execute("Testing arrays and ranges...", (ctx) => {
+  const SEQ = Enumerable.from([1, 2, 3, 4]);
+
+  Assert.strictEqual(SEQ.tryGetNonEnumeratedCount(), 4);
+  SEQ.next();
+  Assert.strictEqual(SEQ.tryGetNonEnumeratedCount(), 3);
+  Assert.strictEqual(SEQ.current.value, 1);
+
+  Assert.strictEqual(
+    Enumerable.range(5, 1000).tryGetNonEnumeratedCount(),
+    1000,
+  );
+  Assert.strictEqual(Enumerable.range(5, -1).tryGetNonEnumeratedCount(), 0);
+  Assert.strictEqual(Enumerable.range(5).tryGetNonEnumeratedCount(), false);
+
+  const GENERATOR = function* () {
+    yield 1;
+  };
+  Assert.strictEqual(
+    Enumerable.from(GENERATOR()).tryGetNonEnumeratedCount(),
+    false,
+  );
+});
+
+Helpers.execute("Testing fast paths (same state as enumeration)...", (ctx) => {
+  const ITEMS = ["a", "b", "c", "d", "e"];
+
+  const CREATE_SEQUENCES = () => [
+    Enumerable.from(ITEMS),
+    Enumerable.from(ITEMS[Symbol.iterator]()),
+  ];
+
+  const CHECK = (action: (seq: Enumerable.IEnumerable<string>) => any) => {
+    const RESULTS = CREATE_SEQUENCES().map((seq) => {
+      seq.next(); // start at 2nd item
+
+      const RESULT = action(seq);
+      const NEXT = seq.next();
+
+      return [RESULT, seq.current.done, NEXT.done];
+    });
+
+    Assert.deepStrictEqual(RESULTS[0], RESULTS[1]);
+  };
+
+  CHECK((seq) => seq.count());
+  CHECK((seq) => seq.elementAt(2));
+  CHECK((seq) => seq.elementAtOrDefault(10, "z"));
+  CHECK((seq) => seq.last());
+  CHECK((seq) => seq.lastOrDefault("z"));
+  CHECK((seq) => seq.lastOrDefault((x) => x < "c", "z"));
+  CHECK((seq) => seq.skip(2).toArray());
+  CHECK((seq) => seq.skip(10).toArray());
+  CHECK((seq) => seq.reverse().toArray());
+});
+
+Helpers.execute("Testing large ranges...", (ctx) => {
+  const SEQ = Enumerable.range(10, 100000000);
+
+  Assert.strictEqual(SEQ.elementAt(99999999), 100000009);
+
+  Assert.strictEqual(Enumerable.range(10, 100000000).count(), 100000000);
+  Assert.strictEqual(Enumerable.range(10, 100000000).last(), 100000009);
+  Assert.deepStrictEqual(
+    Enumerable.range(10, 100000000).skip(99999998).toArray(),
+    [100000008, 100000009],
+  );
+});
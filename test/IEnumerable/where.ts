@@ -98,3 +98,20 @@ Helpers.execute(
             }
         }
     });
+
+Helpers.execute(
+    'Testing type guards...',
+    (ctx) => {
+        const ITEMS: (number | string)[] = [1, 'a', 2, 'b', 3];
+
+        const NUMBERS: number[] = Enumerable.from(ITEMS)
+            .where((x): x is number => typeof x === 'number')
+            .toArray();
+        const STRINGS: string[] = Enumerable.from(ITEMS)
+            .where((x): x is string => typeof x === 'string')
+            .select(x => x.toUpperCase())
+            .toArray();
+
+        Assert.deepStrictEqual(NUMBERS, [1, 2, 3]);
+        Assert.deepStrictEqual(STRINGS, ['A', 'B']);
+    });
@@ -0,0 +1,108 @@
+// The MIT License (MIT)
+//
+// node-enumerable (https://github.com/mkloubert/node-enumerable)
+// Copyright (c) Marcel Joachim Kloubert <marcel.kloubert@gmx.net>
+//
+// Permission is hereby granted, free of charge, to any person obtaining a copy
+// of this software and associated documentation files (the "Software"), to
+// deal in the Software without restriction, including without limitation the
+// rights to use, copy, modify, merge, publish, distribute, sublicense, and/or
+// sell copies of the Software, and to permit persons to whom the Software is
+// furnished to do so, subject to the following conditions:
+//
+// The above copyright notice and this permission notice shall be included in
+// all copies or substantial portions of the Software.
+//
+// THE SOFTWARE IS PROVIDED "AS IS", WITHOUT WARRANTY OF ANY KIND, EXPRESS OR
+// IMPLIED, INCLUDING BUT NOT LIMITED TO THE WARRANTIES OF MERCHANTABILITY,
+// FITNESS FOR A PARTICULAR PURPOSE AND NONINFRINGEMENT. IN NO EVENT SHALL THE
+// AUTHORS OR COPYRIGHT HOLDERS BE LIABLE FOR ANY CLAIM, DAMAGES OR OTHER
+// LIABILITY, WHETHER IN AN ACTION OF CONTRACT, TORT OR OTHERWISE, ARISING
+// FROM, OUT OF OR IN CONNECTION WITH THE SOFTWARE OR THE USE OR OTHER
+// DEALINGS IN THE SOFTWARE.
+
+import Assert = require("assert");
+import Enumerable = require("../../");
+import Helpers = require("../helpers");
+
+const toArrays = <T>(
+  windows: Enumerable.IEnumerable<Enumerable.IEnumerable<T>>,
+) => windows.select((w) => w.toArray()).toArray();
+
+Helpers.execute("Testing sliding windows...", (ctx) => {
+  Assert.deepStrictEqual(toArrays(Enumerable.range(1, 5).windowed(3)), [
+    [1, 2, 3],
+    [2, 3, 4],
+    [3, 4, 5],
+  ]);
+  Assert.deepStrictEqual(toArrays(Enumerable.range(1, 6).windowed(3, 2)), [
+    [1, 2, 3],
+    [3, 4, 5],
+  ]);
+  Assert.deepStrictEqual(toArrays(Enumerable.range(1, 2).windowed(3)), []);
+  Assert.deepStrictEqual(toArrays(Enumerable.empty().windowed(2)), []);
+});
+
+Helpers.execute("Testing tumbling windows and gaps...", (ctx) => {
+  Assert.deepStrictEqual(toArrays(Enumerable.range(1, 7).windowed(3, 3)), [
+    [1, 2, 3],
+    [4, 5, 6],
+  ]);
+  Assert.deepStrictEqual(toArrays(Enumerable.range(1, 10).windowed(2, 4)), [
+    [1, 2],
+    [5, 6],
+    [9, 10],
+  ]);
+});
+
+Helpers.execute("Testing partial windows...", (ctx) => {
+  Assert.deepStrictEqual(
+    toArrays(Enumerable.range(1, 5).windowed(3, 1, { partial: true })),
+    [[1, 2, 3], [2, 3, 4], [3, 4, 5], [4, 5], [5]],
+  );
+  Assert.deepStrictEqual(
+    toArrays(Enumerable.range(1, 7).windowed(3, 3, { partial: true })),
+    [[1, 2, 3], [4, 5, 6], [7]],
+  );
+  Assert.deepStrictEqual(
+    toArrays(Enumerable.range(1, 2).windowed(3, 1, { partial: true })),
+    [[1, 2], [2]],
+  );
+  Assert.deepStrictEqual(
+    toArrays(Enumerable.range(1, 5).windowed(2, 4, { partial: true })),
+    [[1, 2], [5]],
+  );
+});
+
+Helpers.execute("Testing infinite sequences...", (ctx) => {
+  let pulled = 0;
+
+  const WINDOWS = Enumerable.build((cancel, index) => index)
+    .pipe(() => ++pulled)
+    .windowed(4, 2)
+    .select((w) => w.sum())
+    .take(3)
+    .toArray();
+
+  Assert.deepStrictEqual(WINDOWS, [6, 14, 22]);
+  Assert.strictEqual(pulled, 8);
+});
+
+Helpers.execute("Testing re-iterable sequences...", (ctx) => {
+  const SEQ = Enumerable.defer(() => [1, 2, 3]).windowed(2);
+
+  Assert.deepStrictEqual(toArrays(SEQ), [
+    [1, 2],
+    [2, 3],
+  ]);
+  Assert.deepStrictEqual(toArrays(SEQ), [
+    [1, 2],
+    [2, 3],
+  ]);
+});
+
+Helpers.execute("Testing invalid arguments...", (ctx) => {
+  Assert.throws(() => Enumerable.range(1, 5).windowed(0), RangeError);
+  Assert.throws(() => Enumerable.range(1, 5).windowed(2, 0), RangeError);
+  Assert.throws(() => Enumerable.range(1, 5).windowed(2, -1), RangeError);
+});
@@ -22,6 +22,7 @@
 // DEALINGS IN THE SOFTWARE.
 
 import Enumerable = require("../");
+import Events = require("events");
 
 /**
  * A result of a "sequence execution".
@@ -85,6 +86,33 @@ export function createSequences<T>(
   ];
 }
 
+/**
+ * Creates an async sequence, which emits items at specific times
+ * of a scheduler.
+ *
+ * @param {Enumerable.IScheduler} scheduler The scheduler.
+ * @param {[number, T][]} items The items, with the times when they are emitted.
+ * @param {number} endTime The time when the sequence ends.
+ *
+ * @return {Enumerable.IAsyncEnumerable<T>} The new sequence.
+ */
+export function createTimedSequence<T>(
+  scheduler: Enumerable.IScheduler,
+  items: [number, T][],
+  endTime: number,
+): Enumerable.IAsyncEnumerable<T> {
+  let emitter = new Events.EventEmitter();
+
+  for (let [time, item] of items) {
+    scheduler.schedule(() => emitter.emit("item", item), time);
+  }
+  scheduler.schedule(() => emitter.emit("end"), endTime);
+
+  return Enumerable.fromEvent<T>(emitter, "item", {
+    endEvent: "end",
+  });
+}
+
 /**
  * Executes an action and prints the execution time.
  *
@@ -24,7 +24,12 @@
 import FS = require("fs");
 import Path = require("path");
 
-let libs: string[] = ["./Functions", "./IEnumerable"];
+let libs: string[] = [
+  "./Collections",
+  "./Functions",
+  "./IAsyncEnumerable",
+  "./IEnumerable",
+];
 
 console.log("Starting tests...");
 